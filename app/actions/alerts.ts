@@ -0,0 +1,158 @@
+'use server'
+
+import type { AlertChannel, AlertCondition, AlertRule, AlertRuleInput } from '@/types/alerts';
+import { getHealthCheck } from '@/lib/checks/registry';
+import { createAlertRuleId, deliverAlert, getAlertRuleStore, getAppBaseUrl } from '@/lib/alerts';
+import { buildAlert } from '@/lib/alerts/rules';
+import { getReportStore, createReportId } from '@/lib/reports';
+import type { StoredReport } from '@/types/reports';
+
+/**
+ * Server action to list alert rules, oldest first
+ */
+export async function listAlertRules(): Promise<AlertRule[]> {
+    return getAlertRuleStore().list();
+}
+
+/**
+ * Server action to add an alert rule
+ */
+export async function createAlertRule(input: AlertRuleInput): Promise<AlertRule> {
+    const rule: AlertRule = {
+        ...validateAlertRuleInput(input),
+        id: createAlertRuleId(),
+        enabled: true,
+        createdAt: Date.now()
+    };
+
+    await getAlertRuleStore().save(rule);
+    return rule;
+}
+
+/**
+ * Server action to pause or resume an alert rule
+ */
+export async function setAlertRuleEnabled(ruleId: string, enabled: boolean): Promise<AlertRule> {
+    const rule = await getExistingRule(ruleId);
+    const updated: AlertRule = { ...rule, enabled };
+
+    await getAlertRuleStore().save(updated);
+    return updated;
+}
+
+/**
+ * Server action to remove an alert rule
+ */
+export async function deleteAlertRule(ruleId: string): Promise<void> {
+    await getAlertRuleStore().delete(ruleId);
+}
+
+/**
+ * Server action to send a sample alert through a rule's channel, using the
+ * latest stored result for the rule's check when there is one
+ * @throws With the receiver's error when delivery fails
+ */
+export async function sendTestAlert(ruleId: string): Promise<void> {
+    const rule = await getExistingRule(ruleId);
+    const report = await getSampleReport(rule);
+
+    const alert = buildAlert(rule, { summary: `Test alert for "${rule.name}"` }, report, undefined, getAppBaseUrl());
+    await deliverAlert(alert, rule.channel);
+}
+
+async function getExistingRule(ruleId: string): Promise<AlertRule> {
+    const rule = await getAlertRuleStore().get(ruleId);
+    if (!rule) {
+        throw new Error('Alert rule not found');
+    }
+    return rule;
+}
+
+async function getSampleReport(rule: AlertRule): Promise<StoredReport> {
+    const reports = await getReportStore().list(rule.url ? { url: rule.url } : {});
+    const latest = reports
+        .filter(report => report.id === rule.condition.checkId && report.status !== 'running' && report.status !== 'pending')
+        .sort((a, b) => b.timestamp - a.timestamp)[0];
+
+    if (latest) return latest;
+
+    const check = getHealthCheck(rule.condition.checkId);
+    return {
+        id: rule.condition.checkId,
+        label: check?.label ?? rule.condition.checkId,
+        status: 'warning',
+        score: 50,
+        message: 'Sample result for a test alert',
+        details: [{ type: 'warning', message: 'Sample issue' }],
+        timestamp: Date.now(),
+        reportId: createReportId(rule.condition.checkId),
+        url: rule.url || 'https://example.com',
+        savedAt: Date.now()
+    };
+}
+
+function validateAlertRuleInput(input: AlertRuleInput): AlertRuleInput {
+    const name = input.name.trim();
+    if (!name) {
+        throw new Error('Give the rule a name');
+    }
+
+    const url = input.url?.trim() || undefined;
+    if (url && !isHttpUrl(url)) {
+        throw new Error('Please enter a valid URL');
+    }
+
+    return { name, url, condition: validateCondition(input.condition), channel: validateChannel(input.channel) };
+}
+
+function validateCondition(condition: AlertCondition): AlertCondition {
+    if (!getHealthCheck(condition.checkId)) {
+        throw new Error(`Unknown check type: ${condition.checkId}`);
+    }
+
+    switch (condition.type) {
+        case 'score-below':
+            if (!(condition.threshold > 0 && condition.threshold <= 100)) {
+                throw new Error('Threshold must be between 1 and 100');
+            }
+            return { type: condition.type, checkId: condition.checkId, threshold: condition.threshold };
+        case 'score-drop':
+            if (!(condition.points >= 0 && condition.points < 100)) {
+                throw new Error('Score drop must be between 0 and 99 points');
+            }
+            return { type: condition.type, checkId: condition.checkId, points: condition.points };
+        case 'new-issues':
+            return { type: condition.type, checkId: condition.checkId, minSeverity: condition.minSeverity || undefined };
+        default:
+            throw new Error('Unknown alert condition');
+    }
+}
+
+function validateChannel(channel: AlertChannel): AlertChannel {
+    switch (channel.type) {
+        case 'webhook':
+        case 'slack':
+            if (!isHttpUrl(channel.url)) {
+                throw new Error('Please enter a valid webhook URL');
+            }
+            return { type: channel.type, url: channel.url.trim() };
+        case 'email': {
+            const to = channel.to.map(address => address.trim()).filter(Boolean);
+            if (to.length === 0 || to.some(address => !/^[^\s@]+@[^\s@]+$/.test(address))) {
+                throw new Error('Please enter valid email addresses');
+            }
+            return { type: 'email', to };
+        }
+        default:
+            throw new Error('Unknown alert channel');
+    }
+}
+
+function isHttpUrl(value: string): boolean {
+    try {
+        const parsed = new URL(value.trim());
+        return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+    } catch {
+        return false;
+    }
+}
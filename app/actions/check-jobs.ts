@@ -0,0 +1,13 @@
+'use server'
+
+import { cancelCheckJobs as cancelJobs } from '@/lib/check-jobs';
+
+/**
+ * Server action to abort in-flight checks
+ * @param jobIds - Job ids passed to the check actions
+ */
+export async function cancelCheckJobs(jobIds: string[]): Promise<{ cancelled: number }> {
+    const cancelled = cancelJobs(jobIds);
+    console.log(`[Check Jobs] Cancelled ${cancelled} of ${jobIds.length} jobs`);
+    return { cancelled };
+}
@@ -1,74 +1,35 @@
 'use server'
 
-import FirecrawlApp from "@mendable/firecrawl-js";
 import type { CrawlData } from '@/types/crawl';
+import type { CheckRunOptions } from '@/types/checks';
+import { getCrawler } from '@/lib/crawlers';
+import { startCheckJob } from '@/lib/check-jobs';
 
 /**
- * Server action to crawl a URL using Firecrawl
+ * Server action to crawl a URL using the configured crawler backend
+ * @param url - The URL to crawl
+ * @param options - Job id for cancellation and timeout
  */
-export async function crawlUrl(url: string): Promise<CrawlData> {
+export async function crawlUrl(url: string, options: CheckRunOptions = {}): Promise<CrawlData> {
     if (!url) {
         throw new Error('URL is required');
     }
 
-    const firecrawl = new FirecrawlApp({
-        apiKey: process.env.FIRECRAWL_API_KEY
-    });
-
-    if (!process.env.FIRECRAWL_API_KEY) {
-        throw new Error('Firecrawl API key not configured');
-    }
+    const crawler = getCrawler();
+    const job = startCheckJob(options);
 
     try {
-        // Scrape the URL with various options for comprehensive analysis
-        const scrapeResult = await firecrawl.scrapeUrl(url, {
-            formats: ["markdown", "html"],
-            includeTags: ["title", "meta", "link", "script", "img", "a"],
-            onlyMainContent: false,
-            waitFor: 2000
-        });
-
-        if (!scrapeResult.success) {
-            console.error("Firecrawl scrape failed:", scrapeResult);
-            throw new Error(scrapeResult.error || 'Failed to crawl URL');
-        }
-
-        console.log("Firecrawl response structure:", {
-            hasHtml: !!scrapeResult.html,
-            hasMarkdown: !!scrapeResult.markdown,
-            responseKeys: Object.keys(scrapeResult)
-        });
-
-        // Extract useful data for health checks
-        const crawlData: CrawlData = {
-            url: url,
-            title: scrapeResult.metadata?.title || scrapeResult.title || "",
-            description: scrapeResult.metadata?.description || scrapeResult.description || "",
-            keywords: scrapeResult.metadata?.keywords || "",
-            ogTitle: scrapeResult.metadata?.ogTitle || "",
-            ogDescription: scrapeResult.metadata?.ogDescription || "",
-            ogImage: scrapeResult.metadata?.ogImage || "",
-            html: scrapeResult.html || "",
-            markdown: scrapeResult.markdown || "",
-            statusCode: scrapeResult.metadata?.statusCode || 200,
-            responseTime: scrapeResult.metadata?.responseTime || 0,
-            screenshot: scrapeResult.screenshot || null,
-            links: (scrapeResult.links || []).map((link: unknown) => {
-                if (typeof link === 'string') {
-                    return { text: '', href: link };
-                }
-                if (link && typeof link === 'object' && 'text' in link && 'href' in link) {
-                    return link as { text: string; href: string };
-                }
-                return { text: '', href: '' };
-            }),
-            metadata: scrapeResult.metadata || {}
-        };
+        console.log(`[Crawler] Crawling ${url} with ${crawler.name} backend`);
+        job.step('crawl-start', `Crawl started (${crawler.name})`);
 
-        return crawlData;
+        const data = await crawler.crawl(url, job.signal);
+        job.step('crawl-html', `HTML received (${Math.round(data.html.length / 1024)} KB)`);
 
+        return data;
     } catch (error) {
         console.error("Crawling error:", error);
         throw error instanceof Error ? error : new Error('Unknown crawling error');
+    } finally {
+        job.finish();
     }
 }
@@ -0,0 +1,64 @@
+'use server'
+
+import type { IssueExportFormat, ReportExportFile, ReportExportOptions } from '@/types/export';
+import type { StoredReport } from '@/types/reports';
+import { getReportStore, isValidReportId } from '@/lib/reports';
+import { RUNNING_REPORT_TIMEOUT_MS } from '@/lib/reports/lookup';
+import { getReportBranding } from '@/lib/export/branding';
+import { buildExportDocument, getExportFileName } from '@/lib/export/document';
+import { renderHtmlReport } from '@/lib/export/html';
+import { flattenIssues, formatIssuesCsv, formatIssuesJson } from '@/lib/export/issues';
+import { renderPdfReport } from '@/lib/export/pdf';
+
+/**
+ * Server action to render a stored run as a branded PDF or standalone HTML file
+ * @throws When the run doesn't exist or a check is still running
+ */
+export async function exportRun(runId: string, options: ReportExportOptions): Promise<ReportExportFile> {
+    const now = Date.now();
+    const reports = await getFinishedRun(runId, now);
+    const document = buildExportDocument(reports, options, await getReportBranding(), now);
+
+    if (options.format === 'pdf') {
+        const pdf = await renderPdfReport(document);
+        return {
+            filename: getExportFileName(document, 'pdf'),
+            contentType: 'application/pdf',
+            data: pdf.toString('base64')
+        };
+    }
+
+    return {
+        filename: getExportFileName(document, 'html'),
+        contentType: 'text/html;charset=utf-8',
+        data: Buffer.from(renderHtmlReport(document), 'utf-8').toString('base64')
+    };
+}
+
+/**
+ * Server action to download every issue of a run as one CSV or JSON table
+ * @throws When the run doesn't exist or a check is still running
+ */
+export async function exportRunIssues(runId: string, format: IssueExportFormat): Promise<ReportExportFile> {
+    const reports = await getFinishedRun(runId, Date.now());
+    const rows = flattenIssues(reports);
+    const runAt = Math.min(...reports.map(report => report.timestamp));
+    const filename = getExportFileName({ url: reports[0].url, runAt }, format, 'issues');
+
+    return format === 'csv'
+        ? { filename, contentType: 'text/csv;charset=utf-8', data: Buffer.from(formatIssuesCsv(rows), 'utf-8').toString('base64') }
+        : { filename, contentType: 'application/json', data: Buffer.from(formatIssuesJson(rows), 'utf-8').toString('base64') };
+}
+
+async function getFinishedRun(runId: string, now: number): Promise<StoredReport[]> {
+    const reports = isValidReportId(runId) ? await getReportStore().list({ runId }) : [];
+    if (reports.length === 0) {
+        throw new Error('Run not found');
+    }
+
+    if (reports.some(report => (report.status === 'running' || report.status === 'pending') && now - report.savedAt <= RUNNING_REPORT_TIMEOUT_MS)) {
+        throw new Error('The run is still in progress. Export it once every check has finished.');
+    }
+
+    return reports;
+}
@@ -0,0 +1,114 @@
+'use server'
+
+import type { Monitor, MonitorInput } from '@/types/monitors';
+import { getHealthCheck } from '@/lib/checks/registry';
+import { createMonitorId, getMonitorStore, getNextRunAt, isMonitorSchedule } from '@/lib/monitors';
+import { startMonitorRun } from '@/lib/monitors/runner';
+
+/**
+ * Server action to list registered monitors, oldest first
+ */
+export async function listMonitors(): Promise<Monitor[]> {
+    return getMonitorStore().list();
+}
+
+/**
+ * Server action to register a URL for scheduled checks.
+ * The first run starts right away.
+ */
+export async function createMonitor(input: MonitorInput): Promise<Monitor> {
+    const now = Date.now();
+    const monitor: Monitor = {
+        ...validateMonitorInput(input),
+        id: createMonitorId(),
+        enabled: true,
+        createdAt: now,
+        nextRunAt: now
+    };
+
+    await getMonitorStore().save(monitor);
+    startMonitorRun(monitor, now);
+
+    return monitor;
+}
+
+/**
+ * Server action to change a monitor's URL, schedule or checks.
+ * A new schedule applies from the last run (or now, if it never ran).
+ */
+export async function updateMonitor(monitorId: string, input: MonitorInput): Promise<Monitor> {
+    const monitor = await getExistingMonitor(monitorId);
+    const valid = validateMonitorInput(input);
+    const updated: Monitor = {
+        ...monitor,
+        ...valid,
+        nextRunAt: getNextRunAt(valid.schedule, monitor.lastRunAt ?? Date.now())
+    };
+
+    await getMonitorStore().save(updated);
+    return updated;
+}
+
+/**
+ * Server action to pause or resume a monitor. Resuming an overdue monitor
+ * runs it on the scheduler's next tick.
+ */
+export async function setMonitorEnabled(monitorId: string, enabled: boolean): Promise<Monitor> {
+    const monitor = await getExistingMonitor(monitorId);
+    const updated: Monitor = { ...monitor, enabled };
+
+    await getMonitorStore().save(updated);
+    return updated;
+}
+
+/**
+ * Server action to remove a monitor. Reports of its past runs are kept.
+ */
+export async function deleteMonitor(monitorId: string): Promise<void> {
+    await getMonitorStore().delete(monitorId);
+}
+
+/**
+ * Server action to run a monitor now instead of waiting for its schedule.
+ * The run continues in the background. Fails if the monitor is already running.
+ * @returns Run id of the new run
+ */
+export async function runMonitorNow(monitorId: string): Promise<string> {
+    const monitor = await getExistingMonitor(monitorId);
+    return startMonitorRun(monitor).runId;
+}
+
+async function getExistingMonitor(monitorId: string): Promise<Monitor> {
+    const monitor = await getMonitorStore().get(monitorId);
+    if (!monitor) {
+        throw new Error('Monitor not found');
+    }
+    return monitor;
+}
+
+function validateMonitorInput(input: MonitorInput): MonitorInput {
+    let parsed: URL;
+    try {
+        parsed = new URL(input.url.trim());
+    } catch {
+        throw new Error('Please enter a valid URL');
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        throw new Error('Only http and https URLs can be monitored');
+    }
+
+    if (!isMonitorSchedule(input.schedule)) {
+        throw new Error(`Unknown schedule: ${input.schedule}`);
+    }
+
+    const checks = [...new Set(input.checks)];
+    const unknown = checks.filter(checkId => !getHealthCheck(checkId));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown check type: ${unknown.join(', ')}`);
+    }
+    if (checks.length === 0) {
+        throw new Error('Select at least one check');
+    }
+
+    return { url: parsed.toString(), schedule: input.schedule, checks };
+}
@@ -0,0 +1,85 @@
+'use server'
+
+import type { HealthCheckResult } from '@/types/crawl';
+import type { ReportCrawlMetadata, ReportLookup, StoredReport } from '@/types/reports';
+import { getReportStore, createReportId, createRunId } from '@/lib/reports';
+import { lookupReport as lookupStoredReport } from '@/lib/reports/lookup';
+import { reserveReport as reserveStoredReport, runCheckReport } from '@/lib/check-runner';
+import { processReportAlerts } from '@/lib/alerts';
+
+/**
+ * Server action to persist a completed check result for the report page
+ * @param result - The check result (must carry a reportId and url)
+ * @param context - Metadata of the crawl the result was produced from and the run it belongs to
+ */
+export async function saveReport(
+    result: HealthCheckResult,
+    context: { crawl?: ReportCrawlMetadata; runId?: string } = {}
+): Promise<void> {
+    if (!result.reportId || !result.url) {
+        throw new Error('Report id and URL are required to store a report');
+    }
+
+    const report: StoredReport = {
+        ...result,
+        // Live progress is only meaningful while the check runs
+        steps: undefined,
+        reportId: result.reportId,
+        url: result.url,
+        runId: context.runId,
+        crawl: context.crawl,
+        savedAt: Date.now()
+    };
+
+    await getReportStore().save(report);
+
+    // Delivered in the background so slow alert receivers don't hold up the client
+    void processReportAlerts(report);
+}
+
+/**
+ * Server action to mark a report as running before its check starts
+ * @param checkId - The check being run
+ * @param url - The URL being checked
+ * @param reportId - Id the finished report will be saved under
+ * @param runId - Run the report belongs to
+ */
+export async function reserveReport(checkId: string, url: string, reportId: string, runId?: string): Promise<void> {
+    await reserveStoredReport(checkId, url, reportId, runId);
+}
+
+/**
+ * Server action to load a stored report and its state
+ * (found, still running, expired or not found)
+ */
+export async function lookupReport(reportId: string): Promise<ReportLookup> {
+    try {
+        return await lookupStoredReport(getReportStore(), reportId);
+    } catch (error) {
+        console.error(`[Reports] Error loading report ${reportId}:`, error);
+        throw new Error('Failed to load report');
+    }
+}
+
+/**
+ * Server action to run a report's check again for the same URL.
+ * The run continues in the background; the new report shows as
+ * "running" until it finishes.
+ * @returns Id of the new report
+ */
+export async function rerunReport(reportId: string): Promise<string> {
+    const previous = await getReportStore().get(reportId);
+    if (!previous) {
+        throw new Error('Report not found');
+    }
+
+    const newReportId = createReportId(previous.id);
+    const runId = createRunId();
+    await reserveStoredReport(previous.id, previous.url, newReportId, runId);
+
+    void runCheckReport(previous.id, previous.url, { reportId: newReportId, runId }).catch(error => {
+        console.error(`[Reports] Re-run of ${reportId} failed:`, error);
+    });
+
+    return newReportId;
+}
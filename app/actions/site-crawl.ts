@@ -0,0 +1,50 @@
+'use server'
+
+import type { SiteCrawlOptions } from '@/types/crawl';
+import type { CheckRunOptions } from '@/types/checks';
+import { getCrawler } from '@/lib/crawlers';
+import { startCheckJob } from '@/lib/check-jobs';
+import { toReportCrawlMetadata } from '@/lib/reports';
+import { crawlSite, type SiteDiscoveryHints, type SiteDiscoveryResult } from '@/lib/site-crawler';
+import { discoverFromSitemaps, isAllowedByRobots } from '@/lib/sitemap';
+
+/**
+ * Server action to discover the pages of a site by following same-origin
+ * links and/or reading robots.txt and sitemap.xml
+ * @param url - The start URL
+ * @param options - Discovery source, depth, page limit and include/exclude path patterns
+ * @param runOptions - Job id for cancellation and timeout
+ * @returns The crawled pages (URL, depth and crawl metadata, without HTML) and any pages that failed
+ */
+export async function discoverSitePages(
+    url: string,
+    options: Partial<SiteCrawlOptions> = {},
+    runOptions: CheckRunOptions = {}
+): Promise<SiteDiscoveryResult> {
+    if (!url) {
+        throw new Error('URL is required');
+    }
+
+    const crawler = getCrawler();
+    console.log(`[Site Crawler] Starting site crawl of ${url} with ${crawler.name} backend`, options);
+
+    const job = startCheckJob(runOptions);
+    const hints: SiteDiscoveryHints = { signal: job.signal };
+
+    try {
+        if (options.discovery === 'sitemap' || options.discovery === 'both') {
+            const { robots, urls } = await discoverFromSitemaps(url, { signal: job.signal });
+            hints.seedUrls = urls;
+            hints.isAllowed = pageUrl => isAllowedByRobots(robots, pageUrl);
+        }
+
+        const { pages, skipped } = await crawlSite(url, options, pageUrl => crawler.crawl(pageUrl, job.signal), hints);
+
+        return {
+            pages: pages.map(page => ({ url: page.url, depth: page.depth, crawl: toReportCrawlMetadata(page.crawlData) })),
+            skipped
+        };
+    } finally {
+        job.finish();
+    }
+}
@@ -1,60 +1,40 @@
 'use server'
 
 import { HealthCheckResult } from '@/types/crawl';
+import type { CheckRunOptions } from '@/types/checks';
+import { startCheckJob } from '@/lib/check-jobs';
+import { getPageHtml } from '@/lib/crawlers';
+import { createReportId } from '@/lib/reports';
 import {
     analyzeAccessibility,
-    calculateAccessibilityScore
+    calculateAccessibilityScore,
+    generateAccessibilityRecommendations
 } from '@/lib/validators/accessibility';
 import {
     runAxeAnalysis,
     isAxeAvailable
 } from '@/lib/axe';
 
-/**
- * Helper function to fetch HTML content for validation
- */
-async function getHtmlContent(url: string, providedHtml?: string): Promise<string> {
-    if (providedHtml) {
-        return providedHtml;
-    }
-
-    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
-    const crawlResponse = await fetch(`${baseUrl}/api/crawl`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url }),
-    });
-
-    if (!crawlResponse.ok) {
-        throw new Error('Failed to crawl URL for validation');
-    }
-
-    const crawlData = await crawlResponse.json();
-    const htmlContent = crawlData.data?.html;
-
-    if (!htmlContent) {
-        throw new Error('No HTML content found to validate');
-    }
-
-    return htmlContent;
-}
-
 /**
  * Server action to validate accessibility of a webpage
  * @param url - The URL to validate
  * @param html - Optional HTML content (if already crawled)
+ * @param options - Job id for cancellation and timeout
  * @returns HealthCheckResult with accessibility analysis
  */
 export async function validateAccessibility(
     url: string,
-    html?: string
+    html?: string,
+    options: CheckRunOptions = {}
 ): Promise<HealthCheckResult> {
+    const job = startCheckJob(options);
+
     try {
         // Check if Axe is available
         const useAxe = isAxeAvailable();
 
         let score: number;
-        let issues: Array<{ type: string; message: string; severity?: 'critical' | 'serious' | 'moderate' | 'minor'; impact?: string; wcagGuideline?: string }>;
+        let issues: Array<{ type: string; ruleId?: string; message: string; element?: string; severity?: 'critical' | 'serious' | 'moderate' | 'minor'; impact?: string; wcagGuideline?: string }>;
         let dataSource: string;
 
         if (useAxe) {
@@ -62,12 +42,16 @@ export async function validateAccessibility(
             console.log('[Accessibility Validator] Using Axe for accessibility analysis');
 
             try {
-                const htmlContent = await getHtmlContent(url, html);
-                const axeResult = await runAxeAnalysis(htmlContent, url);
+                const htmlContent = await getPageHtml(url, html, job.signal);
+                const axeResult = await runAxeAnalysis(htmlContent, url, (evaluated, total) => {
+                    job.step('axe', `Evaluated ${evaluated} of ${total} axe rules`, { current: evaluated, total });
+                });
                 score = axeResult.score;
                 issues = axeResult.issues.map(issue => ({
                     type: issue.type,
+                    ruleId: issue.ruleId,
                     message: issue.message,
+                    element: issue.element,
                     severity: (issue.impact || 'moderate') as 'critical' | 'serious' | 'moderate' | 'minor',
                     impact: issue.impact,
                     wcagGuideline: issue.wcagTags?.join(', ')
@@ -77,7 +61,8 @@ export async function validateAccessibility(
             } catch (axeError) {
                 console.warn('[Accessibility Validator] Axe analysis failed, falling back to local analysis:', axeError);
                 // Fallback to local analysis
-                const htmlContent = await getHtmlContent(url, html);
+                job.step('local', 'Axe failed, running local accessibility checks');
+                const htmlContent = await getPageHtml(url, html, job.signal);
                 issues = await analyzeAccessibility(htmlContent);
                 score = calculateAccessibilityScore(issues);
                 dataSource = 'Local Analysis (Axe Fallback)';
@@ -85,7 +70,8 @@ export async function validateAccessibility(
         } else {
             // Use local analysis
             console.log('[Accessibility Validator] Axe not available, using local analysis');
-            const htmlContent = await getHtmlContent(url, html);
+            job.step('local', 'Running local accessibility checks');
+            const htmlContent = await getPageHtml(url, html, job.signal);
             issues = await analyzeAccessibility(htmlContent);
             score = calculateAccessibilityScore(issues);
             dataSource = 'Local Analysis';
@@ -105,6 +91,9 @@ export async function validateAccessibility(
             : status === 'warning'
                 ? `Found ${moderateCount} moderate accessibility issues.`
                 : 'No significant accessibility issues found.';
+
+        job.signal.throwIfAborted();
+
         return {
             id: 'accessibility',
             label: 'Accessibility Check',
@@ -112,11 +101,16 @@ export async function validateAccessibility(
             score,
             message,
             timestamp: Date.now(),
-            details: issues.slice(0, 20).map(issue => ({
+            details: issues.map(issue => ({
                 type: issue.type as 'error' | 'warning' | 'info',
-                message: `${issue.message}${issue.wcagGuideline ? ` (${issue.wcagGuideline})` : ''}`
+                message: `${issue.message}${issue.wcagGuideline ? ` (${issue.wcagGuideline})` : ''}`,
+                ruleId: issue.ruleId,
+                element: issue.element,
+                severity: issue.severity,
+                wcagGuideline: issue.wcagGuideline
             })),
-            reportId: `accessibility-${Date.now()}`,
+            recommendations: generateAccessibilityRecommendations(issues),
+            reportId: options.reportId ?? createReportId('accessibility'),
             dataSource,
             url
         };
@@ -133,5 +127,7 @@ export async function validateAccessibility(
             message: error instanceof Error ? error.message : 'Unknown error occurred',
             timestamp: Date.now()
         };
+    } finally {
+        job.finish();
     }
 }
@@ -1,84 +1,75 @@
 'use server'
 
-import { HealthCheckResult } from '@/types/crawl';
+import { BoundingBox, HealthCheckResult } from '@/types/crawl';
+import type { CheckRunOptions } from '@/types/checks';
+import { rethrowIfAborted, startCheckJob } from '@/lib/check-jobs';
+import { getPageHtml } from '@/lib/crawlers';
+import { createReportId } from '@/lib/reports';
 import {
     analyzeContrast,
-    calculateContrastScore
+    calculateContrastScore,
+    generateContrastRecommendations
 } from '@/lib/validators/contrast';
-import {
-    runAxeContrastAnalysis,
-    isAxeAvailable
-} from '@/lib/axe';
-
-/**
- * Helper function to fetch HTML content for validation
- */
-async function getHtmlContent(url: string, providedHtml?: string): Promise<string> {
-    if (providedHtml) {
-        return providedHtml;
-    }
-
-    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
-    const crawlResponse = await fetch(`${baseUrl}/api/crawl`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url }),
-    });
-
-    if (!crawlResponse.ok) {
-        throw new Error('Failed to crawl URL for validation');
-    }
-
-    const crawlData = await crawlResponse.json();
-    const htmlContent = crawlData.data?.html;
-
-    if (!htmlContent) {
-        throw new Error('No HTML content found to validate');
-    }
-
-    return htmlContent;
-}
+import { analyzeRenderedContrast, isRenderingAvailable } from '@/lib/validators/rendered-contrast';
 
 export async function validateContrast(
     url: string,
-    html?: string
+    html?: string,
+    options: CheckRunOptions = {}
 ): Promise<HealthCheckResult> {
-    try {
-        // Check if Axe is available
-        const useAxe = isAxeAvailable();
+    const job = startCheckJob(options);
 
+    try {
         let score: number;
-        let issues: Array<{ type: string; message: string; element?: string; impact?: string }>;
+        let issues: Array<{
+            type: string;
+            ruleId?: string;
+            message: string;
+            element?: string;
+            impact?: string;
+            selector?: string;
+            boundingBox?: BoundingBox;
+        }>;
         let dataSource: string;
+        let renderedIssues: typeof issues | null = null;
+        let renderingFailure: string | undefined;
 
-        if (useAxe) {
-            // Use Axe for professional contrast analysis
-            console.log('[Contrast Validator] Using Axe for contrast analysis');
+        if (isRenderingAvailable()) {
+            // Measure against the pixels of the rendered page when Chromium is installed
+            console.log('[Contrast Validator] Using headless Chromium for rendered analysis');
 
             try {
-                const htmlContent = await getHtmlContent(url, html);
-                const axeResult = await runAxeContrastAnalysis(htmlContent, url);
-                score = axeResult.score;
-                issues = axeResult.issues;
-                dataSource = 'Axe DevTools';
-                console.log(`[Contrast Validator] Axe returned score: ${score}, issues: ${issues.length}`);
-            } catch (axeError) {
-                console.warn('[Contrast Validator] Axe analysis failed, falling back to local analysis:', axeError);
-                // Fallback to local analysis
-                const htmlContent = await getHtmlContent(url, html);
-                issues = await analyzeContrast(htmlContent);
-                score = calculateContrastScore(issues);
-                dataSource = 'Local Analysis (Axe Fallback)';
+                job.step('render', 'Rendering page in headless Chromium');
+                renderedIssues = await analyzeRenderedContrast(url, job.signal);
+            } catch (renderError) {
+                rethrowIfAborted(job.signal);
+                console.warn('[Contrast Validator] Rendered analysis failed, falling back:', renderError);
+                renderingFailure = renderError instanceof Error ? renderError.message : 'Unknown error';
             }
+        }
+
+        if (renderedIssues) {
+            issues = renderedIssues;
+            score = calculateContrastScore(issues);
+            dataSource = 'Rendered Page (Chromium)';
         } else {
-            // Use local analysis
-            console.log('[Contrast Validator] Axe not available, using local analysis');
-            const htmlContent = await getHtmlContent(url, html);
-            issues = await analyzeContrast(htmlContent);
+            // Axe isn't used here: JSDOM has no layout, so its color-contrast rule
+            // can't see backgrounds and reports nothing. The local analyzer
+            // resolves the stylesheets itself.
+            job.step('local', 'Computing contrast ratios');
+            const htmlContent = await getPageHtml(url, html, job.signal);
+            issues = await analyzeContrast(htmlContent, url, job.signal);
             score = calculateContrastScore(issues);
             dataSource = 'Local Analysis';
         }
 
+        if (renderingFailure) {
+            issues.unshift({
+                type: 'info',
+                message: `Rendered analysis failed (${renderingFailure}); contrast was computed from the HTML and CSS instead`
+            });
+        }
+
         const errorCount = issues.filter(issue => issue.type === 'error').length;
         const warningCount = issues.filter(issue => issue.type === 'warning').length;
 
@@ -89,6 +80,8 @@ export async function validateContrast(
                 ? `Found ${warningCount} contrast warnings.`
                 : 'Contrast is good.';
 
+        job.signal.throwIfAborted();
+
         return {
             id: 'contrast',
             label: 'Contrast Checker',
@@ -96,11 +89,16 @@ export async function validateContrast(
             score,
             message,
             timestamp: Date.now(),
-            details: issues.slice(0, 15).map(issue => ({
+            details: issues.map(issue => ({
                 type: issue.type as 'error' | 'warning' | 'info',
-                message: issue.message
+                message: issue.message,
+                ruleId: issue.ruleId,
+                element: issue.element,
+                selector: issue.selector,
+                boundingBox: issue.boundingBox
             })),
-            reportId: `contrast-${Date.now()}`,
+            recommendations: generateContrastRecommendations(issues),
+            reportId: options.reportId ?? createReportId('contrast'),
             dataSource,
             url
         };
@@ -115,5 +113,7 @@ export async function validateContrast(
             message: error instanceof Error ? error.message : 'Unknown error occurred',
             timestamp: Date.now()
         };
+    } finally {
+        job.finish();
     }
 }
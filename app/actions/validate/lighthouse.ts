@@ -1,14 +1,28 @@
 'use server'
 
 import { HealthCheckResult } from '@/types/crawl';
-import { runLighthouse } from '@/lib/validators/lighthouse';
+import type { CheckRunOptions } from '@/types/checks';
+import { startCheckJob } from '@/lib/check-jobs';
+import { createReportId } from '@/lib/reports';
+import {
+    runLighthouse,
+    generateLighthouseRecommendations
+} from '@/lib/validators/lighthouse';
 
-export async function validateLighthouse(url: string, strategy: 'mobile' | 'desktop' = 'desktop'): Promise<HealthCheckResult> {
+export async function validateLighthouse(
+    url: string,
+    strategy: 'mobile' | 'desktop' = 'desktop',
+    options: CheckRunOptions = {}
+): Promise<HealthCheckResult> {
     console.log(`[validateLighthouse] Starting validation for ${url} with strategy: ${strategy}`);
 
+    const job = startCheckJob(options);
+
     try {
         // Run Lighthouse with specified strategy (defaults to desktop)
-        const result = await runLighthouse(url, strategy);
+        job.step('pagespeed', `PageSpeed Insights request pending (${strategy})`);
+        const result = await runLighthouse(url, strategy, job.signal);
+        job.step('pagespeed', 'PageSpeed Insights response received');
 
         console.log('[validateLighthouse] Received Lighthouse result:', result);
 
@@ -35,8 +49,9 @@ export async function validateLighthouse(url: string, strategy: 'mobile' | 'desk
                 { type: 'info', message: `Best Practices: ${result.bestPractices}/100` },
                 { type: 'info', message: `SEO: ${result.seo}/100` }
             ],
-            reportId: `lighthouse-${Date.now()}`,
-            dataSource: process.env.GOOGLE_PAGESPEED_API_KEY ? `Google PageSpeed Insights (${strategyLabel})` : 'Simulated',
+            recommendations: generateLighthouseRecommendations(result),
+            reportId: options.reportId ?? createReportId('lighthouse'),
+            dataSource: result.simulated ? 'Simulated' : `Google PageSpeed Insights (${strategyLabel})`,
             url
         };
 
@@ -58,5 +73,7 @@ export async function validateLighthouse(url: string, strategy: 'mobile' | 'desk
             message: error instanceof Error ? error.message : 'Unknown error occurred',
             timestamp: Date.now()
         };
+    } finally {
+        job.finish();
     }
 }
@@ -1,9 +1,14 @@
 'use server'
 
 import { HealthCheckResult } from '@/types/crawl';
+import type { CheckRunOptions } from '@/types/checks';
+import { startCheckJob } from '@/lib/check-jobs';
+import { getPageHtml } from '@/lib/crawlers';
+import { createReportId } from '@/lib/reports';
 import {
     validateMarkup,
-    calculateMarkupScore
+    calculateMarkupScore,
+    generateMarkupRecommendations
 } from '@/lib/validators/markup';
 
 /**
@@ -11,32 +16,17 @@ import {
  */
 export async function validateHTMLMarkup(
     url: string,
-    html?: string
+    html?: string,
+    options: CheckRunOptions = {}
 ): Promise<HealthCheckResult> {
-    try {
-        let htmlContent = html;
-
-        if (!htmlContent) {
-            const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
-            const crawlResponse = await fetch(`${baseUrl}/api/crawl`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ url }),
-            });
-
-            if (!crawlResponse.ok) {
-                throw new Error('Failed to crawl URL for validation');
-            }
+    const job = startCheckJob(options);
 
-            const crawlData = await crawlResponse.json();
-            htmlContent = crawlData.data?.html;
-
-            if (!htmlContent) {
-                throw new Error('No HTML content found to validate');
-            }
-        }
+    try {
+        if (!html) job.step('crawl', 'Fetching page HTML');
+        const htmlContent = await getPageHtml(url, html, job.signal);
 
-        const details = await validateMarkup(htmlContent);
+        job.step('validate', 'Validating markup');
+        const { errors: details, dataSource, fallbackReason } = await validateMarkup(htmlContent, job.signal);
         const score = calculateMarkupScore(details);
 
         const errorCount = details.filter(d => d.type === 'error').length;
@@ -56,11 +46,27 @@ export async function validateHTMLMarkup(
             score,
             message,
             timestamp: Date.now(),
-            details: details.slice(0, 20).map(detail => ({
-                type: detail.type as 'error' | 'warning' | 'info',
-                message: detail.line ? `Line ${detail.line}: ${detail.message}` : detail.message
-            })),
-            reportId: `markup-${Date.now()}`
+            details: [
+                ...(fallbackReason ? [{ type: 'info' as const, message: `${fallbackReason}. Checked with the offline validator instead.` }] : []),
+                ...details.map(detail => ({
+                    type: detail.type as 'error' | 'warning' | 'info',
+                    message: detail.message,
+                    line: detail.line,
+                    column: detail.column,
+                    endLine: detail.endLine,
+                    endColumn: detail.endColumn,
+                    ...(detail.extract ? {
+                        sourceContext: {
+                            extract: detail.extract,
+                            highlightStart: detail.highlightStart,
+                            highlightLength: detail.highlightLength
+                        }
+                    } : {})
+                }))
+            ],
+            recommendations: generateMarkupRecommendations(details),
+            reportId: options.reportId ?? createReportId('markup'),
+            dataSource
         };
 
     } catch (error) {
@@ -73,5 +79,7 @@ export async function validateHTMLMarkup(
             message: error instanceof Error ? error.message : 'Unknown error occurred',
             timestamp: Date.now()
         };
+    } finally {
+        job.finish();
     }
 }
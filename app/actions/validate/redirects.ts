@@ -0,0 +1,75 @@
+'use server'
+
+import { HealthCheckResult } from '@/types/crawl';
+import type { CheckRunOptions } from '@/types/checks';
+import { startCheckJob } from '@/lib/check-jobs';
+import { createReportId } from '@/lib/reports';
+import {
+    analyzeRedirects,
+    calculateRedirectScore,
+    generateRedirectRecommendations
+} from '@/lib/validators/redirects';
+
+/**
+ * Server action to trace the redirect chain and HTTP status of a URL
+ */
+export async function validateRedirects(url: string, options: CheckRunOptions = {}): Promise<HealthCheckResult> {
+    const job = startCheckJob(options);
+
+    try {
+        job.step('trace', 'Tracing redirect chain');
+        const analysis = await analyzeRedirects(url, job.signal);
+        const score = calculateRedirectScore(analysis.issues);
+
+        const highCount = analysis.issues.filter(i => i.severity === 'high').length;
+        const mediumCount = analysis.issues.filter(i => i.severity === 'medium').length;
+        const redirectCount = Math.max(0, analysis.hops.length - 1);
+
+        const status = highCount > 0 ? 'error' : mediumCount > 0 ? 'warning' : 'success';
+        const message = status === 'error'
+            ? `Found ${highCount} high severity redirect or status issues.`
+            : status === 'warning'
+                ? `Found ${mediumCount} redirect issues to review.`
+                : redirectCount > 0
+                    ? `Resolves in ${redirectCount} redirect${redirectCount !== 1 ? 's' : ''} with HTTP ${analysis.finalStatus}.`
+                    : `Responds directly with HTTP ${analysis.finalStatus}.`;
+
+        return {
+            id: 'redirects',
+            label: 'Redirects & Status',
+            status,
+            score,
+            message,
+            timestamp: Date.now(),
+            details: [
+                ...analysis.issues.map(issue => ({
+                    type: issue.type as 'error' | 'warning' | 'info',
+                    message: issue.message,
+                    ruleId: issue.category,
+                    priority: issue.severity
+                })),
+                ...analysis.hops.map((hop, index) => ({
+                    type: 'info' as const,
+                    message: `Hop ${index + 1}: ${hop.statusCode} ${hop.url}${hop.location ? ` → ${hop.location}` : ''} (${hop.timeMs} ms)`
+                }))
+            ],
+            recommendations: generateRedirectRecommendations(analysis.issues),
+            reportId: options.reportId ?? createReportId('redirects'),
+            dataSource: 'Local Analysis',
+            url
+        };
+
+    } catch (error) {
+        console.error('Redirect validation error:', error);
+
+        return {
+            id: 'redirects',
+            label: 'Redirects & Status',
+            status: 'error',
+            message: error instanceof Error ? error.message : 'Unknown error occurred',
+            timestamp: Date.now()
+        };
+    } finally {
+        job.finish();
+    }
+}
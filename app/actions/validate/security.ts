@@ -1,14 +1,21 @@
 'use server'
 
 import { HealthCheckResult } from '@/types/crawl';
+import type { CheckRunOptions } from '@/types/checks';
+import { startCheckJob } from '@/lib/check-jobs';
+import { createReportId } from '@/lib/reports';
 import {
     analyzeSecurity,
-    calculateSecurityScore
+    calculateSecurityScore,
+    generateSecurityRecommendations
 } from '@/lib/validators/security';
 
-export async function validateSecurity(url: string): Promise<HealthCheckResult> {
+export async function validateSecurity(url: string, options: CheckRunOptions = {}): Promise<HealthCheckResult> {
+    const job = startCheckJob(options);
+
     try {
-        const issues = await analyzeSecurity(url);
+        job.step('headers', 'Fetching response headers');
+        const issues = await analyzeSecurity(url, job.signal);
         const score = calculateSecurityScore(issues);
 
         const highCount = issues.filter(i => i.severity === 'high').length;
@@ -30,9 +37,13 @@ export async function validateSecurity(url: string): Promise<HealthCheckResult>
             timestamp: Date.now(),
             details: issues.map(issue => ({
                 type: issue.type as 'error' | 'warning' | 'info',
-                message: issue.message
+                message: issue.message,
+                ruleId: issue.category,
+                priority: issue.severity,
+                header: issue.header
             })),
-            reportId: `security-${Date.now()}`
+            recommendations: generateSecurityRecommendations(issues),
+            reportId: options.reportId ?? createReportId('security')
         };
 
     } catch (error) {
@@ -45,5 +56,7 @@ export async function validateSecurity(url: string): Promise<HealthCheckResult>
             message: error instanceof Error ? error.message : 'Unknown error occurred',
             timestamp: Date.now()
         };
+    } finally {
+        job.finish();
     }
 }
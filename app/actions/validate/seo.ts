@@ -1,42 +1,30 @@
 'use server'
 
-import { HealthCheckResult } from '@/types/crawl';
+import { CheckDetail, HealthCheckResult } from '@/types/crawl';
+import type { CheckRunOptions } from '@/types/checks';
+import { startCheckJob } from '@/lib/check-jobs';
+import { getPageHtml } from '@/lib/crawlers';
+import { createReportId } from '@/lib/reports';
 import {
     analyzeSEO,
-    calculateSEOScore
+    analyzeSiteFiles,
+    calculateSEOScore,
+    generateSEORecommendations,
+    type SEOIssue
 } from '@/lib/validators/seo';
 import {
     getOnPageScore,
     isDataForSEOConfigured
 } from '@/lib/dataforseo';
 
-/**
- * Helper function to fetch HTML content for validation
- */
-async function getHtmlContent(url: string, providedHtml?: string): Promise<string> {
-    if (providedHtml) {
-        return providedHtml;
-    }
-
-    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
-    const crawlResponse = await fetch(`${baseUrl}/api/crawl`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url }),
-    });
-
-    if (!crawlResponse.ok) {
-        throw new Error('Failed to crawl URL for validation');
-    }
-
-    const crawlData = await crawlResponse.json();
-    const htmlContent = crawlData.data?.html;
-
-    if (!htmlContent) {
-        throw new Error('No HTML content found to validate');
-    }
-
-    return htmlContent;
+function toSEODetail(issue: SEOIssue): CheckDetail {
+    return {
+        type: issue.type as 'error' | 'warning' | 'info',
+        message: issue.message,
+        ruleId: issue.category,
+        element: issue.element,
+        priority: issue.priority
+    };
 }
 
 /**
@@ -44,14 +32,17 @@ async function getHtmlContent(url: string, providedHtml?: string): Promise<strin
  */
 export async function validateSEO(
     url: string,
-    html?: string
+    html?: string,
+    options: CheckRunOptions = {}
 ): Promise<HealthCheckResult> {
+    const job = startCheckJob(options);
+
     try {
         // Check if DataForSEO is configured
         const useDataForSEO = isDataForSEOConfigured();
 
         let score: number;
-        let issues: Array<{ type: string; message: string; element?: string; priority?: 'high' | 'medium' | 'low' }>;
+        let issues: SEOIssue[];
         let dataSource: string;
 
         if (useDataForSEO) {
@@ -59,15 +50,18 @@ export async function validateSEO(
             console.log('[SEO Validator] Using DataForSEO API for analysis');
 
             try {
-                const dataForSEOResult = await getOnPageScore(url);
+                job.step('dataforseo', 'DataForSEO On-Page task pending');
+                const dataForSEOResult = await getOnPageScore(url, job.signal);
                 score = dataForSEOResult.score;
                 issues = dataForSEOResult.issues;
                 dataSource = 'DataForSEO API';
                 console.log(`[SEO Validator] DataForSEO returned score: ${score}`);
             } catch (apiError) {
+                job.signal.throwIfAborted();
                 console.warn('[SEO Validator] DataForSEO API failed, falling back to local analysis:', apiError);
                 // Fallback to local analysis
-                const htmlContent = await getHtmlContent(url, html);
+                job.step('local', 'DataForSEO failed, analyzing page locally');
+                const htmlContent = await getPageHtml(url, html, job.signal);
                 issues = await analyzeSEO(htmlContent);
                 score = calculateSEOScore(issues);
                 dataSource = 'Local Analysis (API Fallback)';
@@ -75,12 +69,26 @@ export async function validateSEO(
         } else {
             // Use local JSDOM analysis
             console.log('[SEO Validator] DataForSEO not configured, using local analysis');
-            const htmlContent = await getHtmlContent(url, html);
+            job.step('local', 'Analyzing meta tags and content');
+            const htmlContent = await getPageHtml(url, html, job.signal);
             issues = await analyzeSEO(htmlContent);
             score = calculateSEOScore(issues);
             dataSource = 'Local Analysis';
         }
 
+        // robots.txt and sitemap findings apply regardless of the page analysis source
+        if (!options.pageOnly) {
+            // Page findings are final; show them while the site files are checked
+            job.details(issues.map(toSEODetail));
+
+            job.step('site-files', 'Checking robots.txt and sitemaps');
+            const siteFileIssues = await analyzeSiteFiles(url, job.signal);
+            if (siteFileIssues.length > 0) {
+                issues = [...siteFileIssues, ...issues];
+                score = Math.max(0, score - (100 - calculateSEOScore(siteFileIssues)));
+            }
+        }
+
         const highPriorityCount = issues.filter(issue => issue.priority === 'high').length;
         const mediumPriorityCount = issues.filter(issue => issue.priority === 'medium').length;
 
@@ -91,6 +99,8 @@ export async function validateSEO(
                 ? `Found ${mediumPriorityCount} medium priority SEO issues.`
                 : 'SEO is well-optimized.';
 
+        job.signal.throwIfAborted();
+
         return {
             id: 'seo',
             label: 'SEO Analysis',
@@ -98,11 +108,9 @@ export async function validateSEO(
             score,
             message,
             timestamp: Date.now(),
-            details: issues.slice(0, 15).map(issue => ({
-                type: issue.type as 'error' | 'warning' | 'info',
-                message: issue.message
-            })),
-            reportId: `seo-${Date.now()}`,
+            details: issues.map(toSEODetail),
+            recommendations: generateSEORecommendations(issues),
+            reportId: options.reportId ?? createReportId('seo'),
             dataSource,
             url
         };
@@ -117,5 +125,7 @@ export async function validateSEO(
             message: error instanceof Error ? error.message : 'Unknown error occurred',
             timestamp: Date.now()
         };
+    } finally {
+        job.finish();
     }
 }
@@ -0,0 +1,50 @@
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AlertRuleForm } from "@/components/alerts/alert-rule-form";
+import { AlertRuleList } from "@/components/alerts/alert-rule-list";
+import { getEnabledHealthChecks } from "@/lib/checks/registry";
+import { getAlertRuleStore } from "@/lib/alerts";
+
+export const dynamic = "force-dynamic";
+
+export default async function AlertsPage() {
+  const rules = await getAlertRuleStore().list();
+  const checks = getEnabledHealthChecks().map(check => ({ id: check.id, label: check.label }));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted dark:from-background dark:to-card">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          {/* Header */}
+          <div className="flex items-center space-x-4">
+            <Link href="/">
+              <Button variant="outline" size="icon">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Alerts</h1>
+              <p className="text-muted-foreground">
+                Rules checked against every stored result, delivered by webhook, Slack or email
+              </p>
+            </div>
+          </div>
+
+          <Card className="p-6">
+            <h2 className="text-xl font-semibold text-foreground mb-4">Add Rule</h2>
+            <AlertRuleForm checks={checks} />
+          </Card>
+
+          <Card className="p-6">
+            <h2 className="text-xl font-semibold text-foreground mb-4">
+              Rules ({rules.length})
+            </h2>
+            <AlertRuleList rules={rules} checks={checks} />
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
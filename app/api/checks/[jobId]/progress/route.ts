@@ -0,0 +1,68 @@
+import { subscribeToCheckProgress } from '@/lib/check-jobs';
+import type { CheckProgressEvent } from '@/types/checks';
+
+export const dynamic = 'force-dynamic';
+
+/** Comment lines keep idle connections open while a check waits on an external API */
+const KEEPALIVE_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Server-Sent Events stream of a check job's progress.
+ * Server actions can't stream intermediate results, so the client follows
+ * this endpoint with an EventSource while the action is running.
+ */
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ jobId: string }> }
+) {
+    const { jobId } = await params;
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            let closed = false;
+            let unsubscribe: (() => void) | null = null;
+
+            const keepalive = setInterval(() => {
+                controller.enqueue(encoder.encode(': keepalive\n\n'));
+            }, KEEPALIVE_INTERVAL_MS);
+
+            cleanup = () => {
+                if (closed) return;
+                closed = true;
+                clearInterval(keepalive);
+                unsubscribe?.();
+                try {
+                    controller.close();
+                } catch {
+                    // Already closed by the client
+                }
+            };
+
+            const send = (event: CheckProgressEvent) => {
+                if (closed) return;
+                controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+                if (event.type === 'done') {
+                    cleanup();
+                }
+            };
+
+            unsubscribe = subscribeToCheckProgress(jobId, send);
+            if (closed) unsubscribe();
+
+            request.signal.addEventListener('abort', () => cleanup(), { once: true });
+        },
+        cancel() {
+            cleanup();
+        }
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive'
+        }
+    });
+}
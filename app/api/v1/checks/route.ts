@@ -0,0 +1,19 @@
+import type { ApiCheck } from '@/types/api';
+import { getEnabledHealthChecks } from '@/lib/checks/registry';
+import { apiRoute } from '@/lib/api/route';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * List the checks that can be requested in a run
+ */
+export const GET = apiRoute(async () => {
+    const checks: ApiCheck[] = getEnabledHealthChecks().map(check => ({
+        id: check.id,
+        label: check.label,
+        description: check.description,
+        input: check.input
+    }));
+
+    return Response.json({ checks });
+});
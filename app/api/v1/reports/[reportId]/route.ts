@@ -0,0 +1,25 @@
+import { getReportStore, toHealthCheckResult } from '@/lib/reports';
+import { lookupReport } from '@/lib/reports/lookup';
+import { apiError, apiRoute } from '@/lib/api/route';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * One check result. Reports still running answer 202 with the partial
+ * result; expired reports answer 410.
+ */
+export const GET = apiRoute(async (_request: Request, { params }: { params: Promise<{ reportId: string }> }) => {
+    const { reportId } = await params;
+    const lookup = await lookupReport(getReportStore(), reportId);
+
+    switch (lookup.state) {
+        case 'found':
+            return Response.json(toHealthCheckResult(lookup.report));
+        case 'running':
+            return Response.json(toHealthCheckResult(lookup.report), { status: 202 });
+        case 'expired':
+            return apiError(410, 'Report has expired');
+        case 'not-found':
+            return apiError(404, lookup.report ? 'The check for this report did not finish' : 'Report not found');
+    }
+});
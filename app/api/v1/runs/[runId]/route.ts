@@ -0,0 +1,22 @@
+import { getReportStore, isValidReportId } from '@/lib/reports';
+import { buildRunStatus } from '@/lib/api/runs';
+import { apiError, apiRoute } from '@/lib/api/route';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Status and results of a run; `status` stays "running" until every check has finished
+ */
+export const GET = apiRoute(async (_request: Request, { params }: { params: Promise<{ runId: string }> }) => {
+    const { runId } = await params;
+    if (!isValidReportId(runId)) {
+        return apiError(404, 'Run not found');
+    }
+
+    const status = buildRunStatus(runId, await getReportStore().list({ runId }));
+    if (!status) {
+        return apiError(404, 'Run not found');
+    }
+
+    return Response.json(status);
+});
@@ -0,0 +1,31 @@
+import { getReportStore, isValidReportId } from '@/lib/reports';
+import { buildRunStatus } from '@/lib/api/runs';
+import { apiError, apiRoute } from '@/lib/api/route';
+import { buildSarifLog, SARIF_CONTENT_TYPE } from '@/lib/export/sarif';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Findings of a completed run as SARIF 2.1.0, for code-scanning uploads
+ */
+export const GET = apiRoute(async (_request: Request, { params }: { params: Promise<{ runId: string }> }) => {
+    const { runId } = await params;
+    if (!isValidReportId(runId)) {
+        return apiError(404, 'Run not found');
+    }
+
+    const status = buildRunStatus(runId, await getReportStore().list({ runId }));
+    if (!status) {
+        return apiError(404, 'Run not found');
+    }
+    if (status.status === 'running') {
+        return apiError(409, 'Run is still running');
+    }
+
+    return new Response(JSON.stringify(buildSarifLog(status.url, status.results, status.startedAt), null, 2), {
+        headers: {
+            'Content-Type': SARIF_CONTENT_TYPE,
+            'Content-Disposition': `attachment; filename="${runId}.sarif"`
+        }
+    });
+});
@@ -0,0 +1,56 @@
+import type { ApiRunCreated, ApiRunRequest } from '@/types/api';
+import { getEnabledHealthChecks } from '@/lib/checks/registry';
+import { startCheckRun } from '@/lib/check-runner';
+import { apiError, apiRoute } from '@/lib/api/route';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Start a run of the requested checks on a URL. The checks continue in
+ * the background; poll the returned status URL for results.
+ */
+export const POST = apiRoute(async (request: Request) => {
+    let body: ApiRunRequest;
+    try {
+        body = await request.json();
+    } catch {
+        return apiError(400, 'Request body must be JSON');
+    }
+
+    if (typeof body?.url !== 'string' || !isHttpUrl(body.url)) {
+        return apiError(400, '"url" must be an absolute http(s) URL');
+    }
+    if (body.checks !== undefined && (!Array.isArray(body.checks) || body.checks.some(id => typeof id !== 'string'))) {
+        return apiError(400, '"checks" must be an array of check ids');
+    }
+
+    const enabled = getEnabledHealthChecks().map(check => check.id);
+    const checkIds = body.checks ? [...new Set(body.checks)] : enabled;
+    const unknown = checkIds.filter(id => !enabled.includes(id));
+    if (unknown.length > 0) {
+        return apiError(400, `Unknown or disabled checks: ${unknown.join(', ')}`);
+    }
+    if (checkIds.length === 0) {
+        return apiError(400, '"checks" must not be empty');
+    }
+
+    const run = await startCheckRun(new URL(body.url).toString(), checkIds);
+    const created: ApiRunCreated = {
+        runId: run.runId,
+        url: run.url,
+        status: 'running',
+        reports: run.reports,
+        statusUrl: `/api/v1/runs/${run.runId}`
+    };
+
+    return Response.json(created, { status: 202, headers: { Location: created.statusUrl } });
+});
+
+function isHttpUrl(value: string): boolean {
+    try {
+        const parsed = new URL(value);
+        return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+    } catch {
+        return false;
+    }
+}
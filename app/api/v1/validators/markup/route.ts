@@ -0,0 +1,20 @@
+import type { ApiValidatorHealth } from '@/types/api';
+import { getValidatorName, probeMarkupValidator } from '@/lib/validators/markup';
+import { apiRoute } from '@/lib/api/route';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Probe the configured Nu markup validator; 503 when it is unreachable
+ */
+export const GET = apiRoute(async () => {
+    const health = await probeMarkupValidator();
+
+    if (!health) {
+        const body: ApiValidatorHealth = { enabled: false, dataSource: 'Local Analysis' };
+        return Response.json(body);
+    }
+
+    const body: ApiValidatorHealth = { enabled: true, dataSource: getValidatorName(health.url), ...health };
+    return Response.json(body, { status: health.healthy ? 200 : 503 });
+});
@@ -0,0 +1,107 @@
+import Link from "next/link";
+import { AlertTriangle, ArrowLeft } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CheckDiffCard } from "@/components/compare/check-diff-card";
+import { getReportStore, normalizeReportUrl } from "@/lib/reports";
+import { groupReportsIntoRuns } from "@/lib/history";
+import { diffRuns } from "@/lib/diff";
+
+export const dynamic = "force-dynamic";
+
+interface ComparePageProps {
+  searchParams: Promise<{ base?: string; target?: string }>;
+}
+
+const selectClassName =
+  "border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 py-1 text-base shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] md:text-sm";
+
+export default async function ComparePage({ searchParams }: ComparePageProps) {
+  const { base, target } = await searchParams;
+  const store = getReportStore();
+
+  const [baseReports, targetReports] = await Promise.all([
+    base ? store.list({ runId: base }) : [],
+    target ? store.list({ runId: target }) : [],
+  ]);
+
+  let error: string | null = null;
+  if (!base || !target) {
+    error = "Choose two runs to compare.";
+  } else if (baseReports.length === 0 || targetReports.length === 0) {
+    error = "One of the runs could not be found. It may have been deleted.";
+  } else if (normalizeReportUrl(baseReports[0].url) !== normalizeReportUrl(targetReports[0].url)) {
+    error = "The two runs are for different URLs and cannot be compared.";
+  }
+
+  const url = targetReports[0]?.url ?? baseReports[0]?.url;
+  const runs = url ? groupReportsIntoRuns(await store.list({ url })).reverse() : [];
+  const diff = error ? null : diffRuns(baseReports, targetReports);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted dark:from-background dark:to-card">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          {/* Header */}
+          <div className="flex items-center space-x-4">
+            <Link href={url ? `/history?url=${encodeURIComponent(url)}` : "/history"}>
+              <Button variant="outline" size="icon">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Compare Runs</h1>
+              <p className="text-muted-foreground">
+                {url ? `Issue changes for ${url}` : "New, resolved and persisting issues between two runs"}
+              </p>
+            </div>
+          </div>
+
+          {runs.length > 1 && (
+            <Card className="p-4">
+              <form className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3 items-end" action="/compare">
+                <label className="space-y-1 text-sm font-medium text-foreground">
+                  <span>Base run</span>
+                  <select name="base" defaultValue={base} className={selectClassName}>
+                    {runs.map(run => (
+                      <option key={run.runId} value={run.runId}>{new Date(run.timestamp).toLocaleString()}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="space-y-1 text-sm font-medium text-foreground">
+                  <span>Compared run</span>
+                  <select name="target" defaultValue={target} className={selectClassName}>
+                    {runs.map(run => (
+                      <option key={run.runId} value={run.runId}>{new Date(run.timestamp).toLocaleString()}</option>
+                    ))}
+                  </select>
+                </label>
+                <Button type="submit">Compare</Button>
+              </form>
+            </Card>
+          )}
+
+          {error && (
+            <Card className="p-4 border-2 text-yellow-600 bg-yellow-50 border-yellow-200 dark:bg-yellow-950/20 dark:border-yellow-800 dark:text-yellow-400">
+              <div className="flex items-start space-x-3">
+                <AlertTriangle className="h-5 w-5 mt-0.5 flex-shrink-0" />
+                <p className="font-medium">{error}</p>
+              </div>
+            </Card>
+          )}
+
+          {diff && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {new Date(diff.base.timestamp).toLocaleString()} → {new Date(diff.target.timestamp).toLocaleString()}
+              </p>
+              {diff.checks.map(check => (
+                <CheckDiffCard key={check.checkId} diff={check} />
+              ))}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
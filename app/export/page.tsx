@@ -0,0 +1,78 @@
+import Link from "next/link";
+import { AlertTriangle, ArrowLeft } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { DownloadIssues } from "@/components/export/download-issues";
+import { ExportForm } from "@/components/export/export-form";
+import { getReportStore, isValidReportId } from "@/lib/reports";
+import { DEFAULT_EXPORT_TITLE } from "@/lib/export/document";
+
+export const dynamic = "force-dynamic";
+
+interface ExportPageProps {
+  searchParams: Promise<{ runId?: string }>;
+}
+
+export default async function ExportPage({ searchParams }: ExportPageProps) {
+  const { runId } = await searchParams;
+  const reports = runId && isValidReportId(runId) ? await getReportStore().list({ runId }) : [];
+  const run = reports.length > 0
+    ? {
+        url: reports[0].url,
+        timestamp: Math.min(...reports.map(report => report.timestamp)),
+        labels: reports.map(report => report.label),
+      }
+    : null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted dark:from-background dark:to-card">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-3xl mx-auto space-y-6">
+          {/* Header */}
+          <div className="flex items-center space-x-4">
+            <Link href={run ? `/history?url=${encodeURIComponent(run.url)}` : "/history"}>
+              <Button variant="outline" size="icon">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Export Report</h1>
+              <p className="text-muted-foreground">
+                {run ? `${run.url} · ${new Date(run.timestamp).toLocaleString()}` : "Branded reports and issue tables of a run"}
+              </p>
+            </div>
+          </div>
+
+          {run && runId ? (
+            <>
+              <Card className="p-4 text-sm text-muted-foreground">
+                Includes {run.labels.join(", ")}.
+              </Card>
+              <Card className="p-6">
+                <h2 className="text-xl font-semibold text-foreground mb-4">Client Report</h2>
+                <ExportForm runId={runId} defaultTitle={DEFAULT_EXPORT_TITLE} />
+              </Card>
+              <Card className="p-6">
+                <h2 className="text-xl font-semibold text-foreground mb-1">Issues</h2>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Every finding of the run in one table: URL, check, severity, message, element, WCAG guideline,
+                  line, data source and timestamp.
+                </p>
+                <DownloadIssues runId={runId} />
+              </Card>
+            </>
+          ) : (
+            <Card className="p-4 border-2 text-yellow-600 bg-yellow-50 border-yellow-200 dark:bg-yellow-950/20 dark:border-yellow-800 dark:text-yellow-400">
+              <div className="flex items-start space-x-3">
+                <AlertTriangle className="h-5 w-5 mt-0.5 flex-shrink-0" />
+                <p className="font-medium">
+                  {runId ? "The run could not be found. It may have been deleted." : "Choose a run to export from the history page."}
+                </p>
+              </div>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import Link from "next/link";
+import { AlertTriangle, ArrowLeft } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScoreChart } from "@/components/history/score-chart";
+import { RunTable } from "@/components/history/run-table";
+import { getReportStore, normalizeReportUrl } from "@/lib/reports";
+import { buildScanHistory } from "@/lib/history";
+
+export const dynamic = "force-dynamic";
+
+interface HistoryPageProps {
+  searchParams: Promise<{ url?: string }>;
+}
+
+export default async function HistoryPage({ searchParams }: HistoryPageProps) {
+  const { url } = await searchParams;
+  const history = url
+    ? buildScanHistory(normalizeReportUrl(url), await getReportStore().list({ url }))
+    : null;
+  const latestRun = history?.runs[0];
+  const regressions = latestRun?.checks.filter(check => check.regressed) ?? [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted dark:from-background dark:to-card">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          {/* Header */}
+          <div className="flex items-center space-x-4">
+            <Link href="/">
+              <Button variant="outline" size="icon">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Scan History</h1>
+              <p className="text-muted-foreground">
+                {history ? `Past runs for ${history.url}` : "Score trends for a URL across runs"}
+              </p>
+            </div>
+          </div>
+
+          <Card className="p-4">
+            <form className="flex gap-3" action="/history">
+              <Input name="url" type="url" placeholder="https://example.com" defaultValue={url} required />
+              <Button type="submit">Show History</Button>
+            </form>
+          </Card>
+
+          {history && history.runs.length === 0 && (
+            <Card className="p-6">
+              <p className="text-muted-foreground">No stored runs for this URL yet.</p>
+            </Card>
+          )}
+
+          {history && history.runs.length > 0 && (
+            <>
+              {regressions.length > 0 && (
+                <Card className="p-4 border-2 text-red-600 bg-red-50 border-red-200 dark:bg-red-950/20 dark:border-red-800 dark:text-red-400">
+                  <div className="flex items-start space-x-3">
+                    <AlertTriangle className="h-5 w-5 mt-0.5 flex-shrink-0" />
+                    <div>
+                      <p className="font-medium">
+                        {regressions.length} check{regressions.length !== 1 ? "s" : ""} regressed since the previous run
+                      </p>
+                      <p className="text-sm">
+                        {regressions
+                          .map(check => check.delta !== undefined ? `${check.label} (${check.delta})` : `${check.label} (${check.status})`)
+                          .join(", ")}
+                      </p>
+                    </div>
+                  </div>
+                </Card>
+              )}
+
+              <Card className="p-6">
+                <h2 className="text-xl font-semibold text-foreground mb-4">Score Trends</h2>
+                <ScoreChart series={history.series} />
+              </Card>
+
+              <Card className="p-6">
+                <h2 className="text-xl font-semibold text-foreground mb-4">
+                  Runs ({history.runs.length})
+                </h2>
+                <RunTable runs={history.runs} />
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { MonitorForm } from "@/components/monitors/monitor-form";
+import { MonitorList } from "@/components/monitors/monitor-list";
+import { getEnabledHealthChecks } from "@/lib/checks/registry";
+import { getMonitorStore } from "@/lib/monitors";
+import { isMonitoringEnabled } from "@/lib/monitors/runner";
+
+export const dynamic = "force-dynamic";
+
+export default async function MonitorsPage() {
+  const monitors = await getMonitorStore().list();
+  const checks = getEnabledHealthChecks().map(check => ({ id: check.id, label: check.label }));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted dark:from-background dark:to-card">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          {/* Header */}
+          <div className="flex items-center space-x-4">
+            <Link href="/">
+              <Button variant="outline" size="icon">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Monitoring</h1>
+              <p className="text-muted-foreground">
+                Sites checked on a schedule; results are added to each URL&apos;s history
+              </p>
+            </div>
+          </div>
+
+          {!isMonitoringEnabled() && (
+            <Card className="p-4 border-2 text-yellow-600 bg-yellow-50 border-yellow-200 dark:bg-yellow-950/20 dark:border-yellow-800 dark:text-yellow-400">
+              <p className="text-sm">
+                Scheduled runs are disabled on this server (<code>MONITORING_ENABLED=false</code>). Monitors only run when started manually.
+              </p>
+            </Card>
+          )}
+
+          <Card className="p-6">
+            <h2 className="text-xl font-semibold text-foreground mb-4">Add Monitor</h2>
+            <MonitorForm checks={checks} />
+          </Card>
+
+          <Card className="p-6">
+            <h2 className="text-xl font-semibold text-foreground mb-4">
+              Monitors ({monitors.length})
+            </h2>
+            <MonitorList monitors={monitors} checks={checks} />
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
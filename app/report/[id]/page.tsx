@@ -1,266 +1,75 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { useParams } from "next/navigation";
+import { useParams, useRouter } from "next/navigation";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, ExternalLink, Loader2 } from "lucide-react";
+import { AlertTriangle, ArrowLeft, Clock, Download, ExternalLink, History, Loader2 } from "lucide-react";
 import Link from "next/link";
+import { getHealthCheck } from "@/lib/checks/registry";
+import { lookupReport, rerunReport } from "@/app/actions/reports";
+import { RerunButton, ReportState } from "@/components/report/report-state";
+import { formatPageLocation, formatSourceLocation, SourceExtract } from "@/components/report/source-context";
+import type { ReportLookup } from "@/types/reports";
 
-/**
- * Generate external report URL for supported validators
- */
-function getExternalReportUrl(reportId: string, url: string): string | null {
-  if (!url) return null;
-
-  const encodedUrl = encodeURIComponent(url);
-  const reportType = reportId.split('-')[0]; // Extract type from "type-timestamp" format
-
-  switch (reportType) {
-    case 'lighthouse':
-      return `https://pagespeed.web.dev/analysis?url=${encodedUrl}`;
-    case 'markup':
-      return `https://validator.w3.org/nu/?doc=${encodedUrl}`;
-    default:
-      return null; // Other validators don't have external links
-  }
-}
-
-/**
- * Get display label for external report link
- */
-function getExternalReportLabel(reportId: string): string {
-  const reportType = reportId.split('-')[0];
-
-  switch (reportType) {
-    case 'lighthouse':
-      return 'View on PageSpeed Insights';
-    case 'markup':
-      return 'Validate on W3C';
-    default:
-      return 'View External Report';
-  }
-}
-
-interface ReportDetail {
-  type: string;
-  message: string;
-  element?: string;
-  line?: number;
-  [key: string]: unknown;
-}
-
-interface ReportData {
-  id: string;
-  label: string;
-  url: string;
-  status: "success" | "warning" | "error";
-  score?: number;
-  timestamp: number;
-  message: string;
-  details?: ReportDetail[];
-  recommendations?: string[];
-  dataSource?: string;
-}
-
-// This would typically fetch from a database or cache
-async function getReportData(id: string) {
-  // In a real implementation, you would fetch stored report data from your database
-
-  // First, check if the report data exists in localStorage (from health checker)
-  try {
-    const storedData = localStorage.getItem(`report-${id}`);
-    if (storedData) {
-      const reportData = JSON.parse(storedData);
-      return reportData;
-    }
-  } catch (error) {
-    console.error('Error reading from localStorage:', error);
-  }
-
-  // Extract the report type and timestamp from the ID (e.g., "contrast-1758735258007")
-  const [reportType, timestamp] = id.split('-');
-
-  if (!reportType || !timestamp) {
-    return null;
-  }
-
-  // For demonstration, we'll use a test URL
-  // In a real app, you'd store the URL with the report ID in a database
-  const testUrl = "https://example.com";
-
-  try {
-    // Call the appropriate validation API
-    const apiEndpoint = `/api/validate/${reportType}`;
-    const requestBody = reportType === 'security' || reportType === 'lighthouse'
-      ? { url: testUrl }
-      : { url: testUrl };
-
-    const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}${apiEndpoint}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    });
-
-    if (!response.ok) {
-      console.error(`API call failed for ${reportType}:`, response.statusText);
-      return null;
-    }
-
-    const result = await response.json();
-
-    if (!result.success) {
-      console.error(`Validation failed for ${reportType}:`, result.error);
-      return null;
-    }
-
-    // Return the report data from the API
-    return result.data;
-
-  } catch (error) {
-    console.error(`Error fetching report data for ${reportType}:`, error);
-
-    // Fallback to mock data if API fails
-    return getFallbackData(reportType, testUrl);
-  }
-}
-
-// Fallback mock data in case APIs fail
-function getFallbackData(reportType: string, url: string): ReportData | null {
-  const fallbackTemplates: Record<string, ReportData> = {
-    "markup": {
-      id: `markup-${Date.now()}`,
-      label: "W3C Markup Validation",
-      url,
-      status: "warning",
-      score: 85,
-      timestamp: Date.now(),
-      message: "API temporarily unavailable - showing sample results",
-      details: [
-        { type: "warning", message: "Unable to connect to validation service" }
-      ],
-      recommendations: [
-        "Try refreshing the page to retry validation",
-        "Check your internet connection"
-      ]
-    },
-    "contrast": {
-      id: `contrast-${Date.now()}`,
-      label: "Contrast Checker",
-      url,
-      status: "warning",
-      score: 85,
-      timestamp: Date.now(),
-      message: "API temporarily unavailable - showing sample results",
-      details: [
-        { type: "warning", message: "Unable to analyze contrast ratios" }
-      ],
-      recommendations: [
-        "Try refreshing the page to retry validation",
-        "Use online contrast checkers as an alternative"
-      ]
-    },
-    "accessibility": {
-      id: `accessibility-${Date.now()}`,
-      label: "Accessibility Check",
-      url,
-      status: "warning",
-      score: 85,
-      timestamp: Date.now(),
-      message: "API temporarily unavailable - showing sample results",
-      details: [
-        { type: "warning", message: "Unable to perform accessibility analysis" }
-      ],
-      recommendations: [
-        "Try refreshing the page to retry validation",
-        "Use browser accessibility dev tools"
-      ]
-    },
-    "lighthouse": {
-      id: `lighthouse-${Date.now()}`,
-      label: "Lighthouse Report",
-      url,
-      status: "warning",
-      score: 85,
-      timestamp: Date.now(),
-      message: "API temporarily unavailable - showing sample results",
-      details: [
-        { type: "warning", message: "Unable to perform performance analysis" }
-      ],
-      recommendations: [
-        "Try refreshing the page to retry validation",
-        "Use Google PageSpeed Insights directly"
-      ]
-    },
-    "seo": {
-      id: `seo-${Date.now()}`,
-      label: "SEO Analysis",
-      url,
-      status: "warning",
-      score: 85,
-      timestamp: Date.now(),
-      message: "API temporarily unavailable - showing sample results",
-      details: [
-        { type: "warning", message: "Unable to perform SEO analysis" }
-      ],
-      recommendations: [
-        "Try refreshing the page to retry validation",
-        "Use SEO analysis tools manually"
-      ]
-    },
-    "security": {
-      id: `security-${Date.now()}`,
-      label: "Security Headers",
-      url,
-      status: "warning",
-      score: 85,
-      timestamp: Date.now(),
-      message: "API temporarily unavailable - showing sample results",
-      details: [
-        { type: "warning", message: "Unable to analyze security headers" }
-      ],
-      recommendations: [
-        "Try refreshing the page to retry validation",
-        "Use Security Headers.com to check manually"
-      ]
-    }
-  };
-
-  return fallbackTemplates[reportType] || null;
-}
+/** How often a running report is checked for completion */
+const RUNNING_POLL_INTERVAL_MS = 3000;
 
 export default function ReportPage() {
   const params = useParams();
+  const router = useRouter();
   const id = params.id as string;
-  const [report, setReport] = useState<ReportData | null>(null);
+  const [lookup, setLookup] = useState<ReportLookup | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [isRerunning, setIsRerunning] = useState(false);
 
   useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
     async function fetchReportData() {
       try {
-        setLoading(true);
-        const reportData = await getReportData(id);
-        if (!reportData) {
-          setError("Report not found");
-          return;
+        const result = await lookupReport(id);
+        if (cancelled) return;
+
+        setLookup(result);
+        setError(null);
+
+        if (result.state === "running") {
+          timer = setTimeout(fetchReportData, RUNNING_POLL_INTERVAL_MS);
         }
-        setReport(reportData);
       } catch (err) {
         console.error("Error fetching report:", err);
-        setError("Failed to load report");
+        if (!cancelled) setError("Failed to load report");
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     }
 
     if (id) {
+      setLoading(true);
       fetchReportData();
     }
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
   }, [id]);
 
+  const handleRerun = async () => {
+    setIsRerunning(true);
+    try {
+      const newReportId = await rerunReport(id);
+      router.push(`/report/${newReportId}`);
+    } catch (err) {
+      console.error("Error re-running check:", err);
+      setError("Failed to re-run the check");
+      setIsRerunning(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-background to-muted dark:from-background dark:to-card">
@@ -278,27 +87,63 @@ export default function ReportPage() {
     );
   }
 
-  if (error || !report) {
+  const rerunAction = <RerunButton isRerunning={isRerunning} onRerun={handleRerun} />;
+
+  if (error || !lookup) {
     return (
-      <div className="min-h-screen bg-gradient-to-br from-background to-muted dark:from-background dark:to-card">
-        <div className="container mx-auto px-4 py-8">
-          <div className="max-w-4xl mx-auto">
-            <div className="text-center">
-              <h1 className="text-2xl font-bold text-foreground mb-4">Report Not Found</h1>
-              <p className="text-muted-foreground mb-6">{error || "The requested report could not be found."}</p>
-              <Link href="/">
-                <Button>
-                  <ArrowLeft className="h-4 w-4 mr-2" />
-                  Back to Home
-                </Button>
-              </Link>
-            </div>
-          </div>
-        </div>
-      </div>
+      <ReportState
+        title="Something Went Wrong"
+        message={error || "The report could not be loaded."}
+        url={lookup && "report" in lookup ? lookup.report?.url : undefined}
+        actions={lookup && "report" in lookup && lookup.report ? rerunAction : undefined}
+      />
+    );
+  }
+
+  if (lookup.state === "running") {
+    return (
+      <ReportState
+        icon={<Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />}
+        title={`${lookup.report.label} Is Still Running`}
+        message="This page updates automatically when the check finishes."
+        url={lookup.report.url}
+      />
+    );
+  }
+
+  if (lookup.state === "expired") {
+    return (
+      <ReportState
+        icon={<Clock className="h-8 w-8 text-muted-foreground" />}
+        title="Report Expired"
+        message={`This ${lookup.report.label} report from ${new Date(lookup.report.timestamp).toLocaleDateString()} is past the retention period and its results were removed.`}
+        url={lookup.report.url}
+        actions={rerunAction}
+      />
     );
   }
 
+  if (lookup.state === "not-found") {
+    return lookup.report ? (
+      <ReportState
+        icon={<AlertTriangle className="h-8 w-8 text-muted-foreground" />}
+        title="Check Did Not Finish"
+        message={`The ${lookup.report.label} run for this report was interrupted before it produced results.`}
+        url={lookup.report.url}
+        actions={rerunAction}
+      />
+    ) : (
+      <ReportState
+        title="Report Not Found"
+        message="No report exists with this id. The link may be wrong or the report was deleted."
+      />
+    );
+  }
+
+  const report = lookup.report;
+  const externalReport = getHealthCheck(report.id)?.externalReport;
+  const externalUrl = report.url && externalReport ? externalReport.getUrl(report.url) : null;
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "success":
@@ -333,18 +178,33 @@ export default function ReportPage() {
                 </p>
               </div>
             </div>
-            <a
-              href={report.url}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="inline-flex items-center text-primary hover:underline"
-            >
-              Visit Site <ExternalLink className="ml-1 h-4 w-4" />
-            </a>
+            <div className="flex items-center gap-4">
+              <a
+                href={report.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center text-primary hover:underline"
+              >
+                Visit Site <ExternalLink className="ml-1 h-4 w-4" />
+              </a>
+              <Link
+                href={`/history?url=${encodeURIComponent(report.url)}`}
+                className="inline-flex items-center text-primary hover:underline"
+              >
+                History <History className="ml-1 h-4 w-4" />
+              </Link>
+              <Link
+                href={`/export?runId=${encodeURIComponent(report.runId || report.reportId)}`}
+                className="inline-flex items-center text-primary hover:underline"
+              >
+                Export <Download className="ml-1 h-4 w-4" />
+              </Link>
+              <RerunButton isRerunning={isRerunning} onRerun={handleRerun} variant="outline" />
+            </div>
           </div>
 
           {/* External Report Links Section */}
-          {report.id && report.url && getExternalReportUrl(report.id, report.url) && (
+          {externalReport && externalUrl && (
             <Card className="p-4 bg-muted/30 border-dashed">
               <div className="flex items-center justify-between">
                 <div className="flex items-center space-x-2">
@@ -354,16 +214,16 @@ export default function ReportPage() {
                   </span>
                 </div>
                 <a
-                  href={getExternalReportUrl(report.id, report.url)!}
+                  href={externalUrl}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="inline-flex items-center text-sm text-primary hover:underline font-medium"
                 >
-                  {getExternalReportLabel(report.id)}
+                  {externalReport.label}
                   <ExternalLink className="ml-1.5 h-3.5 w-3.5" />
                 </a>
               </div>
-              {report.id.startsWith('lighthouse') && report.dataSource === 'Simulated' && (
+              {report.id === 'lighthouse' && report.dataSource === 'Simulated' && (
                 <p className="text-xs text-muted-foreground mt-2 ml-6">
                   Note: Internal results are simulated. Use external tool for live analysis.
                 </p>
@@ -404,6 +264,29 @@ export default function ReportPage() {
             </p>
           </Card>
 
+          {/* Crawled Page Section */}
+          {report.crawl && (
+            <Card className="p-6">
+              <h2 className="text-xl font-semibold text-foreground mb-4">
+                Crawled Page
+              </h2>
+              <dl className="grid grid-cols-1 sm:grid-cols-[max-content_1fr] gap-x-6 gap-y-2 text-sm">
+                <dt className="text-muted-foreground">Title</dt>
+                <dd className="text-foreground">{report.crawl.title || "—"}</dd>
+                <dt className="text-muted-foreground">Description</dt>
+                <dd className="text-foreground">{report.crawl.description || "—"}</dd>
+                <dt className="text-muted-foreground">HTTP status</dt>
+                <dd className="text-foreground">{report.crawl.statusCode}</dd>
+                {report.crawl.responseTime > 0 && (
+                  <>
+                    <dt className="text-muted-foreground">Response time</dt>
+                    <dd className="text-foreground">{report.crawl.responseTime} ms</dd>
+                  </>
+                )}
+              </dl>
+            </Card>
+          )}
+
           {/* Details Section */}
           {report.details && report.details.length > 0 && (
             <Card className="p-6">
@@ -411,7 +294,7 @@ export default function ReportPage() {
                 Detailed Issues
               </h2>
               <div className="space-y-3">
-                {report.details.map((detail: ReportDetail, index: number) => (
+                {report.details.map((detail, index) => (
                   <div
                     key={index}
                     className={`p-4 rounded-lg border ${
@@ -438,7 +321,23 @@ export default function ReportPage() {
                         <p className="text-foreground">{detail.message}</p>
                         {detail.line && (
                           <p className="text-sm text-muted-foreground mt-1">
-                            Line {detail.line}
+                            {formatSourceLocation(detail)}
+                          </p>
+                        )}
+                        {detail.sourceContext && <SourceExtract context={detail.sourceContext} />}
+                        {detail.element && (
+                          <code className="block text-xs text-muted-foreground mt-1 break-all">
+                            {detail.element}
+                          </code>
+                        )}
+                        {detail.selector && (
+                          <code className="block text-xs text-muted-foreground mt-1 break-all">
+                            {detail.selector}
+                          </code>
+                        )}
+                        {detail.boundingBox && (
+                          <p className="text-sm text-muted-foreground mt-1">
+                            {formatPageLocation(detail.boundingBox)}
                           </p>
                         )}
                       </div>
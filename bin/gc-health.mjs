@@ -0,0 +1,18 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI through tsx so it shares the app's source and path aliases
+import { spawnSync } from 'node:child_process';
+import { createRequire } from 'node:module';
+import { fileURLToPath } from 'node:url';
+
+const require = createRequire(import.meta.url);
+const cli = fileURLToPath(new URL('../cli/gc-health.ts', import.meta.url));
+
+const { status, error } = spawnSync(process.execPath, ['--import', require.resolve('tsx'), cli, ...process.argv.slice(2)], {
+    stdio: 'inherit',
+    env: { ...process.env, TSX_TSCONFIG_PATH: fileURLToPath(new URL('../tsconfig.json', import.meta.url)) }
+});
+
+if (error) {
+    console.error(`gc-health: ${error.message}`);
+}
+process.exit(status ?? 2);
@@ -0,0 +1,100 @@
+/**
+ * gc-health: run health checks from a terminal without starting Next.js.
+ * Checks run in-process with the same code as the web UI.
+ */
+
+import { writeFile } from 'fs/promises';
+import { loadEnvConfig } from '@next/env';
+import { loadBudgetFile } from '@/lib/budget';
+import { getEnabledHealthChecks } from '@/lib/checks/registry';
+import { CLI_USAGE, CliUsageError, parseCliArgs, type CliOutputFormat } from '@/lib/cli/args';
+import {
+    formatCheckList,
+    formatCliJUnit,
+    formatCliJson,
+    formatCliMarkdown,
+    formatCliSarif,
+    formatCliTable
+} from '@/lib/cli/output';
+import { resolveChecks, runCliChecks } from '@/lib/cli/run';
+import { EXIT_ERROR, EXIT_FAIL, EXIT_PASS, summarizeCliRun, type CliRunSummary } from '@/lib/cli/summary';
+
+/**
+ * Validators log progress with console.*; keep stdout for the report and
+ * send logs to stderr only with --verbose
+ */
+function routeConsole(verbose: boolean): void {
+    const toStderr = (...args: unknown[]) => {
+        if (verbose) process.stderr.write(`${args.map(arg => typeof arg === 'string' ? arg : JSON.stringify(arg)).join(' ')}\n`);
+    };
+    console.log = toStderr;
+    console.info = toStderr;
+    console.debug = toStderr;
+    console.warn = toStderr;
+    console.error = toStderr;
+}
+
+const FORMATTERS: Record<CliOutputFormat, (summary: CliRunSummary) => string> = {
+    table: formatCliTable,
+    json: formatCliJson,
+    junit: formatCliJUnit,
+    markdown: formatCliMarkdown,
+    sarif: formatCliSarif
+};
+
+async function main(argv: string[]): Promise<number> {
+    // Same .env files as `next dev`, so API keys configured for the app apply
+    loadEnvConfig(process.cwd(), false, { info: () => {}, error: () => {} });
+
+    const command = parseCliArgs(argv);
+
+    if (command.command === 'help') {
+        process.stdout.write(`${CLI_USAGE}\n`);
+        return EXIT_PASS;
+    }
+
+    if (command.command === 'list') {
+        process.stdout.write(`${formatCheckList(getEnabledHealthChecks())}\n`);
+        return EXIT_PASS;
+    }
+
+    const { options } = command;
+    const budget = options.budgetPath ? await loadBudgetFile(options.budgetPath) : undefined;
+    const checks = resolveChecks(options.checks.length > 0 ? options.checks : Object.keys(budget?.checks ?? {}));
+    routeConsole(options.verbose);
+
+    const isInteractive = options.format === 'table' && process.stderr.isTTY;
+    const results = await runCliChecks(options.url, checks, {
+        timeoutMs: options.timeoutMs,
+        onResult: result => {
+            if (isInteractive) process.stderr.write(`  ${result.label}: ${result.status}\n`);
+        }
+    });
+
+    const summary = summarizeCliRun(options.url, results, { ...options, budget });
+    if (options.junitPath) {
+        await writeFile(options.junitPath, `${formatCliJUnit(summary)}\n`);
+    }
+    if (options.markdownPath) {
+        await writeFile(options.markdownPath, `${formatCliMarkdown(summary)}\n`);
+    }
+    if (options.sarifPath) {
+        await writeFile(options.sarifPath, `${formatCliSarif(summary)}\n`);
+    }
+    process.stdout.write(`${FORMATTERS[options.format](summary)}\n`);
+
+    return summary.passed ? EXIT_PASS : EXIT_FAIL;
+}
+
+main(process.argv.slice(2)).then(
+    code => {
+        process.exitCode = code;
+    },
+    error => {
+        process.stderr.write(`gc-health: ${error instanceof Error ? error.message : String(error)}\n`);
+        if (error instanceof CliUsageError) {
+            process.stderr.write(`\n${CLI_USAGE}\n`);
+        }
+        process.exitCode = EXIT_ERROR;
+    }
+);
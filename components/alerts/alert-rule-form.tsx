@@ -0,0 +1,159 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { createAlertRule } from "@/app/actions/alerts";
+import type { AlertChannel, AlertCondition, IssueSeverity } from "@/types/alerts";
+import type { CheckOption } from "@/types/checks";
+
+interface AlertRuleFormProps {
+  checks: CheckOption[];
+}
+
+const selectClassName =
+  "border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 py-1 text-base shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] md:text-sm";
+
+const SEVERITIES: IssueSeverity[] = ["critical", "serious", "moderate", "minor"];
+
+/**
+ * Create a rule: which check and condition to watch, and where to send alerts
+ */
+export function AlertRuleForm({ checks }: AlertRuleFormProps) {
+  const router = useRouter();
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [checkId, setCheckId] = useState(checks[0]?.id ?? "");
+  const [conditionType, setConditionType] = useState<AlertCondition["type"]>("score-below");
+  const [value, setValue] = useState(70);
+  const [minSeverity, setMinSeverity] = useState<IssueSeverity | "">("");
+  const [channelType, setChannelType] = useState<AlertChannel["type"]>("webhook");
+  const [target, setTarget] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const buildCondition = (): AlertCondition => {
+    switch (conditionType) {
+      case "score-below":
+        return { type: conditionType, checkId, threshold: value };
+      case "score-drop":
+        return { type: conditionType, checkId, points: value };
+      case "new-issues":
+        return { type: conditionType, checkId, minSeverity: minSeverity || undefined };
+    }
+  };
+
+  const buildChannel = (): AlertChannel =>
+    channelType === "email"
+      ? { type: "email", to: target.split(",") }
+      : { type: channelType, url: target };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await createAlertRule({ name, url: url || undefined, condition: buildCondition(), channel: buildChannel() });
+      setName("");
+      setTarget("");
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add alert rule");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form className="space-y-4" onSubmit={handleSubmit}>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <label className="space-y-1 text-sm font-medium text-foreground">
+          <span>Name</span>
+          <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Security below 70" required />
+        </label>
+        <label className="space-y-1 text-sm font-medium text-foreground">
+          <span>URL (optional, all URLs when empty)</span>
+          <Input type="url" value={url} onChange={(e) => setUrl(e.target.value)} placeholder="https://example.com" />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <label className="space-y-1 text-sm font-medium text-foreground">
+          <span>Check</span>
+          <select value={checkId} onChange={(e) => setCheckId(e.target.value)} className={selectClassName}>
+            {checks.map(check => (
+              <option key={check.id} value={check.id}>{check.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1 text-sm font-medium text-foreground">
+          <span>Condition</span>
+          <select
+            value={conditionType}
+            onChange={(e) => setConditionType(e.target.value as AlertCondition["type"])}
+            className={selectClassName}
+          >
+            <option value="score-below">Score drops below</option>
+            <option value="score-drop">Score drops by more than</option>
+            <option value="new-issues">New issues appear</option>
+          </select>
+        </label>
+        {conditionType === "new-issues" ? (
+          <label className="space-y-1 text-sm font-medium text-foreground">
+            <span>Minimum severity</span>
+            <select
+              value={minSeverity}
+              onChange={(e) => setMinSeverity(e.target.value as IssueSeverity | "")}
+              className={selectClassName}
+            >
+              <option value="">Any issue</option>
+              {SEVERITIES.map(severity => (
+                <option key={severity} value={severity}>{severity}</option>
+              ))}
+            </select>
+          </label>
+        ) : (
+          <label className="space-y-1 text-sm font-medium text-foreground">
+            <span>{conditionType === "score-below" ? "Threshold" : "Points"}</span>
+            <Input type="number" min={0} max={100} value={value} onChange={(e) => setValue(Number(e.target.value))} />
+          </label>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[12rem_1fr] gap-3">
+        <label className="space-y-1 text-sm font-medium text-foreground">
+          <span>Send to</span>
+          <select
+            value={channelType}
+            onChange={(e) => setChannelType(e.target.value as AlertChannel["type"])}
+            className={selectClassName}
+          >
+            <option value="webhook">Webhook (JSON)</option>
+            <option value="slack">Slack webhook</option>
+            <option value="email">Email (SMTP)</option>
+          </select>
+        </label>
+        <label className="space-y-1 text-sm font-medium text-foreground">
+          <span>{channelType === "email" ? "Recipients (comma-separated)" : "Webhook URL"}</span>
+          <Input
+            type={channelType === "email" ? "text" : "url"}
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            placeholder={channelType === "email" ? "ops@example.com" : "https://hooks.example.com/..."}
+            required
+          />
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <Button type="submit" disabled={isSaving || !checkId}>
+        {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+        Add Rule
+      </Button>
+    </form>
+  );
+}
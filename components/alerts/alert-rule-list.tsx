@@ -0,0 +1,122 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Pause, Play, Send, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { deleteAlertRule, sendTestAlert, setAlertRuleEnabled } from "@/app/actions/alerts";
+import type { AlertChannel, AlertCondition, AlertRule } from "@/types/alerts";
+import type { CheckOption } from "@/types/checks";
+
+interface AlertRuleListProps {
+  rules: AlertRule[];
+  checks: CheckOption[];
+}
+
+function describeCondition(condition: AlertCondition, checkLabel: string): string {
+  switch (condition.type) {
+    case "score-below":
+      return `${checkLabel} score below ${condition.threshold}`;
+    case "score-drop":
+      return `${checkLabel} score drops by more than ${condition.points}`;
+    case "new-issues":
+      return `New ${condition.minSeverity ? `${condition.minSeverity} ` : ""}${checkLabel} issues`;
+  }
+}
+
+function describeChannel(channel: AlertChannel): string {
+  switch (channel.type) {
+    case "webhook":
+      return `Webhook · ${channel.url}`;
+    case "slack":
+      return `Slack · ${channel.url}`;
+    case "email":
+      return `Email · ${channel.to.join(", ")}`;
+  }
+}
+
+/**
+ * Alert rules with controls to send a test alert, pause and delete
+ */
+export function AlertRuleList({ rules, checks }: AlertRuleListProps) {
+  const router = useRouter();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<{ type: "success" | "error"; message: string } | null>(null);
+
+  const checkLabel = (checkId: string) => checks.find(check => check.id === checkId)?.label ?? checkId;
+
+  const runAction = async (ruleId: string, action: () => Promise<unknown>, successMessage?: string) => {
+    setBusyId(ruleId);
+    setNotice(null);
+    try {
+      await action();
+      if (successMessage) setNotice({ type: "success", message: successMessage });
+      router.refresh();
+    } catch (err) {
+      setNotice({ type: "error", message: err instanceof Error ? err.message : "Something went wrong" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (rules.length === 0) {
+    return <p className="text-muted-foreground">No alert rules yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {notice && (
+        <p className={`text-sm ${notice.type === "error" ? "text-red-600 dark:text-red-400" : "text-green-600 dark:text-green-400"}`}>
+          {notice.message}
+        </p>
+      )}
+      <ul className="divide-y divide-border">
+        {rules.map(rule => (
+          <li key={rule.id} className={`py-3 flex items-start justify-between gap-4 ${rule.enabled ? "" : "opacity-60"}`}>
+            <div className="min-w-0 text-sm">
+              <p className="font-medium text-foreground">{rule.name}</p>
+              <p className="text-muted-foreground">
+                {describeCondition(rule.condition, checkLabel(rule.condition.checkId))}
+                {rule.url ? ` on ${rule.url}` : " on any URL"}
+              </p>
+              <p className="text-xs text-muted-foreground break-all">{describeChannel(rule.channel)}</p>
+              <p className="text-xs text-muted-foreground">
+                {rule.lastTriggeredAt ? `Last fired ${new Date(rule.lastTriggeredAt).toLocaleString()}` : "Never fired"}
+                {!rule.enabled && " · Paused"}
+              </p>
+            </div>
+            <div className="flex gap-1 flex-shrink-0">
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Send test alert"
+                disabled={busyId === rule.id}
+                onClick={() => runAction(rule.id, () => sendTestAlert(rule.id), `Test alert sent for "${rule.name}"`)}
+              >
+                <Send className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                title={rule.enabled ? "Pause" : "Resume"}
+                disabled={busyId === rule.id}
+                onClick={() => runAction(rule.id, () => setAlertRuleEnabled(rule.id, !rule.enabled))}
+              >
+                {rule.enabled ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Delete"
+                disabled={busyId === rule.id}
+                onClick={() => runAction(rule.id, () => deleteAlertRule(rule.id))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import Link from "next/link";
+import { Card } from "@/components/ui/card";
+import type { CheckDiff, IssueChange } from "@/types/diff";
+
+interface CheckDiffCardProps {
+  diff: CheckDiff;
+}
+
+const CHANGE_LABELS: Record<IssueChange, string> = {
+  new: "New",
+  resolved: "Resolved",
+  persisting: "Persisting",
+};
+
+const CHANGE_STYLES: Record<IssueChange, string> = {
+  new: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  resolved: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  persisting: "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200",
+};
+
+const CHANGE_ORDER: IssueChange[] = ["new", "resolved", "persisting"];
+
+/**
+ * One check's score change and issues classified against the base run
+ */
+export function CheckDiffCard({ diff }: CheckDiffCardProps) {
+  const issues = [...diff.issues].sort(
+    (a, b) => CHANGE_ORDER.indexOf(a.change) - CHANGE_ORDER.indexOf(b.change)
+  );
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h2 className="text-xl font-semibold text-foreground">{diff.label}</h2>
+        <div className="flex items-center gap-3 text-sm">
+          <span className="text-muted-foreground">
+            {diff.baseScore ?? "—"} → {diff.targetScore ?? "—"}
+          </span>
+          {diff.scoreDelta !== undefined && (
+            <span
+              className={`font-semibold ${
+                diff.scoreDelta < 0
+                  ? "text-red-600 dark:text-red-400"
+                  : diff.scoreDelta > 0
+                  ? "text-green-600 dark:text-green-400"
+                  : "text-muted-foreground"
+              }`}
+            >
+              {diff.scoreDelta > 0 ? `+${diff.scoreDelta}` : diff.scoreDelta}
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {CHANGE_ORDER.map(change => (
+          <span key={change} className={`px-2 py-1 rounded text-xs font-medium ${CHANGE_STYLES[change]}`}>
+            {diff.counts[change]} {CHANGE_LABELS[change].toLowerCase()}
+          </span>
+        ))}
+        {!diff.baseReportId && <span className="text-xs text-muted-foreground">Not part of the base run</span>}
+        {!diff.targetReportId && <span className="text-xs text-muted-foreground">Not part of the compared run</span>}
+      </div>
+
+      {issues.length > 0 ? (
+        <ul className="space-y-2">
+          {issues.map((entry, index) => (
+            <li key={`${entry.fingerprint}-${index}`} className="flex items-start space-x-3 text-sm">
+              <span className={`px-2 py-0.5 rounded text-xs font-medium flex-shrink-0 ${CHANGE_STYLES[entry.change]}`}>
+                {CHANGE_LABELS[entry.change]}
+              </span>
+              <div className={entry.change === "resolved" ? "text-muted-foreground line-through" : "text-foreground"}>
+                <p>{entry.detail.message}</p>
+                {entry.detail.element && (
+                  <code className="block text-xs text-muted-foreground mt-1 break-all">{entry.detail.element}</code>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">No issues in either run.</p>
+      )}
+
+      <div className="flex gap-4 mt-4 text-sm">
+        {diff.baseReportId && (
+          <Link href={`/report/${diff.baseReportId}`} className="text-primary hover:underline">
+            Base report
+          </Link>
+        )}
+        {diff.targetReportId && (
+          <Link href={`/report/${diff.targetReportId}`} className="text-primary hover:underline">
+            Compared report
+          </Link>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -1,4 +1,5 @@
 import Image from "next/image";
+import Link from "next/link";
 import { ThemeToggle } from "@/components/theme-toggle";
 import Logo from "@/assets/images/GC_Logo.svg";
 
@@ -6,8 +7,17 @@ export default function MainHeader() {
     return (
         <header className="bg-card text-foreground border-b border-border shadow-sm">
             <div className="container mx-auto px-4 py-6 flex justify-between items-center">
-                <Image src={Logo} width={200} height={200} alt="GC Logo" />
-                <ThemeToggle />
+                <Link href="/">
+                    <Image src={Logo} width={200} height={200} alt="GC Logo" />
+                </Link>
+                <div className="flex items-center gap-6">
+                    <nav className="flex items-center gap-4 text-sm font-medium">
+                        <Link href="/history" className="text-muted-foreground hover:text-foreground">History</Link>
+                        <Link href="/monitors" className="text-muted-foreground hover:text-foreground">Monitoring</Link>
+                        <Link href="/alerts" className="text-muted-foreground hover:text-foreground">Alerts</Link>
+                    </nav>
+                    <ThemeToggle />
+                </div>
             </div>
         </header>
     );
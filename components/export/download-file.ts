@@ -0,0 +1,15 @@
+import type { ReportExportFile } from "@/types/export";
+
+/**
+ * Save a file returned by an export action through a temporary object URL
+ */
+export function downloadExportFile(file: ReportExportFile): void {
+  const bytes = Uint8Array.from(atob(file.data), char => char.charCodeAt(0));
+  const href = URL.createObjectURL(new Blob([bytes], { type: file.contentType }));
+
+  const link = document.createElement("a");
+  link.href = href;
+  link.download = file.filename;
+  link.click();
+  URL.revokeObjectURL(href);
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import { useState } from "react";
+import { FileSpreadsheet, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { exportRunIssues } from "@/app/actions/export";
+import type { IssueExportFormat } from "@/types/export";
+import { downloadExportFile } from "./download-file";
+
+interface DownloadIssuesProps {
+  runId: string;
+}
+
+/**
+ * "Download issues" buttons: every check's details of a run as one CSV or JSON table
+ */
+export function DownloadIssues({ runId }: DownloadIssuesProps) {
+  const [pending, setPending] = useState<IssueExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownload = async (format: IssueExportFormat) => {
+    setPending(format);
+    setError(null);
+
+    try {
+      downloadExportFile(await exportRunIssues(runId, format));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to download issues");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {(["csv", "json"] as const).map(format => (
+          <Button
+            key={format}
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={pending !== null}
+            onClick={() => handleDownload(format)}
+          >
+            {pending === format ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+            )}
+            Download issues ({format.toUpperCase()})
+          </Button>
+        ))}
+      </div>
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
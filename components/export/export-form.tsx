@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { exportRun } from "@/app/actions/export";
+import { downloadExportFile } from "./download-file";
+import type { ReportExportFormat } from "@/types/export";
+
+interface ExportFormProps {
+  runId: string;
+  defaultTitle: string;
+}
+
+const FORMATS: Array<{ value: ReportExportFormat; label: string }> = [
+  { value: "pdf", label: "PDF (printable)" },
+  { value: "html", label: "HTML (single file)" },
+];
+
+/**
+ * Export options for a run; the file is rendered by a server action and
+ * downloaded from memory
+ */
+export function ExportForm({ runId, defaultTitle }: ExportFormProps) {
+  const [format, setFormat] = useState<ReportExportFormat>("pdf");
+  const [title, setTitle] = useState(defaultTitle);
+  const [preparedFor, setPreparedFor] = useState("");
+  const [executiveSummary, setExecutiveSummary] = useState("");
+  const [coverPage, setCoverPage] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      downloadExportFile(await exportRun(runId, { format, title, preparedFor, executiveSummary, coverPage }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to export the report");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <form className="space-y-4" onSubmit={handleSubmit}>
+      <fieldset className="flex flex-wrap gap-x-6 gap-y-2">
+        <legend className="text-sm font-medium text-foreground mb-2">Format</legend>
+        {FORMATS.map(option => (
+          <label key={option.value} className="flex items-center gap-2 text-sm text-foreground">
+            <input
+              type="radio"
+              name="format"
+              value={option.value}
+              checked={format === option.value}
+              onChange={() => setFormat(option.value)}
+              className="h-4 w-4 accent-primary"
+            />
+            {option.label}
+          </label>
+        ))}
+      </fieldset>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <label className="space-y-1 text-sm font-medium text-foreground">
+          <span>Title</span>
+          <Input value={title} onChange={(e) => setTitle(e.target.value)} maxLength={120} />
+        </label>
+        <label className="space-y-1 text-sm font-medium text-foreground">
+          <span>Prepared for</span>
+          <Input
+            value={preparedFor}
+            onChange={(e) => setPreparedFor(e.target.value)}
+            placeholder="Client name (optional)"
+            maxLength={120}
+          />
+        </label>
+      </div>
+
+      <label className="block space-y-1 text-sm font-medium text-foreground">
+        <span>Executive summary</span>
+        <Textarea
+          value={executiveSummary}
+          onChange={(e) => setExecutiveSummary(e.target.value)}
+          placeholder="Leave empty to generate a summary from the results. Separate paragraphs with a blank line."
+          rows={6}
+        />
+      </label>
+
+      <label className="flex items-center gap-2 text-sm text-foreground">
+        <input
+          type="checkbox"
+          checked={coverPage}
+          onChange={(e) => setCoverPage(e.target.checked)}
+          className="h-4 w-4 accent-primary"
+        />
+        Include a cover page
+      </label>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <Button type="submit" disabled={isExporting}>
+        {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+        Download Report
+      </Button>
+    </form>
+  );
+}
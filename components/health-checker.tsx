@@ -2,11 +2,14 @@
 
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Loader2, ArrowRight } from "lucide-react";
+import { Loader2, ArrowRight, X } from "lucide-react";
 import { useHealthCheck } from "@/hooks/use-health-check";
 import { UrlInput } from "./health-checker/url-input";
 import { CheckGrid } from "./health-checker/check-grid";
 import { ResultsGrid } from "./health-checker/results-grid";
+import { OverallScore } from "./health-checker/overall-score";
+import { SiteCrawlOptions } from "./health-checker/site-crawl-options";
+import { SiteResults } from "./health-checker/site-results";
 
 export function HealthChecker() {
   const {
@@ -17,9 +20,22 @@ export function HealthChecker() {
     enabledHealthChecks,
     handleUrlChange,
     handleCheckClick,
-    handleRunAllChecks
+    handleRunAllChecks,
+    mode,
+    siteCrawlOptions,
+    siteResults,
+    siteCrawlStatus,
+    handleModeChange,
+    setSiteCrawlOptions,
+    handleSiteCheckClick,
+    handleRunSiteCrawl,
+    runningChecks,
+    handleCancel
   } = useHealthCheck();
 
+  const isSiteMode = mode === "site";
+  const isRunning = isLoading || runningChecks.length > 0;
+
   return (
     <div className="space-y-8">
       <Card className="p-8 glass border-0 space-y-8">
@@ -29,30 +45,46 @@ export function HealthChecker() {
           onUrlChange={handleUrlChange} 
         />
 
+        <SiteCrawlOptions
+          mode={mode}
+          options={siteCrawlOptions}
+          disabled={isLoading}
+          onModeChange={handleModeChange}
+          onOptionsChange={setSiteCrawlOptions}
+        />
+
         <div className="space-y-6">
           <div className="flex items-center justify-between">
             <h2 className="text-2xl font-semibold text-foreground">
               Health Checks
             </h2>
             {isValidUrl && (
-              <Button
-                size="lg"
-                className="bg-primary hover:bg-primary/90 text-primary-foreground shadow-lg shadow-primary/25 transition-all hover:scale-105"
-                disabled={!isValidUrl || isLoading}
-                onClick={handleRunAllChecks}
-              >
-                {isLoading ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Running Analysis...
-                  </>
-                ) : (
-                  <>
-                    Run All Checks
-                    <ArrowRight className="ml-2 h-4 w-4" />
-                  </>
+              <div className="flex items-center gap-3">
+                {isRunning && (
+                  <Button size="lg" variant="outline" onClick={handleCancel}>
+                    <X className="mr-2 h-4 w-4" />
+                    Cancel
+                  </Button>
                 )}
-              </Button>
+                <Button
+                  size="lg"
+                  className="bg-primary hover:bg-primary/90 text-primary-foreground shadow-lg shadow-primary/25 transition-all hover:scale-105"
+                  disabled={!isValidUrl || isLoading}
+                  onClick={isSiteMode ? handleRunSiteCrawl : handleRunAllChecks}
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      {isSiteMode ? "Crawling Site..." : "Running Analysis..."}
+                    </>
+                  ) : (
+                    <>
+                      {isSiteMode ? "Crawl Site & Run All" : "Run All Checks"}
+                      <ArrowRight className="ml-2 h-4 w-4" />
+                    </>
+                  )}
+                </Button>
+              </div>
             )}
           </div>
           
@@ -60,12 +92,20 @@ export function HealthChecker() {
             checks={enabledHealthChecks}
             isValidUrl={isValidUrl}
             isLoading={isLoading}
-            onCheckClick={handleCheckClick}
+            runningChecks={runningChecks}
+            onCheckClick={isSiteMode ? handleSiteCheckClick : handleCheckClick}
           />
         </div>
       </Card>
 
-      <ResultsGrid results={healthResults} />
+      {isSiteMode ? (
+        <SiteResults pages={siteResults} status={siteCrawlStatus} />
+      ) : (
+        <>
+          <OverallScore results={healthResults} />
+          <ResultsGrid results={healthResults} />
+        </>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -4,6 +4,7 @@ import { useHealthCheck } from "@/hooks/use-health-check";
 import { UrlInput } from "./url-input";
 import { CheckGrid } from "./check-grid";
 import { ResultsGrid } from "./results-grid";
+import { OverallScore } from "./overall-score";
 
 export function HealthChecker() {
   const {
@@ -16,14 +17,6 @@ export function HealthChecker() {
     handleCheckClick,
   } = useHealthCheck();
 
-  const checks = enabledHealthChecks.map(check => ({
-    id: check.id,
-    label: check.label,
-    description: check.description,
-    icon: check.icon,
-    color: check.color || "text-primary"
-  }));
-
   return (
     <div className="space-y-8">
       <UrlInput
@@ -33,12 +26,14 @@ export function HealthChecker() {
       />
 
       <CheckGrid
-        checks={checks}
+        checks={enabledHealthChecks}
         isValidUrl={isValidUrl}
         isLoading={isLoading}
         onCheckClick={handleCheckClick}
       />
 
+      <OverallScore results={healthResults} />
+
       <ResultsGrid results={healthResults} />
     </div>
   );
@@ -0,0 +1,99 @@
+"use client";
+
+import { Card } from "@/components/ui/card";
+import { HealthCheckResult } from "@/types/crawl";
+import type { ExcludedCheck, HealthGrade } from "@/types/health-score";
+import { getCheckWeight } from "@/lib/checks/registry";
+import { computeOverallScore } from "@/lib/health-score";
+
+interface OverallScoreProps {
+  results: HealthCheckResult[];
+}
+
+const GRADE_STYLES: Record<HealthGrade, string> = {
+  A: "bg-green-500/20 dark:bg-green-500/15 text-green-700 dark:text-green-300 border-green-500/30 dark:border-green-500/25",
+  B: "bg-lime-500/20 dark:bg-lime-500/15 text-lime-700 dark:text-lime-300 border-lime-500/30 dark:border-lime-500/25",
+  C: "bg-yellow-500/20 dark:bg-yellow-500/15 text-yellow-700 dark:text-yellow-300 border-yellow-500/30 dark:border-yellow-500/25",
+  D: "bg-orange-500/20 dark:bg-orange-500/15 text-orange-700 dark:text-orange-300 border-orange-500/30 dark:border-orange-500/25",
+  F: "bg-red-500/20 dark:bg-red-500/15 text-red-700 dark:text-red-300 border-red-500/30 dark:border-red-500/25",
+};
+
+const EXCLUDED_REASONS: Record<ExcludedCheck["reason"], string> = {
+  failed: "did not complete",
+  simulated: "simulated data",
+};
+
+/** Checks costing less than this aren't worth calling out */
+const MIN_POINTS_LOST = 1;
+
+/**
+ * Weighted site score and grade, with the checks that pulled it down
+ */
+export function OverallScore({ results }: OverallScoreProps) {
+  const overall = computeOverallScore(results, getCheckWeight);
+  if (overall.score === undefined && overall.excluded.length === 0) return null;
+
+  const isRunning = results.some(result => result.status === "running" || result.status === "pending");
+  const detractors = overall.checks.filter(check => check.pointsLost >= MIN_POINTS_LOST);
+
+  return (
+    <Card className="p-6 gap-4 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <div className="flex flex-wrap items-center gap-6">
+        {overall.score !== undefined && overall.grade ? (
+          <>
+            <div
+              className={`flex h-20 w-20 items-center justify-center rounded-full border-2 text-4xl font-bold ${GRADE_STYLES[overall.grade]}`}
+              aria-label={`Grade ${overall.grade}`}
+            >
+              {overall.grade}
+            </div>
+            <div>
+              <h3 className="text-sm font-medium uppercase tracking-wide text-muted-foreground">Overall Health Score</h3>
+              <p className="text-4xl font-bold text-foreground">
+                {overall.score}
+                <span className="text-lg font-normal text-muted-foreground">/100</span>
+              </p>
+              <p className="text-sm text-muted-foreground">
+                Weighted across {overall.checks.length} check{overall.checks.length !== 1 ? "s" : ""}
+                {isRunning && " · updating as checks finish"}
+              </p>
+            </div>
+          </>
+        ) : (
+          <div>
+            <h3 className="text-sm font-medium uppercase tracking-wide text-muted-foreground">Overall Health Score</h3>
+            <p className="text-sm text-muted-foreground">No check produced a score that can be counted.</p>
+          </div>
+        )}
+      </div>
+
+      {detractors.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-foreground mb-2">Pulled down by</h4>
+          <ul className="space-y-1">
+            {detractors.map(check => (
+              <li key={check.id} className="flex flex-wrap items-baseline justify-between gap-2 text-sm">
+                <span className="text-foreground">
+                  {check.label}{" "}
+                  <span className="text-muted-foreground">
+                    ({check.score}/100, weight {check.weight})
+                  </span>
+                </span>
+                <span className="font-medium text-red-600 dark:text-red-400">−{check.pointsLost} points</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {overall.excluded.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Not counted:{" "}
+          {overall.excluded
+            .map(check => `${check.label} (${EXCLUDED_REASONS[check.reason]}${check.score !== undefined ? `, scored ${check.score}` : ""})`)
+            .join(", ")}
+        </p>
+      )}
+    </Card>
+  );
+}
@@ -1,74 +1,39 @@
 "use client";
 
 import { Button } from "@/components/ui/button";
-import { ExternalLink } from "lucide-react";
+import { Check, ExternalLink, FileText, History, Loader2 } from "lucide-react";
+import Link from "next/link";
 import { HealthCheckResult } from "@/types/crawl";
+import { getHealthCheck } from "@/lib/checks/registry";
 
 interface ResultsGridProps {
   results: HealthCheckResult[];
 }
 
-/**
- * Generate external report URL for third-party validation tools
- */
-function getExternalReportUrl(checkId: string, url: string): string | null {
-  if (!url) return null;
-
-  const encodedUrl = encodeURIComponent(url);
-
-  switch (checkId) {
-    case 'lighthouse':
-      return `https://pagespeed.web.dev/analysis?url=${encodedUrl}`;
-    case 'markup':
-      return `https://validator.w3.org/nu/?doc=${encodedUrl}`;
-    case 'accessibility':
-      return `https://pagespeed.web.dev/analysis?url=${encodedUrl}`;
-    case 'contrast':
-      return `https://wave.webaim.org/report#/${encodedUrl}`;
-    case 'security':
-      // Extract domain from URL (remove protocol and path)
-      const domain = url.replace(/^https?:\/\//, '').split('/')[0];
-      return `https://observatory.mozilla.org/analyze/${domain}`;
-    case 'seo':
-      return `https://pagespeed.web.dev/analysis?url=${encodedUrl}`;
-    default:
-      return null;
-  }
-}
-
-/**
- * Get display label for external report link
- */
-function getExternalReportLabel(checkId: string): string {
-  switch (checkId) {
-    case 'lighthouse':
-      return 'View on PageSpeed Insights';
-    case 'markup':
-      return 'Validate on W3C';
-    case 'accessibility':
-      return 'View on PageSpeed Insights';
-    case 'contrast':
-      return 'Analyze with WAVE';
-    case 'security':
-      return 'Check with Mozilla Observatory';
-    case 'seo':
-      return 'View on PageSpeed Insights';
-    default:
-      return 'View External Report';
-  }
-}
-
 export function ResultsGrid({ results }: ResultsGridProps) {
   if (results.length === 0) return null;
 
+  const checkedUrl = results.find(result => result.url)?.url;
+
   return (
     <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
-      <h3 className="text-2xl font-semibold text-foreground">
-        Analysis Results
-      </h3>
+      <div className="flex items-center justify-between">
+        <h3 className="text-2xl font-semibold text-foreground">
+          Analysis Results
+        </h3>
+        {checkedUrl && (
+          <Link href={`/history?url=${encodeURIComponent(checkedUrl)}`}>
+            <Button variant="outline">
+              <History className="h-4 w-4 mr-2" />
+              View History
+            </Button>
+          </Link>
+        )}
+      </div>
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {results.map((result, index) => {
-          const externalUrl = result.url ? getExternalReportUrl(result.id, result.url) : null;
+          const externalReport = getHealthCheck(result.id)?.externalReport;
+          const externalUrl = result.url && externalReport ? externalReport.getUrl(result.url) : null;
 
           return (
             <div
@@ -120,16 +85,39 @@ export function ResultsGrid({ results }: ResultsGridProps) {
                             </span>
                           )}
                         </>
-                      ) : (
+                      ) : result.status === "running" ? null : (
                         <span className="text-sm text-muted-foreground">Analysis completed</span>
                       )}
                     </div>
                   );
                 })()}
 
-                <p className="text-sm text-muted-foreground flex-grow leading-relaxed">
-                  {result.message}
-                </p>
+                {result.status === "running" && result.steps && result.steps.length > 0 ? (
+                  <ul className="flex-grow space-y-1">
+                    {result.steps.map((step, stepIndex) => {
+                      const isCurrent = stepIndex === result.steps!.length - 1;
+                      return (
+                        <li key={step.id} className="flex items-center gap-2 text-sm text-muted-foreground">
+                          {isCurrent ? (
+                            <Loader2 className="h-3 w-3 shrink-0 animate-spin" />
+                          ) : (
+                            <Check className="h-3 w-3 shrink-0 text-green-600 dark:text-green-400" />
+                          )}
+                          <span className={isCurrent ? "text-foreground" : undefined}>{step.message}</span>
+                        </li>
+                      );
+                    })}
+                    {result.details?.slice(-3).map((detail, detailIndex) => (
+                      <li key={`detail-${detailIndex}`} className="text-xs text-muted-foreground truncate pl-5">
+                        {detail.message}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-muted-foreground flex-grow leading-relaxed">
+                    {result.message}
+                  </p>
+                )}
 
                 {result.dataSource && (
                   <span className="text-xs text-muted-foreground">
@@ -137,7 +125,15 @@ export function ResultsGrid({ results }: ResultsGridProps) {
                   </span>
                 )}
 
-                <div className="pt-4 mt-auto">
+                <div className="pt-4 mt-auto space-y-2">
+                  {result.reportId && result.details && (
+                    <Link href={`/report/${result.reportId}`} className="block">
+                      <Button variant="outline" className="w-full">
+                        View Details
+                        <FileText className="h-3 w-3 ml-2" />
+                      </Button>
+                    </Link>
+                  )}
                   {externalUrl && (
                     <a
                       href={externalUrl}
@@ -146,7 +142,7 @@ export function ResultsGrid({ results }: ResultsGridProps) {
                       className="block"
                     >
                       <Button variant="default" className="w-full group hover:shadow-lg hover:scale-[1.02] transition-all duration-300">
-                        {getExternalReportLabel(result.id)}
+                        {externalReport?.label}
                         <ExternalLink className="h-3 w-3 ml-2 transition-transform duration-300 group-hover:translate-x-1" />
                       </Button>
                     </a>
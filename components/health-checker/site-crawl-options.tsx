@@ -0,0 +1,122 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Toggle } from "@/components/ui/toggle";
+import { FileText, Network } from "lucide-react";
+import type { CheckMode } from "@/hooks/use-health-check";
+import type { SiteCrawlOptions as SiteCrawlSettings, SiteDiscoverySource } from "@/types/crawl";
+
+const discoverySources: Array<{ value: SiteDiscoverySource; label: string }> = [
+  { value: "links", label: "Follow links" },
+  { value: "sitemap", label: "robots.txt & sitemap.xml" },
+  { value: "both", label: "Sitemap + follow links" }
+];
+
+interface SiteCrawlOptionsProps {
+  mode: CheckMode;
+  options: SiteCrawlSettings;
+  disabled: boolean;
+  onModeChange: (mode: CheckMode) => void;
+  onOptionsChange: (options: SiteCrawlSettings) => void;
+}
+
+/**
+ * Split a textarea value into patterns (one per line or comma-separated)
+ */
+function parsePatterns(value: string): string[] {
+  return value.split(/[\n,]/).map(pattern => pattern.trim()).filter(Boolean);
+}
+
+export function SiteCrawlOptions({ mode, options, disabled, onModeChange, onOptionsChange }: SiteCrawlOptionsProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Toggle
+          variant="outline"
+          pressed={mode === "page"}
+          disabled={disabled}
+          onPressedChange={() => onModeChange("page")}
+          aria-label="Check a single page"
+        >
+          <FileText />
+          Single page
+        </Toggle>
+        <Toggle
+          variant="outline"
+          pressed={mode === "site"}
+          disabled={disabled}
+          onPressedChange={() => onModeChange("site")}
+          aria-label="Crawl the site"
+        >
+          <Network />
+          Site crawl
+        </Toggle>
+      </div>
+
+      {mode === "site" && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 animate-in fade-in slide-in-from-top-1">
+          <label className="md:col-span-2 space-y-1 text-sm font-medium text-foreground">
+            <span>Page discovery</span>
+            <select
+              value={options.discovery}
+              disabled={disabled}
+              onChange={(e) => onOptionsChange({ ...options, discovery: e.target.value as SiteDiscoverySource })}
+              className="border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 py-1 text-base shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:opacity-50 md:text-sm"
+            >
+              {discoverySources.map(source => (
+                <option key={source.value} value={source.value}>{source.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1 text-sm font-medium text-foreground">
+            <span>Max depth</span>
+            <Input
+              type="number"
+              min={0}
+              max={10}
+              value={options.maxDepth}
+              disabled={disabled || options.discovery === "sitemap"}
+              onChange={(e) => onOptionsChange({ ...options, maxDepth: Number(e.target.value) })}
+            />
+          </label>
+          <label className="space-y-1 text-sm font-medium text-foreground">
+            <span>Max pages</span>
+            <Input
+              type="number"
+              min={1}
+              max={500}
+              value={options.maxPages}
+              disabled={disabled}
+              onChange={(e) => onOptionsChange({ ...options, maxPages: Number(e.target.value) })}
+            />
+          </label>
+          <label className="space-y-1 text-sm font-medium text-foreground">
+            <span>Include paths</span>
+            <Textarea
+              placeholder={"/blog/**\n/products/*"}
+              defaultValue={options.include.join("\n")}
+              disabled={disabled}
+              onBlur={(e) => onOptionsChange({ ...options, include: parsePatterns(e.target.value) })}
+            />
+          </label>
+          <label className="space-y-1 text-sm font-medium text-foreground">
+            <span>Exclude paths</span>
+            <Textarea
+              placeholder={"/admin\n/**/*.pdf"}
+              defaultValue={options.exclude.join("\n")}
+              disabled={disabled}
+              onBlur={(e) => onOptionsChange({ ...options, exclude: parsePatterns(e.target.value) })}
+            />
+          </label>
+          <p className="md:col-span-2 text-xs text-muted-foreground">
+            Discovers same-origin pages from the entered URL. Pages disallowed by robots.txt are
+            skipped when the sitemap is used. Patterns match the URL path;
+            {" "}<code>*</code> matches within a segment, <code>**</code> across segments, and
+            patterns without a wildcard match that path and the pages below it.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { SitePageResult } from "@/types/crawl";
+
+interface SiteResultsProps {
+  pages: SitePageResult[];
+  status: string | null;
+}
+
+function statusClassName(status: string): string {
+  switch (status) {
+    case "success":
+      return "bg-green-500/20 dark:bg-green-500/15 text-green-700 dark:text-green-300 border border-green-500/30 dark:border-green-500/25";
+    case "warning":
+      return "bg-yellow-500/20 dark:bg-yellow-500/15 text-yellow-700 dark:text-yellow-300 border border-yellow-500/30 dark:border-yellow-500/25";
+    case "error":
+      return "bg-red-500/20 dark:bg-red-500/15 text-red-700 dark:text-red-300 border border-red-500/30 dark:border-red-500/25";
+    default:
+      return "bg-gray-500/20 dark:bg-gray-500/15 text-gray-700 dark:text-gray-300 border border-gray-500/30 dark:border-gray-500/25";
+  }
+}
+
+export function SiteResults({ pages, status }: SiteResultsProps) {
+  if (pages.length === 0 && !status) return null;
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <div className="space-y-1">
+        <h3 className="text-2xl font-semibold text-foreground">
+          Site Results
+        </h3>
+        {status && (
+          <p className="text-sm text-muted-foreground">{status}</p>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        {pages.map((page) => (
+          <div
+            key={page.url}
+            className="rounded-lg p-6 bg-card backdrop-blur-lg border border-border shadow-md space-y-4"
+          >
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0 space-y-1">
+                <h4 className="font-semibold text-lg truncate">{page.title || page.url}</h4>
+                <a
+                  href={page.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block text-sm text-primary hover:underline truncate"
+                >
+                  {page.url}
+                </a>
+              </div>
+              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                Depth {page.depth} · HTTP {page.statusCode}
+              </span>
+            </div>
+
+            {page.results.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Waiting for checks...</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                {page.results.map((result) => (
+                  <div
+                    key={result.id}
+                    className="flex items-center justify-between gap-3 rounded-md border border-border px-3 py-2"
+                    title={result.message}
+                  >
+                    <span className="text-sm font-medium truncate">{result.label}</span>
+                    <div className="flex items-center gap-2">
+                      {result.score !== undefined && (
+                        <span className="text-sm font-semibold">{result.score}</span>
+                      )}
+                      <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold tracking-wide uppercase ${statusClassName(result.status)}`}>
+                        {result.status}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
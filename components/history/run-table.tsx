@@ -0,0 +1,92 @@
+import Link from "next/link";
+import { TrendingDown, TrendingUp } from "lucide-react";
+import type { ScanRun } from "@/types/history";
+
+interface RunTableProps {
+  runs: ScanRun[];
+}
+
+/**
+ * Past runs (newest first) with each check's score and change since the previous run
+ */
+export function RunTable({ runs }: RunTableProps) {
+  const columns = new Map<string, string>();
+  for (const run of runs) {
+    for (const check of run.checks) {
+      if (!columns.has(check.checkId)) columns.set(check.checkId, check.label);
+    }
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-border text-left text-muted-foreground">
+            <th className="py-2 pr-4 font-medium">Run</th>
+            {[...columns].map(([checkId, label]) => (
+              <th key={checkId} className="py-2 px-3 font-medium whitespace-nowrap">{label}</th>
+            ))}
+            <th className="py-2 pl-3" />
+          </tr>
+        </thead>
+        <tbody>
+          {runs.map((run, runIndex) => (
+            <tr key={run.runId} className="border-b border-border last:border-0">
+              <td className="py-2 pr-4 whitespace-nowrap text-muted-foreground">
+                {new Date(run.timestamp).toLocaleString()}
+              </td>
+              {[...columns.keys()].map(checkId => {
+                const check = run.checks.find(item => item.checkId === checkId);
+                if (!check) {
+                  return <td key={checkId} className="py-2 px-3 text-muted-foreground">—</td>;
+                }
+
+                return (
+                  <td
+                    key={checkId}
+                    className={`py-2 px-3 whitespace-nowrap ${
+                      check.regressed ? "bg-red-50 dark:bg-red-950/20" : ""
+                    }`}
+                  >
+                    <Link href={`/report/${check.reportId}`} className="hover:underline">
+                      <span className={check.regressed ? "font-semibold text-red-600 dark:text-red-400" : "text-foreground"}>
+                        {check.score !== undefined ? check.score : check.status}
+                      </span>
+                    </Link>
+                    {check.delta !== undefined && check.delta !== 0 && (
+                      <span
+                        className={`ml-2 inline-flex items-center text-xs ${
+                          check.delta < 0 ? "text-red-600 dark:text-red-400" : "text-green-600 dark:text-green-400"
+                        }`}
+                      >
+                        {check.delta < 0 ? (
+                          <TrendingDown className="h-3 w-3 mr-0.5" />
+                        ) : (
+                          <TrendingUp className="h-3 w-3 mr-0.5" />
+                        )}
+                        {check.delta > 0 ? `+${check.delta}` : check.delta}
+                      </span>
+                    )}
+                  </td>
+                );
+              })}
+              <td className="py-2 pl-3 whitespace-nowrap text-right space-x-4">
+                <Link href={`/export?runId=${encodeURIComponent(run.runId)}`} className="text-primary hover:underline">
+                  Export
+                </Link>
+                {runs[runIndex + 1] && (
+                  <Link
+                    href={`/compare?base=${encodeURIComponent(runs[runIndex + 1].runId)}&target=${encodeURIComponent(run.runId)}`}
+                    className="text-primary hover:underline"
+                  >
+                    Compare with previous
+                  </Link>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
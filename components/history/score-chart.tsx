@@ -0,0 +1,95 @@
+import type { ScoreSeries } from "@/types/history";
+
+interface ScoreChartProps {
+  series: ScoreSeries[];
+}
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const PADDING = { top: 12, right: 16, bottom: 28, left: 36 };
+const COLORS = ["#2563eb", "#16a34a", "#db2777", "#ea580c", "#7c3aed", "#0891b2", "#ca8a04", "#dc2626"];
+
+/**
+ * Line chart of each check's score (0-100) over time
+ */
+export function ScoreChart({ series }: ScoreChartProps) {
+  const points = series.flatMap(line => line.points);
+  if (points.length === 0) {
+    return <p className="text-sm text-muted-foreground">No scored runs yet.</p>;
+  }
+
+  const minTime = Math.min(...points.map(point => point.timestamp));
+  const maxTime = Math.max(...points.map(point => point.timestamp));
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const x = (timestamp: number) =>
+    maxTime === minTime
+      ? PADDING.left + plotWidth / 2
+      : PADDING.left + ((timestamp - minTime) / (maxTime - minTime)) * plotWidth;
+  const y = (score: number) => PADDING.top + (1 - score / 100) * plotHeight;
+
+  return (
+    <div className="space-y-3">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label="Check scores over time"
+      >
+        {[0, 50, 90, 100].map(score => (
+          <g key={score}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(score)}
+              y2={y(score)}
+              className="stroke-border"
+              strokeDasharray={score === 0 || score === 100 ? undefined : "4 4"}
+            />
+            <text x={PADDING.left - 8} y={y(score) + 4} textAnchor="end" className="fill-muted-foreground text-[10px]">
+              {score}
+            </text>
+          </g>
+        ))}
+
+        <text x={PADDING.left} y={HEIGHT - 8} className="fill-muted-foreground text-[10px]">
+          {new Date(minTime).toLocaleDateString()}
+        </text>
+        {maxTime !== minTime && (
+          <text x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end" className="fill-muted-foreground text-[10px]">
+            {new Date(maxTime).toLocaleDateString()}
+          </text>
+        )}
+
+        {series.map((line, index) => {
+          const color = COLORS[index % COLORS.length];
+          return (
+            <g key={line.checkId}>
+              <polyline
+                fill="none"
+                stroke={color}
+                strokeWidth={2}
+                points={line.points.map(point => `${x(point.timestamp)},${y(point.score)}`).join(" ")}
+              />
+              {line.points.map(point => (
+                <circle key={point.runId} cx={x(point.timestamp)} cy={y(point.score)} r={3.5} fill={color}>
+                  <title>{`${line.label}: ${point.score}/100 on ${new Date(point.timestamp).toLocaleString()}`}</title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="flex flex-wrap gap-4">
+        {series.map((line, index) => (
+          <span key={line.checkId} className="inline-flex items-center gap-2 text-sm text-muted-foreground">
+            <span className="h-2 w-4 rounded-full" style={{ backgroundColor: COLORS[index % COLORS.length] }} />
+            {line.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { createMonitor } from "@/app/actions/monitors";
+import { MONITOR_SCHEDULES } from "@/lib/monitors/schedule";
+import type { CheckOption } from "@/types/checks";
+import type { MonitorSchedule } from "@/types/monitors";
+
+interface MonitorFormProps {
+  checks: CheckOption[];
+}
+
+/**
+ * Register a URL with a schedule and the checks to run on it
+ */
+export function MonitorForm({ checks }: MonitorFormProps) {
+  const router = useRouter();
+  const [url, setUrl] = useState("");
+  const [schedule, setSchedule] = useState<MonitorSchedule>("daily");
+  const [selectedChecks, setSelectedChecks] = useState<string[]>(checks.map(check => check.id));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleCheck = (checkId: string) => {
+    setSelectedChecks(prev =>
+      prev.includes(checkId) ? prev.filter(id => id !== checkId) : [...prev, checkId]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await createMonitor({ url, schedule, checks: selectedChecks });
+      setUrl("");
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add monitor");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form className="space-y-4" onSubmit={handleSubmit}>
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_12rem] gap-3">
+        <Input
+          type="url"
+          placeholder="https://example.com"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          required
+        />
+        <select
+          value={schedule}
+          onChange={(e) => setSchedule(e.target.value as MonitorSchedule)}
+          aria-label="Schedule"
+          className="border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 py-1 text-base shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] md:text-sm capitalize"
+        >
+          {MONITOR_SCHEDULES.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      </div>
+
+      <fieldset className="flex flex-wrap gap-x-6 gap-y-2">
+        <legend className="sr-only">Checks to run</legend>
+        {checks.map(check => (
+          <label key={check.id} className="flex items-center gap-2 text-sm text-foreground">
+            <input
+              type="checkbox"
+              checked={selectedChecks.includes(check.id)}
+              onChange={() => toggleCheck(check.id)}
+              className="h-4 w-4 accent-primary"
+            />
+            {check.label}
+          </label>
+        ))}
+      </fieldset>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <Button type="submit" disabled={isSaving || selectedChecks.length === 0}>
+        {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+        Add Monitor
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Pause, Play, RotateCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { deleteMonitor, runMonitorNow, setMonitorEnabled } from "@/app/actions/monitors";
+import type { Monitor } from "@/types/monitors";
+import type { CheckOption } from "@/types/checks";
+
+interface MonitorListProps {
+  monitors: Monitor[];
+  checks: CheckOption[];
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  success: "text-green-600 dark:text-green-400",
+  warning: "text-yellow-600 dark:text-yellow-400",
+  error: "text-red-600 dark:text-red-400",
+};
+
+/**
+ * Registered monitors with their last result and controls
+ */
+export function MonitorList({ monitors, checks }: MonitorListProps) {
+  const router = useRouter();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const checkLabel = (checkId: string) => checks.find(check => check.id === checkId)?.label ?? checkId;
+
+  const runAction = async (monitorId: string, action: () => Promise<unknown>) => {
+    setBusyId(monitorId);
+    setError(null);
+    try {
+      await action();
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (monitors.length === 0) {
+    return <p className="text-muted-foreground">No monitors registered yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-border text-left text-muted-foreground">
+              <th className="py-2 pr-4 font-medium">URL</th>
+              <th className="py-2 px-3 font-medium">Schedule</th>
+              <th className="py-2 px-3 font-medium">Last run</th>
+              <th className="py-2 px-3 font-medium">Next run</th>
+              <th className="py-2 pl-3" />
+            </tr>
+          </thead>
+          <tbody>
+            {monitors.map(monitor => (
+              <tr key={monitor.id} className={`border-b border-border last:border-0 ${monitor.enabled ? "" : "opacity-60"}`}>
+                <td className="py-2 pr-4">
+                  <Link href={`/history?url=${encodeURIComponent(monitor.url)}`} className="text-foreground hover:underline break-all">
+                    {monitor.url}
+                  </Link>
+                  <p className="text-xs text-muted-foreground">{monitor.checks.map(checkLabel).join(", ")}</p>
+                </td>
+                <td className="py-2 px-3 capitalize whitespace-nowrap">{monitor.schedule}</td>
+                <td className="py-2 px-3 whitespace-nowrap">
+                  {monitor.lastRunAt ? (
+                    <>
+                      {new Date(monitor.lastRunAt).toLocaleString()}
+                      {monitor.lastStatus && (
+                        <span className={`ml-2 text-xs font-medium uppercase ${STATUS_STYLES[monitor.lastStatus] ?? "text-muted-foreground"}`}>
+                          {monitor.lastStatus}
+                        </span>
+                      )}
+                    </>
+                  ) : (
+                    <span className="text-muted-foreground">Never</span>
+                  )}
+                </td>
+                <td className="py-2 px-3 whitespace-nowrap text-muted-foreground">
+                  {monitor.enabled ? new Date(monitor.nextRunAt).toLocaleString() : "Paused"}
+                </td>
+                <td className="py-2 pl-3">
+                  <div className="flex justify-end gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Run now"
+                      disabled={busyId === monitor.id}
+                      onClick={() => runAction(monitor.id, () => runMonitorNow(monitor.id))}
+                    >
+                      <RotateCw className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title={monitor.enabled ? "Pause" : "Resume"}
+                      disabled={busyId === monitor.id}
+                      onClick={() => runAction(monitor.id, () => setMonitorEnabled(monitor.id, !monitor.enabled))}
+                    >
+                      {monitor.enabled ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Delete"
+                      disabled={busyId === monitor.id}
+                      onClick={() => runAction(monitor.id, () => deleteMonitor(monitor.id))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
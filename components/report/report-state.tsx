@@ -0,0 +1,66 @@
+"use client";
+
+import type { ReactNode } from "react";
+import Link from "next/link";
+import { ArrowLeft, Loader2, RotateCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface RerunButtonProps {
+  isRerunning: boolean;
+  onRerun: () => void;
+  variant?: "default" | "outline";
+}
+
+export function RerunButton({ isRerunning, onRerun, variant = "default" }: RerunButtonProps) {
+  return (
+    <Button variant={variant} disabled={isRerunning} onClick={onRerun}>
+      {isRerunning ? (
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+      ) : (
+        <RotateCw className="h-4 w-4 mr-2" />
+      )}
+      Re-run Check
+    </Button>
+  );
+}
+
+interface ReportStateProps {
+  icon?: ReactNode;
+  title: string;
+  message: string;
+  /** URL the report was for, when known */
+  url?: string;
+  /** Extra actions shown next to "Back to Home" */
+  actions?: ReactNode;
+}
+
+/**
+ * Full-page message for reports that can't be shown (yet)
+ */
+export function ReportState({ icon, title, message, url, actions }: ReportStateProps) {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted dark:from-background dark:to-card">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto">
+          <div className="text-center">
+            {icon && <div className="flex justify-center mb-4">{icon}</div>}
+            <h1 className="text-2xl font-bold text-foreground mb-4">{title}</h1>
+            <p className="text-muted-foreground mb-2">{message}</p>
+            {url && (
+              <p className="text-sm text-muted-foreground mb-6 break-all">{url}</p>
+            )}
+            <div className="flex items-center justify-center gap-3 mt-6">
+              <Link href="/">
+                <Button variant="outline">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back to Home
+                </Button>
+              </Link>
+              {actions}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import type { BoundingBox, CheckDetail, SourceContext } from "@/types/crawl";
+
+interface SourceExtractProps {
+  context: SourceContext;
+}
+
+/**
+ * Source excerpt of a finding with the offending markup highlighted
+ */
+export function SourceExtract({ context }: SourceExtractProps) {
+  const { extract, highlightStart, highlightLength } = context;
+  const hasHighlight = highlightStart !== undefined && highlightLength !== undefined && highlightLength > 0;
+  const end = hasHighlight ? highlightStart + highlightLength : 0;
+
+  return (
+    <pre className="mt-2 overflow-x-auto rounded bg-muted px-3 py-2 text-xs text-muted-foreground whitespace-pre-wrap break-all">
+      <code>
+        {hasHighlight ? (
+          <>
+            {extract.slice(0, highlightStart)}
+            <mark className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-700/60">
+              {extract.slice(highlightStart, end)}
+            </mark>
+            {extract.slice(end)}
+          </>
+        ) : (
+          extract
+        )}
+      </code>
+    </pre>
+  );
+}
+
+/**
+ * "Line 4, column 2", or a range when the finding spans several lines
+ */
+export function formatSourceLocation(detail: CheckDetail): string {
+  if (!detail.line) return "";
+
+  const start = `Line ${detail.line}${detail.column ? `, column ${detail.column}` : ""}`;
+  if (detail.endLine && detail.endLine !== detail.line) {
+    return `${start} to line ${detail.endLine}${detail.endColumn ? `, column ${detail.endColumn}` : ""}`;
+  }
+
+  return start;
+}
+
+/**
+ * "At 20, 100 on the page (640 × 24 px)", for findings from a rendered page
+ */
+export function formatPageLocation(box: BoundingBox): string {
+  return `At ${box.x}, ${box.y} on the page (${box.width} × ${box.height} px)`;
+}
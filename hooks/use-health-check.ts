@@ -1,8 +1,86 @@
 "use client";
 
-import { useState } from "react";
-import healthChecksConfig from "@/config/health-checks.json";
-import type { CrawlData, CrawlResponse, HealthCheckResult } from "@/types/crawl";
+import { useRef, useState } from "react";
+import { getCheckTimeout, getEnabledHealthChecks, getExecutionConfig, getHealthCheck } from "@/lib/checks/registry";
+import { runWithConcurrency, withTimeout } from "@/lib/concurrency";
+import { DEFAULT_SITE_CRAWL_OPTIONS } from "@/lib/site-crawler";
+import { createReportId, createRunId, toReportCrawlMetadata } from "@/lib/reports/utils";
+import type { CheckProgressEvent, CheckRunOptions } from "@/types/checks";
+import type { CrawlData, HealthCheckResult, SiteCrawlOptions, SitePageResult } from "@/types/crawl";
+import type { ReportCrawlMetadata } from "@/types/reports";
+
+export type CheckMode = "page" | "site";
+
+/** Extra time the client waits beyond the server-side timeout before giving up */
+const CLIENT_TIMEOUT_GRACE_MS = 5000;
+
+/** Limit for discovering the pages of a site, which crawls them one by one */
+const SITE_DISCOVERY_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * The page a check runs on. Without HTML the check's server action crawls
+ * the page itself.
+ */
+interface CheckedPage {
+    html?: string;
+    crawl: ReportCrawlMetadata;
+}
+
+function toCheckedPage(data: CrawlData | null): CheckedPage | null {
+    return data ? { html: data.html, crawl: toReportCrawlMetadata(data) } : null;
+}
+
+function createJobId(prefix: string): string {
+    return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+type ProgressHandler = (event: CheckProgressEvent) => void;
+
+/**
+ * Follow a server job's progress stream
+ * @returns Function that closes the stream
+ */
+function followProgress(jobId: string, onProgress: ProgressHandler): () => void {
+    if (typeof EventSource === 'undefined') return () => {};
+
+    const source = new EventSource(`/api/checks/${encodeURIComponent(jobId)}/progress`);
+    source.onmessage = (message) => {
+        const event = JSON.parse(message.data) as CheckProgressEvent;
+        if (event.type === 'done') {
+            source.close();
+        }
+        onProgress(event);
+    };
+    // Progress is best-effort; the action's result is what counts
+    source.onerror = () => source.close();
+
+    return () => source.close();
+}
+
+/**
+ * Apply a progress event to a running result's live sub-steps and partial details
+ */
+function applyProgress(result: HealthCheckResult, event: CheckProgressEvent): HealthCheckResult {
+    if (result.status !== "running") return result;
+
+    switch (event.type) {
+        case 'step': {
+            const steps = result.steps || [];
+            const index = steps.findIndex(step => step.id === event.step.id);
+            return {
+                ...result,
+                message: event.step.message,
+                steps: index === -1
+                    ? [...steps, event.step]
+                    : steps.map((step, i) => i === index ? event.step : step)
+            };
+        }
+        case 'details':
+            return { ...result, details: [...(result.details || []), ...event.details] };
+        default:
+            return result;
+    }
+}
 
 export function useHealthCheck() {
     const [url, setUrl] = useState("");
@@ -10,13 +88,23 @@ export function useHealthCheck() {
     const [isLoading, setIsLoading] = useState(false);
     const [crawlData, setCrawlData] = useState<CrawlData | null>(null);
     const [healthResults, setHealthResults] = useState<HealthCheckResult[]>([]);
+    const [mode, setMode] = useState<CheckMode>("page");
+    const [siteCrawlOptions, setSiteCrawlOptions] = useState<SiteCrawlOptions>(DEFAULT_SITE_CRAWL_OPTIONS);
+    const [siteResults, setSiteResults] = useState<SitePageResult[]>([]);
+    const [siteCrawlStatus, setSiteCrawlStatus] = useState<string | null>(null);
+    const [runningChecks, setRunningChecks] = useState<string[]>([]);
+
+    // Aborted by "Cancel"; replaced with a fresh controller afterwards
+    const cancelControllerRef = useRef(new AbortController());
+    const activeJobIdsRef = useRef(new Set<string>());
 
-    const enabledHealthChecks = healthChecksConfig.healthChecks.filter(check => check.enabled);
+    const enabledHealthChecks = getEnabledHealthChecks();
 
     const validateUrl = (value: string) => {
         try {
-            const urlPattern = /^https?:\/\/.+\..+/;
-            const isValid = urlPattern.test(value);
+            // Accept any http(s) URL with a host, including localhost and intranet names
+            const parsed = new URL(value);
+            const isValid = (parsed.protocol === 'http:' || parsed.protocol === 'https:') && parsed.hostname.length > 0;
             setIsValidUrl(isValid);
             return isValid;
         } catch {
@@ -31,60 +119,101 @@ export function useHealthCheck() {
         // Clear previous results when URL changes
         setCrawlData(null);
         setHealthResults([]);
+        setSiteResults([]);
+        setSiteCrawlStatus(null);
     };
 
-    const crawlUrl = async (): Promise<CrawlData | null> => {
+    const handleModeChange = (value: CheckMode) => {
+        setMode(value);
+        setSiteResults([]);
+        setSiteCrawlStatus(null);
+    };
+
+    const trackJob = (jobId: string) => activeJobIdsRef.current.add(jobId);
+    const untrackJob = (jobId: string) => activeJobIdsRef.current.delete(jobId);
+
+    const cancelServerJobs = async (jobIds: string[]) => {
+        if (jobIds.length === 0) return;
+        try {
+            const { cancelCheckJobs } = await import('@/app/actions/check-jobs');
+            await cancelCheckJobs(jobIds);
+        } catch (error) {
+            console.error("Error cancelling checks:", error);
+        }
+    };
+
+    const crawlUrl = async (signal: AbortSignal, onProgress?: ProgressHandler): Promise<CrawlData | null> => {
+        const jobId = createJobId('crawl');
+        const timeoutMs = getExecutionConfig().timeoutMs;
+        const stopProgress = onProgress ? followProgress(jobId, onProgress) : () => {};
+        trackJob(jobId);
+
         try {
             // Use server action for crawling
             const { crawlUrl: crawlUrlAction } = await import('@/app/actions/crawl');
-            const data = await crawlUrlAction(url);
+            const data = await withTimeout(
+                crawlUrlAction(url, { jobId, timeoutMs }),
+                timeoutMs + CLIENT_TIMEOUT_GRACE_MS,
+                'Crawl timed out',
+                signal
+            );
             return data;
         } catch (error) {
             console.error("Crawl error:", error);
+            void cancelServerJobs([jobId]);
             throw error;
+        } finally {
+            stopProgress();
+            untrackJob(jobId);
         }
     };
 
-    const runHealthCheck = async (checkType: string, data: CrawlData) => {
+    const runHealthCheck = async (
+        checkType: string,
+        checkUrl: string,
+        page: CheckedPage | null,
+        signal: AbortSignal,
+        runId: string,
+        onProgress?: ProgressHandler,
+        runOptions: Pick<CheckRunOptions, 'pageOnly'> = {}
+    ): Promise<HealthCheckResult> => {
+        const check = getHealthCheck(checkType);
+        const jobId = createJobId(checkType);
+        const reportId = createReportId(checkType);
+        const stopProgress = onProgress ? followProgress(jobId, onProgress) : () => {};
+        let reserved = false;
+
+        setRunningChecks(prev => [...prev, checkType]);
+        trackJob(jobId);
+
         try {
-            let validationResult;
-
-            // All validators now use server actions
-            if (checkType === 'accessibility') {
-                const { validateAccessibility } = await import('@/app/actions/validate/accessibility');
-                validationResult = await validateAccessibility(data.url, data.html);
-                validationResult = { success: true, data: validationResult };
-            } else if (checkType === 'seo') {
-                const { validateSEO } = await import('@/app/actions/validate/seo');
-                validationResult = await validateSEO(data.url, data.html);
-                validationResult = { success: true, data: validationResult };
-            } else if (checkType === 'markup') {
-                const { validateHTMLMarkup } = await import('@/app/actions/validate/markup');
-                validationResult = await validateHTMLMarkup(data.url, data.html);
-                validationResult = { success: true, data: validationResult };
-            } else if (checkType === 'contrast') {
-                const { validateContrast } = await import('@/app/actions/validate/contrast');
-                validationResult = await validateContrast(data.url, data.html);
-                validationResult = { success: true, data: validationResult };
-            } else if (checkType === 'security') {
-                const { validateSecurity } = await import('@/app/actions/validate/security');
-                validationResult = await validateSecurity(data.url);
-                validationResult = { success: true, data: validationResult };
-            } else if (checkType === 'lighthouse') {
-                const { validateLighthouse } = await import('@/app/actions/validate/lighthouse');
-                console.log(`[useHealthCheck] Calling validateLighthouse for ${data.url}`);
-                validationResult = await validateLighthouse(data.url);
-                console.log('[useHealthCheck] Received validationResult:', validationResult);
-                validationResult = { success: true, data: validationResult };
-            } else {
+            if (!check) {
                 throw new Error(`Unknown check type: ${checkType}`);
             }
 
-            if (!validationResult.success) {
-                throw new Error('Validation failed');
+            if (check.input === 'html' && !page) {
+                throw new Error('No HTML content found to validate');
+            }
+
+            signal.throwIfAborted();
+
+            // Lets the report page show "still running" for this report id
+            try {
+                const { reserveReport } = await import('@/app/actions/reports');
+                await reserveReport(checkType, checkUrl, reportId, runId);
+                reserved = true;
+            } catch (error) {
+                console.error('Error reserving report:', error);
             }
 
-            const reportData = validationResult.data;
+            // Every check runs through its registered server action
+            const timeoutMs = getCheckTimeout(check);
+            const reportData = await withTimeout(
+                check.action(checkUrl, check.input === 'html' ? page?.html : undefined, { ...runOptions, jobId, timeoutMs, reportId }),
+                timeoutMs + CLIENT_TIMEOUT_GRACE_MS,
+                `Check timed out after ${Math.round(timeoutMs / 1000)}s`,
+                signal
+            );
 
             console.log('[useHealthCheck] reportData extracted:', {
                 score: reportData.score,
@@ -94,13 +223,16 @@ export function useHealthCheck() {
 
             const result: HealthCheckResult = {
                 id: checkType,
-                label: reportData.label || enabledHealthChecks.find(c => c.id === checkType)?.label || checkType,
+                label: check.label,
                 status: reportData.status,
                 message: reportData.message,
                 timestamp: reportData.timestamp,
-                reportId: reportData.id,
+                reportId: reportData.reportId,
                 score: reportData.score,
-                url: data.url
+                details: reportData.details,
+                recommendations: reportData.recommendations,
+                dataSource: reportData.dataSource,
+                url: checkUrl
             };
 
             console.log('[useHealthCheck] Final result object:', {
@@ -110,130 +242,240 @@ export function useHealthCheck() {
                 message: result.message
             });
 
-            setHealthResults(prev => [...prev.filter(r => r.id !== checkType), result]);
-
-            // Store essential report data for the report page (excluding large data like HTML and screenshots)
-            // In a real app, this would be saved to a database
-            if (typeof window !== 'undefined' && result.reportId) {
-                // Create a lightweight version without large data
-                const lightweightReport = {
-                    ...reportData,
-                    // Include only essential crawl metadata, not the full HTML/screenshot
-                    crawlData: {
-                        url: data.url,
-                        title: data.title,
-                        description: data.description,
-                        statusCode: data.statusCode,
-                        responseTime: data.responseTime,
-                        // Exclude: html, markdown, screenshot, links
-                    }
-                };
-
+            // Store the report server-side for the report page (without the HTML and screenshot)
+            if (result.reportId) {
                 try {
-                    localStorage.setItem(`report-${result.reportId}`, JSON.stringify(lightweightReport));
+                    const { saveReport } = await import('@/app/actions/reports');
+                    await saveReport({ ...reportData, url: checkUrl }, {
+                        crawl: page?.crawl,
+                        runId
+                    });
                 } catch (error) {
-                    // Handle quota exceeded error gracefully
-                    if (error instanceof Error && error.name === 'QuotaExceededError') {
-                        console.warn('localStorage quota exceeded. Clearing old reports...');
-                        // Clear old report data to make space
-                        const keys = Object.keys(localStorage);
-                        const reportKeys = keys.filter(key => key.startsWith('report-'));
-                        // Keep only the 5 most recent reports
-                        if (reportKeys.length > 5) {
-                            reportKeys.slice(0, reportKeys.length - 5).forEach(key => {
-                                localStorage.removeItem(key);
-                            });
-                        }
-                        // Try storing again
-                        try {
-                            localStorage.setItem(`report-${result.reportId}`, JSON.stringify(lightweightReport));
-                        } catch (retryError) {
-                            console.error('Failed to store report even after cleanup:', retryError);
-                        }
-                    } else {
-                        console.error('Error storing report:', error);
-                    }
+                    // The result is still shown; only the detail page is unavailable
+                    console.error('Error storing report:', error);
                 }
             }
 
+            return result;
+
         } catch (error) {
             console.error(`Error running ${checkType} check:`, error);
 
+            // Stop server work we are no longer waiting for
+            void cancelServerJobs([jobId]);
+
             // Create error result
-            const result: HealthCheckResult = {
+            const errorResult: HealthCheckResult = {
                 id: checkType,
-                label: enabledHealthChecks.find(c => c.id === checkType)?.label || checkType,
+                label: check?.label || checkType,
                 status: "error",
                 message: error instanceof Error ? error.message : "An unknown error occurred",
                 timestamp: Date.now(),
-                reportId: `${checkType}-${Date.now()}-error`,
-                url: data.url
+                reportId,
+                url: checkUrl
             };
 
+            // Replace the "running" placeholder so the report page can offer a re-run
+            if (reserved) {
+                import('@/app/actions/reports')
+                    .then(({ saveReport }) => saveReport(errorResult, { runId }))
+                    .catch(storeError => console.error('Error storing report:', storeError));
+            }
+
+            return errorResult;
+        } finally {
+            stopProgress();
+            untrackJob(jobId);
+            setRunningChecks(prev => {
+                const index = prev.indexOf(checkType);
+                return index === -1 ? prev : [...prev.slice(0, index), ...prev.slice(index + 1)];
+            });
+        }
+    };
+
+    const pendingResult = (checkType: string): HealthCheckResult => ({
+        id: checkType,
+        label: getHealthCheck(checkType)?.label || checkType,
+        status: "running",
+        message: "Running...",
+        timestamp: Date.now(),
+        url
+    });
+
+    const crawlDataPromiseRef = useRef<Promise<CrawlData | null> | null>(null);
+
+    /**
+     * Crawl the URL once; concurrent callers share the same request
+     */
+    const getCrawlData = (signal: AbortSignal, onProgress?: ProgressHandler): Promise<CrawlData | null> => {
+        if (crawlData) return Promise.resolve(crawlData);
+
+        if (!crawlDataPromiseRef.current) {
+            crawlDataPromiseRef.current = crawlUrl(signal, onProgress)
+                .then(data => {
+                    setCrawlData(data);
+                    return data;
+                })
+                .finally(() => {
+                    crawlDataPromiseRef.current = null;
+                });
+        }
+
+        return crawlDataPromiseRef.current;
+    };
+
+    /**
+     * Run checks for the entered URL with the configured concurrency limit.
+     * URL-only checks start right away; HTML checks wait for the crawl.
+     */
+    const runPageChecks = async (checkIds: string[]) => {
+        const signal = cancelControllerRef.current.signal;
+        const runId = createRunId();
+
+        setHealthResults(prev => [
+            ...prev.filter(r => !checkIds.includes(r.id)),
+            ...checkIds.map(pendingResult)
+        ]);
+
+        const showProgress = (ids: string[]) => (event: CheckProgressEvent) => {
+            setHealthResults(prev => prev.map(r => ids.includes(r.id) ? applyProgress(r, event) : r));
+        };
+
+        // The crawl is shared, so its steps show on every check waiting for HTML
+        const htmlCheckIds = checkIds.filter(id => getHealthCheck(id)?.input === 'html');
+
+        await runWithConcurrency(checkIds, getExecutionConfig().concurrency, async (checkType) => {
+            let result: HealthCheckResult;
+
+            try {
+                const data = htmlCheckIds.includes(checkType)
+                    ? await getCrawlData(signal, showProgress(htmlCheckIds))
+                    : crawlData;
+                result = await runHealthCheck(checkType, url, toCheckedPage(data), signal, runId, showProgress([checkType]));
+            } catch (error) {
+                console.error(`Error running ${checkType} check:`, error);
+                result = {
+                    id: checkType,
+                    label: getHealthCheck(checkType)?.label || checkType,
+                    status: "error",
+                    message: error instanceof Error ? error.message : "An unknown error occurred",
+                    timestamp: Date.now(),
+                    url: url
+                };
+            }
+
             setHealthResults(prev => [...prev.filter(r => r.id !== checkType), result]);
+        }, signal);
+
+        // Checks never started because the run was cancelled
+        if (signal.aborted) {
+            setHealthResults(prev => prev.map(r => r.status === "running" && checkIds.includes(r.id)
+                ? { ...r, status: "error", message: "Check cancelled" }
+                : r
+            ));
         }
     };
 
+    const handleCancel = async () => {
+        cancelControllerRef.current.abort();
+        cancelControllerRef.current = new AbortController();
+
+        const jobIds = [...activeJobIdsRef.current];
+        activeJobIdsRef.current.clear();
+        await cancelServerJobs(jobIds);
+    };
+
     const handleCheckClick = async (checkType: string) => {
+        if (!isValidUrl || runningChecks.includes(checkType)) return;
+
+        await runPageChecks([checkType]);
+    };
+
+    const handleRunAllChecks = async () => {
         if (!isValidUrl) return;
 
         setIsLoading(true);
 
         try {
-            // First crawl the URL if we don't have data yet
-            let data = crawlData;
-            if (!data) {
-                data = await crawlUrl();
-                setCrawlData(data);
-            }
-
-            // Run the specific health check only if we have data
-            if (data) {
-                await runHealthCheck(checkType, data);
-            }
+            await runPageChecks(enabledHealthChecks.map(check => check.id));
         } catch (error) {
-            console.error(`Error running ${checkType} check:`, error);
-            // Add error result
-            const errorResult: HealthCheckResult = {
-                id: checkType,
-                label: enabledHealthChecks.find(c => c.id === checkType)?.label || checkType,
-                status: "error",
-                message: error instanceof Error ? error.message : "An unknown error occurred",
-                timestamp: Date.now(),
-                url: url
-            };
-            setHealthResults(prev => [...prev.filter(r => r.id !== checkType), errorResult]);
+            console.error("Error running all checks:", error);
         } finally {
             setIsLoading(false);
         }
     };
 
-    const handleRunAllChecks = async () => {
+    const runSiteChecks = async (checkIds: string[]) => {
         if (!isValidUrl) return;
 
         setIsLoading(true);
+        setSiteResults([]);
+        setSiteCrawlStatus("Discovering pages...");
+
+        const signal = cancelControllerRef.current.signal;
+        const discoveryJobId = createJobId('site-crawl');
+        trackJob(discoveryJobId);
 
         try {
-            // Crawl the URL once
-            let data = crawlData;
-            if (!data) {
-                data = await crawlUrl();
-                setCrawlData(data);
+            const { discoverSitePages } = await import('@/app/actions/site-crawl');
+            const { pages, skipped } = await withTimeout(
+                discoverSitePages(url, siteCrawlOptions, { jobId: discoveryJobId, timeoutMs: SITE_DISCOVERY_TIMEOUT_MS }),
+                SITE_DISCOVERY_TIMEOUT_MS + CLIENT_TIMEOUT_GRACE_MS,
+                `Site discovery timed out after ${SITE_DISCOVERY_TIMEOUT_MS / 60000} minutes`,
+                signal
+            ).finally(() => untrackJob(discoveryJobId));
+
+            if (skipped.length > 0) {
+                console.warn(`[useHealthCheck] ${skipped.length} pages could not be crawled`, skipped);
             }
 
-            // Run all enabled health checks only if we have data
-            if (data) {
-                for (const check of enabledHealthChecks) {
-                    await runHealthCheck(check.id, data);
-                }
+            setSiteResults(pages.map(page => ({
+                url: page.url,
+                depth: page.depth,
+                title: page.crawl.title,
+                statusCode: page.crawl.statusCode,
+                results: []
+            })));
+
+            const runIds = new Map(pages.map(page => [page.url, createRunId()]));
+            const tasks = pages.flatMap(page => checkIds.map(checkId => ({ page, checkId })));
+            let completed = 0;
+            setSiteCrawlStatus(`Checking ${pages.length} page${pages.length !== 1 ? 's' : ''}...`);
+
+            await runWithConcurrency(tasks, getExecutionConfig().concurrency, async ({ page, checkId }) => {
+                // Site-wide findings are reported with the first page only
+                const result = await runHealthCheck(checkId, page.url, { crawl: page.crawl }, signal, runIds.get(page.url) ?? createRunId(), undefined, {
+                    pageOnly: page !== pages[0]
+                });
+                completed++;
+                setSiteCrawlStatus(`Completed ${completed} of ${tasks.length} checks`);
+                setSiteResults(prev => prev.map(entry => entry.url === page.url
+                    ? { ...entry, results: [...entry.results.filter(r => r.id !== checkId), result] }
+                    : entry
+                ));
+            }, signal);
+
+            if (signal.aborted) {
+                setSiteCrawlStatus(`Cancelled after ${completed} of ${tasks.length} checks`);
+                return;
             }
+
+            setSiteCrawlStatus(
+                `Checked ${pages.length} page${pages.length !== 1 ? 's' : ''}` +
+                (skipped.length > 0 ? ` (${skipped.length} could not be crawled)` : '')
+            );
         } catch (error) {
-            console.error("Error running all checks:", error);
+            console.error("Error running site crawl:", error);
+            setSiteCrawlStatus(error instanceof Error ? error.message : "Site crawl failed");
         } finally {
             setIsLoading(false);
         }
     };
 
+    const handleSiteCheckClick = (checkType: string) => runSiteChecks([checkType]);
+
+    const handleRunSiteCrawl = () => runSiteChecks(enabledHealthChecks.map(check => check.id));
+
     return {
         url,
         isValidUrl,
@@ -242,6 +484,16 @@ export function useHealthCheck() {
         enabledHealthChecks,
         handleUrlChange,
         handleCheckClick,
-        handleRunAllChecks
+        handleRunAllChecks,
+        mode,
+        siteCrawlOptions,
+        siteResults,
+        siteCrawlStatus,
+        handleModeChange,
+        setSiteCrawlOptions,
+        handleSiteCheckClick,
+        handleRunSiteCrawl,
+        runningChecks,
+        handleCancel
     };
 }
@@ -0,0 +1,10 @@
+/**
+ * Next.js server startup hook: starts the scheduler for monitored sites
+ * (Node.js runtime only; the edge runtime has no file system or timers to run it)
+ */
+export async function register() {
+    if (process.env.NEXT_RUNTIME === 'nodejs') {
+        const { startMonitorScheduler } = await import('./lib/monitors/runner');
+        startMonitorScheduler();
+    }
+}
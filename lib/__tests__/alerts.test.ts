@@ -0,0 +1,129 @@
+import { describe, it, expect } from '@jest/globals';
+import type { AlertCondition, AlertRule } from '@/types/alerts';
+import type { StoredReport } from '@/types/reports';
+import { buildAlert, evaluateAlertRule, findPreviousReport, ruleAppliesTo } from '../alerts/rules';
+import { formatEmailMessage, formatSlackMessage, formatWebhookPayload } from '../alerts/formatters';
+
+function report(overrides: Partial<StoredReport> = {}): StoredReport {
+    return {
+        id: 'accessibility',
+        label: 'Accessibility Check',
+        status: 'warning',
+        score: 80,
+        message: '',
+        details: [],
+        timestamp: 2000,
+        reportId: 'accessibility-2000-abc',
+        url: 'https://example.com',
+        savedAt: 2000,
+        ...overrides
+    };
+}
+
+function rule(condition: AlertCondition, overrides: Partial<AlertRule> = {}): AlertRule {
+    return {
+        id: 'alert-1-abc',
+        name: 'Test rule',
+        condition,
+        channel: { type: 'webhook', url: 'http://localhost:9999/hook' },
+        enabled: true,
+        createdAt: 0,
+        ...overrides
+    };
+}
+
+describe('Alert Rules', () => {
+    it('should apply rules by check and normalized URL', () => {
+        const condition: AlertCondition = { type: 'score-below', checkId: 'accessibility', threshold: 70 };
+
+        expect(ruleAppliesTo(rule(condition, { url: 'https://EXAMPLE.com/' }), report())).toBe(true);
+        expect(ruleAppliesTo(rule(condition, { url: 'https://other.com' }), report())).toBe(false);
+        expect(ruleAppliesTo(rule({ ...condition, checkId: 'seo' }), report())).toBe(false);
+        expect(ruleAppliesTo(rule(condition, { enabled: false }), report())).toBe(false);
+    });
+
+    it('should fire when the score is below the threshold', () => {
+        const below = rule({ type: 'score-below', checkId: 'accessibility', threshold: 85 });
+
+        expect(evaluateAlertRule(below, report())?.summary).toBe('Accessibility Check score 80 is below 85');
+        expect(evaluateAlertRule(below, report({ score: 85 }))).toBeNull();
+        expect(evaluateAlertRule(below, report({ score: undefined, status: 'error' }))).toBeNull();
+    });
+
+    it('should fire when the score drops by more than the allowed points', () => {
+        const drop = rule({ type: 'score-drop', checkId: 'accessibility', points: 10 });
+
+        expect(evaluateAlertRule(drop, report({ score: 79 }), report({ score: 90 }))?.summary)
+            .toBe('Accessibility Check score dropped by 11 points (90 → 79)');
+        expect(evaluateAlertRule(drop, report({ score: 80 }), report({ score: 90 }))).toBeNull();
+        expect(evaluateAlertRule(drop, report({ score: 10 }))).toBeNull();
+    });
+
+    it('should fire on new issues at or above the minimum severity', () => {
+        const critical = rule({ type: 'new-issues', checkId: 'accessibility', minSeverity: 'critical' });
+        const previous = report({
+            details: [{ type: 'error', ruleId: 'image-alt', message: 'Images must have alternate text', severity: 'critical' }]
+        });
+        const current = report({
+            details: [
+                ...previous.details!,
+                { type: 'error', ruleId: 'label', message: 'Form elements must have labels', severity: 'critical' },
+                { type: 'warning', ruleId: 'region', message: 'Content should be in landmarks', severity: 'moderate' }
+            ]
+        });
+
+        const match = evaluateAlertRule(critical, current, previous);
+        expect(match?.summary).toBe('1 new critical Accessibility Check issue');
+        expect(match?.newIssues?.map(issue => issue.ruleId)).toEqual(['label']);
+
+        expect(evaluateAlertRule(rule({ type: 'new-issues', checkId: 'accessibility' }), current, previous)?.newIssues)
+            .toHaveLength(2);
+        expect(evaluateAlertRule(critical, current)).toBeNull();
+    });
+
+    it('should find the latest earlier completed report for the same check', () => {
+        const current = report();
+        const previous = findPreviousReport(current, [
+            current,
+            report({ reportId: 'accessibility-1000-a', timestamp: 1000 }),
+            report({ reportId: 'accessibility-1500-b', timestamp: 1500 }),
+            report({ reportId: 'accessibility-1800-c', timestamp: 1800, status: 'running' }),
+            report({ reportId: 'seo-1900-d', timestamp: 1900, id: 'seo' })
+        ]);
+
+        expect(previous?.reportId).toBe('accessibility-1500-b');
+    });
+});
+
+describe('Alert Formatters', () => {
+    const current = report({
+        score: 40,
+        details: [{ type: 'error', message: 'Missing <label> for input' }],
+        crawl: { url: 'https://example.com', title: 'Home', description: '', statusCode: 200, responseTime: 100 }
+    });
+    const alertRule = rule({ type: 'score-below', checkId: 'accessibility', threshold: 50 });
+    const alert = buildAlert(alertRule, { summary: 'Score 40 is below 50', newIssues: current.details }, current, undefined, 'https://health.example.com/', 5000);
+
+    it('should send the full result and report link to generic webhooks', () => {
+        const payload = formatWebhookPayload(alert);
+
+        expect(payload.event).toBe('health-check.alert');
+        expect(payload.reportUrl).toBe('https://health.example.com/report/accessibility-2000-abc');
+        expect(payload.result).toMatchObject({ id: 'accessibility', score: 40, url: 'https://example.com' });
+        expect('crawl' in payload.result).toBe(false);
+    });
+
+    it('should escape Slack control characters', () => {
+        const message = formatSlackMessage(alert);
+
+        expect(message.text).toBe('Test rule: Score 40 is below 50 (https://example.com)');
+        expect(JSON.stringify(message.blocks)).toContain('Missing &lt;label&gt; for input');
+    });
+
+    it('should put the summary in the email subject and the link in the body', () => {
+        const email = formatEmailMessage(alert);
+
+        expect(email.subject).toBe('[Health Check Alert] Score 40 is below 50 – https://example.com');
+        expect(email.text).toContain('Report: https://health.example.com/report/accessibility-2000-abc');
+    });
+});
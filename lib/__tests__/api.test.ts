@@ -0,0 +1,88 @@
+import { describe, it, expect } from '@jest/globals';
+import type { StoredReport } from '@/types/reports';
+import { createRateLimiter } from '../api/rate-limit';
+import { getRequestApiKey, isValidApiKey } from '../api/auth';
+import { buildRunStatus } from '../api/runs';
+import { RUNNING_REPORT_TIMEOUT_MS } from '../reports/lookup';
+
+const NOW = 1700000000000;
+
+function report(checkId: string, overrides: Partial<StoredReport> = {}): StoredReport {
+    return {
+        id: checkId,
+        label: checkId,
+        status: 'success',
+        score: 90,
+        message: '',
+        timestamp: NOW - 1000,
+        reportId: `${checkId}-1-abc`,
+        url: 'https://example.com/',
+        runId: 'run-1-abc',
+        savedAt: NOW - 500,
+        crawl: { url: 'https://example.com/', title: '', description: '', statusCode: 200, responseTime: 10 },
+        ...overrides
+    };
+}
+
+describe('HTTP API', () => {
+    describe('createRateLimiter', () => {
+        it('should allow up to the limit per key and window', () => {
+            const limiter = createRateLimiter({ limit: 2, windowMs: 60000 });
+
+            expect(limiter.consume('a', NOW)).toMatchObject({ allowed: true, remaining: 1 });
+            expect(limiter.consume('a', NOW + 1)).toMatchObject({ allowed: true, remaining: 0 });
+            expect(limiter.consume('a', NOW + 2)).toMatchObject({ allowed: false, remaining: 0, resetAt: NOW + 60000 });
+            expect(limiter.consume('b', NOW + 3).allowed).toBe(true);
+        });
+
+        it('should start a new window once the old one ends', () => {
+            const limiter = createRateLimiter({ limit: 1, windowMs: 60000 });
+            limiter.consume('a', NOW);
+
+            expect(limiter.consume('a', NOW + 60000).allowed).toBe(true);
+        });
+    });
+
+    describe('authentication', () => {
+        it('should read the key from a bearer token or X-API-Key', () => {
+            expect(getRequestApiKey(new Request('http://localhost/', { headers: { Authorization: 'Bearer secret' } }))).toBe('secret');
+            expect(getRequestApiKey(new Request('http://localhost/', { headers: { 'X-API-Key': 'secret' } }))).toBe('secret');
+            expect(getRequestApiKey(new Request('http://localhost/'))).toBeNull();
+        });
+
+        it('should only accept configured keys', () => {
+            expect(isValidApiKey('two', ['one', 'two'])).toBe(true);
+            expect(isValidApiKey('three', ['one', 'two'])).toBe(false);
+            expect(isValidApiKey('one', [])).toBe(false);
+        });
+    });
+
+    describe('buildRunStatus', () => {
+        it('should stay running while a check is running', () => {
+            const status = buildRunStatus('run-1-abc', [
+                report('seo'),
+                report('security', { status: 'running', score: undefined, savedAt: NOW - 1000 })
+            ], NOW);
+
+            expect(status).toMatchObject({ status: 'running', url: 'https://example.com/', completedAt: undefined });
+            expect(status?.results.map(result => result.status)).toEqual(['success', 'running']);
+        });
+
+        it('should complete with stale checks reported as failed', () => {
+            const status = buildRunStatus('run-1-abc', [
+                report('seo'),
+                report('security', { status: 'running', score: undefined, savedAt: NOW - RUNNING_REPORT_TIMEOUT_MS - 1 })
+            ], NOW);
+
+            expect(status?.status).toBe('completed');
+            expect(status?.results[1]).toMatchObject({ status: 'error', message: 'The check did not finish.' });
+        });
+
+        it('should return the HealthCheckResult shape without storage fields', () => {
+            const status = buildRunStatus('run-1-abc', [report('seo')], NOW);
+
+            expect('crawl' in status!.results[0]).toBe(false);
+            expect(buildRunStatus('run-2-abc', [], NOW)).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from '@jest/globals';
+import type { CheckDetail, HealthCheckResult } from '@/types/crawl';
+import { BudgetError, describeRuleLimit, evaluateBudget, parseBudget } from '../budget';
+
+function result(id: string, score: number | undefined, details: CheckDetail[] = []): HealthCheckResult {
+    return { id, label: id.toUpperCase(), status: 'warning', score, message: `${id} done`, details, timestamp: 0 };
+}
+
+describe('Budgets', () => {
+    describe('parseBudget', () => {
+        it('should accept scores and rule limits', () => {
+            expect(parseBudget({
+                minScore: 70,
+                checks: {
+                    accessibility: { minScore: 90, rules: [{ severity: 'critical' }] },
+                    security: { rules: [{ message: 'Content-Security-Policy', max: 0, name: 'CSP present' }] }
+                }
+            })).toEqual({
+                minScore: 70,
+                checks: {
+                    accessibility: { minScore: 90, rules: [{ severity: 'critical' }] },
+                    security: { rules: [{ message: 'Content-Security-Policy', max: 0, name: 'CSP present' }] }
+                }
+            });
+            expect(parseBudget({})).toEqual({ checks: {} });
+        });
+
+        it('should name the invalid field', () => {
+            expect(() => parseBudget([])).toThrow(BudgetError);
+            expect(() => parseBudget({ minScore: 150 })).toThrow('minScore must be a number between 0 and 100');
+            expect(() => parseBudget({ checks: { seo: { rules: [{ severity: 'huge' }] } } }))
+                .toThrow('checks.seo.rules[0].severity must be one of');
+            expect(() => parseBudget({ checks: { seo: { rules: [{ max: 2 }] } } }))
+                .toThrow('checks.seo.rules[0] needs at least one of');
+            expect(() => parseBudget({ checks: { seo: { rules: [{ ruleId: 'x', max: -1 }] } } }))
+                .toThrow('checks.seo.rules[0].max must be a whole number');
+        });
+    });
+
+    describe('evaluateBudget', () => {
+        const budget = parseBudget({
+            minScore: 70,
+            checks: {
+                accessibility: { minScore: 90, rules: [{ severity: 'critical' }, { ruleId: 'image-alt', max: 1 }] },
+                security: { rules: [{ message: 'missing content-security-policy' }] }
+            }
+        });
+
+        it('should apply per-check and budget-wide minimum scores', () => {
+            const assertions = evaluateBudget(budget, [
+                result('accessibility', 85),
+                result('security', 60),
+                result('seo', 75)
+            ]);
+
+            expect(assertions.filter(assertion => assertion.name.startsWith('score'))).toEqual([
+                { checkId: 'accessibility', checkLabel: 'ACCESSIBILITY', name: 'score >= 90', passed: false, message: 'score 85 is below 90' },
+                { checkId: 'security', checkLabel: 'SECURITY', name: 'score >= 70', passed: false, message: 'score 60 is below 70' },
+                { checkId: 'seo', checkLabel: 'SEO', name: 'score >= 70', passed: true, message: 'score 75' }
+            ]);
+        });
+
+        it('should count issues matching each rule limit', () => {
+            const assertions = evaluateBudget(budget, [
+                result('accessibility', 95, [
+                    { type: 'error', message: 'Images must have alt text', ruleId: 'image-alt', severity: 'critical' },
+                    { type: 'warning', message: 'Images must have alt text', ruleId: 'image-alt', severity: 'serious' }
+                ]),
+                result('security', 90, [
+                    { type: 'warning', message: 'Missing Content-Security-Policy header - no XSS protection', ruleId: 'headers' }
+                ])
+            ]);
+
+            expect(assertions.filter(assertion => !assertion.name.startsWith('score'))).toEqual([
+                { checkId: 'accessibility', checkLabel: 'ACCESSIBILITY', name: 'severity critical <= 0', passed: false, message: '1 matching issues, at most 0 allowed' },
+                { checkId: 'accessibility', checkLabel: 'ACCESSIBILITY', name: 'rule image-alt <= 1', passed: false, message: '2 matching issues, at most 1 allowed' },
+                { checkId: 'security', checkLabel: 'SECURITY', name: '"missing content-security-policy" <= 0', passed: false, message: '1 matching issues, at most 0 allowed' }
+            ]);
+        });
+
+        it('should fail budgeted checks that did not run or have no score', () => {
+            const assertions = evaluateBudget(budget, [{ ...result('accessibility', undefined), message: 'Timed out' }]);
+
+            expect(assertions.filter(assertion => !assertion.passed).map(assertion => assertion.message)).toEqual([
+                'check did not run',
+                'no score (Timed out)'
+            ]);
+        });
+    });
+
+    it('should describe rule limits', () => {
+        expect(describeRuleLimit({ ruleId: 'color-contrast', type: 'error', max: 3 })).toBe('rule color-contrast, type error <= 3');
+    });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from '@jest/globals';
+import type { HealthCheckResult } from '@/types/crawl';
+import { CliUsageError, parseCliArgs } from '../cli/args';
+import { summarizeCliRun } from '../cli/summary';
+import { formatCliJUnit, formatCliMarkdown, formatCliTable } from '../cli/output';
+
+function result(id: string, status: HealthCheckResult['status'], score?: number): HealthCheckResult {
+    return { id, label: id.toUpperCase(), status, score, message: `${id} done`, timestamp: 0 };
+}
+
+describe('CLI', () => {
+    describe('parseCliArgs', () => {
+        it('should parse a check command with options', () => {
+            expect(parseCliArgs(['check', 'https://example.com', '--checks', 'seo, security', '--format=json', '--min-score', '80', '--timeout', '30'])).toEqual({
+                command: 'check',
+                options: {
+                    url: 'https://example.com/',
+                    checks: ['seo', 'security'],
+                    format: 'json',
+                    minScore: 80,
+                    failOn: 'error',
+                    timeoutMs: 30000,
+                    verbose: false
+                }
+            });
+        });
+
+        it('should stop failing on status when a budget is given, unless asked to', () => {
+            const gated = parseCliArgs(['check', 'https://example.com', '--budget', 'health-budget.json', '--junit', 'junit.xml']);
+            const strict = parseCliArgs(['check', 'https://example.com', '--budget=health-budget.json', '--fail-on', 'error']);
+
+            expect(gated.command === 'check' && gated.options).toMatchObject({ budgetPath: 'health-budget.json', junitPath: 'junit.xml', failOn: 'never' });
+            expect(strict.command === 'check' && strict.options.failOn).toBe('error');
+        });
+
+        it('should default bare local hosts to http and others to https', () => {
+            const local = parseCliArgs(['check', 'localhost:3000']);
+            const remote = parseCliArgs(['check', 'example.com/page']);
+
+            expect(local.command === 'check' && local.options.url).toBe('http://localhost:3000/');
+            expect(remote.command === 'check' && remote.options.url).toBe('https://example.com/page');
+        });
+
+        it('should treat no command as help', () => {
+            expect(parseCliArgs([])).toEqual({ command: 'help' });
+            expect(parseCliArgs(['list'])).toEqual({ command: 'list' });
+        });
+
+        it('should reject invalid usage', () => {
+            expect(() => parseCliArgs(['scan'])).toThrow(CliUsageError);
+            expect(() => parseCliArgs(['check'])).toThrow('A URL is required');
+            expect(() => parseCliArgs(['check', 'https://example.com', '--format', 'xml'])).toThrow('Unknown format: xml');
+            expect(() => parseCliArgs(['check', 'https://example.com', '--min-score', '120'])).toThrow(CliUsageError);
+            expect(() => parseCliArgs(['check', 'https://example.com', '--checks'])).toThrow('--checks needs a value');
+        });
+    });
+
+    describe('summarizeCliRun', () => {
+        const results = [result('seo', 'warning', 75), result('security', 'success', 95), result('markup', 'error')];
+
+        it('should fail on error status by default', () => {
+            const summary = summarizeCliRun('https://example.com/', results, { failOn: 'error' });
+
+            expect(summary.passed).toBe(false);
+            expect(summary.failures).toEqual(['MARKUP: status error']);
+        });
+
+        it('should apply the minimum score and stricter statuses', () => {
+            expect(summarizeCliRun('https://example.com/', results, { failOn: 'never', minScore: 80 }).failures)
+                .toEqual(['SEO: score 75 is below 80']);
+            expect(summarizeCliRun('https://example.com/', results, { failOn: 'warning' }).failures)
+                .toEqual(['SEO: status warning', 'MARKUP: status error']);
+        });
+
+        it('should add budget assertions after the thresholds', () => {
+            const summary = summarizeCliRun('https://example.com/', results, {
+                failOn: 'never',
+                budget: { checks: { seo: { minScore: 80 }, lighthouse: {} } }
+            });
+
+            expect(summary.failures).toEqual(['lighthouse: check did not run', 'SEO: score 75 is below 80']);
+        });
+
+        it('should pass when no threshold is crossed', () => {
+            expect(summarizeCliRun('https://example.com/', results.slice(0, 2), { failOn: 'error', minScore: 70 }).passed).toBe(true);
+        });
+    });
+
+    describe('formatCliJUnit', () => {
+        it('should write a test case per assertion', () => {
+            const xml = formatCliJUnit(summarizeCliRun('https://example.com/?a=1&b=2', [result('seo', 'warning', 75)], { failOn: 'error', minScore: 80 }, 0));
+
+            expect(xml.split('\n')).toEqual([
+                '<?xml version="1.0" encoding="UTF-8"?>',
+                '<testsuites name="gc-health https://example.com/?a=1&amp;b=2" tests="2" failures="1" errors="0" timestamp="1970-01-01T00:00:00.000Z">',
+                '  <testsuite name="SEO" id="seo" tests="2" failures="1" errors="0" timestamp="1970-01-01T00:00:00.000Z">',
+                '    <properties>',
+                '      <property name="status" value="warning"/>',
+                '      <property name="score" value="75"/>',
+                '    </properties>',
+                '    <testcase classname="gc-health.seo" name="status is not error"/>',
+                '    <testcase classname="gc-health.seo" name="score &gt;= 80">',
+                '      <failure message="score 75 is below 80"/>',
+                '    </testcase>',
+                '    <system-out>seo done</system-out>',
+                '  </testsuite>',
+                '</testsuites>'
+            ]);
+        });
+    });
+
+    describe('formatCliMarkdown', () => {
+        it('should render the verdict and failures', () => {
+            const markdown = formatCliMarkdown(summarizeCliRun(
+                'https://example.com/',
+                [result('seo', 'warning', 75), result('security', 'success', 95)],
+                { failOn: 'never', minScore: 80 },
+                0
+            ));
+
+            expect(markdown.split('\n')).toEqual([
+                '### ❌ Health check failed',
+                '',
+                'https://example.com/ · 1970-01-01 00:00 UTC',
+                '',
+                '| Check | Status | Score | Result |',
+                '| --- | --- | --- | --- |',
+                '| SEO | warning | 75 | ❌ score 75 is below 80 |',
+                '| SECURITY | success | 95 | ✅ |',
+                '',
+                '**1 failed assertion:**',
+                '',
+                '- SEO — `score >= 80`: score 75 is below 80'
+            ]);
+        });
+    });
+
+    describe('formatCliTable', () => {
+        it('should align columns and list failures', () => {
+            const table = formatCliTable(summarizeCliRun('https://example.com/', [result('seo', 'error', 40)], { failOn: 'error' }));
+
+            expect(table.split('\n')).toEqual([
+                'Health check for https://example.com/',
+                '',
+                'Check  Status  Score  Errors  Warnings  Message',
+                'SEO    error   40     0       0         seo done',
+                '',
+                'FAIL (1 failure)',
+                '  - SEO: status error'
+            ]);
+        });
+    });
+});
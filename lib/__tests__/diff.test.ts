@@ -0,0 +1,95 @@
+import { describe, it, expect } from '@jest/globals';
+import type { CheckDetail } from '@/types/crawl';
+import type { StoredReport } from '@/types/reports';
+import { diffIssues, diffRuns, fingerprintIssue } from '../diff';
+
+function report(checkId: string, runId: string, timestamp: number, score: number, details: CheckDetail[]): StoredReport {
+    return {
+        id: checkId,
+        label: checkId.toUpperCase(),
+        status: 'warning',
+        score,
+        message: '',
+        details,
+        timestamp,
+        reportId: `${checkId}-${timestamp}-abc`,
+        url: 'https://example.com',
+        runId,
+        savedAt: timestamp
+    };
+}
+
+const missingAlt: CheckDetail = {
+    type: 'error',
+    ruleId: 'image-alt',
+    message: 'Images must have alternate text',
+    element: '<img src="hero.png">'
+};
+
+describe('Run Diff', () => {
+    describe('fingerprintIssue', () => {
+        it('should ignore numbers and whitespace that drift between runs', () => {
+            const before = fingerprintIssue('markup', { type: 'error', message: 'Stray end tag  "div" at 12', line: 40 });
+            const after = fingerprintIssue('markup', { type: 'error', message: 'Stray end tag "div" at 15', line: 52 });
+
+            expect(before).toBe(after);
+        });
+
+        it('should distinguish rules, elements and checks', () => {
+            const base = fingerprintIssue('accessibility', missingAlt);
+
+            expect(fingerprintIssue('accessibility', { ...missingAlt, ruleId: 'role-img-alt' })).not.toBe(base);
+            expect(fingerprintIssue('accessibility', { ...missingAlt, element: '<img src="logo.png">' })).not.toBe(base);
+            expect(fingerprintIssue('contrast', missingAlt)).not.toBe(base);
+        });
+    });
+
+    describe('diffIssues', () => {
+        it('should classify new, resolved and persisting issues', () => {
+            const heading: CheckDetail = { type: 'warning', ruleId: 'heading-order', message: 'Heading levels should increase by one' };
+            const label: CheckDetail = { type: 'error', ruleId: 'label', message: 'Form elements must have labels' };
+
+            const entries = diffIssues('accessibility', [missingAlt, heading], [heading, label]);
+
+            expect(entries.map(entry => [entry.change, entry.detail.ruleId])).toEqual([
+                ['persisting', 'heading-order'],
+                ['new', 'label'],
+                ['resolved', 'image-alt']
+            ]);
+        });
+
+        it('should match duplicate issues one-to-one', () => {
+            const entries = diffIssues('accessibility', [missingAlt, missingAlt, missingAlt], [missingAlt, missingAlt]);
+
+            expect(entries.filter(entry => entry.change === 'persisting')).toHaveLength(2);
+            expect(entries.filter(entry => entry.change === 'resolved')).toHaveLength(1);
+        });
+
+        it('should ignore info details', () => {
+            const entries = diffIssues('redirects', [{ type: 'info', message: 'Hop 1: 301' }], []);
+
+            expect(entries).toHaveLength(0);
+        });
+    });
+
+    describe('diffRuns', () => {
+        it('should report per-check score deltas and counts', () => {
+            const diff = diffRuns(
+                [report('accessibility', 'run-1', 1000, 70, [missingAlt]), report('seo', 'run-1', 1000, 90, [])],
+                [report('accessibility', 'run-2', 2000, 95, [])]
+            );
+
+            expect(diff.base.runId).toBe('run-1');
+            expect(diff.target.runId).toBe('run-2');
+            expect(diff.checks).toHaveLength(2);
+            expect(diff.checks[0]).toMatchObject({
+                checkId: 'accessibility',
+                baseScore: 70,
+                targetScore: 95,
+                scoreDelta: 25,
+                counts: { new: 0, resolved: 1, persisting: 0 }
+            });
+            expect(diff.checks[1]).toMatchObject({ checkId: 'seo', targetReportId: undefined, scoreDelta: undefined });
+        });
+    });
+});
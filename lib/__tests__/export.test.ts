@@ -0,0 +1,133 @@
+import { describe, it, expect } from '@jest/globals';
+import type { ReportBranding } from '@/types/export';
+import type { StoredReport } from '@/types/reports';
+import { buildExportDocument, getExportFileName } from '../export/document';
+import { renderHtmlReport } from '../export/html';
+import { flattenIssues, formatIssuesCsv } from '../export/issues';
+import { pdfText } from '../export/pdf';
+
+const BRANDING: ReportBranding = { name: 'Acme Audits', color: '#123456' };
+const RUN_AT = Date.UTC(2024, 0, 31, 15, 30);
+
+function report(id: string, overrides: Partial<StoredReport> = {}): StoredReport {
+    return {
+        id,
+        label: id.toUpperCase(),
+        status: 'success',
+        score: 100,
+        message: `${id} done`,
+        timestamp: RUN_AT,
+        reportId: `${id}-1`,
+        runId: 'run-1',
+        url: 'https://example.com/',
+        savedAt: RUN_AT,
+        ...overrides
+    };
+}
+
+describe('Report export', () => {
+    const reports = [
+        report('security', {
+            status: 'error',
+            score: 55,
+            timestamp: RUN_AT + 1000,
+            details: [
+                { type: 'warning', message: 'Missing Content-Security-Policy header' },
+                { type: 'error', message: 'Unable to fetch' }
+            ],
+            recommendations: ['Add a CSP']
+        }),
+        report('seo', { status: 'warning', score: 85, details: [{ type: 'warning', message: 'Title too long' }] }),
+        report('markup')
+    ];
+
+    it('should summarize the run and generate an executive summary', () => {
+        const document = buildExportDocument(reports, { coverPage: true }, BRANDING, RUN_AT + 5000);
+
+        expect(document).toMatchObject({
+            title: 'Website Health Report',
+            url: 'https://example.com/',
+            runId: 'run-1',
+            runAt: RUN_AT,
+            summary: { averageScore: 80, passed: 1, warnings: 1, failed: 1, errorCount: 1, warningCount: 2 }
+        });
+        expect(document.checks.map(check => check.checkId)).toEqual(['seo', 'markup', 'security']);
+        expect(document.executiveSummary).toEqual([
+            'This report covers 3 automated checks of https://example.com/, run on January 31, 2024 at 3:30 p.m. UTC. The average score across checks is 80/100.',
+            'Of these checks, 1 passed, 1 needs attention, 1 failed. The area most in need of work is SECURITY (55/100).',
+            'In total 1 error and 2 warnings were found. Each check below lists its findings and the recommended fixes.'
+        ]);
+    });
+
+    it('should use a custom title, client and executive summary', () => {
+        const document = buildExportDocument(reports, {
+            coverPage: false,
+            title: '  Q1 Audit ',
+            preparedFor: 'Example Inc.',
+            executiveSummary: 'First  paragraph\nstill first.\n\n\nSecond paragraph.'
+        }, BRANDING);
+
+        expect(document.title).toBe('Q1 Audit');
+        expect(document.preparedFor).toBe('Example Inc.');
+        expect(document.executiveSummary).toEqual(['First paragraph still first.', 'Second paragraph.']);
+    });
+
+    it('should render self-contained, escaped HTML', () => {
+        const html = renderHtmlReport(buildExportDocument(
+            [report('seo', { details: [{ type: 'error', message: 'Bad <script>', element: '<img src="x">', line: 3 }] })],
+            { coverPage: true, preparedFor: 'Tom & Jerry' },
+            { ...BRANDING, logo: { mimeType: 'image/png', data: 'iVBORw0KGgo=' } }
+        ));
+
+        expect(html).toContain('<img class="logo" src="data:image/png;base64,iVBORw0KGgo=" alt="Acme Audits">');
+        expect(html).toContain('Prepared for <strong>Tom &amp; Jerry</strong>');
+        expect(html).toContain('<div>Bad &lt;script&gt;</div>');
+        expect(html).toContain('<code>&lt;img src=&quot;x&quot;&gt;</code>');
+        expect(html).toContain('Line 3');
+        expect(html).toContain('--brand: #123456');
+        expect(html).not.toContain('<link');
+    });
+
+    it('should name files after the host and run date', () => {
+        expect(getExportFileName({ url: 'https://www.example.com/page', runAt: RUN_AT }, 'pdf')).toBe('www.example.com-health-report-2024-01-31.pdf');
+    });
+
+    it('should flatten every detail into issue rows', () => {
+        const rows = flattenIssues([
+            report('accessibility', {
+                timestamp: RUN_AT + 1000,
+                dataSource: 'Axe DevTools',
+                details: [{ type: 'error', message: 'Images must have alt text', ruleId: 'image-alt', element: '<img>', severity: 'critical', wcagGuideline: 'wcag2a, wcag111' }]
+            }),
+            report('markup', { details: [{ type: 'warning', message: 'Stray end tag', line: 4, column: 2 }] }),
+            report('seo', { details: [] })
+        ]);
+
+        expect(rows).toEqual([
+            {
+                url: 'https://example.com/', checkId: 'markup', check: 'MARKUP', type: 'warning', severity: '', message: 'Stray end tag',
+                element: '', ruleId: '', wcagGuideline: '', line: 4, column: 2, dataSource: '', timestamp: '2024-01-31T15:30:00.000Z', reportId: 'markup-1'
+            },
+            {
+                url: 'https://example.com/', checkId: 'accessibility', check: 'ACCESSIBILITY', type: 'error', severity: 'critical',
+                message: 'Images must have alt text', element: '<img>', ruleId: 'image-alt', wcagGuideline: 'wcag2a, wcag111',
+                line: null, column: null, dataSource: 'Axe DevTools', timestamp: '2024-01-31T15:30:01.000Z', reportId: 'accessibility-1'
+            }
+        ]);
+    });
+
+    it('should quote CSV cells and defuse spreadsheet formulas', () => {
+        const csv = formatIssuesCsv(flattenIssues([
+            report('seo', { details: [{ type: 'warning', message: '=HYPERLINK("x")', element: '<a title="a, b">\nlink</a>', priority: 'high' }] })
+        ]));
+        const [header, row] = csv.replace('\uFEFF', '').split('\r\n');
+
+        expect(csv.startsWith('\uFEFF')).toBe(true);
+        expect(header).toBe('URL,Check ID,Check,Type,Severity,Message,Element,Rule,WCAG Guideline,Line,Column,Data Source,Timestamp,Report ID');
+        expect(row).toBe('https://example.com/,seo,SEO,warning,high,"\'=HYPERLINK(""x"")","<a title=""a, b"">\nlink</a>",,,,,,2024-01-31T15:30:00.000Z,seo-1');
+    });
+
+    it('should replace characters the PDF fonts cannot draw', () => {
+        expect(pdfText('a → b “quoted” – café ✓ 日本')).toBe('a -> b “quoted” – café OK ??');
+    });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from '@jest/globals';
+import type { HealthCheckResult } from '@/types/crawl';
+import { computeOverallScore, getHealthGrade } from '../health-score';
+
+const WEIGHTS: Record<string, number> = { accessibility: 2, seo: 1, security: 1, lighthouse: 2, markup: 0 };
+const getWeight = (checkId: string) => WEIGHTS[checkId] ?? 1;
+
+function result(id: string, overrides: Partial<HealthCheckResult> = {}): HealthCheckResult {
+    return {
+        id,
+        label: id.toUpperCase(),
+        status: 'warning',
+        message: '',
+        timestamp: 0,
+        ...overrides
+    };
+}
+
+describe('Overall Health Score', () => {
+    it('should grade scores on a 10 point scale', () => {
+        expect(getHealthGrade(100)).toBe('A');
+        expect(getHealthGrade(90)).toBe('A');
+        expect(getHealthGrade(89)).toBe('B');
+        expect(getHealthGrade(70)).toBe('C');
+        expect(getHealthGrade(60)).toBe('D');
+        expect(getHealthGrade(59)).toBe('F');
+    });
+
+    it('should weight scores and rank the checks that cost the most points', () => {
+        const overall = computeOverallScore([
+            result('accessibility', { score: 60 }),
+            result('seo', { score: 100 }),
+            result('security', { score: 80 })
+        ], getWeight);
+
+        // (60 * 2 + 100 + 80) / 4
+        expect(overall.score).toBe(75);
+        expect(overall.grade).toBe('C');
+        expect(overall.checks.map(check => [check.id, check.pointsLost])).toEqual([
+            ['accessibility', 20],
+            ['security', 5],
+            ['seo', 0]
+        ]);
+        expect(overall.excluded).toEqual([]);
+    });
+
+    it('should set aside failed and simulated checks', () => {
+        const overall = computeOverallScore([
+            result('seo', { score: 90 }),
+            result('security', { status: 'error', message: 'fetch failed' }),
+            result('lighthouse', { score: 85, dataSource: 'Simulated' }),
+            result('accessibility', { status: 'running' }),
+            result('markup', { score: 10 })
+        ], getWeight);
+
+        expect(overall.score).toBe(90);
+        expect(overall.checks.map(check => check.id)).toEqual(['seo']);
+        expect(overall.excluded).toEqual([
+            { id: 'security', label: 'SECURITY', reason: 'failed' },
+            { id: 'lighthouse', label: 'LIGHTHOUSE', reason: 'simulated', score: 85 }
+        ]);
+    });
+
+    it('should count checks that ran but failed their thresholds', () => {
+        const overall = computeOverallScore([result('seo', { status: 'error', score: 30 })], getWeight);
+
+        expect(overall.score).toBe(30);
+        expect(overall.grade).toBe('F');
+    });
+
+    it('should have no score when nothing can be counted', () => {
+        const overall = computeOverallScore([result('lighthouse', { score: 85, dataSource: 'Simulated' })], getWeight);
+
+        expect(overall.score).toBeUndefined();
+        expect(overall.grade).toBeUndefined();
+        expect(overall.checks).toEqual([]);
+    });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from '@jest/globals';
+import type { StoredReport } from '@/types/reports';
+import { buildScanHistory, groupReportsIntoRuns, REGRESSION_THRESHOLD } from '../history';
+
+function report(checkId: string, runId: string, timestamp: number, score: number | undefined, status: StoredReport['status'] = 'success'): StoredReport {
+    return {
+        id: checkId,
+        label: checkId.toUpperCase(),
+        status,
+        score,
+        message: '',
+        timestamp,
+        reportId: `${checkId}-${timestamp}-abc`,
+        url: 'https://example.com',
+        runId,
+        savedAt: timestamp
+    };
+}
+
+describe('Scan History', () => {
+    describe('groupReportsIntoRuns', () => {
+        it('should group reports by run id, oldest first', () => {
+            const runs = groupReportsIntoRuns([
+                report('seo', 'run-2', 2000, 80),
+                report('seo', 'run-1', 1000, 90),
+                report('security', 'run-1', 1100, 70)
+            ]);
+
+            expect(runs.map(run => run.runId)).toEqual(['run-1', 'run-2']);
+            expect(runs[0].checks.map(check => check.checkId)).toEqual(['seo', 'security']);
+        });
+
+        it('should treat reports without a run id as separate runs', () => {
+            const legacy = { ...report('seo', '', 1000, 90), runId: undefined };
+            const runs = groupReportsIntoRuns([legacy, report('seo', 'run-2', 2000, 80)]);
+
+            expect(runs).toHaveLength(2);
+            expect(runs[0].runId).toBe(legacy.reportId);
+        });
+
+        it('should keep the latest result when a check ran twice in one run', () => {
+            const runs = groupReportsIntoRuns([
+                report('seo', 'run-1', 1500, 85),
+                report('seo', 'run-1', 1000, 60)
+            ]);
+
+            expect(runs[0].checks).toHaveLength(1);
+            expect(runs[0].checks[0].score).toBe(85);
+        });
+    });
+
+    describe('buildScanHistory', () => {
+        it('should compute deltas against the previous run and flag regressions', () => {
+            const history = buildScanHistory('https://example.com', [
+                report('seo', 'run-1', 1000, 90),
+                report('security', 'run-1', 1000, 70),
+                report('seo', 'run-2', 2000, 90 - REGRESSION_THRESHOLD),
+                report('security', 'run-2', 2000, 72)
+            ]);
+
+            const latest = history.runs[0];
+            expect(latest.runId).toBe('run-2');
+            expect(latest.checks.find(check => check.checkId === 'seo')).toMatchObject({ delta: -REGRESSION_THRESHOLD, regressed: true });
+            expect(latest.checks.find(check => check.checkId === 'security')).toMatchObject({ delta: 2, regressed: false });
+        });
+
+        it('should flag a worse status as a regression even without scores', () => {
+            const history = buildScanHistory('https://example.com', [
+                report('markup', 'run-1', 1000, undefined, 'success'),
+                report('markup', 'run-2', 2000, undefined, 'error')
+            ]);
+
+            expect(history.runs[0].checks[0].regressed).toBe(true);
+        });
+
+        it('should compare with the last run that included the check', () => {
+            const history = buildScanHistory('https://example.com', [
+                report('seo', 'run-1', 1000, 90),
+                report('security', 'run-2', 2000, 70),
+                report('seo', 'run-3', 3000, 95)
+            ]);
+
+            expect(history.runs[0].checks[0].delta).toBe(5);
+        });
+
+        it('should leave running placeholders out of the history', () => {
+            const history = buildScanHistory('https://example.com', [
+                report('seo', 'run-1', 1000, 90),
+                report('seo', 'run-2', 2000, undefined, 'running')
+            ]);
+
+            expect(history.runs).toHaveLength(1);
+        });
+
+        it('should build one score series per check in time order', () => {
+            const history = buildScanHistory('https://example.com', [
+                report('seo', 'run-2', 2000, 80),
+                report('seo', 'run-1', 1000, 90)
+            ]);
+
+            expect(history.series).toEqual([
+                {
+                    checkId: 'seo',
+                    label: 'SEO',
+                    points: [
+                        { runId: 'run-1', timestamp: 1000, score: 90 },
+                        { runId: 'run-2', timestamp: 2000, score: 80 }
+                    ]
+                }
+            ]);
+        });
+    });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { Monitor } from '@/types/monitors';
+import { getMonitorStore } from '../monitors';
+import { isMonitorRunning, runDueMonitors, startMonitorRun } from '../monitors/runner';
+
+const NOW = 1700000000000;
+
+function monitor(id: string, overrides: Partial<Monitor> = {}): Monitor {
+    return {
+        id,
+        url: 'https://example.com/',
+        schedule: 'daily',
+        // No checks, so a run only updates the monitor
+        checks: [],
+        enabled: true,
+        createdAt: NOW,
+        nextRunAt: NOW,
+        ...overrides
+    };
+}
+
+describe('Monitor Runner', () => {
+    const env = { ...process.env };
+    const realFetch = globalThis.fetch;
+    let directory: string;
+
+    beforeAll(() => {
+        directory = mkdtempSync(path.join(tmpdir(), 'monitor-runner-'));
+        process.env.MONITOR_STORE_DIR = path.join(directory, 'monitors');
+        process.env.REPORT_STORE_DIR = path.join(directory, 'reports');
+        process.env.ALERT_STORE_DIR = path.join(directory, 'alerts');
+    });
+
+    afterEach(() => {
+        globalThis.fetch = realFetch;
+    });
+
+    afterAll(() => {
+        process.env = { ...env };
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should not start a second run while one is in progress', async () => {
+        const first = monitor('monitor-1700000000000-abc123');
+        await getMonitorStore().save(first);
+
+        const run = startMonitorRun(first, NOW);
+        expect(isMonitorRunning(first.id)).toBe(true);
+        expect(() => startMonitorRun(first, NOW)).toThrow('Monitor is already running');
+
+        await run.completion;
+        expect(isMonitorRunning(first.id)).toBe(false);
+        expect(await getMonitorStore().get(first.id)).toMatchObject({ lastRunId: run.runId, lastRunAt: NOW });
+
+        const next = startMonitorRun(first, NOW);
+        await next.completion;
+        expect(next.runId).not.toBe(run.runId);
+    });
+
+    it('should skip monitors deleted or paused while an earlier run of the tick was in progress', async () => {
+        const store = getMonitorStore();
+        // Most overdue first, so the slow monitor runs before the others
+        const slow = monitor('monitor-1-slow', { url: 'https://slow.example.com/', checks: ['redirects'], nextRunAt: NOW - 3 });
+        const deleted = monitor('monitor-2-deleted', { nextRunAt: NOW - 2 });
+        const paused = monitor('monitor-3-paused', { nextRunAt: NOW - 1 });
+        await Promise.all([store.save(slow), store.save(deleted), store.save(paused)]);
+
+        let release!: () => void;
+        const released = new Promise<void>(resolve => { release = resolve; });
+        let started!: () => void;
+        const fetchStarted = new Promise<void>(resolve => { started = resolve; });
+        globalThis.fetch = (async () => {
+            started();
+            await released;
+            return new Response(null, { status: 200 });
+        }) as typeof fetch;
+
+        const tick = runDueMonitors(NOW);
+        await fetchStarted;
+
+        await store.delete(deleted.id);
+        await store.save({ ...paused, enabled: false });
+        release();
+        await tick;
+
+        expect((await store.get(slow.id))!.lastStatus).toBeDefined();
+        expect(await store.get(deleted.id)).toBeNull();
+        expect(await store.get(paused.id)).toEqual({ ...paused, enabled: false });
+    });
+});
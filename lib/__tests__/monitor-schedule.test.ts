@@ -0,0 +1,43 @@
+import { describe, it, expect } from '@jest/globals';
+import type { Monitor } from '@/types/monitors';
+import { getDueMonitors, getNextRunAt, isMonitorSchedule, SCHEDULE_INTERVALS_MS } from '../monitors/schedule';
+
+const NOW = 1700000000000;
+
+function monitor(id: string, overrides: Partial<Monitor> = {}): Monitor {
+    return {
+        id,
+        url: 'https://example.com/',
+        schedule: 'daily',
+        checks: ['seo'],
+        enabled: true,
+        createdAt: NOW - SCHEDULE_INTERVALS_MS.weekly,
+        nextRunAt: NOW,
+        ...overrides
+    };
+}
+
+describe('Monitor Schedule', () => {
+    it('should schedule the next run one interval after the run started', () => {
+        expect(getNextRunAt('hourly', NOW)).toBe(NOW + 60 * 60 * 1000);
+        expect(getNextRunAt('daily', NOW)).toBe(NOW + 24 * 60 * 60 * 1000);
+        expect(getNextRunAt('weekly', NOW)).toBe(NOW + 7 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should only accept known schedules', () => {
+        expect(isMonitorSchedule('weekly')).toBe(true);
+        expect(isMonitorSchedule('monthly')).toBe(false);
+    });
+
+    it('should return enabled, due monitors, most overdue first', () => {
+        const due = getDueMonitors([
+            monitor('monitor-1-a', { nextRunAt: NOW - 1000 }),
+            monitor('monitor-2-b', { nextRunAt: NOW + 1000 }),
+            monitor('monitor-3-c', { nextRunAt: NOW - 5000 }),
+            monitor('monitor-4-d', { nextRunAt: NOW - 9000, enabled: false }),
+            monitor('monitor-5-e', { nextRunAt: NOW })
+        ], NOW);
+
+        expect(due.map(item => item.id)).toEqual(['monitor-3-c', 'monitor-1-a', 'monitor-5-e']);
+    });
+});
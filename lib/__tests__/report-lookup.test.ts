@@ -0,0 +1,87 @@
+import { describe, it, expect } from '@jest/globals';
+import type { ReportStore, StoredReport } from '@/types/reports';
+import { lookupReport, RUNNING_REPORT_TIMEOUT_MS } from '../reports/lookup';
+
+const NOW = 1700000000000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function memoryStore(reports: StoredReport[] = []): ReportStore & { reports: Map<string, StoredReport> } {
+    const map = new Map(reports.map(report => [report.reportId, report]));
+    return {
+        reports: map,
+        async save(report) {
+            map.set(report.reportId, report);
+        },
+        async get(reportId) {
+            return map.get(reportId) ?? null;
+        },
+        async list() {
+            return [...map.values()];
+        },
+        async delete(reportId) {
+            map.delete(reportId);
+        }
+    };
+}
+
+function report(overrides: Partial<StoredReport> = {}): StoredReport {
+    return {
+        id: 'security',
+        label: 'Security Headers',
+        status: 'warning',
+        score: 70,
+        message: 'Found 2 medium security issues.',
+        details: [{ type: 'warning', message: 'Missing Content-Security-Policy header' }],
+        timestamp: NOW - 1000,
+        reportId: 'security-1-abc',
+        url: 'https://example.com',
+        savedAt: NOW - 1000,
+        ...overrides
+    };
+}
+
+describe('Report Lookup', () => {
+    it('should report unknown ids as not found', async () => {
+        const result = await lookupReport(memoryStore(), 'security-1-abc', { now: NOW, retentionMs: 30 * DAY_MS });
+
+        expect(result).toEqual({ state: 'not-found' });
+    });
+
+    it('should return stored reports within the retention period', async () => {
+        const result = await lookupReport(memoryStore([report()]), 'security-1-abc', { now: NOW, retentionMs: 30 * DAY_MS });
+
+        expect(result.state).toBe('found');
+    });
+
+    it('should report placeholders of runs in progress as running', async () => {
+        const store = memoryStore([report({ status: 'running', savedAt: NOW - 5000 })]);
+        const result = await lookupReport(store, 'security-1-abc', { now: NOW, retentionMs: 30 * DAY_MS });
+
+        expect(result.state).toBe('running');
+    });
+
+    it('should treat abandoned placeholders as not found but keep the URL for a re-run', async () => {
+        const store = memoryStore([report({ status: 'running', savedAt: NOW - RUNNING_REPORT_TIMEOUT_MS - 1 })]);
+        const result = await lookupReport(store, 'security-1-abc', { now: NOW, retentionMs: 30 * DAY_MS });
+
+        expect(result.state).toBe('not-found');
+        expect(result.state === 'not-found' && result.report?.url).toBe('https://example.com');
+    });
+
+    it('should expire old reports and drop their findings', async () => {
+        const store = memoryStore([report({ savedAt: NOW - 31 * DAY_MS })]);
+        const result = await lookupReport(store, 'security-1-abc', { now: NOW, retentionMs: 30 * DAY_MS });
+
+        expect(result.state).toBe('expired');
+        expect(store.reports.get('security-1-abc')?.details).toBeUndefined();
+        expect(store.reports.get('security-1-abc')?.expiredAt).toBe(NOW);
+        expect(store.reports.get('security-1-abc')?.url).toBe('https://example.com');
+    });
+
+    it('should keep reports forever when retention is disabled', async () => {
+        const store = memoryStore([report({ savedAt: NOW - 3650 * DAY_MS })]);
+        const result = await lookupReport(store, 'security-1-abc', { now: NOW, retentionMs: Infinity });
+
+        expect(result.state).toBe('found');
+    });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { StoredReport } from '@/types/reports';
+import { createFileReportStore, isValidReportId } from '../reports/file-store';
+
+function report(reportId: string): StoredReport {
+    return {
+        id: 'seo',
+        label: 'SEO Analysis',
+        status: 'warning',
+        score: 80,
+        message: 'Found 1 medium priority SEO issues.',
+        details: [{ type: 'warning', message: 'Meta description is too short' }],
+        recommendations: ['Optimize meta tags (title, description) for better search results'],
+        timestamp: 1700000000000,
+        reportId,
+        url: 'https://example.com',
+        crawl: {
+            url: 'https://example.com',
+            title: 'Example',
+            description: '',
+            statusCode: 200,
+            responseTime: 120
+        },
+        savedAt: 1700000000500
+    };
+}
+
+describe('File Report Store', () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = mkdtempSync(path.join(tmpdir(), 'reports-'));
+    });
+
+    afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should round-trip a report with details, recommendations and crawl metadata', async () => {
+        const store = createFileReportStore(directory);
+        await store.save(report('seo-1700000000000-abc123'));
+
+        expect(await store.get('seo-1700000000000-abc123')).toEqual(report('seo-1700000000000-abc123'));
+    });
+
+    it('should return null for unknown reports', async () => {
+        const store = createFileReportStore(directory);
+
+        expect(await store.get('seo-1-missing')).toBeNull();
+    });
+
+    it('should delete reports', async () => {
+        const store = createFileReportStore(directory);
+        await store.save(report('seo-1-abc'));
+        await store.delete('seo-1-abc');
+
+        expect(await store.get('seo-1-abc')).toBeNull();
+    });
+
+    it('should reject ids that are not safe file names', async () => {
+        const store = createFileReportStore(directory);
+
+        expect(isValidReportId('../secrets')).toBe(false);
+        expect(isValidReportId('seo/1')).toBe(false);
+        expect(await store.get('../secrets')).toBeNull();
+        await expect(store.save(report('../secrets'))).rejects.toThrow('Invalid report id');
+    });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from '@jest/globals';
+import type { HealthCheckResult } from '@/types/crawl';
+import { buildSarifLog, getSarifLevel, getSarifRuleId } from '../export/sarif';
+import { fingerprintIssue } from '../diff';
+
+const PAGE_URL = 'https://example.com/';
+
+function result(overrides: Partial<HealthCheckResult>): HealthCheckResult {
+    return { id: 'markup', label: 'Markup', status: 'warning', score: 80, message: 'done', timestamp: 0, ...overrides };
+}
+
+describe('SARIF export', () => {
+    it('should derive rule ids from headers, rule ids, WCAG criteria and message types', () => {
+        expect(getSarifRuleId('security', { type: 'warning', message: 'Missing CSP', ruleId: 'headers', header: 'Content-Security-Policy' }))
+            .toBe('security/Content-Security-Policy');
+        expect(getSarifRuleId('accessibility', { type: 'error', message: 'Alt', ruleId: 'image-alt', wcagGuideline: 'wcag2a, wcag111' }))
+            .toBe('accessibility/image-alt');
+        expect(getSarifRuleId('accessibility', { type: 'error', message: 'Alt', wcagGuideline: 'WCAG 1.1.1 - Non-text Content' }))
+            .toBe('accessibility/WCAG 1.1.1');
+        expect(getSarifRuleId('markup', { type: 'error', message: 'Stray end tag' })).toBe('markup/error');
+    });
+
+    it('should map impact, priority and type to levels', () => {
+        expect(getSarifLevel({ type: 'warning', message: '', severity: 'critical' })).toBe('error');
+        expect(getSarifLevel({ type: 'warning', message: '', severity: 'minor' })).toBe('note');
+        expect(getSarifLevel({ type: 'warning', message: '', priority: 'high' })).toBe('error');
+        expect(getSarifLevel({ type: 'warning', message: '', priority: 'low' })).toBe('note');
+        expect(getSarifLevel({ type: 'error', message: '' })).toBe('error');
+        expect(getSarifLevel({ type: 'warning', message: '' })).toBe('warning');
+    });
+
+    it('should build results with shared rules and locations', () => {
+        const markupError = { type: 'error' as const, message: 'Stray end tag div', line: 12, column: 4, element: '</div>' };
+        const log = buildSarifLog(PAGE_URL, [
+            result({ details: [markupError, { type: 'error', message: 'Duplicate id' }, { type: 'info', message: 'Using the HTML parser' }] }),
+            result({
+                id: 'accessibility',
+                label: 'Accessibility',
+                details: [{ type: 'error', message: 'Images must have alt text', ruleId: 'image-alt', severity: 'critical', element: '<img src="a.png">', wcagGuideline: 'wcag2a, wcag111' }]
+            })
+        ], 0);
+        const [run] = log.runs;
+
+        expect(log.version).toBe('2.1.0');
+        expect(run.tool.driver.rules.map(rule => rule.id)).toEqual(['markup/error', 'accessibility/image-alt']);
+        expect(run.tool.driver.rules[1]).toMatchObject({ defaultConfiguration: { level: 'error' }, properties: { tags: ['accessibility', 'wcag2a', 'wcag111'] } });
+        expect(run.results).toHaveLength(3);
+        expect(run.results[0]).toEqual({
+            ruleId: 'markup/error',
+            ruleIndex: 0,
+            level: 'error',
+            message: { text: 'Stray end tag div' },
+            locations: [{
+                physicalLocation: {
+                    artifactLocation: { uri: PAGE_URL },
+                    region: { startLine: 12, startColumn: 4, snippet: { text: '</div>' } }
+                }
+            }],
+            partialFingerprints: { 'issueFingerprint/v1': fingerprintIssue('markup', markupError) }
+        });
+        expect(run.results[2].locations).toEqual([{
+            physicalLocation: { artifactLocation: { uri: PAGE_URL } },
+            logicalLocations: [{ fullyQualifiedName: '<img src="a.png">', kind: 'element' }]
+        }]);
+        expect(run.invocations[0]).toEqual({ executionSuccessful: true, startTimeUtc: '1970-01-01T00:00:00.000Z', toolExecutionNotifications: [] });
+    });
+
+    it('should give security rules a security severity and report checks that failed to run', () => {
+        const log = buildSarifLog(PAGE_URL, [
+            result({
+                id: 'security',
+                label: 'Security',
+                details: [{ type: 'warning', message: 'Missing Content-Security-Policy header', header: 'Content-Security-Policy', priority: 'high' }]
+            }),
+            result({ id: 'lighthouse', label: 'Lighthouse', status: 'error', score: undefined, message: 'Timed out' })
+        ], 0);
+        const [run] = log.runs;
+
+        expect(run.tool.driver.rules[0]).toMatchObject({
+            id: 'security/Content-Security-Policy',
+            helpUri: 'https://developer.mozilla.org/docs/Web/HTTP/Reference/Headers/Content-Security-Policy',
+            properties: { tags: ['security'], 'security-severity': '8.0' }
+        });
+        expect(run.invocations[0].executionSuccessful).toBe(false);
+        expect(run.invocations[0].toolExecutionNotifications).toEqual([{ level: 'error', message: { text: 'Lighthouse: Timed out' } }]);
+    });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from '@jest/globals';
+import type { CrawlData } from '@/types/crawl';
+import {
+    crawlSite,
+    isInScope,
+    matchesPathPattern,
+    normalizeSiteCrawlOptions
+} from '../site-crawler';
+
+function page(url: string, hrefs: string[]): CrawlData {
+    return {
+        url,
+        title: url,
+        description: '',
+        keywords: '',
+        ogTitle: '',
+        ogDescription: '',
+        ogImage: '',
+        html: '<html></html>',
+        markdown: '',
+        statusCode: 200,
+        responseTime: 0,
+        screenshot: null,
+        links: hrefs.map(href => ({ text: '', href })),
+        metadata: {}
+    };
+}
+
+describe('Site Crawler', () => {
+    describe('matchesPathPattern', () => {
+        it('should match plain patterns as a prefix', () => {
+            expect(matchesPathPattern('/blog/post-1', '/blog')).toBe(true);
+            expect(matchesPathPattern('/about', '/blog')).toBe(false);
+        });
+
+        it('should only match plain patterns at a segment boundary', () => {
+            expect(matchesPathPattern('/blog', '/blog')).toBe(true);
+            expect(matchesPathPattern('/blog?page=2', '/blog')).toBe(true);
+            expect(matchesPathPattern('/blogger', '/blog')).toBe(false);
+            expect(matchesPathPattern('/blog-archive/2020', '/blog')).toBe(false);
+            expect(matchesPathPattern('/blog/post-1', '/blog/')).toBe(true);
+        });
+
+        it('should keep single wildcards within one segment', () => {
+            expect(matchesPathPattern('/products/shoes', '/products/*')).toBe(true);
+            expect(matchesPathPattern('/products/shoes/red', '/products/*')).toBe(false);
+        });
+
+        it('should let double wildcards cross segments', () => {
+            expect(matchesPathPattern('/products/shoes/red', '/products/**')).toBe(true);
+        });
+    });
+
+    describe('isInScope', () => {
+        const origin = 'https://example.com';
+
+        it('should reject other origins and non-HTML files', () => {
+            const options = { include: [], exclude: [] };
+            expect(isInScope('https://other.com/', origin, options)).toBe(false);
+            expect(isInScope('https://example.com/file.pdf', origin, options)).toBe(false);
+            expect(isInScope('https://example.com/page', origin, options)).toBe(true);
+        });
+
+        it('should let exclude patterns win over include patterns', () => {
+            const options = { include: ['/blog/**'], exclude: ['/blog/drafts'] };
+            expect(isInScope('https://example.com/blog/post', origin, options)).toBe(true);
+            expect(isInScope('https://example.com/blog/drafts/x', origin, options)).toBe(false);
+            expect(isInScope('https://example.com/about', origin, options)).toBe(false);
+        });
+    });
+
+    describe('normalizeSiteCrawlOptions', () => {
+        it('should clamp limits and apply defaults', () => {
+            const options = normalizeSiteCrawlOptions({ maxPages: 10000, maxDepth: -1 });
+            expect(options.maxPages).toBe(500);
+            expect(options.maxDepth).toBe(0);
+            expect(options.include).toEqual([]);
+        });
+    });
+
+    describe('crawlSite', () => {
+        const site: Record<string, CrawlData> = {
+            'https://example.com/': page('https://example.com/', ['/a', '/b#section', 'https://other.com/x']),
+            'https://example.com/a': page('https://example.com/a', ['/a/deep']),
+            'https://example.com/b': page('https://example.com/b', ['/']),
+            'https://example.com/a/deep': page('https://example.com/a/deep', [])
+        };
+        const crawl = async (url: string) => {
+            if (!site[url]) throw new Error('Not found');
+            return site[url];
+        };
+
+        it('should follow same-origin links breadth-first up to the depth limit', async () => {
+            const { pages } = await crawlSite('https://example.com/', { maxDepth: 1 }, crawl);
+
+            expect(pages.map(p => p.url)).toEqual([
+                'https://example.com/',
+                'https://example.com/a',
+                'https://example.com/b'
+            ]);
+        });
+
+        it('should stop at the page limit', async () => {
+            const { pages } = await crawlSite('https://example.com/', { maxDepth: 5, maxPages: 2 }, crawl);
+            expect(pages).toHaveLength(2);
+        });
+    });
+});
@@ -0,0 +1,135 @@
+import { afterEach, describe, it, expect } from '@jest/globals';
+import { discoverFromSitemaps, isAllowedByRobots, parseRobotsTxt, parseSitemapXml } from '../sitemap';
+
+const ROBOTS_TXT = `
+# Comments and blank lines are ignored
+User-agent: Googlebot
+User-agent: Bingbot
+Disallow: /search
+
+User-agent: *
+Disallow: /private/
+Allow: /private/press/
+Disallow: /*.pdf$
+Disallow: /*?sessionid=
+Disallow:
+
+Sitemap: /sitemap-index.xml
+Sitemap: https://cdn.example.com/sitemap-news.xml
+`;
+
+describe('Sitemap Discovery', () => {
+    describe('parseRobotsTxt', () => {
+        it('should group consecutive user agents and resolve sitemap references', () => {
+            const robots = parseRobotsTxt(ROBOTS_TXT, 'https://example.com');
+
+            expect(robots.groups).toEqual([
+                { userAgents: ['googlebot', 'bingbot'], allow: [], disallow: ['/search'] },
+                { userAgents: ['*'], allow: ['/private/press/'], disallow: ['/private/', '/*.pdf$', '/*?sessionid='] }
+            ]);
+            expect(robots.sitemaps).toEqual([
+                'https://example.com/sitemap-index.xml',
+                'https://cdn.example.com/sitemap-news.xml'
+            ]);
+        });
+
+        it('should ignore rules before the first user-agent line', () => {
+            expect(parseRobotsTxt('Disallow: /\nUser-agent: *\nDisallow: /tmp').groups).toEqual([
+                { userAgents: ['*'], allow: [], disallow: ['/tmp'] }
+            ]);
+        });
+    });
+
+    describe('isAllowedByRobots', () => {
+        const robots = parseRobotsTxt(ROBOTS_TXT, 'https://example.com');
+
+        it('should use the longest matching rule', () => {
+            expect(isAllowedByRobots(robots, 'https://example.com/private/team')).toBe(false);
+            expect(isAllowedByRobots(robots, 'https://example.com/private/press/launch')).toBe(true);
+            expect(isAllowedByRobots(robots, 'https://example.com/about')).toBe(true);
+        });
+
+        it('should let Allow win a tie', () => {
+            const tie = parseRobotsTxt('User-agent: *\nDisallow: /docs\nAllow: /docs');
+            expect(isAllowedByRobots(tie, 'https://example.com/docs/intro')).toBe(true);
+        });
+
+        it('should match wildcards anywhere and anchor rules ending in $', () => {
+            expect(isAllowedByRobots(robots, 'https://example.com/files/report.pdf')).toBe(false);
+            expect(isAllowedByRobots(robots, 'https://example.com/files/report.pdf.html')).toBe(true);
+            expect(isAllowedByRobots(robots, 'https://example.com/cart?sessionid=42')).toBe(false);
+        });
+
+        it('should use the most specific user-agent group', () => {
+            expect(isAllowedByRobots(robots, 'https://example.com/search', 'Mozilla/5.0 (compatible; Googlebot/2.1)')).toBe(false);
+            expect(isAllowedByRobots(robots, 'https://example.com/private/team', 'Googlebot')).toBe(true);
+            expect(isAllowedByRobots(robots, 'https://example.com/search')).toBe(true);
+        });
+
+        it('should allow everything without a matching group', () => {
+            expect(isAllowedByRobots(parseRobotsTxt('User-agent: Bingbot\nDisallow: /'), 'https://example.com/')).toBe(true);
+        });
+    });
+
+    describe('parseSitemapXml', () => {
+        it('should read page locations from a urlset', () => {
+            expect(parseSitemapXml(`<?xml version="1.0" encoding="UTF-8"?>
+                <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+                    <url><loc> https://example.com/ </loc><lastmod>2024-01-01</lastmod></url>
+                    <url><loc>https://example.com/about</loc></url>
+                </urlset>`)).toEqual({
+                type: 'urlset',
+                locations: ['https://example.com/', 'https://example.com/about']
+            });
+        });
+
+        it('should read child sitemaps from a sitemap index', () => {
+            expect(parseSitemapXml(`<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+                    <sitemap><loc>https://example.com/sitemap-pages.xml</loc></sitemap>
+                </sitemapindex>`)).toEqual({
+                type: 'sitemapindex',
+                locations: ['https://example.com/sitemap-pages.xml']
+            });
+        });
+
+        it('should not recognize other documents', () => {
+            expect(parseSitemapXml('<rss><channel><link>https://example.com/</link></channel></rss>').type).toBeUndefined();
+        });
+    });
+
+    describe('discoverFromSitemaps', () => {
+        const realFetch = globalThis.fetch;
+
+        afterEach(() => {
+            globalThis.fetch = realFetch;
+        });
+
+        it('should follow sitemap indexes once each', async () => {
+            const files: Record<string, string> = {
+                'https://example.com/robots.txt': 'User-agent: *\nSitemap: https://example.com/sitemap-index.xml',
+                'https://example.com/sitemap-index.xml': `<sitemapindex>
+                    <sitemap><loc>https://example.com/sitemap-pages.xml</loc></sitemap>
+                    <sitemap><loc>https://example.com/sitemap-index.xml</loc></sitemap>
+                    <sitemap><loc>https://example.com/sitemap-missing.xml</loc></sitemap>
+                </sitemapindex>`,
+                'https://example.com/sitemap-pages.xml': `<urlset>
+                    <url><loc>https://example.com/</loc></url>
+                    <url><loc>https://example.com/contact</loc></url>
+                </urlset>`
+            };
+            globalThis.fetch = (async (input: string | URL | Request) => {
+                const body = files[String(input)];
+                return body === undefined ? new Response('', { status: 404 }) : new Response(body);
+            }) as typeof fetch;
+
+            const discovery = await discoverFromSitemaps('https://example.com/blog/post');
+
+            expect(discovery.urls).toEqual(['https://example.com/', 'https://example.com/contact']);
+            expect(discovery.sitemaps.map(file => [file.url, file.type, file.error])).toEqual([
+                ['https://example.com/sitemap-index.xml', 'sitemapindex', undefined],
+                ['https://example.com/sitemap-pages.xml', 'urlset', undefined],
+                ['https://example.com/sitemap-missing.xml', undefined, 'HTTP 404']
+            ]);
+        });
+    });
+});
@@ -0,0 +1,70 @@
+import nodemailer from 'nodemailer';
+import type { Alert, AlertChannel } from '@/types/alerts';
+import { requestSignal } from '@/lib/check-jobs';
+import { formatEmailMessage, formatSlackMessage, formatWebhookPayload } from './formatters';
+
+/** Per-request timeout for webhook deliveries */
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+/**
+ * Send an alert through a rule's channel
+ * @throws If the receiver rejects the alert or cannot be reached
+ */
+export async function deliverAlert(alert: Alert, channel: AlertChannel): Promise<void> {
+    switch (channel.type) {
+        case 'webhook':
+            await postJson(channel.url, formatWebhookPayload(alert));
+            return;
+        case 'slack':
+            await postJson(channel.url, formatSlackMessage(alert));
+            return;
+        case 'email':
+            await sendEmail(channel.to, alert);
+            return;
+    }
+}
+
+async function postJson(url: string, body: unknown): Promise<void> {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'GC-Web-Health-Checker/1.0'
+        },
+        body: JSON.stringify(body),
+        signal: requestSignal(WEBHOOK_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+        throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+    }
+}
+
+/**
+ * Send through the SMTP server from `SMTP_HOST`/`SMTP_PORT` (TLS when
+ * `SMTP_SECURE=true`), authenticating when `SMTP_USER` is set
+ */
+async function sendEmail(to: string[], alert: Alert): Promise<void> {
+    const host = process.env.SMTP_HOST;
+    if (!host) {
+        throw new Error('Email alerts need SMTP_HOST to be configured');
+    }
+
+    const secure = process.env.SMTP_SECURE === 'true';
+    const transport = nodemailer.createTransport({
+        host,
+        port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+        secure,
+        auth: process.env.SMTP_USER
+            ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+            : undefined
+    });
+
+    const { subject, text } = formatEmailMessage(alert);
+    await transport.sendMail({
+        from: process.env.ALERT_EMAIL_FROM || 'gc-health-checker@localhost',
+        to: to.join(', '),
+        subject,
+        text
+    });
+}
@@ -0,0 +1,98 @@
+/**
+ * Channel formats for alerts. The generic webhook gets the full alert;
+ * Slack and email get a readable summary with the report link.
+ */
+
+import type { Alert } from '@/types/alerts';
+
+/** Issues listed in Slack and email messages before "and N more" */
+const MAX_LISTED_ISSUES = 5;
+
+export interface WebhookPayload extends Alert {
+    event: 'health-check.alert';
+}
+
+export interface SlackMessage {
+    text: string;
+    blocks: Array<Record<string, unknown>>;
+}
+
+export interface EmailMessage {
+    subject: string;
+    text: string;
+}
+
+export function formatWebhookPayload(alert: Alert): WebhookPayload {
+    return { event: 'health-check.alert', ...alert };
+}
+
+/**
+ * Slack incoming-webhook message; `text` is the notification fallback
+ */
+export function formatSlackMessage(alert: Alert): SlackMessage {
+    const lines = [
+        `*${escapeSlack(alert.rule.name)}*: ${escapeSlack(alert.summary)}`,
+        `<${alert.url}|${escapeSlack(alert.url)}> · ${statusLine(alert)}`
+    ];
+    const issues = listIssues(alert).map(issue => `• ${escapeSlack(issue)}`);
+
+    return {
+        text: `${alert.rule.name}: ${alert.summary} (${alert.url})`,
+        blocks: [
+            { type: 'section', text: { type: 'mrkdwn', text: lines.join('\n') } },
+            ...(issues.length > 0 ? [{ type: 'section', text: { type: 'mrkdwn', text: issues.join('\n') } }] : []),
+            {
+                type: 'actions',
+                elements: [{ type: 'button', text: { type: 'plain_text', text: 'View report' }, url: alert.reportUrl }]
+            }
+        ]
+    };
+}
+
+export function formatEmailMessage(alert: Alert): EmailMessage {
+    const issues = listIssues(alert);
+    const lines = [
+        alert.summary,
+        '',
+        `URL: ${alert.url}`,
+        `Check: ${alert.result.label}`,
+        `Result: ${statusLine(alert)}`,
+        `Report: ${alert.reportUrl}`
+    ];
+
+    if (alert.previous) {
+        lines.push(`Previous report: ${alert.reportUrl.replace(/[^/]+$/, alert.previous.reportId)}`);
+    }
+    if (issues.length > 0) {
+        lines.push('', 'New issues:', ...issues.map(issue => `- ${issue}`));
+    }
+
+    lines.push('', `Rule: ${alert.rule.name}`, `Triggered: ${new Date(alert.triggeredAt).toISOString()}`);
+
+    return {
+        subject: `[Health Check Alert] ${alert.summary} – ${alert.url}`,
+        text: lines.join('\n')
+    };
+}
+
+function statusLine(alert: Alert): string {
+    const { result } = alert;
+    return result.score !== undefined
+        ? `${result.status.toUpperCase()}, score ${result.score}/100`
+        : result.status.toUpperCase();
+}
+
+function listIssues(alert: Alert): string[] {
+    const issues = alert.newIssues ?? [];
+    const listed = issues.slice(0, MAX_LISTED_ISSUES).map(issue => issue.message);
+
+    if (issues.length > MAX_LISTED_ISSUES) {
+        listed.push(`and ${issues.length - MAX_LISTED_ISSUES} more`);
+    }
+    return listed;
+}
+
+// Slack treats &, < and > as control characters in mrkdwn
+function escapeSlack(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
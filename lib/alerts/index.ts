@@ -0,0 +1,79 @@
+import path from 'path';
+import type { AlertRule, AlertRuleStore } from '@/types/alerts';
+import type { StoredReport } from '@/types/reports';
+import { createJsonFileCollection } from '@/lib/json-file-store';
+import { getReportStore } from '@/lib/reports';
+import { buildAlert, evaluateAlertRule, findPreviousReport, ruleAppliesTo } from './rules';
+import { deliverAlert } from './delivery';
+
+export { deliverAlert } from './delivery';
+
+const DEFAULT_ALERT_STORE_DIR = '.data/alerts';
+const DEFAULT_BASE_URL = 'http://localhost:3000';
+
+let store: AlertRuleStore | null = null;
+
+/**
+ * Get the configured alert rule store (JSON files under `ALERT_STORE_DIR`,
+ * default `.data/alerts`)
+ */
+export function getAlertRuleStore(): AlertRuleStore {
+    if (!store) {
+        const directory = path.resolve(process.env.ALERT_STORE_DIR || DEFAULT_ALERT_STORE_DIR);
+        const collection = createJsonFileCollection<AlertRule>(directory, rule => rule.id, 'alert rule');
+
+        store = {
+            ...collection,
+            async list() {
+                return (await collection.list()).sort((a, b) => a.createdAt - b.createdAt);
+            }
+        };
+    }
+
+    return store;
+}
+
+/**
+ * Generate an alert rule id in "alert-timestamp-suffix" format
+ */
+export function createAlertRuleId(): string {
+    return `alert-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Public origin used for report links in alerts (`NEXT_PUBLIC_BASE_URL`)
+ */
+export function getAppBaseUrl(): string {
+    return process.env.NEXT_PUBLIC_BASE_URL || DEFAULT_BASE_URL;
+}
+
+/**
+ * Evaluate the alert rules for a newly stored result and deliver the ones
+ * that match. Never throws: a failing receiver must not fail the check.
+ */
+export async function processReportAlerts(report: StoredReport): Promise<void> {
+    if (report.status === 'running' || report.status === 'pending') return;
+
+    try {
+        const rules = (await getAlertRuleStore().list()).filter(rule => ruleAppliesTo(rule, report));
+        if (rules.length === 0) return;
+
+        const previous = findPreviousReport(report, await getReportStore().list({ url: report.url }));
+
+        for (const rule of rules) {
+            const match = evaluateAlertRule(rule, report, previous);
+            if (!match) continue;
+
+            const alert = buildAlert(rule, match, report, previous, getAppBaseUrl());
+            try {
+                await deliverAlert(alert, rule.channel);
+                await getAlertRuleStore().save({ ...rule, lastTriggeredAt: alert.triggeredAt });
+                console.log(`[Alerts] "${rule.name}" fired for ${report.url}: ${match.summary}`);
+            } catch (error) {
+                console.error(`[Alerts] Delivering "${rule.name}" via ${rule.channel.type} failed:`, error);
+            }
+        }
+    } catch (error) {
+        console.error(`[Alerts] Evaluating alerts for report ${report.reportId} failed:`, error);
+    }
+}
@@ -0,0 +1,114 @@
+/**
+ * Alert rule evaluation; pure functions so rules can be tested without
+ * a store or network
+ */
+
+import type { CheckDetail } from '@/types/crawl';
+import type { Alert, AlertRule, IssueSeverity } from '@/types/alerts';
+import type { StoredReport } from '@/types/reports';
+import { diffIssues } from '@/lib/diff';
+import { normalizeReportUrl, toHealthCheckResult } from '@/lib/reports/utils';
+
+const SEVERITY_RANK: Record<IssueSeverity, number> = {
+    minor: 1,
+    moderate: 2,
+    serious: 3,
+    critical: 4
+};
+
+export interface AlertMatch {
+    summary: string;
+    newIssues?: CheckDetail[];
+}
+
+/**
+ * Whether a rule applies to a result at all (enabled, same check and URL)
+ */
+export function ruleAppliesTo(rule: AlertRule, report: StoredReport): boolean {
+    return rule.enabled
+        && rule.condition.checkId === report.id
+        && (!rule.url || normalizeReportUrl(rule.url) === normalizeReportUrl(report.url));
+}
+
+/**
+ * Evaluate a rule's condition against a completed result
+ * @param previous - The URL's previous completed result for the same check, if any
+ * @returns Why the rule fired, or null
+ */
+export function evaluateAlertRule(rule: AlertRule, report: StoredReport, previous?: StoredReport): AlertMatch | null {
+    const { condition } = rule;
+
+    switch (condition.type) {
+        case 'score-below':
+            if (report.score === undefined || report.score >= condition.threshold) return null;
+            return { summary: `${report.label} score ${report.score} is below ${condition.threshold}` };
+
+        case 'score-drop': {
+            if (report.score === undefined || previous?.score === undefined) return null;
+
+            const drop = previous.score - report.score;
+            if (drop <= condition.points) return null;
+            return { summary: `${report.label} score dropped by ${drop} points (${previous.score} → ${report.score})` };
+        }
+
+        case 'new-issues': {
+            // Without a previous result every issue would count as new
+            if (!previous) return null;
+
+            const minRank = condition.minSeverity ? SEVERITY_RANK[condition.minSeverity] : 0;
+            const newIssues = diffIssues(report.id, previous.details ?? [], report.details ?? [])
+                .filter(entry => entry.change === 'new')
+                .map(entry => entry.detail)
+                .filter(detail => minRank === 0 || (detail.severity !== undefined && SEVERITY_RANK[detail.severity] >= minRank));
+
+            if (newIssues.length === 0) return null;
+
+            const qualifier = condition.minSeverity ? ` ${condition.minSeverity}${condition.minSeverity === 'critical' ? '' : '+'}` : '';
+            return {
+                summary: `${newIssues.length} new${qualifier} ${report.label} issue${newIssues.length !== 1 ? 's' : ''}`,
+                newIssues
+            };
+        }
+    }
+}
+
+/**
+ * Assemble the alert sent to a rule's channel
+ * @param baseUrl - Public origin of this app, used for the report link
+ */
+export function buildAlert(
+    rule: AlertRule,
+    match: AlertMatch,
+    report: StoredReport,
+    previous: StoredReport | undefined,
+    baseUrl: string,
+    now = Date.now()
+): Alert {
+    return {
+        rule: { id: rule.id, name: rule.name, condition: rule.condition },
+        summary: match.summary,
+        url: report.url,
+        reportUrl: `${baseUrl.replace(/\/+$/, '')}/report/${report.reportId}`,
+        result: toHealthCheckResult(report),
+        previous: previous
+            ? { reportId: previous.reportId, score: previous.score, timestamp: previous.timestamp }
+            : undefined,
+        newIssues: match.newIssues,
+        triggeredAt: now
+    };
+}
+
+/**
+ * Latest completed result for the same URL and check that came before `report`
+ */
+export function findPreviousReport(report: StoredReport, candidates: StoredReport[]): StoredReport | undefined {
+    return candidates
+        .filter(candidate =>
+            candidate.reportId !== report.reportId
+            && candidate.id === report.id
+            && candidate.timestamp < report.timestamp
+            && candidate.status !== 'running'
+            && candidate.status !== 'pending'
+            && !candidate.expiredAt)
+        .sort((a, b) => b.timestamp - a.timestamp)[0];
+}
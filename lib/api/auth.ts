@@ -0,0 +1,42 @@
+import { createHash, timingSafeEqual } from 'crypto';
+
+/**
+ * API keys from `HEALTH_CHECK_API_KEYS` (comma-separated). The API is
+ * disabled while no key is configured.
+ */
+export function getApiKeys(): string[] {
+    return (process.env.HEALTH_CHECK_API_KEYS || '')
+        .split(',')
+        .map(key => key.trim())
+        .filter(Boolean);
+}
+
+/**
+ * Key sent with a request, from `Authorization: Bearer <key>` or `X-API-Key`
+ */
+export function getRequestApiKey(request: Request): string | null {
+    const authorization = request.headers.get('authorization');
+    const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+
+    return bearer || request.headers.get('x-api-key')?.trim() || null;
+}
+
+/**
+ * Whether `key` is one of `validKeys`, compared in constant time
+ */
+export function isValidApiKey(key: string, validKeys: string[]): boolean {
+    const digest = hashKey(key);
+    // Check every key so the response time doesn't reveal which one matched
+    return validKeys.reduce((matched, validKey) => timingSafeEqual(digest, hashKey(validKey)) || matched, false);
+}
+
+/**
+ * Short, non-reversible id of a key for logs and rate-limit buckets
+ */
+export function getApiKeyId(key: string): string {
+    return hashKey(key).toString('hex').slice(0, 12);
+}
+
+function hashKey(key: string): Buffer {
+    return createHash('sha256').update(key).digest();
+}
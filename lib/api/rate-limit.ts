@@ -0,0 +1,40 @@
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    /** When the current window ends (ms since epoch) */
+    resetAt: number;
+}
+
+export interface RateLimiter {
+    consume(key: string, now?: number): RateLimitResult;
+}
+
+/**
+ * Fixed-window limiter kept in memory: at most `limit` requests per key in
+ * each `windowMs` window. Limits are per process, so with several instances
+ * a key gets `limit` requests on each.
+ */
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }): RateLimiter {
+    const windows = new Map<string, { startedAt: number; count: number }>();
+
+    return {
+        consume(key, now = Date.now()) {
+            let window = windows.get(key);
+            if (!window || now - window.startedAt >= windowMs) {
+                window = { startedAt: now, count: 0 };
+                windows.set(key, window);
+            }
+
+            const allowed = window.count < limit;
+            if (allowed) window.count++;
+
+            return {
+                allowed,
+                limit,
+                remaining: Math.max(0, limit - window.count),
+                resetAt: window.startedAt + windowMs
+            };
+        }
+    };
+}
@@ -0,0 +1,76 @@
+import { createRateLimiter, type RateLimiter, type RateLimitResult } from './rate-limit';
+import { getApiKeyId, getApiKeys, getRequestApiKey, isValidApiKey } from './auth';
+
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 60;
+
+// Kept on globalThis so request counts survive module reloads in development
+const globalForApi = globalThis as unknown as { apiRateLimiter?: RateLimiter };
+
+/**
+ * Requests per minute allowed for each API key, from `API_RATE_LIMIT_PER_MINUTE` (default 60)
+ */
+export function getApiRateLimit(): number {
+    const configured = Number(process.env.API_RATE_LIMIT_PER_MINUTE);
+    return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_RATE_LIMIT_PER_MINUTE;
+}
+
+function getRateLimiter(): RateLimiter {
+    return globalForApi.apiRateLimiter
+        ?? (globalForApi.apiRateLimiter = createRateLimiter({ limit: getApiRateLimit(), windowMs: 60 * 1000 }));
+}
+
+/**
+ * JSON error body shared by all v1 endpoints: `{ "error": "..." }`
+ */
+export function apiError(status: number, message: string, headers?: HeadersInit): Response {
+    return Response.json({ error: message }, { status, headers });
+}
+
+/**
+ * Wrap a v1 route handler with API-key authentication, per-key rate
+ * limiting and a JSON 500 for unexpected errors
+ */
+export function apiRoute<Context>(
+    handler: (request: Request, context: Context) => Promise<Response>
+): (request: Request, context: Context) => Promise<Response> {
+    return async (request, context) => {
+        const validKeys = getApiKeys();
+        if (validKeys.length === 0) {
+            return apiError(503, 'The HTTP API is disabled. Set HEALTH_CHECK_API_KEYS to enable it.');
+        }
+
+        const key = getRequestApiKey(request);
+        if (!key || !isValidApiKey(key, validKeys)) {
+            return apiError(401, 'Missing or invalid API key', { 'WWW-Authenticate': 'Bearer' });
+        }
+
+        const rateLimit = getRateLimiter().consume(getApiKeyId(key));
+        if (!rateLimit.allowed) {
+            return apiError(429, 'Rate limit exceeded', {
+                ...rateLimitHeaders(rateLimit),
+                'Retry-After': String(Math.max(1, Math.ceil((rateLimit.resetAt - Date.now()) / 1000)))
+            });
+        }
+
+        let response: Response;
+        try {
+            response = await handler(request, context);
+        } catch (error) {
+            console.error(`[API] ${request.method} ${new URL(request.url).pathname} failed:`, error);
+            response = apiError(500, 'Internal server error');
+        }
+
+        for (const [name, value] of Object.entries(rateLimitHeaders(rateLimit))) {
+            response.headers.set(name, value);
+        }
+        return response;
+    };
+}
+
+function rateLimitHeaders(rateLimit: RateLimitResult): Record<string, string> {
+    return {
+        'X-RateLimit-Limit': String(rateLimit.limit),
+        'X-RateLimit-Remaining': String(rateLimit.remaining),
+        'X-RateLimit-Reset': String(Math.ceil(rateLimit.resetAt / 1000))
+    };
+}
@@ -0,0 +1,37 @@
+import type { ApiRunStatus } from '@/types/api';
+import type { StoredReport } from '@/types/reports';
+import { toHealthCheckResult } from '@/lib/reports';
+import { RUNNING_REPORT_TIMEOUT_MS } from '@/lib/reports/lookup';
+
+/**
+ * Status of a run from its stored reports. Checks whose "running"
+ * placeholder went stale are reported as failed so the run completes.
+ * @returns null when the run has no reports
+ */
+export function buildRunStatus(runId: string, reports: StoredReport[], now = Date.now()): ApiRunStatus | null {
+    if (reports.length === 0) return null;
+
+    const sorted = [...reports].sort((a, b) => a.timestamp - b.timestamp);
+    let running = false;
+
+    const results = sorted.map(report => {
+        const result = toHealthCheckResult(report);
+        if (report.status !== 'running' && report.status !== 'pending') return result;
+
+        if (now - report.savedAt > RUNNING_REPORT_TIMEOUT_MS) {
+            return { ...result, status: 'error' as const, message: 'The check did not finish.' };
+        }
+
+        running = true;
+        return result;
+    });
+
+    return {
+        runId,
+        url: sorted[0].url,
+        status: running ? 'running' : 'completed',
+        startedAt: sorted[0].timestamp,
+        completedAt: running ? undefined : Math.max(...sorted.map(report => report.savedAt)),
+        results
+    };
+}
@@ -1,33 +1,73 @@
 import { JSDOM } from 'jsdom';
 import axe from 'axe-core';
 
+interface AxeRunResults {
+    violations: Array<{
+        id: string;
+        impact?: string;
+        help: string;
+        description: string;
+        tags: string[];
+        nodes: Array<{
+            html?: string;
+            failureSummary?: string;
+            any?: Array<{ data?: { contrastRatio?: number; expectedContrastRatio?: string } }>;
+        }>;
+    }>;
+    passes: unknown[];
+    incomplete: Array<{
+        id: string;
+        help: string;
+        tags: string[];
+    }>;
+}
+
 // Type definition for window with axe injected
 interface WindowWithAxe extends Window {
     axe: {
-        run: (doc: Document, options: unknown) => Promise<{
-            violations: Array<{
-                id: string;
-                impact?: string;
-                help: string;
-                description: string;
-                tags: string[];
-                nodes: Array<{
-                    html?: string;
-                    failureSummary?: string;
-                    any?: Array<{ data?: { contrastRatio?: number; expectedContrastRatio?: string } }>;
-                }>;
-            }>;
-            passes: unknown[];
-            incomplete: Array<{
-                help: string;
-                tags: string[];
-            }>;
-        }>;
+        run: (doc: Document, options: unknown) => Promise<AxeRunResults>;
+        getRules: (tags?: string[]) => Array<{ ruleId: string }>;
     };
 }
 
+const AXE_TAGS = ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa', 'best-practice'];
+
+/** Rules evaluated per axe.run call when progress is reported */
+const AXE_RULE_BATCH_SIZE = 10;
+
+/**
+ * Run the tagged rule set in batches so progress can be reported as
+ * "N of M rules evaluated"; the merged results match a single run.
+ */
+async function runAxeInBatches(
+    window: WindowWithAxe,
+    onProgress: (evaluated: number, total: number) => void
+): Promise<AxeRunResults> {
+    const ruleIds = window.axe.getRules(AXE_TAGS).map(rule => rule.ruleId);
+    const merged: AxeRunResults = { violations: [], passes: [], incomplete: [] };
+
+    onProgress(0, ruleIds.length);
+
+    for (let i = 0; i < ruleIds.length; i += AXE_RULE_BATCH_SIZE) {
+        const batch = ruleIds.slice(i, i + AXE_RULE_BATCH_SIZE);
+        const results = await window.axe.run(window.document, {
+            runOnly: { type: 'rule', values: batch },
+            resultTypes: ['violations', 'passes', 'incomplete']
+        });
+
+        merged.violations.push(...results.violations);
+        merged.passes.push(...results.passes);
+        merged.incomplete.push(...results.incomplete);
+        onProgress(Math.min(i + batch.length, ruleIds.length), ruleIds.length);
+    }
+
+    return merged;
+}
+
 export interface AxeIssue {
     type: 'error' | 'warning' | 'info';
+    /** Axe rule id, e.g. "image-alt" */
+    ruleId?: string;
     message: string;
     element?: string;
     impact?: 'critical' | 'serious' | 'moderate' | 'minor';
@@ -44,8 +84,13 @@ export interface AxeResult {
 
 /**
  * Run Axe accessibility analysis on HTML content
+ * @param onProgress - Called as rule batches complete
  */
-export async function runAxeAnalysis(html: string, url?: string): Promise<AxeResult> {
+export async function runAxeAnalysis(
+    html: string,
+    url?: string,
+    onProgress?: (evaluated: number, total: number) => void
+): Promise<AxeResult> {
     try {
         console.log('[Axe] Starting accessibility analysis');
 
@@ -60,19 +105,21 @@ export async function runAxeAnalysis(html: string, url?: string): Promise<AxeRes
         const { document } = window;
 
         // Inject axe-core into the JSDOM window
-        const axeSource = axe.source;
-        const script = document.createElement('script');
-        script.textContent = axeSource;
-        document.head.appendChild(script);
+        // With runScripts 'outside-only' appended <script> tags never execute,
+        // so evaluate the axe source in the window directly
+        window.eval(axe.source);
 
         // Run axe analysis
-        const results = await (window as unknown as WindowWithAxe).axe.run(document, {
-            runOnly: {
-                type: 'tag',
-                values: ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa', 'best-practice']
-            },
-            resultTypes: ['violations', 'passes', 'incomplete']
-        });
+        const axeWindow = window as unknown as WindowWithAxe;
+        const results = onProgress
+            ? await runAxeInBatches(axeWindow, onProgress)
+            : await axeWindow.axe.run(document, {
+                runOnly: {
+                    type: 'tag',
+                    values: AXE_TAGS
+                },
+                resultTypes: ['violations', 'passes', 'incomplete']
+            });
 
         console.log('[Axe] Analysis complete:', {
             violations: results.violations.length,
@@ -91,6 +138,7 @@ export async function runAxeAnalysis(html: string, url?: string): Promise<AxeRes
             for (const node of violation.nodes) {
                 issues.push({
                     type,
+                    ruleId: violation.id,
                     message: `${violation.help} - ${node.failureSummary || violation.description}`,
                     element: node.html ? node.html.substring(0, 100) : undefined,
                     impact: impact as 'critical' | 'serious' | 'moderate' | 'minor',
@@ -103,6 +151,7 @@ export async function runAxeAnalysis(html: string, url?: string): Promise<AxeRes
         for (const incomplete of results.incomplete) {
             issues.push({
                 type: 'warning',
+                ruleId: incomplete.id,
                 message: `Needs review: ${incomplete.help}`,
                 impact: 'moderate',
                 wcagTags: incomplete.tags
@@ -155,10 +204,9 @@ export async function runAxeContrastAnalysis(html: string, url?: string): Promis
         const { document } = window;
 
         // Inject axe-core
-        const axeSource = axe.source;
-        const script = document.createElement('script');
-        script.textContent = axeSource;
-        document.head.appendChild(script);
+        // With runScripts 'outside-only' appended <script> tags never execute,
+        // so evaluate the axe source in the window directly
+        window.eval(axe.source);
 
         // Run axe with only contrast rules
         const results = await (window as unknown as WindowWithAxe).axe.run(document, {
@@ -185,6 +233,7 @@ export async function runAxeContrastAnalysis(html: string, url?: string): Promis
 
                 issues.push({
                     type,
+                    ruleId: violation.id,
                     message: `Contrast ratio ${contrastRatio}:1 is below required ${expectedRatio} - ${violation.help}`,
                     element: node.html ? node.html.substring(0, 100) : undefined,
                     impact: impact as 'critical' | 'serious' | 'moderate' | 'minor',
@@ -0,0 +1,204 @@
+/**
+ * Score budgets for CI gating: a JSON file with minimum scores per check
+ * and limits on matching issues. Evaluation is pure so budgets can be
+ * tested without running checks.
+ */
+
+import { readFile } from 'fs/promises';
+import type { BudgetAssertion, BudgetRuleLimit, CheckBudget, HealthBudget } from '@/types/budget';
+import type { CheckDetail, HealthCheckResult } from '@/types/crawl';
+
+const SEVERITIES = ['critical', 'serious', 'moderate', 'minor'];
+const DETAIL_TYPES = ['error', 'warning', 'info'];
+
+export class BudgetError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BudgetError';
+    }
+}
+
+/**
+ * Read and validate a budget file
+ * @throws BudgetError when the file is missing, not JSON or not a valid budget
+ */
+export async function loadBudgetFile(path: string): Promise<HealthBudget> {
+    let text: string;
+    try {
+        text = await readFile(path, 'utf-8');
+    } catch (error) {
+        throw new BudgetError(`Cannot read budget file ${path}: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch (error) {
+        throw new BudgetError(`Budget file ${path} is not valid JSON: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+
+    return parseBudget(raw);
+}
+
+/**
+ * Validate parsed JSON as a budget
+ * @throws BudgetError naming the first invalid field
+ */
+export function parseBudget(raw: unknown): HealthBudget {
+    if (!isObject(raw)) {
+        throw new BudgetError('Budget must be a JSON object');
+    }
+
+    const budget: HealthBudget = { checks: {} };
+    if (raw.minScore !== undefined) {
+        budget.minScore = parseScore(raw.minScore, 'minScore');
+    }
+
+    if (raw.checks !== undefined) {
+        if (!isObject(raw.checks)) {
+            throw new BudgetError('checks must be an object keyed by check id');
+        }
+        for (const [checkId, checkBudget] of Object.entries(raw.checks)) {
+            budget.checks[checkId] = parseCheckBudget(checkBudget, `checks.${checkId}`);
+        }
+    }
+
+    return budget;
+}
+
+/**
+ * Assert every budgeted check against the run's results. Checks without a
+ * budget entry are only covered by a budget-wide minScore.
+ */
+export function evaluateBudget(budget: HealthBudget, results: HealthCheckResult[]): BudgetAssertion[] {
+    const assertions: BudgetAssertion[] = [];
+
+    for (const checkId of Object.keys(budget.checks)) {
+        if (!results.some(result => result.id === checkId)) {
+            assertions.push({ checkId, checkLabel: checkId, name: 'check ran', passed: false, message: 'check did not run' });
+        }
+    }
+
+    for (const result of results) {
+        const checkBudget: CheckBudget = budget.checks[result.id] ?? {};
+        const minScore = checkBudget.minScore ?? budget.minScore;
+        const assert = (name: string, passed: boolean, message: string) =>
+            assertions.push({ checkId: result.id, checkLabel: result.label, name, passed, message });
+
+        if (minScore !== undefined) {
+            if (result.score === undefined) {
+                assert(`score >= ${minScore}`, false, `no score (${result.message})`);
+            } else {
+                assert(
+                    `score >= ${minScore}`,
+                    result.score >= minScore,
+                    result.score >= minScore ? `score ${result.score}` : `score ${result.score} is below ${minScore}`
+                );
+            }
+        }
+
+        for (const limit of checkBudget.rules ?? []) {
+            const max = limit.max ?? 0;
+            const count = (result.details ?? []).filter(detail => matchesRuleLimit(detail, limit)).length;
+            const name = limit.name ?? describeRuleLimit(limit);
+
+            assert(
+                name,
+                count <= max,
+                count <= max ? `${count} matching issue${count !== 1 ? 's' : ''}` : `${count} matching issues, at most ${max} allowed`
+            );
+        }
+    }
+
+    return assertions;
+}
+
+export function matchesRuleLimit(detail: CheckDetail, limit: BudgetRuleLimit): boolean {
+    return (limit.ruleId === undefined || detail.ruleId === limit.ruleId)
+        && (limit.severity === undefined || detail.severity === limit.severity)
+        && (limit.type === undefined || detail.type === limit.type)
+        && (limit.message === undefined || detail.message.toLowerCase().includes(limit.message.toLowerCase()));
+}
+
+/**
+ * Readable name for a limit, e.g. `severity critical <= 0`
+ */
+export function describeRuleLimit(limit: BudgetRuleLimit): string {
+    const filters = [
+        limit.ruleId !== undefined && `rule ${limit.ruleId}`,
+        limit.severity !== undefined && `severity ${limit.severity}`,
+        limit.type !== undefined && `type ${limit.type}`,
+        limit.message !== undefined && `"${limit.message}"`
+    ].filter(Boolean);
+
+    return `${filters.length > 0 ? filters.join(', ') : 'issues'} <= ${limit.max ?? 0}`;
+}
+
+function parseCheckBudget(raw: unknown, path: string): CheckBudget {
+    if (!isObject(raw)) {
+        throw new BudgetError(`${path} must be an object`);
+    }
+
+    const checkBudget: CheckBudget = {};
+    if (raw.minScore !== undefined) {
+        checkBudget.minScore = parseScore(raw.minScore, `${path}.minScore`);
+    }
+    if (raw.rules !== undefined) {
+        if (!Array.isArray(raw.rules)) {
+            throw new BudgetError(`${path}.rules must be an array`);
+        }
+        checkBudget.rules = raw.rules.map((rule, index) => parseRuleLimit(rule, `${path}.rules[${index}]`));
+    }
+
+    return checkBudget;
+}
+
+function parseRuleLimit(raw: unknown, path: string): BudgetRuleLimit {
+    if (!isObject(raw)) {
+        throw new BudgetError(`${path} must be an object`);
+    }
+
+    const limit: BudgetRuleLimit = {};
+    for (const key of ['ruleId', 'message', 'name'] as const) {
+        if (raw[key] !== undefined) {
+            if (typeof raw[key] !== 'string' || raw[key] === '') {
+                throw new BudgetError(`${path}.${key} must be a non-empty string`);
+            }
+            limit[key] = raw[key];
+        }
+    }
+    if (raw.severity !== undefined) {
+        if (!SEVERITIES.includes(raw.severity as string)) {
+            throw new BudgetError(`${path}.severity must be one of ${SEVERITIES.join(', ')}`);
+        }
+        limit.severity = raw.severity as BudgetRuleLimit['severity'];
+    }
+    if (raw.type !== undefined) {
+        if (!DETAIL_TYPES.includes(raw.type as string)) {
+            throw new BudgetError(`${path}.type must be one of ${DETAIL_TYPES.join(', ')}`);
+        }
+        limit.type = raw.type as BudgetRuleLimit['type'];
+    }
+    if (raw.max !== undefined) {
+        if (typeof raw.max !== 'number' || !Number.isInteger(raw.max) || raw.max < 0) {
+            throw new BudgetError(`${path}.max must be a whole number of at least 0`);
+        }
+        limit.max = raw.max;
+    }
+    if (limit.ruleId === undefined && limit.severity === undefined && limit.type === undefined && limit.message === undefined) {
+        throw new BudgetError(`${path} needs at least one of ruleId, severity, type or message`);
+    }
+
+    return limit;
+}
+
+function parseScore(raw: unknown, path: string): number {
+    if (typeof raw !== 'number' || raw < 0 || raw > 100) {
+        throw new BudgetError(`${path} must be a number between 0 and 100`);
+    }
+    return raw;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
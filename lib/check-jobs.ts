@@ -0,0 +1,188 @@
+/**
+ * Server-side registry of in-flight check jobs so the client can cancel
+ * server work it no longer waits for. Each job owns an AbortController whose
+ * signal is threaded through the validators' network requests.
+ *
+ * Jobs also publish progress events, which the client follows over
+ * Server-Sent Events (app/api/checks/[jobId]/progress).
+ */
+
+import type { CheckDetail, CheckProgressStep } from '@/types/crawl';
+import type { CheckProgressEvent, CheckRunOptions } from '@/types/checks';
+
+export class CheckAbortedError extends Error {
+    constructor(message = 'Check cancelled') {
+        super(message);
+        this.name = 'CheckAbortedError';
+    }
+}
+
+interface CheckJob {
+    controller: AbortController;
+    startedAt: number;
+}
+
+type ProgressListener = (event: CheckProgressEvent) => void;
+
+interface ProgressChannel {
+    /** Buffered so subscribers that connect late still see earlier steps */
+    events: CheckProgressEvent[];
+    listeners: Set<ProgressListener>;
+    cleanupTimer?: ReturnType<typeof setTimeout>;
+}
+
+/** How long a finished (or never started) job's events stay available */
+const PROGRESS_RETENTION_MS = 60 * 1000;
+
+// Kept on globalThis so jobs survive module reloads in development
+const globalForJobs = globalThis as unknown as {
+    checkJobs?: Map<string, CheckJob>;
+    checkProgress?: Map<string, ProgressChannel>;
+};
+const jobs = globalForJobs.checkJobs ?? (globalForJobs.checkJobs = new Map<string, CheckJob>());
+const channels = globalForJobs.checkProgress ?? (globalForJobs.checkProgress = new Map<string, ProgressChannel>());
+
+export interface CheckJobHandle {
+    signal: AbortSignal;
+    /** Report a sub-step; `current`/`total` describe counted progress */
+    step: (id: string, message: string, progress?: { current: number; total: number }) => void;
+    /** Stream details that are already known before the check completes */
+    details: (details: CheckDetail[]) => void;
+    /** Unregister the job; call from a finally block */
+    finish: () => void;
+}
+
+/**
+ * Start a cancellable job for one check run.
+ * @param options - Client-generated job id (anonymous jobs can only time out) and timeout
+ */
+export function startCheckJob(options: CheckRunOptions = {}): CheckJobHandle {
+    const { jobId, timeoutMs } = options;
+    const controller = new AbortController();
+    const timer = timeoutMs
+        ? setTimeout(() => controller.abort(new CheckAbortedError(`Check timed out after ${Math.round(timeoutMs / 1000)}s`)), timeoutMs)
+        : undefined;
+
+    if (jobId) {
+        jobs.set(jobId, { controller, startedAt: Date.now() });
+    }
+
+    const publish = (event: CheckProgressEvent) => {
+        if (jobId) publishProgress(jobId, event);
+    };
+
+    return {
+        signal: controller.signal,
+        step: (id, message, progress) => {
+            const step: CheckProgressStep = { id, message, ...progress, timestamp: Date.now() };
+            publish({ type: 'step', step });
+        },
+        details: (details) => {
+            if (details.length > 0) publish({ type: 'details', details });
+        },
+        finish: () => {
+            clearTimeout(timer);
+            publish({ type: 'done' });
+            if (jobId && jobs.get(jobId)?.controller === controller) {
+                jobs.delete(jobId);
+            }
+        }
+    };
+}
+
+function getChannel(jobId: string): ProgressChannel {
+    let channel = channels.get(jobId);
+    if (!channel) {
+        channel = { events: [], listeners: new Set() };
+        channels.set(jobId, channel);
+        scheduleChannelCleanup(jobId, channel);
+    }
+    return channel;
+}
+
+function scheduleChannelCleanup(jobId: string, channel: ProgressChannel): void {
+    clearTimeout(channel.cleanupTimer);
+    channel.cleanupTimer = setTimeout(() => {
+        if (channels.get(jobId) === channel) {
+            channels.delete(jobId);
+        }
+    }, PROGRESS_RETENTION_MS);
+    channel.cleanupTimer.unref?.();
+}
+
+function publishProgress(jobId: string, event: CheckProgressEvent): void {
+    const channel = getChannel(jobId);
+    channel.events.push(event);
+
+    for (const listener of channel.listeners) {
+        listener(event);
+    }
+
+    // Keep the buffer around briefly for subscribers that connect late
+    if (event.type === 'done') {
+        channel.listeners.clear();
+        scheduleChannelCleanup(jobId, channel);
+    } else {
+        clearTimeout(channel.cleanupTimer);
+    }
+}
+
+/**
+ * Follow a job's progress. Buffered events are replayed first, so the client
+ * may subscribe before or after the check's server action has started.
+ * @returns Unsubscribe function
+ */
+export function subscribeToCheckProgress(jobId: string, listener: ProgressListener): () => void {
+    const channel = getChannel(jobId);
+
+    for (const event of channel.events) {
+        listener(event);
+    }
+
+    if (channel.events.some(event => event.type === 'done')) {
+        return () => {};
+    }
+
+    channel.listeners.add(listener);
+    return () => {
+        channel.listeners.delete(listener);
+    };
+}
+
+/**
+ * Abort in-flight jobs
+ * @returns Number of jobs that were still running
+ */
+export function cancelCheckJobs(jobIds: string[]): number {
+    let cancelled = 0;
+
+    for (const jobId of jobIds) {
+        const job = jobs.get(jobId);
+        if (job) {
+            job.controller.abort(new CheckAbortedError());
+            jobs.delete(jobId);
+            cancelled++;
+        }
+    }
+
+    return cancelled;
+}
+
+/**
+ * Re-throw if the error was caused by the job being aborted, so validators
+ * with local fallbacks don't swallow cancellation
+ */
+export function rethrowIfAborted(signal: AbortSignal | undefined): void {
+    if (signal?.aborted) {
+        throw signal.reason instanceof Error ? signal.reason : new CheckAbortedError();
+    }
+}
+
+/**
+ * Signal for a single request: aborts on the request timeout or when the
+ * surrounding job is aborted
+ */
+export function requestSignal(timeoutMs: number, signal?: AbortSignal): AbortSignal {
+    const timeout = AbortSignal.timeout(timeoutMs);
+    return signal ? AbortSignal.any([timeout, signal]) : timeout;
+}
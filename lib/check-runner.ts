@@ -0,0 +1,158 @@
+import type { CrawlData, HealthCheckResult } from '@/types/crawl';
+import type { HealthCheckDefinition } from '@/types/checks';
+import type { StoredReport } from '@/types/reports';
+import { getCheckTimeout, getExecutionConfig, getHealthCheck } from '@/lib/checks/registry';
+import { runWithConcurrency } from '@/lib/concurrency';
+import { getReportStore, createReportId, createRunId, toReportCrawlMetadata } from '@/lib/reports';
+import { processReportAlerts } from '@/lib/alerts';
+import { crawlUrl } from '@/app/actions/crawl';
+
+export interface RunCheckOptions {
+    /** Use an id that was already handed out (e.g. to a "running" placeholder) */
+    reportId?: string;
+    /** Run the report belongs to */
+    runId?: string;
+    /** Reuse an existing crawl instead of crawling the URL again */
+    crawlData?: CrawlData | null;
+}
+
+/**
+ * Store a "running" placeholder so the report page can tell a run in
+ * progress apart from a missing report
+ */
+export async function reserveReport(
+    checkId: string,
+    url: string,
+    reportId = createReportId(checkId),
+    runId?: string
+): Promise<StoredReport> {
+    const check = getHealthCheck(checkId);
+    if (!check) {
+        throw new Error(`Unknown check type: ${checkId}`);
+    }
+
+    const placeholder: StoredReport = {
+        id: checkId,
+        label: check.label,
+        status: 'running',
+        message: 'This check is still running.',
+        timestamp: Date.now(),
+        reportId,
+        url,
+        runId,
+        savedAt: Date.now()
+    };
+
+    await getReportStore().save(placeholder);
+    return placeholder;
+}
+
+/**
+ * Run one check on the server and store its report. Failures are stored
+ * as error reports so the report page never stays "running".
+ */
+export async function runCheckReport(checkId: string, url: string, options: RunCheckOptions = {}): Promise<StoredReport> {
+    const check = getHealthCheck(checkId);
+    if (!check) {
+        throw new Error(`Unknown check type: ${checkId}`);
+    }
+
+    const reportId = options.reportId ?? createReportId(checkId);
+    let crawlData = options.crawlData ?? null;
+    let result: HealthCheckResult;
+
+    try {
+        if (check.input === 'html' && !crawlData) {
+            crawlData = await crawlUrl(url);
+        }
+
+        result = await check.action(url, check.input === 'html' ? crawlData?.html : undefined, {
+            timeoutMs: getCheckTimeout(check),
+            reportId
+        });
+    } catch (error) {
+        console.error(`[Check Runner] ${checkId} failed for ${url}:`, error);
+        result = {
+            id: checkId,
+            label: check.label,
+            status: 'error',
+            message: error instanceof Error ? error.message : 'Unknown error occurred',
+            timestamp: Date.now()
+        };
+    }
+
+    const report: StoredReport = {
+        ...result,
+        reportId,
+        url,
+        runId: options.runId,
+        crawl: crawlData ? toReportCrawlMetadata(crawlData) : undefined,
+        savedAt: Date.now()
+    };
+
+    await getReportStore().save(report);
+    await processReportAlerts(report);
+    return report;
+}
+
+export interface CheckRun {
+    runId: string;
+    url: string;
+    /** Report id reserved for each check, in request order */
+    reports: Array<{ checkId: string; reportId: string }>;
+    /** Settles once every check has stored its report */
+    completion: Promise<StoredReport[]>;
+}
+
+/**
+ * Start a run of several checks on one URL in the background. Every check
+ * gets a "running" report up front, so the run can be polled right away.
+ * @throws If a check id is unknown
+ */
+export async function startCheckRun(url: string, checkIds: string[], runId = createRunId()): Promise<CheckRun> {
+    const reports = checkIds.map(checkId => ({ checkId, reportId: createReportId(checkId) }));
+    for (const { checkId, reportId } of reports) {
+        await reserveReport(checkId, url, reportId, runId);
+    }
+
+    const reportIds = Object.fromEntries(reports.map(({ checkId, reportId }) => [checkId, reportId]));
+    const completion = runCheckSet(url, checkIds, { runId, reportIds });
+    completion.catch(error => console.error(`[Check Runner] Run ${runId} failed:`, error));
+
+    return { runId, url, reports, completion };
+}
+
+/**
+ * Run several checks on one URL under one run id, crawling the page once
+ * for all HTML checks, with the configured concurrency
+ */
+export async function runCheckSet(
+    url: string,
+    checkIds: string[],
+    options: { runId: string; reportIds?: Record<string, string> }
+): Promise<StoredReport[]> {
+    const checks = checkIds
+        .map(checkId => getHealthCheck(checkId))
+        .filter((check): check is HealthCheckDefinition => Boolean(check));
+
+    let crawlData: CrawlData | null = null;
+    if (checks.some(check => check.input === 'html')) {
+        try {
+            crawlData = await crawlUrl(url);
+        } catch (error) {
+            // Each HTML check retries the crawl and stores the error if it fails again
+            console.error(`[Check Runner] Crawl of ${url} failed:`, error);
+        }
+    }
+
+    const reports: StoredReport[] = [];
+    await runWithConcurrency(checks, getExecutionConfig().concurrency, async check => {
+        reports.push(await runCheckReport(check.id, url, {
+            reportId: options.reportIds?.[check.id],
+            runId: options.runId,
+            crawlData
+        }));
+    });
+
+    return reports;
+}
@@ -0,0 +1,169 @@
+import {
+    ArrowRightLeft,
+    CheckCircle,
+    Eye,
+    Globe,
+    Search,
+    Shield,
+    Zap
+} from "lucide-react";
+import healthChecksConfig from "@/config/health-checks.json";
+import type { CheckExecutionConfig, HealthCheckConfigEntry, HealthCheckDefinition } from "@/types/checks";
+import { validateHTMLMarkup } from "@/app/actions/validate/markup";
+import { validateAccessibility } from "@/app/actions/validate/accessibility";
+import { validateContrast } from "@/app/actions/validate/contrast";
+import { validateLighthouse } from "@/app/actions/validate/lighthouse";
+import { validateSEO } from "@/app/actions/validate/seo";
+import { validateSecurity } from "@/app/actions/validate/security";
+import { validateRedirects } from "@/app/actions/validate/redirects";
+
+const pageSpeedReport = {
+    label: 'View on PageSpeed Insights',
+    getUrl: (url: string) => `https://pagespeed.web.dev/analysis?url=${encodeURIComponent(url)}`
+};
+
+/**
+ * Every health check the app knows about.
+ *
+ * To add a check, write its validator and server action and append a
+ * definition here; the grid, the runner and the report page pick it up.
+ * Enable, disable or reorder checks in config/health-checks.json.
+ */
+export const healthCheckRegistry: HealthCheckDefinition[] = [
+    {
+        id: 'markup',
+        label: 'W3C Markup Validation',
+        description: 'Validate HTML markup',
+        icon: Globe,
+        input: 'html',
+        defaultWeight: 1,
+        action: validateHTMLMarkup,
+        externalReport: {
+            label: 'Validate on W3C',
+            getUrl: url => `https://validator.w3.org/nu/?doc=${encodeURIComponent(url)}`
+        }
+    },
+    {
+        id: 'accessibility',
+        label: 'Accessibility Check',
+        description: 'WCAG compliance analysis',
+        icon: Eye,
+        input: 'html',
+        defaultWeight: 2,
+        action: validateAccessibility,
+        externalReport: pageSpeedReport
+    },
+    {
+        id: 'contrast',
+        label: 'Contrast Checker',
+        description: 'Color contrast validation',
+        icon: Shield,
+        input: 'html',
+        defaultWeight: 1,
+        action: validateContrast,
+        externalReport: {
+            label: 'Analyze with WAVE',
+            getUrl: url => `https://wave.webaim.org/report#/${encodeURIComponent(url)}`
+        }
+    },
+    {
+        id: 'lighthouse',
+        label: 'Lighthouse Report',
+        description: 'Performance & best practices',
+        icon: Zap,
+        input: 'url',
+        defaultWeight: 2,
+        // PageSpeed Insights regularly needs more than a minute
+        timeoutMs: 180000,
+        action: (url, _html, options) => validateLighthouse(url, 'desktop', options),
+        externalReport: pageSpeedReport
+    },
+    {
+        id: 'seo',
+        label: 'SEO Analysis',
+        description: 'Search engine optimization',
+        icon: Search,
+        input: 'html',
+        defaultWeight: 1.5,
+        action: validateSEO,
+        externalReport: pageSpeedReport
+    },
+    {
+        id: 'security',
+        label: 'Security Headers',
+        description: 'Security configuration check',
+        icon: CheckCircle,
+        input: 'url',
+        defaultWeight: 1.5,
+        action: (url, _html, options) => validateSecurity(url, options),
+        externalReport: {
+            label: 'Check with Mozilla Observatory',
+            // Observatory takes a bare host name
+            getUrl: url => `https://observatory.mozilla.org/analyze/${url.replace(/^https?:\/\//, '').split('/')[0]}`
+        }
+    },
+    {
+        id: 'redirects',
+        label: 'Redirects & Status',
+        description: 'Redirect chain & HTTP status',
+        icon: ArrowRightLeft,
+        input: 'url',
+        defaultWeight: 1,
+        action: (url, _html, options) => validateRedirects(url, options)
+    }
+];
+
+const DEFAULT_EXECUTION_CONFIG: CheckExecutionConfig = {
+    concurrency: 3,
+    timeoutMs: 90000
+};
+
+/**
+ * Concurrency limit and default per-check timeout from config/health-checks.json
+ */
+export function getExecutionConfig(): CheckExecutionConfig {
+    const execution = (healthChecksConfig as { execution?: Partial<CheckExecutionConfig> }).execution;
+
+    return {
+        concurrency: Math.max(1, execution?.concurrency ?? DEFAULT_EXECUTION_CONFIG.concurrency),
+        timeoutMs: execution?.timeoutMs ?? DEFAULT_EXECUTION_CONFIG.timeoutMs
+    };
+}
+
+/**
+ * Timeout for one check: its own override, else the configured default
+ */
+export function getCheckTimeout(check: HealthCheckDefinition): number {
+    return check.timeoutMs ?? getExecutionConfig().timeoutMs;
+}
+
+/**
+ * Look up a check definition by id
+ */
+export function getHealthCheck(id: string): HealthCheckDefinition | undefined {
+    return healthCheckRegistry.find(check => check.id === id);
+}
+
+/**
+ * Weight of a check in the overall site score: the weight set in
+ * config/health-checks.json, else the check's default. Unknown checks weigh 1.
+ */
+export function getCheckWeight(id: string): number {
+    const entry = (healthChecksConfig.healthChecks as HealthCheckConfigEntry[]).find(check => check.id === id);
+    return entry?.weight ?? getHealthCheck(id)?.defaultWeight ?? 1;
+}
+
+/**
+ * Checks enabled in config/health-checks.json, in config order.
+ * Registered checks missing from the config are enabled and listed last.
+ */
+export function getEnabledHealthChecks(): HealthCheckDefinition[] {
+    const config = healthChecksConfig.healthChecks as HealthCheckConfigEntry[];
+    const configured = config
+        .filter(entry => entry.enabled)
+        .map(entry => getHealthCheck(entry.id))
+        .filter((check): check is HealthCheckDefinition => Boolean(check));
+    const unconfigured = healthCheckRegistry.filter(check => !config.some(entry => entry.id === check.id));
+
+    return [...configured, ...unconfigured];
+}
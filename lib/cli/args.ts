@@ -0,0 +1,193 @@
+/**
+ * Argument parsing for the gc-health CLI
+ */
+
+export type CliOutputFormat = 'table' | 'json' | 'junit' | 'markdown' | 'sarif';
+
+const OUTPUT_FORMATS: CliOutputFormat[] = ['table', 'json', 'junit', 'markdown', 'sarif'];
+
+/** Check status that makes a run fail; "never" only applies --min-score */
+export type CliFailOn = 'error' | 'warning' | 'never';
+
+export interface CliCheckOptions {
+    url: string;
+    /** Check ids; all enabled checks when empty */
+    checks: string[];
+    format: CliOutputFormat;
+    /** Fail when any check scores below this */
+    minScore?: number;
+    failOn: CliFailOn;
+    /** Per-check timeout override in milliseconds */
+    timeoutMs?: number;
+    /** Print validator logs to stderr */
+    verbose: boolean;
+    /** Budget file with per-check minimum scores and issue limits */
+    budgetPath?: string;
+    /** Also write a JUnit XML report to this path */
+    junitPath?: string;
+    /** Also write a markdown summary (e.g. for a PR comment) to this path */
+    markdownPath?: string;
+    /** Also write the findings as SARIF to this path */
+    sarifPath?: string;
+}
+
+export type CliCommand =
+    | { command: 'check'; options: CliCheckOptions }
+    | { command: 'list' }
+    | { command: 'help' };
+
+export class CliUsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CliUsageError';
+    }
+}
+
+export const CLI_USAGE = `Usage:
+  gc-health check <url> [options]   Run checks against a URL
+  gc-health list                    List available checks
+  gc-health help                    Show this help
+
+Options for check:
+  --checks <ids>        Comma-separated check ids (default: all enabled checks)
+  --format <format>     table (default), json, junit, markdown or sarif
+  --min-score <n>       Fail when any check scores below n (0-100)
+  --fail-on <status>    Fail when any check has this status or worse:
+                        error (default, never with --budget), warning or never
+  --budget <file>       Gate on a budget file of minimum scores and issue limits;
+                        runs the budgeted checks unless --checks is given
+  --junit <file>        Also write a JUnit XML report
+  --markdown <file>     Also write a markdown summary, e.g. for a PR comment
+  --sarif <file>        Also write the findings as SARIF for code scanning
+  --timeout <seconds>   Per-check timeout
+  --verbose             Print validator logs to stderr
+
+Exit codes:
+  0  All checks passed the thresholds
+  1  At least one check failed a threshold
+  2  Invalid usage or the checks could not run`;
+
+/**
+ * Parse CLI arguments (without the node and script paths)
+ * @throws CliUsageError on unknown commands, options or invalid values
+ */
+export function parseCliArgs(argv: string[]): CliCommand {
+    const [command, ...rest] = argv;
+
+    if (!command || command === 'help' || command === '--help' || command === '-h') {
+        return { command: 'help' };
+    }
+    if (command === 'list') {
+        return { command: 'list' };
+    }
+    if (command !== 'check') {
+        throw new CliUsageError(`Unknown command: ${command}`);
+    }
+
+    const options: CliCheckOptions = { url: '', checks: [], format: 'table', failOn: 'error', verbose: false };
+    const positional: string[] = [];
+    let failOnSet = false;
+
+    for (let i = 0; i < rest.length; i++) {
+        const arg = rest[i];
+        if (!arg.startsWith('--')) {
+            positional.push(arg);
+            continue;
+        }
+
+        // Accept both "--name value" and "--name=value"
+        const separator = arg.indexOf('=');
+        const name = separator === -1 ? arg.slice(2) : arg.slice(2, separator);
+        const inlineValue = separator === -1 ? undefined : arg.slice(separator + 1);
+        const value = () => {
+            if (inlineValue !== undefined) return inlineValue;
+            const next = rest[++i];
+            if (next === undefined || next.startsWith('--')) {
+                throw new CliUsageError(`--${name} needs a value`);
+            }
+            return next;
+        };
+
+        switch (name) {
+            case 'checks':
+                options.checks = value().split(',').map(id => id.trim()).filter(Boolean);
+                break;
+            case 'format': {
+                const format = value();
+                if (!OUTPUT_FORMATS.includes(format as CliOutputFormat)) {
+                    throw new CliUsageError(`Unknown format: ${format}`);
+                }
+                options.format = format as CliOutputFormat;
+                break;
+            }
+            case 'min-score':
+                options.minScore = parseNumber(name, value(), 0, 100);
+                break;
+            case 'fail-on': {
+                const failOn = value();
+                if (failOn !== 'error' && failOn !== 'warning' && failOn !== 'never') {
+                    throw new CliUsageError(`--fail-on must be error, warning or never`);
+                }
+                options.failOn = failOn;
+                failOnSet = true;
+                break;
+            }
+            case 'timeout':
+                options.timeoutMs = parseNumber(name, value(), 1, Infinity) * 1000;
+                break;
+            case 'budget':
+                options.budgetPath = value();
+                break;
+            case 'junit':
+                options.junitPath = value();
+                break;
+            case 'markdown':
+                options.markdownPath = value();
+                break;
+            case 'sarif':
+                options.sarifPath = value();
+                break;
+            case 'verbose':
+                options.verbose = true;
+                break;
+            default:
+                throw new CliUsageError(`Unknown option: --${name}`);
+        }
+    }
+
+    if (positional.length !== 1) {
+        throw new CliUsageError(positional.length === 0 ? 'A URL is required' : `Unexpected argument: ${positional[1]}`);
+    }
+    options.url = normalizeCliUrl(positional[0]);
+
+    // A budget replaces the status threshold unless one is asked for
+    if (options.budgetPath && !failOnSet) {
+        options.failOn = 'never';
+    }
+
+    return { command: 'check', options };
+}
+
+/**
+ * Accept bare hosts ("localhost:3000") by defaulting to http for local
+ * addresses and https otherwise
+ */
+function normalizeCliUrl(input: string): string {
+    const withProtocol = /^https?:\/\//i.test(input)
+        ? input
+        : `${/^(localhost|127\.|\[::1\])/i.test(input) ? 'http' : 'https'}://${input}`;
+
+    try {
+        return new URL(withProtocol).toString();
+    } catch {
+        throw new CliUsageError(`Invalid URL: ${input}`);
+    }
+}
+
+function parseNumber(name: string, raw: string, min: number, max: number): number {
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < min || value > max) {
+        throw new CliUsageError(`--${name} must be a number${max === Infinity ? ` of at least ${min}` : ` between ${min} and ${max}`}`);
+    }
+    return value;
+}
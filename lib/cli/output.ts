@@ -0,0 +1,181 @@
+import type { HealthCheckDefinition } from '@/types/checks';
+import type { BudgetAssertion } from '@/types/budget';
+import type { HealthCheckResult } from '@/types/crawl';
+import { buildSarifLog } from '@/lib/export/sarif';
+import type { CliRunSummary } from './summary';
+
+/** Message column is cut to this width in tables */
+const MAX_MESSAGE_WIDTH = 60;
+
+/**
+ * Human-readable summary: one row per check, then the failures
+ */
+export function formatCliTable(summary: CliRunSummary): string {
+    const rows = summary.results.map(result => [
+        result.label,
+        result.status,
+        result.score !== undefined ? String(result.score) : '-',
+        String(result.details?.filter(detail => detail.type === 'error').length ?? 0),
+        String(result.details?.filter(detail => detail.type === 'warning').length ?? 0),
+        truncate(result.message, MAX_MESSAGE_WIDTH)
+    ]);
+
+    const lines = [
+        `Health check for ${summary.url}`,
+        '',
+        ...formatColumns([['Check', 'Status', 'Score', 'Errors', 'Warnings', 'Message'], ...rows]),
+        ''
+    ];
+
+    if (summary.passed) {
+        lines.push('PASS');
+    } else {
+        lines.push(`FAIL (${summary.failures.length} failure${summary.failures.length !== 1 ? 's' : ''})`);
+        lines.push(...summary.failures.map(failure => `  - ${failure}`));
+    }
+
+    return lines.join('\n');
+}
+
+export function formatCliJson(summary: CliRunSummary): string {
+    return JSON.stringify(summary, null, 2);
+}
+
+/**
+ * JUnit XML with one test suite per check and one test case per assertion,
+ * so CI systems show each failed threshold as a failed test
+ */
+export function formatCliJUnit(summary: CliRunSummary): string {
+    const timestamp = new Date(summary.timestamp).toISOString();
+    const failed = summary.assertions.filter(assertion => !assertion.passed).length;
+
+    const suites = groupAssertions(summary).map(({ checkId, label, result, assertions }) => {
+        const cases = assertions.map(assertion => {
+            const name = `classname="gc-health.${escapeXml(checkId)}" name="${escapeXml(assertion.name)}"`;
+            return assertion.passed
+                ? `    <testcase ${name}/>`
+                : `    <testcase ${name}>\n      <failure message="${escapeXml(assertion.message)}"/>\n    </testcase>`;
+        });
+        const properties = result
+            ? [
+                '    <properties>',
+                `      <property name="status" value="${result.status}"/>`,
+                ...(result.score !== undefined ? [`      <property name="score" value="${result.score}"/>`] : []),
+                '    </properties>'
+            ]
+            : [];
+        const output = result ? [`    <system-out>${escapeXml(result.message)}</system-out>`] : [];
+
+        return [
+            `  <testsuite name="${escapeXml(label)}" id="${escapeXml(checkId)}" tests="${assertions.length}" failures="${assertions.filter(assertion => !assertion.passed).length}" errors="0" timestamp="${timestamp}">`,
+            ...properties,
+            ...cases,
+            ...output,
+            '  </testsuite>'
+        ].join('\n');
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="gc-health ${escapeXml(summary.url)}" tests="${summary.assertions.length}" failures="${failed}" errors="0" timestamp="${timestamp}">`,
+        ...suites,
+        '</testsuites>'
+    ].join('\n');
+}
+
+/**
+ * Markdown verdict with a row per check, sized for a pull request comment
+ */
+export function formatCliMarkdown(summary: CliRunSummary): string {
+    const rows = groupAssertions(summary).map(({ label, result, assertions }) => {
+        const failed = assertions.filter(assertion => !assertion.passed);
+        const verdict = failed.length > 0
+            ? `❌ ${failed.map(assertion => assertion.message).join('; ')}`
+            : assertions.length > 0 ? '✅' : '—';
+
+        return `| ${escapeMarkdownCell(label)} | ${result?.status ?? 'not run'} | ${result?.score ?? '—'} | ${escapeMarkdownCell(verdict)} |`;
+    });
+
+    const lines = [
+        `### ${summary.passed ? '✅ Health check passed' : '❌ Health check failed'}`,
+        '',
+        `${summary.url} · ${new Date(summary.timestamp).toISOString().replace('T', ' ').slice(0, 16)} UTC`,
+        '',
+        '| Check | Status | Score | Result |',
+        '| --- | --- | --- | --- |',
+        ...rows
+    ];
+
+    if (summary.failures.length > 0) {
+        lines.push('', `**${summary.failures.length} failed assertion${summary.failures.length !== 1 ? 's' : ''}:**`, '');
+        lines.push(...summary.assertions
+            .filter(assertion => !assertion.passed)
+            .map(assertion => `- ${assertion.checkLabel} — \`${assertion.name}\`: ${assertion.message}`));
+    }
+
+    return lines.join('\n');
+}
+
+export function formatCliSarif(summary: CliRunSummary): string {
+    return JSON.stringify(buildSarifLog(summary.url, summary.results, summary.timestamp), null, 2);
+}
+
+export function formatCheckList(checks: HealthCheckDefinition[]): string {
+    return formatColumns([
+        ['Id', 'Label', 'Input', 'Description'],
+        ...checks.map(check => [check.id, check.label, check.input, check.description])
+    ]).join('\n');
+}
+
+function formatColumns(rows: string[][]): string[] {
+    const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+
+    return rows.map(row =>
+        row.map((cell, column) => column === row.length - 1 ? cell : cell.padEnd(widths[column])).join('  ')
+    );
+}
+
+function truncate(text: string, width: number): string {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > width ? `${singleLine.slice(0, width - 1)}…` : singleLine;
+}
+
+/**
+ * Assertions per check in result order; budgeted checks that did not run
+ * come last without a result
+ */
+function groupAssertions(summary: CliRunSummary): Array<{
+    checkId: string;
+    label: string;
+    result?: HealthCheckResult;
+    assertions: BudgetAssertion[];
+}> {
+    const checkIds = [
+        ...summary.results.map(result => result.id),
+        ...summary.assertions.map(assertion => assertion.checkId)
+    ].filter((checkId, index, all) => all.indexOf(checkId) === index);
+
+    return checkIds.map(checkId => {
+        const result = summary.results.find(candidate => candidate.id === checkId);
+        return {
+            checkId,
+            label: result?.label ?? checkId,
+            result,
+            assertions: summary.assertions.filter(assertion => assertion.checkId === checkId)
+        };
+    });
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        // Control characters other than tab and newlines are not allowed in XML 1.0
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+function escapeMarkdownCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,68 @@
+import type { CrawlData, HealthCheckResult } from '@/types/crawl';
+import type { HealthCheckDefinition } from '@/types/checks';
+import { getCheckTimeout, getEnabledHealthChecks, getExecutionConfig } from '@/lib/checks/registry';
+import { runWithConcurrency } from '@/lib/concurrency';
+import { crawlUrl } from '@/app/actions/crawl';
+import { CliUsageError } from './args';
+
+/**
+ * Resolve requested check ids against the enabled checks, keeping config order
+ * @throws CliUsageError for unknown or disabled ids
+ */
+export function resolveChecks(checkIds: string[]): HealthCheckDefinition[] {
+    const enabled = getEnabledHealthChecks();
+    if (checkIds.length === 0) return enabled;
+
+    const unknown = checkIds.filter(id => !enabled.some(check => check.id === id));
+    if (unknown.length > 0) {
+        throw new CliUsageError(`Unknown or disabled checks: ${unknown.join(', ')} (run "gc-health list")`);
+    }
+    return enabled.filter(check => checkIds.includes(check.id));
+}
+
+/**
+ * Run checks in this process the same way the web UI does: the page is
+ * crawled once and shared by all HTML checks. Nothing is stored.
+ */
+export async function runCliChecks(
+    url: string,
+    checks: HealthCheckDefinition[],
+    options: { timeoutMs?: number; onResult?: (result: HealthCheckResult) => void } = {}
+): Promise<HealthCheckResult[]> {
+    let crawlData: CrawlData | null = null;
+    let crawlError: Error | null = null;
+
+    if (checks.some(check => check.input === 'html')) {
+        try {
+            crawlData = await crawlUrl(url);
+        } catch (error) {
+            crawlError = error instanceof Error ? error : new Error('Unknown crawling error');
+        }
+    }
+
+    const results = new Map<string, HealthCheckResult>();
+    await runWithConcurrency(checks, getExecutionConfig().concurrency, async check => {
+        let result: HealthCheckResult;
+
+        if (check.input === 'html' && !crawlData) {
+            result = errorResult(check, `Could not crawl the page: ${crawlError?.message ?? 'no HTML'}`);
+        } else {
+            try {
+                result = await check.action(url, check.input === 'html' ? crawlData?.html : undefined, {
+                    timeoutMs: options.timeoutMs ?? getCheckTimeout(check)
+                });
+            } catch (error) {
+                result = errorResult(check, error instanceof Error ? error.message : 'Unknown error occurred');
+            }
+        }
+
+        results.set(check.id, result);
+        options.onResult?.(result);
+    });
+
+    return checks.map(check => results.get(check.id)!);
+}
+
+function errorResult(check: HealthCheckDefinition, message: string): HealthCheckResult {
+    return { id: check.id, label: check.label, status: 'error', message, timestamp: Date.now() };
+}
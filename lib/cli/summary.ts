@@ -0,0 +1,85 @@
+import type { HealthCheckResult } from '@/types/crawl';
+import type { BudgetAssertion, HealthBudget } from '@/types/budget';
+import { evaluateBudget } from '@/lib/budget';
+import type { CliCheckOptions, CliFailOn } from './args';
+
+export const EXIT_PASS = 0;
+export const EXIT_FAIL = 1;
+export const EXIT_ERROR = 2;
+
+const STATUS_SEVERITY: Record<HealthCheckResult['status'], number> = {
+    pending: 0,
+    running: 0,
+    success: 0,
+    warning: 1,
+    error: 2
+};
+
+const FAIL_ON_SEVERITY: Record<CliFailOn, number> = {
+    warning: 1,
+    error: 2,
+    never: Infinity
+};
+
+export interface CliRunSummary {
+    url: string;
+    timestamp: number;
+    passed: boolean;
+    thresholds: { minScore?: number; failOn: CliFailOn; budget?: string };
+    /** One line per failed assertion */
+    failures: string[];
+    /** Every threshold and budget assertion, passed or failed */
+    assertions: BudgetAssertion[];
+    results: HealthCheckResult[];
+}
+
+/**
+ * Apply the --min-score and --fail-on thresholds and the budget, if any,
+ * to a run's results
+ */
+export function summarizeCliRun(
+    url: string,
+    results: HealthCheckResult[],
+    options: Pick<CliCheckOptions, 'minScore' | 'failOn' | 'budgetPath'> & { budget?: HealthBudget },
+    now = Date.now()
+): CliRunSummary {
+    const assertions: BudgetAssertion[] = [];
+
+    for (const result of results) {
+        const assert = (name: string, passed: boolean, message: string) =>
+            assertions.push({ checkId: result.id, checkLabel: result.label, name, passed, message });
+
+        if (options.failOn !== 'never') {
+            const statusPassed = STATUS_SEVERITY[result.status] < FAIL_ON_SEVERITY[options.failOn];
+            assert(options.failOn === 'error' ? 'status is not error' : 'status is success', statusPassed, `status ${result.status}`);
+            // A failed status already fails the check; don't pile on a score failure
+            if (!statusPassed) continue;
+        }
+
+        if (options.minScore !== undefined && result.score !== undefined) {
+            assert(
+                `score >= ${options.minScore}`,
+                result.score >= options.minScore,
+                result.score >= options.minScore ? `score ${result.score}` : `score ${result.score} is below ${options.minScore}`
+            );
+        }
+    }
+
+    if (options.budget) {
+        assertions.push(...evaluateBudget(options.budget, results));
+    }
+
+    const failures = assertions
+        .filter(assertion => !assertion.passed)
+        .map(assertion => `${assertion.checkLabel}: ${assertion.message}`);
+
+    return {
+        url,
+        timestamp: now,
+        passed: failures.length === 0,
+        thresholds: { minScore: options.minScore, failOn: options.failOn, budget: options.budgetPath },
+        failures,
+        assertions,
+        results
+    };
+}
@@ -0,0 +1,63 @@
+/**
+ * Run `worker` over `items` with at most `limit` workers in flight.
+ * Stops picking up new items once `signal` is aborted; items already
+ * started are left to finish.
+ */
+export async function runWithConcurrency<T>(
+    items: T[],
+    limit: number,
+    worker: (item: T) => Promise<void>,
+    signal?: AbortSignal
+): Promise<void> {
+    let next = 0;
+
+    const runWorker = async () => {
+        while (next < items.length && !signal?.aborted) {
+            const item = items[next++];
+            await worker(item);
+        }
+    };
+
+    const workerCount = Math.max(1, Math.min(limit, items.length));
+    await Promise.all(Array.from({ length: workerCount }, runWorker));
+}
+
+/**
+ * Reject with `message` if `promise` does not settle within `timeoutMs`,
+ * or as soon as `signal` is aborted. Pass `Infinity` to only observe the signal.
+ */
+export function withTimeout<T>(
+    promise: Promise<T>,
+    timeoutMs: number,
+    message: string,
+    signal?: AbortSignal
+): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        const timer = Number.isFinite(timeoutMs)
+            ? setTimeout(() => reject(new Error(message)), timeoutMs)
+            : undefined;
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new Error('Check cancelled'));
+        };
+
+        if (signal?.aborted) {
+            onAbort();
+            return;
+        }
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        promise.then(
+            value => {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
+                resolve(value);
+            },
+            error => {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
+                reject(error);
+            }
+        );
+    });
+}
@@ -0,0 +1,123 @@
+import { afterEach, describe, it, expect } from '@jest/globals';
+import { createFetchCrawler } from '../fetch';
+
+const PAGE = `<!DOCTYPE html>
+<html>
+<head>
+    <title> Example Domain </title>
+    <meta name="description" content="An example page">
+    <meta name="keywords" content="example, test">
+    <meta property="og:title" content="Example">
+    <meta property="og:description" content="Shared description">
+    <meta property="og:image" content="https://example.com/og.png">
+</head>
+<body>
+    <a href="/about">About
+        us</a>
+    <a href="https://other.com/">Elsewhere</a>
+    <a href="/about">About again</a>
+    <a href="#top">Top</a>
+    <a href="mailto:hi@example.com">Mail</a>
+    <a href="javascript:void(0)">Script</a>
+</body>
+</html>`;
+
+/**
+ * Respond with `response` and record the request, or hang until the
+ * request's signal aborts when no response is given
+ */
+function stubFetch(response?: () => Response): Array<{ url: string; init?: RequestInit }> {
+    const requests: Array<{ url: string; init?: RequestInit }> = [];
+    globalThis.fetch = ((input: string | URL | Request, init?: RequestInit) => {
+        requests.push({ url: String(input), init });
+        if (response) return Promise.resolve(response());
+
+        return new Promise<Response>((_resolve, reject) => {
+            init?.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+        });
+    }) as typeof fetch;
+    return requests;
+}
+
+describe('Fetch Crawler', () => {
+    const realFetch = globalThis.fetch;
+
+    afterEach(() => {
+        globalThis.fetch = realFetch;
+    });
+
+    it('should capture the status, headers and user agent', async () => {
+        const requests = stubFetch(() => new Response(PAGE, {
+            status: 404,
+            headers: { 'Content-Type': 'text/html; charset=utf-8', 'X-Frame-Options': 'DENY' }
+        }));
+
+        const data = await createFetchCrawler({ userAgent: 'TestBot/1.0' }).crawl('https://example.com/');
+
+        expect(requests[0].url).toBe('https://example.com/');
+        expect(new Headers(requests[0].init?.headers).get('User-Agent')).toBe('TestBot/1.0');
+        expect(data.statusCode).toBe(404);
+        expect(data.headers).toMatchObject({ 'content-type': 'text/html; charset=utf-8', 'x-frame-options': 'DENY' });
+        expect(data.html).toBe(PAGE);
+        expect(data.metadata).toMatchObject({ statusCode: 404, contentType: 'text/html; charset=utf-8', sourceURL: 'https://example.com/' });
+    });
+
+    it('should extract metadata and unique absolute links', async () => {
+        stubFetch(() => new Response(PAGE, { headers: { 'Content-Type': 'text/html' } }));
+
+        const data = await createFetchCrawler().crawl('https://example.com/docs/');
+
+        expect(data).toMatchObject({
+            title: 'Example Domain',
+            description: 'An example page',
+            keywords: 'example, test',
+            ogTitle: 'Example',
+            ogDescription: 'Shared description',
+            ogImage: 'https://example.com/og.png'
+        });
+        expect(data.links).toEqual([
+            { text: 'About us', href: 'https://example.com/about' },
+            { text: 'Elsewhere', href: 'https://other.com/' }
+        ]);
+    });
+
+    it('should resolve links against the final URL after redirects', async () => {
+        stubFetch(() => {
+            const response = new Response('<a href="next">Next</a>', { headers: { 'Content-Type': 'text/html' } });
+            Object.defineProperty(response, 'url', { value: 'https://example.com/blog/' });
+            return response;
+        });
+
+        const data = await createFetchCrawler().crawl('https://example.com/blog');
+
+        expect(data.url).toBe('https://example.com/blog');
+        expect(data.metadata.url).toBe('https://example.com/blog/');
+        expect(data.links).toEqual([{ text: 'Next', href: 'https://example.com/blog/next' }]);
+    });
+
+    it('should not look for metadata or links in non-HTML responses', async () => {
+        const body = '{"title":"<title>Not a page</title>","href":"<a href=\\"/x\\">x</a>"}';
+        stubFetch(() => new Response(body, { headers: { 'Content-Type': 'application/json' } }));
+
+        const data = await createFetchCrawler().crawl('https://example.com/api');
+
+        expect(data).toMatchObject({ title: '', description: '', links: [], html: body, statusCode: 200 });
+        expect(data.metadata.contentType).toBe('application/json');
+    });
+
+    it('should give up after the configured timeout', async () => {
+        stubFetch();
+
+        await expect(createFetchCrawler({ timeoutMs: 20 }).crawl('https://example.com/')).rejects.toMatchObject({ name: 'TimeoutError' });
+    });
+
+    it('should stop when the caller aborts', async () => {
+        stubFetch();
+        const controller = new AbortController();
+
+        const crawl = createFetchCrawler().crawl('https://example.com/', controller.signal);
+        controller.abort();
+
+        await expect(crawl).rejects.toMatchObject({ name: 'AbortError' });
+    });
+});
@@ -0,0 +1,152 @@
+import { JSDOM } from 'jsdom';
+import type { CrawlData } from '@/types/crawl';
+import type { Crawler } from './index';
+import { requestSignal } from '@/lib/check-jobs';
+
+export interface FetchCrawlerOptions {
+    timeoutMs?: number;
+    userAgent?: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_USER_AGENT = 'Mozilla/5.0 (compatible; HealthChecker/1.0)';
+
+/**
+ * Create a crawler that fetches pages over plain HTTP and extracts
+ * metadata locally with JSDOM. Needs no external service, so it also
+ * works against local dev servers and air-gapped staging sites.
+ */
+export function createFetchCrawler(options: FetchCrawlerOptions = {}): Crawler {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const userAgent = options.userAgent ?? DEFAULT_USER_AGENT;
+
+    return {
+        name: 'fetch',
+        async crawl(url: string, signal?: AbortSignal): Promise<CrawlData> {
+            const startTime = Date.now();
+
+            const response = await fetch(url, {
+                redirect: 'follow',
+                headers: {
+                    'User-Agent': userAgent,
+                    'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8'
+                },
+                signal: requestSignal(timeoutMs, signal)
+            });
+
+            const html = await response.text();
+            const responseTime = Date.now() - startTime;
+
+            const headers: Record<string, string> = {};
+            response.headers.forEach((value, key) => {
+                headers[key] = value;
+            });
+
+            const finalUrl = response.url || url;
+            const contentType = headers['content-type'] || '';
+            // PDFs, JSON and the like have no metadata or links to extract
+            const page = isHtmlContentType(contentType) ? extractPageData(html, finalUrl) : { ...EMPTY_PAGE_DATA, links: [] };
+
+            return {
+                url: url,
+                title: page.title,
+                description: page.description,
+                keywords: page.keywords,
+                ogTitle: page.ogTitle,
+                ogDescription: page.ogDescription,
+                ogImage: page.ogImage,
+                html,
+                markdown: "",
+                statusCode: response.status,
+                responseTime,
+                screenshot: null,
+                links: page.links,
+                headers,
+                metadata: {
+                    title: page.title,
+                    description: page.description,
+                    keywords: page.keywords,
+                    ogTitle: page.ogTitle,
+                    ogDescription: page.ogDescription,
+                    ogImage: page.ogImage,
+                    statusCode: response.status,
+                    responseTime,
+                    sourceURL: url,
+                    url: finalUrl,
+                    contentType
+                }
+            };
+        }
+    };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const EMPTY_PAGE_DATA: ReturnType<typeof extractPageData> = {
+    title: '',
+    description: '',
+    keywords: '',
+    ogTitle: '',
+    ogDescription: '',
+    ogImage: '',
+    links: []
+};
+
+/**
+ * Servers that send no Content-Type are given the benefit of the doubt
+ */
+function isHtmlContentType(contentType: string): boolean {
+    return !contentType || /\b(text\/html|application\/xhtml\+xml)\b/i.test(contentType);
+}
+
+/**
+ * Extract title, description, Open Graph metadata and links from HTML
+ */
+function extractPageData(html: string, baseUrl: string) {
+    const dom = new JSDOM(html, { url: baseUrl });
+    const document = dom.window.document;
+
+    const getMeta = (selector: string) =>
+        document.querySelector(selector)?.getAttribute('content')?.trim() || '';
+
+    const links: CrawlData['links'] = [];
+    const seen = new Set<string>();
+
+    document.querySelectorAll('a[href]').forEach(anchor => {
+        const rawHref = anchor.getAttribute('href') || '';
+        if (!rawHref || rawHref.startsWith('#') || /^(javascript|mailto|tel):/i.test(rawHref)) {
+            return;
+        }
+
+        let href: string;
+        try {
+            href = new URL(rawHref, baseUrl).href;
+        } catch {
+            return;
+        }
+
+        if (seen.has(href)) return;
+        seen.add(href);
+
+        links.push({
+            text: anchor.textContent?.trim().replace(/\s+/g, ' ') || '',
+            href
+        });
+    });
+
+    const result = {
+        title: document.querySelector('title')?.textContent?.trim() || '',
+        description: getMeta('meta[name="description"]'),
+        keywords: getMeta('meta[name="keywords"]'),
+        ogTitle: getMeta('meta[property="og:title"]'),
+        ogDescription: getMeta('meta[property="og:description"]'),
+        ogImage: getMeta('meta[property="og:image"]'),
+        links
+    };
+
+    dom.window.close();
+
+    return result;
+}
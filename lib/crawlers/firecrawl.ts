@@ -0,0 +1,64 @@
+import FirecrawlApp from "@mendable/firecrawl-js";
+import type { CrawlData } from '@/types/crawl';
+import type { Crawler } from './index';
+
+/**
+ * Create a crawler backed by the Firecrawl scrape API
+ * @param apiKey - Firecrawl API key
+ */
+export function createFirecrawlCrawler(apiKey: string): Crawler {
+    const firecrawl = new FirecrawlApp({ apiKey });
+
+    return {
+        name: 'firecrawl',
+        async crawl(url: string, signal?: AbortSignal): Promise<CrawlData> {
+            // Scrape the URL with various options for comprehensive analysis
+            const scrapeResult = await firecrawl.scrapeUrl(url, {
+                formats: ["markdown", "html"],
+                includeTags: ["title", "meta", "link", "script", "img", "a"],
+                onlyMainContent: false,
+                waitFor: 2000
+            });
+
+            // The Firecrawl SDK does not accept a signal; drop the result if aborted meanwhile
+            signal?.throwIfAborted();
+
+            if (!scrapeResult.success) {
+                console.error("Firecrawl scrape failed:", scrapeResult);
+                throw new Error(scrapeResult.error || 'Failed to crawl URL');
+            }
+
+            console.log("Firecrawl response structure:", {
+                hasHtml: !!scrapeResult.html,
+                hasMarkdown: !!scrapeResult.markdown,
+                responseKeys: Object.keys(scrapeResult)
+            });
+
+            // Extract useful data for health checks
+            return {
+                url: url,
+                title: scrapeResult.metadata?.title || scrapeResult.title || "",
+                description: scrapeResult.metadata?.description || scrapeResult.description || "",
+                keywords: scrapeResult.metadata?.keywords || "",
+                ogTitle: scrapeResult.metadata?.ogTitle || "",
+                ogDescription: scrapeResult.metadata?.ogDescription || "",
+                ogImage: scrapeResult.metadata?.ogImage || "",
+                html: scrapeResult.html || "",
+                markdown: scrapeResult.markdown || "",
+                statusCode: scrapeResult.metadata?.statusCode || 200,
+                responseTime: scrapeResult.metadata?.responseTime || 0,
+                screenshot: scrapeResult.screenshot || null,
+                links: (scrapeResult.links || []).map((link: unknown) => {
+                    if (typeof link === 'string') {
+                        return { text: '', href: link };
+                    }
+                    if (link && typeof link === 'object' && 'text' in link && 'href' in link) {
+                        return link as { text: string; href: string };
+                    }
+                    return { text: '', href: '' };
+                }),
+                metadata: scrapeResult.metadata || {}
+            };
+        }
+    };
+}
@@ -0,0 +1,67 @@
+import type { CrawlData } from '@/types/crawl';
+import { createFetchCrawler } from './fetch';
+import { createFirecrawlCrawler } from './firecrawl';
+
+export type CrawlerBackend = 'firecrawl' | 'fetch';
+
+export interface Crawler {
+    name: CrawlerBackend;
+    crawl(url: string, signal?: AbortSignal): Promise<CrawlData>;
+}
+
+/**
+ * Resolve the crawler backend from configuration.
+ *
+ * `CRAWLER_BACKEND` selects the backend explicitly. When it is not set,
+ * Firecrawl is used if `FIRECRAWL_API_KEY` is configured and the built-in
+ * fetch crawler otherwise.
+ */
+export function getCrawlerBackend(): CrawlerBackend {
+    const configured = process.env.CRAWLER_BACKEND?.trim().toLowerCase();
+
+    if (configured === 'firecrawl' || configured === 'fetch') {
+        return configured;
+    }
+
+    if (configured) {
+        console.warn(`[Crawler] Unknown CRAWLER_BACKEND "${configured}", falling back to auto-detection`);
+    }
+
+    return process.env.FIRECRAWL_API_KEY ? 'firecrawl' : 'fetch';
+}
+
+/**
+ * Create the configured crawler
+ */
+export function getCrawler(): Crawler {
+    const backend = getCrawlerBackend();
+
+    if (backend === 'firecrawl') {
+        const apiKey = process.env.FIRECRAWL_API_KEY;
+        if (!apiKey) {
+            throw new Error('Firecrawl API key not configured');
+        }
+        return createFirecrawlCrawler(apiKey);
+    }
+
+    const timeoutMs = Number(process.env.CRAWLER_TIMEOUT_MS);
+
+    return createFetchCrawler({
+        timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : undefined
+    });
+}
+
+/**
+ * HTML of a page for the HTML checks: `html` when the caller already crawled
+ * the page, otherwise crawled here with the configured backend
+ */
+export async function getPageHtml(url: string, html?: string, signal?: AbortSignal): Promise<string> {
+    if (html) return html;
+
+    const data = await getCrawler().crawl(url, signal);
+    if (!data.html) {
+        throw new Error('No HTML content found to validate');
+    }
+
+    return data.html;
+}
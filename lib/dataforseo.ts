@@ -128,7 +128,8 @@ function getCredentials(): DataForSEOCredentials {
  */
 async function makeDataForSEORequest(
   endpoint: string,
-  data?: OnPageInstantRequest[] | Record<string, never>
+  data?: OnPageInstantRequest[] | Record<string, never>,
+  signal?: AbortSignal
 ): Promise<DataForSEOResponse> {
   const credentials = getCredentials();
   const auth = Buffer.from(`${credentials.login}:${credentials.password}`).toString('base64');
@@ -140,6 +141,7 @@ async function makeDataForSEORequest(
       'Content-Type': 'application/json',
     },
     body: data ? JSON.stringify(data) : undefined,
+    signal,
   });
 
   if (!response.ok) {
@@ -188,7 +190,7 @@ export async function analyzePageSEO(url: string): Promise<SEOMetrics> {
 /**
  * Get on-page SEO score and recommendations
  */
-export async function getOnPageScore(url: string): Promise<{
+export async function getOnPageScore(url: string, signal?: AbortSignal): Promise<{
   score: number;
   checks: DataForSEOPageData['checks'];
   issues: Array<{
@@ -205,7 +207,7 @@ export async function getOnPageScore(url: string): Promise<{
         enable_javascript: true,
         enable_browser_rendering: true,
       }
-    ]);
+    ], signal);
 
     if (response.status_code !== 20000) {
       throw new Error(`DataForSEO API error: ${response.status_message}`);
@@ -0,0 +1,145 @@
+import type { CheckDetail } from '@/types/crawl';
+import type { StoredReport } from '@/types/reports';
+import type { CheckDiff, IssueChange, IssueDiffEntry, RunDiff } from '@/types/diff';
+
+/**
+ * Stable fingerprint of an issue from its check, rule, element and message.
+ * Numbers are masked so values that drift between runs (line numbers,
+ * contrast ratios, sizes) don't make the same issue look new.
+ */
+export function fingerprintIssue(checkId: string, detail: CheckDetail): string {
+    const key = [
+        checkId,
+        detail.ruleId ?? '',
+        normalizeText(detail.element ?? ''),
+        normalizeText(detail.message)
+    ].join('|');
+
+    return hashString(key);
+}
+
+/**
+ * Diff the issues of two runs of the same URL, check by check.
+ * Info-level details (e.g. redirect hops) are not issues and are ignored.
+ */
+export function diffRuns(baseReports: StoredReport[], targetReports: StoredReport[]): RunDiff {
+    const base = latestPerCheck(baseReports);
+    const target = latestPerCheck(targetReports);
+    const checkIds = [...new Set([...target.keys(), ...base.keys()])];
+    const reference = targetReports[0] ?? baseReports[0];
+
+    return {
+        url: reference?.url ?? '',
+        base: runInfo(baseReports),
+        target: runInfo(targetReports),
+        checks: checkIds.map(checkId => diffCheck(checkId, base.get(checkId), target.get(checkId)))
+    };
+}
+
+/**
+ * Classify issues as new, resolved or persisting. Identical fingerprints are
+ * matched one-to-one, so three copies before and two after leave one resolved.
+ */
+export function diffIssues(checkId: string, baseDetails: CheckDetail[], targetDetails: CheckDetail[]): IssueDiffEntry[] {
+    const remaining = new Map<string, CheckDetail[]>();
+
+    for (const detail of issuesOnly(baseDetails)) {
+        const fingerprint = fingerprintIssue(checkId, detail);
+        remaining.set(fingerprint, [...(remaining.get(fingerprint) ?? []), detail]);
+    }
+
+    const entries: IssueDiffEntry[] = [];
+
+    for (const detail of issuesOnly(targetDetails)) {
+        const fingerprint = fingerprintIssue(checkId, detail);
+        const matches = remaining.get(fingerprint);
+
+        if (matches && matches.length > 0) {
+            matches.shift();
+            entries.push({ fingerprint, change: 'persisting', detail });
+        } else {
+            entries.push({ fingerprint, change: 'new', detail });
+        }
+    }
+
+    for (const [fingerprint, details] of remaining) {
+        for (const detail of details) {
+            entries.push({ fingerprint, change: 'resolved', detail });
+        }
+    }
+
+    return entries;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function diffCheck(checkId: string, base?: StoredReport, target?: StoredReport): CheckDiff {
+    const issues = diffIssues(checkId, base?.details ?? [], target?.details ?? []);
+    const counts: Record<IssueChange, number> = { new: 0, resolved: 0, persisting: 0 };
+    for (const entry of issues) {
+        counts[entry.change]++;
+    }
+
+    const baseScore = base?.score;
+    const targetScore = target?.score;
+
+    return {
+        checkId,
+        label: target?.label ?? base?.label ?? checkId,
+        baseScore,
+        targetScore,
+        scoreDelta: baseScore !== undefined && targetScore !== undefined ? targetScore - baseScore : undefined,
+        baseReportId: base?.reportId,
+        targetReportId: target?.reportId,
+        issues,
+        counts
+    };
+}
+
+function latestPerCheck(reports: StoredReport[]): Map<string, StoredReport> {
+    const byCheck = new Map<string, StoredReport>();
+
+    for (const report of reports) {
+        if (report.status === 'running' || report.status === 'pending') continue;
+
+        const existing = byCheck.get(report.id);
+        if (!existing || report.timestamp > existing.timestamp) {
+            byCheck.set(report.id, report);
+        }
+    }
+
+    return byCheck;
+}
+
+function runInfo(reports: StoredReport[]): { runId: string; timestamp: number } {
+    const first = reports[0];
+
+    return {
+        runId: first ? (first.runId || first.reportId) : '',
+        timestamp: reports.length > 0 ? Math.min(...reports.map(report => report.timestamp)) : 0
+    };
+}
+
+function issuesOnly(details: CheckDetail[]): CheckDetail[] {
+    return details.filter(detail => detail.type !== 'info');
+}
+
+function normalizeText(text: string): string {
+    return text.toLowerCase().replace(/\d+(\.\d+)?/g, '#').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * FNV-1a, 32-bit; short and stable across processes
+ */
+function hashString(value: string): string {
+    let hash = 0x811c9dc5;
+
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
@@ -0,0 +1,45 @@
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import type { ReportBranding } from '@/types/export';
+
+const DEFAULT_BRAND_NAME = 'GC Web Health Checker';
+const DEFAULT_BRAND_COLOR = '#26374a';
+
+const LOGO_TYPES: Record<string, NonNullable<ReportBranding['logo']>['mimeType']> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg'
+};
+
+/**
+ * Branding for exported reports from REPORT_BRAND_NAME, REPORT_BRAND_COLOR
+ * and REPORT_LOGO_PATH (PNG or JPEG). A logo that can't be read is left
+ * out rather than failing the export.
+ */
+export async function getReportBranding(): Promise<ReportBranding> {
+    const color = process.env.REPORT_BRAND_COLOR?.trim();
+    const branding: ReportBranding = {
+        name: process.env.REPORT_BRAND_NAME?.trim() || DEFAULT_BRAND_NAME,
+        color: color && /^#[0-9a-f]{6}$/i.test(color) ? color : DEFAULT_BRAND_COLOR
+    };
+
+    if (color && branding.color !== color) {
+        console.warn(`[Export] Ignoring REPORT_BRAND_COLOR "${color}"; expected #rrggbb`);
+    }
+
+    const logoPath = process.env.REPORT_LOGO_PATH?.trim();
+    if (logoPath) {
+        const mimeType = LOGO_TYPES[extname(logoPath).toLowerCase()];
+        if (!mimeType) {
+            console.warn(`[Export] Ignoring REPORT_LOGO_PATH "${logoPath}"; only PNG and JPEG logos are supported`);
+        } else {
+            try {
+                branding.logo = { mimeType, data: (await readFile(logoPath)).toString('base64') };
+            } catch (error) {
+                console.warn(`[Export] Could not read REPORT_LOGO_PATH "${logoPath}":`, error);
+            }
+        }
+    }
+
+    return branding;
+}
@@ -0,0 +1,150 @@
+/**
+ * Builds the document shared by the PDF and HTML exports from a run's
+ * stored reports
+ */
+
+import type { CheckDetail } from '@/types/crawl';
+import type { ExportCheck, ReportBranding, ReportExportDocument, ReportExportOptions } from '@/types/export';
+import type { StoredReport } from '@/types/reports';
+
+export const DEFAULT_EXPORT_TITLE = 'Website Health Report';
+
+export const STATUS_LABELS: Record<ExportCheck['status'], string> = {
+    success: 'Passed',
+    warning: 'Needs attention',
+    error: 'Failed',
+    running: 'Incomplete',
+    pending: 'Incomplete'
+};
+
+export const STATUS_COLORS: Record<ExportCheck['status'], string> = {
+    success: '#1b7f3b',
+    warning: '#a35c00',
+    error: '#b3261e',
+    running: '#5c5c5c',
+    pending: '#5c5c5c'
+};
+
+export const DETAIL_COLORS: Record<CheckDetail['type'], string> = {
+    error: '#b3261e',
+    warning: '#a35c00',
+    info: '#1f5fa8'
+};
+
+/**
+ * @param reports - Every report of one completed run
+ */
+export function buildExportDocument(
+    reports: StoredReport[],
+    options: Omit<ReportExportOptions, 'format'>,
+    branding: ReportBranding,
+    now = Date.now()
+): ReportExportDocument {
+    const sorted = [...reports].sort((a, b) => a.timestamp - b.timestamp);
+    const checks: ExportCheck[] = sorted.map(report => ({
+        checkId: report.id,
+        label: report.label,
+        status: report.status,
+        score: report.score,
+        message: report.message,
+        dataSource: report.dataSource,
+        timestamp: report.timestamp,
+        details: report.details ?? [],
+        recommendations: report.recommendations ?? [],
+        expired: report.expiredAt !== undefined
+    }));
+
+    const scores = checks.flatMap(check => check.score !== undefined ? [check.score] : []);
+    const details = checks.flatMap(check => check.details);
+    const summary: ReportExportDocument['summary'] = {
+        averageScore: scores.length > 0 ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : undefined,
+        passed: checks.filter(check => check.status === 'success').length,
+        warnings: checks.filter(check => check.status === 'warning').length,
+        failed: checks.filter(check => check.status === 'error').length,
+        errorCount: details.filter(detail => detail.type === 'error').length,
+        warningCount: details.filter(detail => detail.type === 'warning').length
+    };
+
+    const document: ReportExportDocument = {
+        title: options.title?.trim() || DEFAULT_EXPORT_TITLE,
+        preparedFor: options.preparedFor?.trim() || undefined,
+        url: sorted[0]?.url ?? '',
+        runId: sorted[0]?.runId ?? sorted[0]?.reportId ?? '',
+        runAt: sorted[0]?.timestamp ?? now,
+        generatedAt: now,
+        branding,
+        coverPage: options.coverPage,
+        executiveSummary: [],
+        summary,
+        checks
+    };
+
+    const customSummary = options.executiveSummary
+        ?.split(/\n\s*\n/)
+        .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+        .filter(Boolean);
+    document.executiveSummary = customSummary?.length ? customSummary : generateExecutiveSummary(document);
+
+    return document;
+}
+
+/**
+ * Plain-language summary of the run for readers who skip the details
+ */
+export function generateExecutiveSummary(document: Pick<ReportExportDocument, 'url' | 'runAt' | 'summary' | 'checks'>): string[] {
+    const { summary, checks } = document;
+    const paragraphs = [
+        `This report covers ${checks.length} automated check${checks.length !== 1 ? 's' : ''} of ${document.url}, run on ${formatExportDate(document.runAt)}.`
+        + (summary.averageScore !== undefined ? ` The average score across checks is ${summary.averageScore}/100.` : '')
+    ];
+
+    const outcome = [
+        summary.passed > 0 && `${summary.passed} passed`,
+        summary.warnings > 0 && `${summary.warnings} need${summary.warnings === 1 ? 's' : ''} attention`,
+        summary.failed > 0 && `${summary.failed} failed`
+    ].filter(Boolean).join(', ');
+
+    const weakest = checks
+        .filter(check => check.score !== undefined)
+        .sort((a, b) => a.score! - b.score!)[0];
+
+    paragraphs.push(
+        `Of these checks, ${outcome || 'none completed'}.`
+        + (weakest && weakest.score! < 90 ? ` The area most in need of work is ${weakest.label} (${weakest.score}/100).` : '')
+    );
+
+    paragraphs.push(summary.errorCount + summary.warningCount > 0
+        ? `In total ${summary.errorCount} error${summary.errorCount !== 1 ? 's' : ''} and ${summary.warningCount} warning${summary.warningCount !== 1 ? 's' : ''} were found. Each check below lists its findings and the recommended fixes.`
+        : 'No errors or warnings were found.');
+
+    return paragraphs;
+}
+
+export function formatExportDate(timestamp: number): string {
+    return new Date(timestamp).toLocaleString('en-CA', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+        timeZone: process.env.REPORT_TIME_ZONE || 'UTC',
+        timeZoneName: 'short'
+    });
+}
+
+/**
+ * File name from the site's host and the run date, e.g. "example.com-health-report-2024-01-31.pdf"
+ */
+export function getExportFileName(
+    document: Pick<ReportExportDocument, 'url' | 'runAt'>,
+    extension: string,
+    kind = 'health-report'
+): string {
+    let host = 'report';
+    try {
+        host = new URL(document.url).hostname;
+    } catch {
+        // keep the fallback name
+    }
+    return `${host}-${kind}-${new Date(document.runAt).toISOString().slice(0, 10)}.${extension}`;
+}
@@ -0,0 +1,182 @@
+import type { CheckDetail, SourceContext } from '@/types/crawl';
+import type { ExportCheck, ReportExportDocument } from '@/types/export';
+import { DETAIL_COLORS, formatExportDate, STATUS_COLORS, STATUS_LABELS } from './document';
+
+/**
+ * Self-contained HTML report: styles and logo are inlined so the file can
+ * be emailed or archived, and print styles put the cover on its own page
+ */
+export function renderHtmlReport(document: ReportExportDocument): string {
+    const { branding } = document;
+    const logo = branding.logo
+        ? `<img class="logo" src="data:${branding.logo.mimeType};base64,${branding.logo.data}" alt="${escapeHtml(branding.name)}">`
+        : '';
+
+    const cover = document.coverPage ? `
+<section class="cover">
+  ${logo}
+  <p class="brand">${escapeHtml(branding.name)}</p>
+  <h1>${escapeHtml(document.title)}</h1>
+  <p class="site">${escapeHtml(document.url)}</p>
+  ${document.preparedFor ? `<p>Prepared for <strong>${escapeHtml(document.preparedFor)}</strong></p>` : ''}
+  <p class="muted">Checks run ${escapeHtml(formatExportDate(document.runAt))}</p>
+</section>` : `
+<header class="header">
+  ${logo}
+  <div>
+    <h1>${escapeHtml(document.title)}</h1>
+    <p class="site">${escapeHtml(document.url)}${document.preparedFor ? ` · Prepared for ${escapeHtml(document.preparedFor)}` : ''}</p>
+  </div>
+</header>`;
+
+    const summaryRows = document.checks.map(check => `
+      <tr>
+        <td><a href="#check-${escapeHtml(check.checkId)}">${escapeHtml(check.label)}</a></td>
+        <td>${statusBadge(check.status)}</td>
+        <td class="score">${check.score ?? '—'}</td>
+        <td>${check.details.filter(detail => detail.type === 'error').length}</td>
+        <td>${check.details.filter(detail => detail.type === 'warning').length}</td>
+      </tr>`).join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(`${document.title} — ${document.url}`)}</title>
+<style>
+  :root { --brand: ${branding.color}; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 15px/1.5 -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #1f2328; background: #f6f7f9; }
+  main { max-width: 960px; margin: 0 auto; padding: 32px 24px 48px; background: #fff; }
+  h1, h2, h3 { line-height: 1.25; }
+  h2 { border-bottom: 3px solid var(--brand); padding-bottom: 6px; margin-top: 40px; color: var(--brand); }
+  a { color: var(--brand); }
+  .muted { color: #5c6370; }
+  .logo { max-height: 64px; max-width: 240px; }
+  .cover { min-height: 80vh; display: flex; flex-direction: column; justify-content: center; gap: 8px; border-left: 12px solid var(--brand); padding-left: 32px; }
+  .cover h1 { font-size: 40px; margin: 8px 0; color: var(--brand); }
+  .brand { font-weight: 600; letter-spacing: 0.05em; text-transform: uppercase; color: #5c6370; margin: 0; }
+  .site { font-size: 18px; word-break: break-all; margin: 0; }
+  .header { display: flex; align-items: center; gap: 24px; border-bottom: 3px solid var(--brand); padding-bottom: 16px; }
+  .header h1 { margin: 0; color: var(--brand); }
+  .stats { display: flex; flex-wrap: wrap; gap: 16px; margin: 16px 0; }
+  .stat { flex: 1 1 140px; border: 1px solid #d0d7de; border-radius: 8px; padding: 12px 16px; }
+  .stat strong { display: block; font-size: 28px; }
+  table { width: 100%; border-collapse: collapse; margin: 16px 0; }
+  th, td { text-align: left; padding: 8px; border-bottom: 1px solid #d0d7de; vertical-align: top; }
+  .score { font-weight: 600; }
+  .badge { display: inline-block; padding: 2px 8px; border-radius: 999px; color: #fff; font-size: 12px; font-weight: 600; white-space: nowrap; }
+  .check { margin-top: 32px; }
+  .check-head { display: flex; justify-content: space-between; align-items: baseline; gap: 16px; }
+  .check-head h3 { margin: 0; font-size: 20px; }
+  .check-score { font-size: 24px; font-weight: 700; }
+  .meta { font-size: 13px; color: #5c6370; }
+  .details { list-style: none; padding: 0; }
+  .details li { border-left: 4px solid; padding: 6px 12px; margin: 8px 0; background: #f6f7f9; page-break-inside: avoid; }
+  .details .type { font-size: 11px; font-weight: 700; text-transform: uppercase; }
+  .details code { display: block; font-size: 12px; color: #5c6370; word-break: break-all; white-space: pre-wrap; }
+  footer { margin-top: 48px; font-size: 12px; color: #5c6370; border-top: 1px solid #d0d7de; padding-top: 12px; }
+  @media print {
+    body { background: #fff; }
+    main { max-width: none; padding: 0; }
+    .cover { min-height: 95vh; page-break-after: always; }
+    h2 { page-break-after: avoid; }
+  }
+</style>
+</head>
+<body>
+<main>
+${cover}
+
+<section>
+  <h2>Executive Summary</h2>
+  ${document.executiveSummary.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`).join('\n  ')}
+  <div class="stats">
+    <div class="stat"><strong>${document.summary.averageScore ?? '—'}</strong>Average score</div>
+    <div class="stat"><strong>${document.summary.passed}</strong>Checks passed</div>
+    <div class="stat"><strong>${document.summary.warnings}</strong>Need attention</div>
+    <div class="stat"><strong>${document.summary.failed}</strong>Failed</div>
+  </div>
+  <table>
+    <thead><tr><th>Check</th><th>Status</th><th>Score</th><th>Errors</th><th>Warnings</th></tr></thead>
+    <tbody>${summaryRows}
+    </tbody>
+  </table>
+</section>
+
+<section>
+  <h2>Results by Check</h2>
+  ${document.checks.map(renderCheck).join('\n')}
+</section>
+
+<footer>
+  ${escapeHtml(branding.name)} · Checks run ${escapeHtml(formatExportDate(document.runAt))} · Report generated ${escapeHtml(formatExportDate(document.generatedAt))} · Run ${escapeHtml(document.runId)}
+</footer>
+</main>
+</body>
+</html>
+`;
+}
+
+function renderCheck(check: ExportCheck): string {
+    const meta = [
+        `Checked ${formatExportDate(check.timestamp)}`,
+        check.dataSource && `Data source: ${check.dataSource}`
+    ].filter(Boolean).map(item => escapeHtml(item as string)).join(' · ');
+
+    const details = check.expired
+        ? '<p class="muted">The findings of this check were removed after the retention period.</p>'
+        : check.details.length > 0
+            ? `<h4>Details</h4>\n    <ul class="details">${check.details.map(renderDetail).join('')}\n    </ul>`
+            : '<p class="muted">No issues found.</p>';
+
+    const recommendations = check.recommendations.length > 0
+        ? `<h4>Recommendations</h4>\n    <ul>${check.recommendations.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+        : '';
+
+    return `
+  <article class="check" id="check-${escapeHtml(check.checkId)}">
+    <div class="check-head">
+      <h3>${escapeHtml(check.label)} ${statusBadge(check.status)}</h3>
+      <span class="check-score">${check.score !== undefined ? `${check.score}/100` : ''}</span>
+    </div>
+    <p>${escapeHtml(check.message)}</p>
+    <p class="meta">${meta}</p>
+    ${details}
+    ${recommendations}
+  </article>`;
+}
+
+function renderDetail(detail: CheckDetail): string {
+    const location = detail.line ? `Line ${detail.line}${detail.column ? `, column ${detail.column}` : ''}` : '';
+
+    return `
+      <li style="border-color: ${DETAIL_COLORS[detail.type]}">
+        <span class="type" style="color: ${DETAIL_COLORS[detail.type]}">${detail.type}${detail.severity ? ` · ${detail.severity}` : ''}</span>
+        <div>${escapeHtml(detail.message)}</div>
+        ${location ? `<div class="meta">${location}</div>` : ''}
+        ${detail.sourceContext ? `<code>${renderExtract(detail.sourceContext)}</code>` : ''}
+        ${detail.element ? `<code>${escapeHtml(detail.element)}</code>` : ''}
+      </li>`;
+}
+
+function renderExtract({ extract, highlightStart, highlightLength }: SourceContext): string {
+    if (highlightStart === undefined || !highlightLength) return escapeHtml(extract);
+
+    const end = highlightStart + highlightLength;
+    return `${escapeHtml(extract.slice(0, highlightStart))}<mark>${escapeHtml(extract.slice(highlightStart, end))}</mark>${escapeHtml(extract.slice(end))}`;
+}
+
+function statusBadge(status: ExportCheck['status']): string {
+    return `<span class="badge" style="background: ${STATUS_COLORS[status]}">${STATUS_LABELS[status]}</span>`;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,70 @@
+/**
+ * Flat issue table across a run's checks for triage in spreadsheets
+ */
+
+import type { IssueExportRow } from '@/types/export';
+import type { StoredReport } from '@/types/reports';
+
+/** Column order of the CSV, with headers */
+const ISSUE_COLUMNS: Array<[keyof IssueExportRow, string]> = [
+    ['url', 'URL'],
+    ['checkId', 'Check ID'],
+    ['check', 'Check'],
+    ['type', 'Type'],
+    ['severity', 'Severity'],
+    ['message', 'Message'],
+    ['element', 'Element'],
+    ['ruleId', 'Rule'],
+    ['wcagGuideline', 'WCAG Guideline'],
+    ['line', 'Line'],
+    ['column', 'Column'],
+    ['dataSource', 'Data Source'],
+    ['timestamp', 'Timestamp'],
+    ['reportId', 'Report ID']
+];
+
+/**
+ * One row per detail of every report, in the order the checks ran
+ */
+export function flattenIssues(reports: StoredReport[]): IssueExportRow[] {
+    return [...reports]
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .flatMap(report => (report.details ?? []).map(detail => ({
+            url: report.url,
+            checkId: report.id,
+            check: report.label,
+            type: detail.type,
+            severity: detail.severity ?? detail.priority ?? '',
+            message: detail.message,
+            element: detail.element ?? '',
+            ruleId: detail.ruleId ?? '',
+            wcagGuideline: detail.wcagGuideline ?? '',
+            line: detail.line ?? null,
+            column: detail.column ?? null,
+            dataSource: report.dataSource ?? '',
+            timestamp: new Date(report.timestamp).toISOString(),
+            reportId: report.reportId
+        })));
+}
+
+/**
+ * RFC 4180 CSV with a BOM so spreadsheet apps detect UTF-8
+ */
+export function formatIssuesCsv(rows: IssueExportRow[]): string {
+    const lines = [
+        ISSUE_COLUMNS.map(([, header]) => header),
+        ...rows.map(row => ISSUE_COLUMNS.map(([key]) => row[key] === null ? '' : String(row[key])))
+    ];
+
+    return `﻿${lines.map(cells => cells.map(csvCell).join(',')).join('\r\n')}\r\n`;
+}
+
+export function formatIssuesJson(rows: IssueExportRow[]): string {
+    return JSON.stringify(rows, null, 2);
+}
+
+function csvCell(value: string): string {
+    // A leading =, +, - or @ would run as a formula when opened in a spreadsheet
+    const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
@@ -0,0 +1,316 @@
+import PDFDocument from 'pdfkit';
+import type { CheckDetail } from '@/types/crawl';
+import type { ExportCheck, ReportExportDocument } from '@/types/export';
+import { DETAIL_COLORS, formatExportDate, STATUS_COLORS, STATUS_LABELS } from './document';
+
+type Pdf = InstanceType<typeof PDFDocument>;
+
+const MARGIN = 56;
+const FOOTER_HEIGHT = 32;
+const TEXT_COLOR = '#1f2328';
+const MUTED_COLOR = '#5c6370';
+const RULE_COLOR = '#d0d7de';
+
+/** Characters outside Latin-1 that the standard PDF fonts (WinAnsi) can still draw */
+const WIN_ANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+
+const SUMMARY_COLUMNS = [
+    { title: 'Check', width: 190 },
+    { title: 'Status', width: 110 },
+    { title: 'Score', width: 60 },
+    { title: 'Errors', width: 60 },
+    { title: 'Warnings', width: 60 }
+];
+
+/**
+ * Render the report as an A4 PDF with the built-in Helvetica fonts, so no
+ * font files or browser are needed on the server
+ */
+export function renderPdfReport(document: ReportExportDocument): Promise<Buffer> {
+    const pdf = new PDFDocument({
+        size: 'A4',
+        margins: { top: MARGIN, bottom: MARGIN + FOOTER_HEIGHT, left: MARGIN, right: MARGIN },
+        bufferPages: true,
+        info: {
+            Title: document.title,
+            Author: document.branding.name,
+            Subject: document.url,
+            CreationDate: new Date(document.generatedAt)
+        }
+    });
+
+    const chunks: Buffer[] = [];
+    const done = new Promise<Buffer>((resolve, reject) => {
+        pdf.on('data', (chunk: Buffer) => chunks.push(chunk));
+        pdf.on('end', () => resolve(Buffer.concat(chunks)));
+        pdf.on('error', reject);
+    });
+
+    if (document.coverPage) {
+        renderCover(pdf, document);
+        pdf.addPage();
+    } else {
+        renderHeader(pdf, document);
+    }
+
+    renderSummary(pdf, document);
+    heading(pdf, document, 'Results by Check');
+    for (const check of document.checks) {
+        renderCheck(pdf, check);
+    }
+
+    renderFooters(pdf, document);
+    pdf.end();
+
+    return done;
+}
+
+function renderCover(pdf: Pdf, document: ReportExportDocument): void {
+    const { branding } = document;
+    const { width, height } = pdf.page;
+
+    pdf.rect(0, 0, 16, height).fill(branding.color);
+
+    let y = height * 0.28;
+    if (branding.logo) {
+        pdf.image(Buffer.from(branding.logo.data, 'base64'), MARGIN + 16, y, { fit: [220, 80] });
+        y += 100;
+    }
+
+    pdf.font('Helvetica-Bold').fontSize(11).fillColor(MUTED_COLOR)
+        .text(pdfText(branding.name.toUpperCase()), MARGIN + 16, y, { characterSpacing: 1 });
+    pdf.moveDown(0.8);
+    pdf.font('Helvetica-Bold').fontSize(32).fillColor(branding.color)
+        .text(pdfText(document.title), { width: width - 2 * MARGIN - 16 });
+    pdf.moveDown(0.5);
+    pdf.font('Helvetica').fontSize(14).fillColor(TEXT_COLOR).text(pdfText(document.url));
+
+    if (document.preparedFor) {
+        pdf.moveDown(2);
+        pdf.fontSize(12).fillColor(MUTED_COLOR).text('Prepared for');
+        pdf.font('Helvetica-Bold').fontSize(16).fillColor(TEXT_COLOR).text(pdfText(document.preparedFor));
+    }
+
+    pdf.moveDown(2);
+    pdf.font('Helvetica').fontSize(11).fillColor(MUTED_COLOR)
+        .text(`Checks run ${pdfText(formatExportDate(document.runAt))}`);
+}
+
+function renderHeader(pdf: Pdf, document: ReportExportDocument): void {
+    const { branding } = document;
+
+    if (branding.logo) {
+        pdf.image(Buffer.from(branding.logo.data, 'base64'), MARGIN, MARGIN, { fit: [160, 48] });
+        pdf.y = MARGIN + 60;
+    }
+
+    pdf.font('Helvetica-Bold').fontSize(22).fillColor(branding.color).text(pdfText(document.title), MARGIN, pdf.y);
+    pdf.font('Helvetica').fontSize(11).fillColor(TEXT_COLOR)
+        .text(pdfText(`${document.url}${document.preparedFor ? ` · Prepared for ${document.preparedFor}` : ''}`));
+    pdf.font('Helvetica').fontSize(9).fillColor(MUTED_COLOR).text(`Checks run ${pdfText(formatExportDate(document.runAt))}`);
+    pdf.moveDown();
+}
+
+function renderSummary(pdf: Pdf, document: ReportExportDocument): void {
+    heading(pdf, document, 'Executive Summary');
+
+    pdf.font('Helvetica').fontSize(11).fillColor(TEXT_COLOR);
+    for (const paragraph of document.executiveSummary) {
+        pdf.text(pdfText(paragraph), MARGIN, pdf.y, { align: 'left' });
+        pdf.moveDown(0.6);
+    }
+
+    const { summary } = document;
+    const stats = [
+        [summary.averageScore !== undefined ? String(summary.averageScore) : '-', 'Average score'],
+        [String(summary.passed), 'Checks passed'],
+        [String(summary.warnings), 'Need attention'],
+        [String(summary.failed), 'Failed']
+    ];
+    const statWidth = (contentWidth(pdf) - 3 * 12) / 4;
+    ensureSpace(pdf, 60);
+    const top = pdf.y + 6;
+
+    stats.forEach(([value, label], index) => {
+        const x = MARGIN + index * (statWidth + 12);
+        pdf.roundedRect(x, top, statWidth, 50, 6).lineWidth(1).stroke(RULE_COLOR);
+        pdf.font('Helvetica-Bold').fontSize(20).fillColor(TEXT_COLOR).text(value, x + 10, top + 8, { width: statWidth - 20 });
+        pdf.font('Helvetica').fontSize(9).fillColor(MUTED_COLOR).text(label, x + 10, top + 32, { width: statWidth - 20 });
+    });
+    pdf.x = MARGIN;
+    pdf.y = top + 66;
+
+    tableRow(pdf, SUMMARY_COLUMNS.map(column => column.title), true);
+    for (const check of document.checks) {
+        tableRow(pdf, [
+            check.label,
+            STATUS_LABELS[check.status],
+            check.score !== undefined ? String(check.score) : '-',
+            String(check.details.filter(detail => detail.type === 'error').length),
+            String(check.details.filter(detail => detail.type === 'warning').length)
+        ], false, STATUS_COLORS[check.status]);
+    }
+    pdf.moveDown();
+}
+
+function renderCheck(pdf: Pdf, check: ExportCheck): void {
+    ensureSpace(pdf, 90);
+    pdf.moveDown(0.8);
+
+    const top = pdf.y;
+    pdf.font('Helvetica-Bold').fontSize(15).fillColor(TEXT_COLOR).text(pdfText(check.label), MARGIN, top, { width: contentWidth(pdf) - 90 });
+    if (check.score !== undefined) {
+        pdf.font('Helvetica-Bold').fontSize(15).text(`${check.score}/100`, MARGIN, top, { width: contentWidth(pdf), align: 'right' });
+    }
+    pdf.font('Helvetica-Bold').fontSize(9).fillColor(STATUS_COLORS[check.status])
+        .text(STATUS_LABELS[check.status].toUpperCase(), MARGIN, Math.max(pdf.y, top + 20));
+    pdf.moveDown(0.3);
+
+    pdf.font('Helvetica').fontSize(11).fillColor(TEXT_COLOR).text(pdfText(check.message));
+    pdf.font('Helvetica').fontSize(8.5).fillColor(MUTED_COLOR)
+        .text(pdfText([`Checked ${formatExportDate(check.timestamp)}`, check.dataSource && `Data source: ${check.dataSource}`].filter(Boolean).join(' · ')));
+    pdf.moveDown(0.5);
+
+    if (check.expired) {
+        pdf.font('Helvetica-Oblique').fontSize(10).fillColor(MUTED_COLOR)
+            .text('The findings of this check were removed after the retention period.');
+    } else if (check.details.length === 0) {
+        pdf.font('Helvetica-Oblique').fontSize(10).fillColor(MUTED_COLOR).text('No issues found.');
+    } else {
+        subheading(pdf, 'Details');
+        for (const detail of check.details) {
+            renderDetail(pdf, detail);
+        }
+    }
+
+    if (check.recommendations.length > 0) {
+        subheading(pdf, 'Recommendations');
+        pdf.font('Helvetica').fontSize(10).fillColor(TEXT_COLOR);
+        for (const recommendation of check.recommendations) {
+            ensureSpace(pdf, 14);
+            pdf.text(`•  ${pdfText(recommendation)}`, MARGIN + 8, pdf.y, { width: contentWidth(pdf) - 8, indent: -8 });
+            pdf.moveDown(0.2);
+        }
+    }
+
+    pdf.x = MARGIN;
+    pdf.moveDown(0.5);
+    ensureSpace(pdf, 10);
+    pdf.moveTo(MARGIN, pdf.y).lineTo(pdf.page.width - MARGIN, pdf.y).lineWidth(0.5).stroke(RULE_COLOR);
+}
+
+function renderDetail(pdf: Pdf, detail: CheckDetail): void {
+    const x = MARGIN + 10;
+    const width = contentWidth(pdf) - 10;
+    const label = `${detail.type}${detail.severity ? ` · ${detail.severity}` : ''}`.toUpperCase();
+    const message = pdfText(detail.message);
+    const location = detail.line ? `Line ${detail.line}${detail.column ? `, column ${detail.column}` : ''}` : '';
+    const element = detail.element ? pdfText(detail.element) : '';
+
+    const height = pdf.font('Helvetica-Bold').fontSize(7.5).heightOfString(label, { width })
+        + pdf.font('Helvetica').fontSize(10).heightOfString(message, { width })
+        + (location ? pdf.fontSize(8.5).heightOfString(location, { width }) : 0)
+        + (element ? pdf.font('Courier').fontSize(8).heightOfString(element, { width }) : 0)
+        + 4;
+
+    ensureSpace(pdf, Math.min(height, 200));
+    const top = pdf.y;
+
+    pdf.font('Helvetica-Bold').fontSize(7.5).fillColor(DETAIL_COLORS[detail.type]).text(label, x, top, { width });
+    pdf.font('Helvetica').fontSize(10).fillColor(TEXT_COLOR).text(message, x, pdf.y, { width });
+    if (location) {
+        pdf.fontSize(8.5).fillColor(MUTED_COLOR).text(location, x, pdf.y, { width });
+    }
+    if (element) {
+        pdf.font('Courier').fontSize(8).fillColor(MUTED_COLOR).text(element, x, pdf.y, { width });
+    }
+
+    // The bar only spans the part of the item on this page
+    const barTop = pdf.y > top ? top : MARGIN;
+    pdf.rect(MARGIN, barTop, 3, pdf.y - barTop).fill(DETAIL_COLORS[detail.type]);
+    pdf.x = MARGIN;
+    pdf.moveDown(0.4);
+}
+
+function heading(pdf: Pdf, document: ReportExportDocument, text: string): void {
+    ensureSpace(pdf, 80);
+    pdf.moveDown(0.5);
+    pdf.font('Helvetica-Bold').fontSize(17).fillColor(document.branding.color).text(text, MARGIN, pdf.y);
+    const y = pdf.y + 2;
+    pdf.moveTo(MARGIN, y).lineTo(pdf.page.width - MARGIN, y).lineWidth(2).stroke(document.branding.color);
+    pdf.y = y + 10;
+}
+
+function subheading(pdf: Pdf, text: string): void {
+    ensureSpace(pdf, 40);
+    pdf.moveDown(0.3);
+    pdf.font('Helvetica-Bold').fontSize(11).fillColor(TEXT_COLOR).text(text, MARGIN, pdf.y);
+    pdf.moveDown(0.3);
+}
+
+function tableRow(pdf: Pdf, cells: string[], isHeader: boolean, statusColor?: string): void {
+    ensureSpace(pdf, 22);
+    const top = pdf.y;
+    let x = MARGIN;
+
+    cells.forEach((cell, index) => {
+        const color = isHeader ? MUTED_COLOR : index === 1 && statusColor ? statusColor : TEXT_COLOR;
+        pdf.font(isHeader || index === 1 ? 'Helvetica-Bold' : 'Helvetica').fontSize(10).fillColor(color)
+            .text(pdfText(cell), x, top + 5, { width: SUMMARY_COLUMNS[index].width - 8, lineBreak: false, ellipsis: true });
+        x += SUMMARY_COLUMNS[index].width;
+    });
+
+    const bottom = top + 20;
+    pdf.moveTo(MARGIN, bottom).lineTo(pdf.page.width - MARGIN, bottom).lineWidth(0.5).stroke(RULE_COLOR);
+    pdf.x = MARGIN;
+    pdf.y = bottom + 1;
+}
+
+/**
+ * Brand, run and page number on every page but the cover. Text below the
+ * bottom margin would start a new page, so the margin is lifted first.
+ */
+function renderFooters(pdf: Pdf, document: ReportExportDocument): void {
+    const range = pdf.bufferedPageRange();
+    const first = document.coverPage ? 1 : 0;
+    const total = range.count - first;
+
+    for (let index = range.start + first; index < range.start + range.count; index++) {
+        pdf.switchToPage(index);
+        const bottomMargin = pdf.page.margins.bottom;
+        pdf.page.margins.bottom = 0;
+
+        const y = pdf.page.height - MARGIN;
+        pdf.font('Helvetica').fontSize(8).fillColor(MUTED_COLOR)
+            .text(pdfText(`${document.branding.name} · ${document.url}`), MARGIN, y, { width: contentWidth(pdf) - 80, lineBreak: false, ellipsis: true })
+            .text(`Page ${index - range.start - first + 1} of ${total}`, MARGIN, y, { width: contentWidth(pdf), align: 'right', lineBreak: false });
+
+        pdf.page.margins.bottom = bottomMargin;
+    }
+}
+
+/**
+ * Start a new page when less than `height` points are left
+ */
+function ensureSpace(pdf: Pdf, height: number): void {
+    if (pdf.y + height > pdf.page.height - pdf.page.margins.bottom) {
+        pdf.addPage();
+    }
+}
+
+function contentWidth(pdf: Pdf): number {
+    return pdf.page.width - pdf.page.margins.left - pdf.page.margins.right;
+}
+
+/**
+ * Replace characters the standard fonts can't draw, which would otherwise
+ * come out as garbage glyphs
+ */
+export function pdfText(text: string): string {
+    return text
+        .replace(/→/g, '->')
+        .replace(/←/g, '<-')
+        .replace(/[✓✔]/g, 'OK')
+        .replace(/\t/g, '  ')
+        .replace(/[^\n\x20-\x7E\xA0-\xFF]/g, char => WIN_ANSI_EXTRAS.includes(char) ? char : '?');
+}
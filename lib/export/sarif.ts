@@ -0,0 +1,173 @@
+/**
+ * SARIF 2.1.0 export of a run's findings for code-scanning dashboards.
+ * Info-level details (e.g. redirect hops) are not findings and are left
+ * out, the same as in run comparison.
+ */
+
+import type { CheckDetail, HealthCheckResult, SourceContext } from '@/types/crawl';
+import type { SarifLevel, SarifLocation, SarifLog, SarifResult, SarifRule } from '@/types/sarif';
+import { fingerprintIssue } from '@/lib/diff';
+
+const SARIF_SCHEMA = 'https://docs.oasis-open.org/sarif/sarif/v2.1.0/errata01/os/schemas/sarif-schema-2.1.0.json';
+
+export const SARIF_CONTENT_TYPE = 'application/sarif+json';
+
+const SEVERITY_LEVELS: Record<NonNullable<CheckDetail['severity']>, SarifLevel> = {
+    critical: 'error',
+    serious: 'error',
+    moderate: 'warning',
+    minor: 'note'
+};
+
+const PRIORITY_LEVELS: Record<NonNullable<CheckDetail['priority']>, SarifLevel> = {
+    high: 'error',
+    medium: 'warning',
+    low: 'note'
+};
+
+/** `security-severity` per level; 7.0+ is shown as high, 4.0+ as medium */
+const SECURITY_SEVERITY: Record<SarifLevel, string> = {
+    error: '8.0',
+    warning: '5.0',
+    note: '2.0'
+};
+
+/**
+ * Build a SARIF log with one run; every check contributes rules under
+ * its own id prefix
+ */
+export function buildSarifLog(url: string, results: HealthCheckResult[], startedAt: number): SarifLog {
+    const rules: SarifRule[] = [];
+    const sarifResults: SarifResult[] = [];
+
+    for (const result of results) {
+        for (const detail of result.details ?? []) {
+            if (detail.type === 'info') continue;
+
+            const ruleId = getSarifRuleId(result.id, detail);
+            const level = getSarifLevel(detail);
+            let ruleIndex = rules.findIndex(rule => rule.id === ruleId);
+            if (ruleIndex === -1) {
+                ruleIndex = rules.push(buildRule(ruleId, result, detail, level)) - 1;
+            }
+
+            sarifResults.push({
+                ruleId,
+                ruleIndex,
+                level,
+                message: { text: detail.message },
+                locations: [buildLocation(result.url ?? url, detail)],
+                partialFingerprints: { 'issueFingerprint/v1': fingerprintIssue(result.id, detail) }
+            });
+        }
+    }
+
+    // A check that errored without findings never ran its analysis
+    const failed = results.filter(result => result.status === 'error' && result.score === undefined && !result.details?.length);
+
+    return {
+        $schema: SARIF_SCHEMA,
+        version: '2.1.0',
+        runs: [{
+            tool: { driver: { name: 'GC Web Health Checker', rules } },
+            invocations: [{
+                executionSuccessful: failed.length === 0,
+                startTimeUtc: new Date(startedAt).toISOString(),
+                toolExecutionNotifications: failed.map(result => ({
+                    level: 'error' as const,
+                    message: { text: `${result.label}: ${result.message}` }
+                }))
+            }],
+            results: sarifResults,
+            properties: { url }
+        }]
+    };
+}
+
+/**
+ * Rule id from the most specific source: the header a security finding
+ * is about, the validator's rule id (axe), the WCAG criterion, then the
+ * message type (W3C markup messages)
+ */
+export function getSarifRuleId(checkId: string, detail: CheckDetail): string {
+    const rule = detail.header
+        ?? detail.ruleId
+        ?? detail.wcagGuideline?.split(' - ')[0]
+        ?? detail.type;
+
+    return `${checkId}/${rule}`;
+}
+
+export function getSarifLevel(detail: CheckDetail): SarifLevel {
+    if (detail.severity) return SEVERITY_LEVELS[detail.severity];
+    if (detail.priority) return PRIORITY_LEVELS[detail.priority];
+    return detail.type === 'error' ? 'error' : 'warning';
+}
+
+function buildRule(id: string, result: HealthCheckResult, detail: CheckDetail, level: SarifLevel): SarifRule {
+    const tags = [result.id, ...(detail.wcagGuideline?.split(/,\s*/) ?? []), ...(result.id === 'security' ? ['security'] : [])];
+    const rule: SarifRule = {
+        id,
+        shortDescription: { text: describeRule(result, detail) },
+        defaultConfiguration: { level },
+        properties: { tags: tags.filter((tag, index) => tags.indexOf(tag) === index) }
+    };
+
+    if (detail.header) {
+        rule.helpUri = `https://developer.mozilla.org/docs/Web/HTTP/Reference/Headers/${detail.header}`;
+    }
+    if (result.id === 'security') {
+        rule.properties['security-severity'] = SECURITY_SEVERITY[level];
+    }
+
+    return rule;
+}
+
+function describeRule(result: HealthCheckResult, detail: CheckDetail): string {
+    if (detail.header) return `${detail.header} header`;
+    if (detail.ruleId) return `${result.label}: ${detail.ruleId}`;
+    if (detail.wcagGuideline) return detail.wcagGuideline;
+    return `${result.label} ${detail.type}`;
+}
+
+function buildLocation(uri: string, detail: CheckDetail): SarifLocation {
+    if (detail.line) {
+        const context = detail.sourceContext;
+        const highlighted = context && context.highlightStart !== undefined && context.highlightLength
+            ? context.extract.slice(context.highlightStart, context.highlightStart + context.highlightLength)
+            : undefined;
+        const snippet = highlighted ?? detail.element;
+
+        return {
+            physicalLocation: {
+                artifactLocation: { uri },
+                region: {
+                    startLine: detail.line,
+                    ...(detail.column ? { startColumn: detail.column } : {}),
+                    ...(detail.endLine ? { endLine: detail.endLine } : {}),
+                    // SARIF end columns are exclusive, the validator's are inclusive
+                    ...(detail.endColumn ? { endColumn: detail.endColumn + 1 } : {}),
+                    ...(snippet ? { snippet: { text: snippet } } : {})
+                },
+                ...(context ? {
+                    contextRegion: { startLine: getExtractStartLine(detail.line, context), snippet: { text: context.extract } }
+                } : {})
+            }
+        };
+    }
+
+    // Rendered-page findings carry a selector, which identifies the element better than a tag
+    const element = detail.selector ?? detail.element;
+    return {
+        physicalLocation: { artifactLocation: { uri } },
+        ...(element ? { logicalLocations: [{ fullyQualifiedName: element, kind: 'element' }] } : {})
+    };
+}
+
+/**
+ * Line the extract starts on; it can begin a few lines above the finding
+ */
+function getExtractStartLine(line: number, context: SourceContext): number {
+    const before = context.extract.slice(0, context.highlightStart ?? 0);
+    return Math.max(1, line - (before.match(/\n/g)?.length ?? 0));
+}
@@ -0,0 +1,61 @@
+import type { HealthCheckResult } from '@/types/crawl';
+import type { ExcludedCheck, HealthGrade, OverallHealthScore, ScoredCheck } from '@/types/health-score';
+
+/** Lowest score for each grade; anything below the last is an F */
+export const GRADE_THRESHOLDS: Array<[HealthGrade, number]> = [
+    ['A', 90],
+    ['B', 80],
+    ['C', 70],
+    ['D', 60]
+];
+
+/** dataSource of checks that returned placeholder scores instead of analysing the page */
+export const SIMULATED_DATA_SOURCE = 'Simulated';
+
+export function getHealthGrade(score: number): HealthGrade {
+    return GRADE_THRESHOLDS.find(([, min]) => score >= min)?.[0] ?? 'F';
+}
+
+/**
+ * Weighted average of the finished checks' scores, with how many points
+ * each check cost. Checks that failed to produce a score or ran on
+ * simulated data are listed separately instead of skewing the average;
+ * pending and running checks and checks weighted 0 are left out.
+ */
+export function computeOverallScore(
+    results: HealthCheckResult[],
+    getWeight: (checkId: string) => number
+): OverallHealthScore {
+    const scored: Array<Omit<ScoredCheck, 'pointsLost'>> = [];
+    const excluded: ExcludedCheck[] = [];
+
+    for (const result of results) {
+        if (result.status === 'pending' || result.status === 'running') continue;
+
+        const weight = getWeight(result.id);
+        if (!(weight > 0)) continue;
+
+        if (result.score === undefined) {
+            excluded.push({ id: result.id, label: result.label, reason: 'failed' });
+        } else if (result.dataSource === SIMULATED_DATA_SOURCE) {
+            excluded.push({ id: result.id, label: result.label, reason: 'simulated', score: result.score });
+        } else {
+            scored.push({ id: result.id, label: result.label, score: result.score, weight });
+        }
+    }
+
+    if (scored.length === 0) {
+        return { checks: [], excluded };
+    }
+
+    const totalWeight = scored.reduce((sum, check) => sum + check.weight, 0);
+    const score = Math.round(scored.reduce((sum, check) => sum + check.score * check.weight, 0) / totalWeight);
+    const checks = scored
+        .map(check => ({
+            ...check,
+            pointsLost: Math.round((check.weight * (100 - check.score) / totalWeight) * 10) / 10
+        }))
+        .sort((a, b) => b.pointsLost - a.pointsLost);
+
+    return { score, grade: getHealthGrade(score), checks, excluded };
+}
@@ -0,0 +1,118 @@
+import type { HealthCheckResult } from '@/types/crawl';
+import type { StoredReport } from '@/types/reports';
+import type { ScanHistory, ScanRun, ScanRunCheck, ScoreSeries } from '@/types/history';
+
+/** Score drop (in points) that counts as a regression */
+export const REGRESSION_THRESHOLD = 5;
+
+/** How bad a check status is; in-progress statuses rank below every outcome */
+export const STATUS_RANK: Record<HealthCheckResult['status'], number> = {
+    success: 0,
+    warning: 1,
+    error: 2,
+    pending: -1,
+    running: -1
+};
+
+/**
+ * Build the run history of one URL from its stored reports.
+ * Reports without a run id (saved before runs were grouped) form a run of their own.
+ */
+export function buildScanHistory(url: string, reports: StoredReport[]): ScanHistory {
+    const completed = reports.filter(report => report.status !== 'running' && report.status !== 'pending');
+    const runs = groupReportsIntoRuns(completed);
+
+    annotateRegressions(runs);
+
+    return {
+        url,
+        runs: [...runs].reverse(),
+        series: buildScoreSeries(runs)
+    };
+}
+
+/**
+ * Group reports by run id, oldest run first
+ */
+export function groupReportsIntoRuns(reports: StoredReport[]): ScanRun[] {
+    const runs = new Map<string, ScanRun>();
+    const sorted = [...reports].sort((a, b) => a.timestamp - b.timestamp);
+
+    for (const report of sorted) {
+        const runId = report.runId || report.reportId;
+        let run = runs.get(runId);
+
+        if (!run) {
+            run = { runId, url: report.url, timestamp: report.timestamp, checks: [] };
+            runs.set(runId, run);
+        }
+
+        const check: ScanRunCheck = {
+            checkId: report.id,
+            label: report.label,
+            status: report.status,
+            score: report.score,
+            reportId: report.reportId,
+            regressed: false
+        };
+
+        // A check run again within the same run replaces the earlier result
+        const existing = run.checks.findIndex(item => item.checkId === report.id);
+        if (existing === -1) {
+            run.checks.push(check);
+        } else {
+            run.checks[existing] = check;
+        }
+    }
+
+    return [...runs.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Compare each check with the previous run that included it
+ * @param runs - Oldest first; annotated in place
+ */
+export function annotateRegressions(runs: ScanRun[], threshold = REGRESSION_THRESHOLD): void {
+    const previous = new Map<string, ScanRunCheck>();
+
+    for (const run of runs) {
+        for (const check of run.checks) {
+            const before = previous.get(check.checkId);
+
+            if (before) {
+                if (check.score !== undefined && before.score !== undefined) {
+                    check.delta = check.score - before.score;
+                }
+
+                const scoreDropped = check.delta !== undefined && check.delta <= -threshold;
+                const statusWorsened = STATUS_RANK[check.status] > STATUS_RANK[before.status] && STATUS_RANK[before.status] >= 0;
+                check.regressed = scoreDropped || statusWorsened;
+            }
+
+            previous.set(check.checkId, check);
+        }
+    }
+}
+
+/**
+ * Score over time per check
+ * @param runs - Oldest first
+ */
+export function buildScoreSeries(runs: ScanRun[]): ScoreSeries[] {
+    const series = new Map<string, ScoreSeries>();
+
+    for (const run of runs) {
+        for (const check of run.checks) {
+            if (check.score === undefined) continue;
+
+            let line = series.get(check.checkId);
+            if (!line) {
+                line = { checkId: check.checkId, label: check.label, points: [] };
+                series.set(check.checkId, line);
+            }
+            line.points.push({ runId: run.runId, timestamp: run.timestamp, score: check.score });
+        }
+    }
+
+    return [...series.values()];
+}
@@ -0,0 +1,91 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/** Ids are used as file names, so only allow the generated "prefix-timestamp-suffix" style */
+const STORE_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/i;
+
+export function isValidStoreId(id: string): boolean {
+    return STORE_ID_PATTERN.test(id) && id.length <= 128;
+}
+
+export interface JsonFileCollection<T> {
+    save(item: T): Promise<void>;
+    get(id: string): Promise<T | null>;
+    /** Every readable item, in no particular order */
+    list(): Promise<T[]>;
+    delete(id: string): Promise<void>;
+}
+
+/**
+ * One JSON file per item in `directory`, written atomically. Item ids are
+ * used as file names and must pass `isValidStoreId`.
+ * @param label - Used in error and log messages, e.g. "monitor"
+ */
+export function createJsonFileCollection<T>(
+    directory: string,
+    getId: (item: T) => string,
+    label: string
+): JsonFileCollection<T> {
+    const filePath = (id: string) => {
+        if (!isValidStoreId(id)) {
+            throw new Error(`Invalid ${label} id: ${id}`);
+        }
+        return path.join(directory, `${id}.json`);
+    };
+
+    return {
+        async save(item) {
+            const target = filePath(getId(item));
+            await fs.mkdir(directory, { recursive: true });
+
+            // Write to a temporary file first so readers never see a partial item
+            const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+            await fs.writeFile(temp, JSON.stringify(item), 'utf8');
+            await fs.rename(temp, target);
+        },
+
+        async get(id) {
+            if (!isValidStoreId(id)) return null;
+
+            try {
+                return JSON.parse(await fs.readFile(filePath(id), 'utf8')) as T;
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                    return null;
+                }
+                throw error;
+            }
+        },
+
+        async list() {
+            let entries: string[];
+            try {
+                entries = await fs.readdir(directory);
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                    return [];
+                }
+                throw error;
+            }
+
+            const items: T[] = [];
+            for (const entry of entries) {
+                if (!entry.endsWith('.json')) continue;
+
+                try {
+                    items.push(JSON.parse(await fs.readFile(path.join(directory, entry), 'utf8')) as T);
+                } catch (error) {
+                    console.warn(`[Store] Skipping unreadable ${label} file ${entry}:`, error);
+                }
+            }
+
+            return items;
+        },
+
+        async delete(id) {
+            if (!isValidStoreId(id)) return;
+
+            await fs.rm(filePath(id), { force: true });
+        }
+    };
+}
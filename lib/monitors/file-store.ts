@@ -0,0 +1,16 @@
+import type { Monitor, MonitorStore } from '@/types/monitors';
+import { createJsonFileCollection } from '@/lib/json-file-store';
+
+/**
+ * Monitor store that keeps one JSON file per monitor in `directory`
+ */
+export function createFileMonitorStore(directory: string): MonitorStore {
+    const collection = createJsonFileCollection<Monitor>(directory, monitor => monitor.id, 'monitor');
+
+    return {
+        ...collection,
+        async list() {
+            return (await collection.list()).sort((a, b) => a.createdAt - b.createdAt);
+        }
+    };
+}
@@ -0,0 +1,29 @@
+import path from 'path';
+import type { MonitorStore } from '@/types/monitors';
+import { createFileMonitorStore } from './file-store';
+
+export { MONITOR_SCHEDULES, SCHEDULE_INTERVALS_MS, getDueMonitors, getNextRunAt, isMonitorSchedule } from './schedule';
+
+const DEFAULT_MONITOR_STORE_DIR = '.data/monitors';
+
+let store: MonitorStore | null = null;
+
+/**
+ * Get the configured monitor store (JSON files under `MONITOR_STORE_DIR`,
+ * default `.data/monitors`)
+ */
+export function getMonitorStore(): MonitorStore {
+    if (!store) {
+        const directory = path.resolve(process.env.MONITOR_STORE_DIR || DEFAULT_MONITOR_STORE_DIR);
+        store = createFileMonitorStore(directory);
+    }
+
+    return store;
+}
+
+/**
+ * Generate a monitor id in "monitor-timestamp-suffix" format
+ */
+export function createMonitorId(): string {
+    return `monitor-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
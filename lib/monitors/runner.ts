@@ -0,0 +1,133 @@
+import type { HealthCheckResult } from '@/types/crawl';
+import type { Monitor } from '@/types/monitors';
+import type { StoredReport } from '@/types/reports';
+import { runCheckSet } from '@/lib/check-runner';
+import { STATUS_RANK } from '@/lib/history';
+import { createRunId } from '@/lib/reports';
+import { getMonitorStore } from './index';
+import { getDueMonitors, getNextRunAt } from './schedule';
+
+/** How often the scheduler looks for due monitors */
+const MONITOR_TICK_MS = 60 * 1000;
+
+// Kept on globalThis so a module reload in development doesn't start a second scheduler
+const globalForMonitors = globalThis as unknown as {
+    monitorScheduler?: ReturnType<typeof setInterval>;
+    monitorTickRunning?: boolean;
+    runningMonitors?: Set<string>;
+};
+const runningMonitors = globalForMonitors.runningMonitors ?? (globalForMonitors.runningMonitors = new Set<string>());
+
+export interface MonitorRun {
+    runId: string;
+    /** Settles once every check of the run has stored its report */
+    completion: Promise<void>;
+}
+
+/**
+ * Scheduled runs are on unless `MONITORING_ENABLED=false` (e.g. on all but
+ * one instance of a multi-instance deployment)
+ */
+export function isMonitoringEnabled(): boolean {
+    return process.env.MONITORING_ENABLED !== 'false';
+}
+
+/**
+ * Start the in-process scheduler; safe to call more than once
+ */
+export function startMonitorScheduler(): void {
+    if (globalForMonitors.monitorScheduler || !isMonitoringEnabled()) return;
+
+    console.log(`[Monitors] Scheduler started (checking every ${MONITOR_TICK_MS / 1000}s)`);
+    globalForMonitors.monitorScheduler = setInterval(() => void runDueMonitors(), MONITOR_TICK_MS);
+    globalForMonitors.monitorScheduler.unref?.();
+    void runDueMonitors();
+}
+
+/**
+ * Run every due monitor, one monitor at a time so scheduled runs don't
+ * compete with interactive checks for the whole concurrency budget
+ */
+export async function runDueMonitors(now = Date.now()): Promise<void> {
+    if (globalForMonitors.monitorTickRunning) return;
+    globalForMonitors.monitorTickRunning = true;
+
+    try {
+        const store = getMonitorStore();
+        const due = getDueMonitors(await store.list(), now);
+
+        for (const { id } of due) {
+            if (runningMonitors.has(id)) continue;
+
+            // Earlier runs of this tick can take minutes; skip monitors deleted,
+            // paused or rescheduled in the meantime and run the latest settings
+            const monitor = await store.get(id);
+            if (!monitor || getDueMonitors([monitor], now).length === 0) continue;
+
+            await startMonitorRun(monitor).completion;
+        }
+    } catch (error) {
+        console.error('[Monitors] Scheduler tick failed:', error);
+    } finally {
+        globalForMonitors.monitorTickRunning = false;
+    }
+}
+
+/**
+ * Start a run of one monitor. The next run is scheduled up front so a slow
+ * run is never started twice.
+ * @throws When the monitor already has a run in progress in this process
+ */
+export function startMonitorRun(monitor: Monitor, startedAt = Date.now()): MonitorRun {
+    if (runningMonitors.has(monitor.id)) {
+        throw new Error('Monitor is already running');
+    }
+
+    const runId = createRunId();
+    const store = getMonitorStore();
+    runningMonitors.add(monitor.id);
+
+    const completion = (async () => {
+        try {
+            // Save on top of the stored copy, never bring back a deleted monitor
+            const current = await store.get(monitor.id);
+            if (!current) return;
+
+            await store.save({
+                ...current,
+                nextRunAt: getNextRunAt(current.schedule, startedAt),
+                lastRunAt: startedAt,
+                lastRunId: runId
+            });
+
+            console.log(`[Monitors] Running ${current.checks.length} checks for ${current.url} (${runId})`);
+            const reports = await runCheckSet(current.url, current.checks, { runId });
+
+            // Re-read so edits made while the run was in progress are kept
+            const latest = await store.get(monitor.id);
+            if (latest && latest.lastRunId === runId) {
+                await store.save({ ...latest, lastStatus: worstStatus(reports) });
+            }
+        } catch (error) {
+            console.error(`[Monitors] Run ${runId} of ${monitor.url} failed:`, error);
+        } finally {
+            runningMonitors.delete(monitor.id);
+        }
+    })();
+
+    return { runId, completion };
+}
+
+/**
+ * Whether a monitor has a run in progress in this process
+ */
+export function isMonitorRunning(monitorId: string): boolean {
+    return runningMonitors.has(monitorId);
+}
+
+function worstStatus(reports: StoredReport[]): HealthCheckResult['status'] | undefined {
+    return reports.reduce<HealthCheckResult['status'] | undefined>(
+        (worst, report) => !worst || STATUS_RANK[report.status] > STATUS_RANK[worst] ? report.status : worst,
+        undefined
+    );
+}
@@ -0,0 +1,37 @@
+/**
+ * Schedule helpers, kept free of server-only imports so they can be tested
+ * and shown in client components
+ */
+
+import type { Monitor, MonitorSchedule } from '@/types/monitors';
+
+export const MONITOR_SCHEDULES: MonitorSchedule[] = ['hourly', 'daily', 'weekly'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const SCHEDULE_INTERVALS_MS: Record<MonitorSchedule, number> = {
+    hourly: HOUR_MS,
+    daily: 24 * HOUR_MS,
+    weekly: 7 * 24 * HOUR_MS
+};
+
+export function isMonitorSchedule(value: string): value is MonitorSchedule {
+    return (MONITOR_SCHEDULES as string[]).includes(value);
+}
+
+/**
+ * When a monitor should next run after a run started at `from`.
+ * Missed runs (e.g. while the server was down) are not caught up.
+ */
+export function getNextRunAt(schedule: MonitorSchedule, from: number): number {
+    return from + SCHEDULE_INTERVALS_MS[schedule];
+}
+
+/**
+ * Enabled monitors whose next run is due, most overdue first
+ */
+export function getDueMonitors(monitors: Monitor[], now: number): Monitor[] {
+    return monitors
+        .filter(monitor => monitor.enabled && monitor.nextRunAt <= now)
+        .sort((a, b) => a.nextRunAt - b.nextRunAt);
+}
@@ -0,0 +1,29 @@
+import type { ReportStore, StoredReport } from '@/types/reports';
+import { createJsonFileCollection, isValidStoreId } from '@/lib/json-file-store';
+import { normalizeReportUrl } from './utils';
+
+/** Report and run ids are used as file names, so only allow the generated format */
+export function isValidReportId(reportId: string): boolean {
+    return isValidStoreId(reportId);
+}
+
+/**
+ * Report store that keeps one JSON file per report in `directory`
+ */
+export function createFileReportStore(directory: string): ReportStore {
+    const collection = createJsonFileCollection<StoredReport>(directory, report => report.reportId, 'report');
+
+    return {
+        ...collection,
+
+        // Reads every report file; fine for the volumes a single instance produces
+        async list(filter = {}) {
+            const url = filter.url ? normalizeReportUrl(filter.url) : null;
+
+            return (await collection.list()).filter(report =>
+                (!url || normalizeReportUrl(report.url) === url)
+                && (!filter.runId || (report.runId || report.reportId) === filter.runId)
+            );
+        }
+    };
+}
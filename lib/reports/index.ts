@@ -0,0 +1,26 @@
+import path from 'path';
+import type { ReportStore } from '@/types/reports';
+import { createFileReportStore } from './file-store';
+
+export { isValidReportId } from './file-store';
+export { createReportId, createRunId, normalizeReportUrl, toHealthCheckResult, toReportCrawlMetadata } from './utils';
+
+const DEFAULT_REPORT_STORE_DIR = '.data/reports';
+
+let store: ReportStore | null = null;
+
+/**
+ * Get the configured report store.
+ *
+ * Reports are kept as JSON files under `REPORT_STORE_DIR` (relative paths
+ * resolve against the working directory, default `.data/reports`). Other
+ * backends can be added by implementing `ReportStore`.
+ */
+export function getReportStore(): ReportStore {
+    if (!store) {
+        const directory = path.resolve(process.env.REPORT_STORE_DIR || DEFAULT_REPORT_STORE_DIR);
+        store = createFileReportStore(directory);
+    }
+
+    return store;
+}
@@ -0,0 +1,77 @@
+import type { ReportLookup, ReportStore, StoredReport } from '@/types/reports';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+/** A "running" placeholder older than this belongs to a run that never finished */
+export const RUNNING_REPORT_TIMEOUT_MS = 15 * 60 * 1000;
+
+/**
+ * How long reports keep their findings, from `REPORT_RETENTION_DAYS`
+ * (default 30; 0 keeps reports forever)
+ */
+export function getReportRetentionMs(): number {
+    const configured = Number(process.env.REPORT_RETENTION_DAYS);
+    const days = process.env.REPORT_RETENTION_DAYS !== undefined && Number.isFinite(configured) && configured >= 0
+        ? configured
+        : DEFAULT_RETENTION_DAYS;
+
+    return days === 0 ? Infinity : days * DAY_MS;
+}
+
+/**
+ * Drop a report's findings but keep what is needed to say it expired and to re-run it
+ */
+export function toExpiredReport(report: StoredReport, now: number): StoredReport {
+    return {
+        id: report.id,
+        label: report.label,
+        status: report.status,
+        // The score stays so the URL's history keeps its trend line
+        score: report.score,
+        message: 'This report has expired.',
+        timestamp: report.timestamp,
+        reportId: report.reportId,
+        url: report.url,
+        runId: report.runId,
+        savedAt: report.savedAt,
+        expiredAt: now
+    };
+}
+
+/**
+ * Resolve what the report page should show for a report id.
+ * Reports past the retention period are expired on read.
+ */
+export async function lookupReport(
+    store: ReportStore,
+    reportId: string,
+    options: { now?: number; retentionMs?: number } = {}
+): Promise<ReportLookup> {
+    const now = options.now ?? Date.now();
+    const retentionMs = options.retentionMs ?? getReportRetentionMs();
+    const report = await store.get(reportId);
+
+    if (!report) {
+        return { state: 'not-found' };
+    }
+
+    if (report.expiredAt) {
+        return { state: 'expired', report };
+    }
+
+    if (report.status === 'running' || report.status === 'pending') {
+        return now - report.savedAt > RUNNING_REPORT_TIMEOUT_MS
+            ? { state: 'not-found', report }
+            : { state: 'running', report };
+    }
+
+    if (now - report.savedAt > retentionMs) {
+        const expired = toExpiredReport(report, now);
+        await store.save(expired);
+        return { state: 'expired', report: expired };
+    }
+
+    return { state: 'found', report };
+}
@@ -0,0 +1,69 @@
+/**
+ * Report helpers that are safe to use in client components
+ */
+
+import type { CrawlData, HealthCheckResult } from '@/types/crawl';
+import type { ReportCrawlMetadata, StoredReport } from '@/types/reports';
+
+/**
+ * Generate a report id in "type-timestamp-suffix" format. The suffix keeps
+ * ids unique when the same check runs on several pages at once.
+ */
+export function createReportId(checkId: string): string {
+    return `${checkId}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Generate an id shared by the reports of one run
+ */
+export function createRunId(): string {
+    return `run-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Normalize a URL for grouping reports: lower-case host, no fragment,
+ * no trailing slash on the path. Unparseable input is returned trimmed.
+ */
+export function normalizeReportUrl(url: string): string {
+    try {
+        const parsed = new URL(url.trim());
+        parsed.hash = '';
+        const path = parsed.pathname.replace(/\/+$/, '');
+        return `${parsed.protocol}//${parsed.host.toLowerCase()}${path}${parsed.search}`;
+    } catch {
+        return url.trim();
+    }
+}
+
+/**
+ * Keep only the crawl metadata worth storing (not the HTML, markdown or screenshot)
+ */
+export function toReportCrawlMetadata(data: CrawlData): ReportCrawlMetadata {
+    return {
+        url: data.url,
+        title: data.title,
+        description: data.description,
+        statusCode: data.statusCode,
+        responseTime: data.responseTime
+    };
+}
+
+/**
+ * The check result of a stored report, without storage metadata
+ * (crawl, run and retention fields) or live progress
+ */
+export function toHealthCheckResult(report: StoredReport): HealthCheckResult {
+    return {
+        id: report.id,
+        label: report.label,
+        status: report.status,
+        score: report.score,
+        message: report.message,
+        details: report.details,
+        timestamp: report.timestamp,
+        reportId: report.reportId,
+        dataSource: report.dataSource,
+        url: report.url,
+        recommendations: report.recommendations
+    };
+}
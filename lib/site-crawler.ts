@@ -0,0 +1,230 @@
+import type { CrawlData, SiteCrawlOptions } from '@/types/crawl';
+import type { ReportCrawlMetadata } from '@/types/reports';
+
+export interface DiscoveredPage {
+    url: string;
+    depth: number;
+    crawlData: CrawlData;
+}
+
+export interface SiteCrawlSkip {
+    url: string;
+    reason: string;
+}
+
+export interface SiteCrawlResult {
+    pages: DiscoveredPage[];
+    skipped: SiteCrawlSkip[];
+}
+
+/**
+ * Discovered pages as sent to the client. The crawled HTML stays on the
+ * server; each HTML check fetches its page again.
+ */
+export interface SiteDiscoveryResult {
+    pages: Array<{ url: string; depth: number; crawl: ReportCrawlMetadata }>;
+    skipped: SiteCrawlSkip[];
+}
+
+/**
+ * Extra discovery input, e.g. from robots.txt and sitemap.xml
+ */
+export interface SiteDiscoveryHints {
+    /** URLs to queue in addition to the start URL (crawled at depth 1) */
+    seedUrls?: string[];
+    /** Return false to skip a URL, e.g. when robots.txt disallows it */
+    isAllowed?: (url: string) => boolean;
+    /** Stops the crawl when aborted */
+    signal?: AbortSignal;
+}
+
+export const DEFAULT_SITE_CRAWL_OPTIONS: SiteCrawlOptions = {
+    discovery: 'links',
+    maxDepth: 2,
+    maxPages: 20,
+    include: [],
+    exclude: []
+};
+
+/** Hard upper bound so a misconfigured crawl cannot run away */
+export const MAX_SITE_CRAWL_PAGES = 500;
+
+const NON_HTML_EXTENSIONS = /\.(pdf|zip|gz|rar|7z|jpe?g|png|gif|webp|avif|svg|ico|bmp|mp3|mp4|webm|mov|avi|woff2?|ttf|eot|css|js|json|xml|txt|csv|docx?|xlsx?|pptx?)$/i;
+
+/**
+ * Crawl a site breadth-first starting at `startUrl`, following same-origin
+ * links up to the configured depth and page count. Links are not followed
+ * when discovery is limited to the sitemap.
+ * @param startUrl - The page to start from (depth 0)
+ * @param options - Discovery source, depth, page limit and include/exclude path patterns
+ * @param crawl - Function used to fetch a single page
+ * @param hints - Seed URLs and an optional robots.txt filter
+ */
+export async function crawlSite(
+    startUrl: string,
+    options: Partial<SiteCrawlOptions>,
+    crawl: (url: string) => Promise<CrawlData>,
+    hints: SiteDiscoveryHints = {}
+): Promise<SiteCrawlResult> {
+    const settings = normalizeSiteCrawlOptions(options);
+    const origin = new URL(startUrl).origin;
+    const followLinks = settings.discovery !== 'sitemap';
+
+    const pages: DiscoveredPage[] = [];
+    const skipped: SiteCrawlSkip[] = [];
+    const visited = new Set<string>();
+    const queue: Array<{ url: string; depth: number }> = [];
+
+    const enqueue = (url: string, depth: number) => {
+        if (visited.has(url)) return;
+        visited.add(url);
+
+        if (!isInScope(url, origin, settings)) return;
+
+        if (hints.isAllowed && !hints.isAllowed(url)) {
+            skipped.push({ url, reason: 'Blocked by robots.txt' });
+            return;
+        }
+
+        queue.push({ url, depth });
+    };
+
+    const start = normalizePageUrl(startUrl);
+    visited.add(start);
+    queue.push({ url: start, depth: 0 });
+
+    for (const seed of hints.seedUrls || []) {
+        const candidate = resolveLink(seed, startUrl);
+        if (candidate) enqueue(candidate, 1);
+    }
+
+    while (queue.length > 0 && pages.length < settings.maxPages) {
+        hints.signal?.throwIfAborted();
+
+        const { url, depth } = queue.shift()!;
+
+        let crawlData: CrawlData;
+        try {
+            crawlData = await crawl(url);
+        } catch (error) {
+            hints.signal?.throwIfAborted();
+            console.warn(`[Site Crawler] Failed to crawl ${url}:`, error);
+            skipped.push({ url, reason: error instanceof Error ? error.message : 'Crawl failed' });
+            continue;
+        }
+
+        pages.push({ url, depth, crawlData });
+        console.log(`[Site Crawler] Crawled ${url} (depth ${depth}, ${pages.length}/${settings.maxPages})`);
+
+        if (!followLinks || depth >= settings.maxDepth) continue;
+
+        for (const link of crawlData.links) {
+            const candidate = resolveLink(link.href, url);
+            if (candidate) enqueue(candidate, depth + 1);
+        }
+    }
+
+    return { pages, skipped };
+}
+
+/**
+ * Fill in defaults and clamp limits
+ */
+export function normalizeSiteCrawlOptions(options: Partial<SiteCrawlOptions>): SiteCrawlOptions {
+    const maxDepth = Number.isFinite(options.maxDepth)
+        ? Math.max(0, Math.floor(options.maxDepth!))
+        : DEFAULT_SITE_CRAWL_OPTIONS.maxDepth;
+    const maxPages = Number.isFinite(options.maxPages)
+        ? Math.min(MAX_SITE_CRAWL_PAGES, Math.max(1, Math.floor(options.maxPages!)))
+        : DEFAULT_SITE_CRAWL_OPTIONS.maxPages;
+
+    const discovery = options.discovery === 'sitemap' || options.discovery === 'both'
+        ? options.discovery
+        : 'links';
+
+    return {
+        discovery,
+        maxDepth,
+        maxPages,
+        include: (options.include || []).map(p => p.trim()).filter(Boolean),
+        exclude: (options.exclude || []).map(p => p.trim()).filter(Boolean)
+    };
+}
+
+/**
+ * Check whether a URL is same-origin and matches the include/exclude rules.
+ * Exclude patterns win over include patterns; an empty include list
+ * matches every path.
+ */
+export function isInScope(url: string, origin: string, options: Pick<SiteCrawlOptions, 'include' | 'exclude'>): boolean {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return false;
+    }
+
+    if (parsed.origin !== origin) return false;
+    if (NON_HTML_EXTENSIONS.test(parsed.pathname)) return false;
+
+    const path = parsed.pathname + parsed.search;
+
+    if (options.exclude.some(pattern => matchesPathPattern(path, pattern))) {
+        return false;
+    }
+
+    if (options.include.length > 0) {
+        return options.include.some(pattern => matchesPathPattern(path, pattern));
+    }
+
+    return true;
+}
+
+/**
+ * Match a path against a glob-style pattern.
+ * `**` matches anything (including `/`), `*` matches within one segment.
+ * Patterns without a wildcard match the path and everything below it:
+ * `/blog` matches `/blog/post` but not `/blogger`.
+ */
+export function matchesPathPattern(path: string, pattern: string): boolean {
+    if (!pattern.includes('*')) {
+        if (!path.startsWith(pattern)) return false;
+        return path.length === pattern.length
+            || pattern.endsWith('/')
+            || '/?#'.includes(path[pattern.length]);
+    }
+
+    const source = pattern
+        .split('**')
+        .map(part => part
+            .split('*')
+            .map(segment => segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+            .join('[^/]*'))
+        .join('.*');
+
+    return new RegExp(`^${source}$`).test(path);
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function resolveLink(href: string, base: string): string | null {
+    if (!href) return null;
+
+    try {
+        const resolved = new URL(href, base);
+        if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') {
+            return null;
+        }
+        return normalizePageUrl(resolved.href);
+    } catch {
+        return null;
+    }
+}
+
+function normalizePageUrl(url: string): string {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.href;
+}
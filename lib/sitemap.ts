@@ -0,0 +1,285 @@
+import { gunzipSync } from 'zlib';
+import { JSDOM } from 'jsdom';
+import { requestSignal } from '@/lib/check-jobs';
+
+export interface RobotsGroup {
+    userAgents: string[];
+    allow: string[];
+    disallow: string[];
+}
+
+export interface RobotsTxt {
+    url: string;
+    statusCode: number;
+    found: boolean;
+    groups: RobotsGroup[];
+    sitemaps: string[];
+}
+
+export interface SitemapFile {
+    url: string;
+    statusCode: number;
+    type?: 'urlset' | 'sitemapindex';
+    urlCount: number;
+    gzipped: boolean;
+    error?: string;
+}
+
+export interface SitemapDiscovery {
+    robots: RobotsTxt;
+    sitemaps: SitemapFile[];
+    urls: string[];
+}
+
+export interface SitemapDiscoveryOptions {
+    maxUrls?: number;
+    maxSitemaps?: number;
+    timeoutMs?: number;
+    signal?: AbortSignal;
+}
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; HealthChecker/1.0)';
+const DEFAULT_MAX_URLS = 5000;
+const DEFAULT_MAX_SITEMAPS = 50;
+const DEFAULT_TIMEOUT_MS = 15000;
+
+/**
+ * Discover page URLs for a site from robots.txt and its sitemaps.
+ * Follows sitemap indexes and decompresses gzipped sitemaps. Falls back to
+ * `/sitemap.xml` when robots.txt does not list any sitemap.
+ * @param siteUrl - Any URL on the site; only its origin is used
+ */
+export async function discoverFromSitemaps(
+    siteUrl: string,
+    options: SitemapDiscoveryOptions = {}
+): Promise<SitemapDiscovery> {
+    const origin = new URL(siteUrl).origin;
+    const maxUrls = options.maxUrls ?? DEFAULT_MAX_URLS;
+    const maxSitemaps = options.maxSitemaps ?? DEFAULT_MAX_SITEMAPS;
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    const robots = await fetchRobotsTxt(origin, timeoutMs, options.signal);
+    const queue = robots.sitemaps.length > 0 ? [...robots.sitemaps] : [`${origin}/sitemap.xml`];
+
+    const sitemaps: SitemapFile[] = [];
+    const urls = new Set<string>();
+    const visited = new Set<string>();
+
+    while (queue.length > 0 && sitemaps.length < maxSitemaps && urls.size < maxUrls) {
+        options.signal?.throwIfAborted();
+
+        const sitemapUrl = queue.shift()!;
+        if (visited.has(sitemapUrl)) continue;
+        visited.add(sitemapUrl);
+
+        const { file, locations } = await fetchSitemap(sitemapUrl, timeoutMs, options.signal);
+        sitemaps.push(file);
+
+        if (file.type === 'sitemapindex') {
+            queue.push(...locations);
+        } else {
+            for (const location of locations) {
+                if (urls.size >= maxUrls) break;
+                urls.add(location);
+            }
+        }
+    }
+
+    console.log(`[Sitemap] Discovered ${urls.size} URLs from ${sitemaps.length} sitemap files for ${origin}`);
+
+    return { robots, sitemaps, urls: [...urls] };
+}
+
+/**
+ * Fetch and parse `/robots.txt` for an origin
+ */
+export async function fetchRobotsTxt(
+    origin: string,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    signal?: AbortSignal
+): Promise<RobotsTxt> {
+    const url = `${origin}/robots.txt`;
+
+    try {
+        const response = await fetch(url, {
+            headers: { 'User-Agent': USER_AGENT },
+            signal: requestSignal(timeoutMs, signal)
+        });
+
+        if (!response.ok) {
+            return { url, statusCode: response.status, found: false, groups: [], sitemaps: [] };
+        }
+
+        const parsed = parseRobotsTxt(await response.text(), origin);
+        return { url, statusCode: response.status, found: true, ...parsed };
+    } catch (error) {
+        signal?.throwIfAborted();
+        console.warn(`[Sitemap] Unable to fetch ${url}:`, error);
+        return { url, statusCode: 0, found: false, groups: [], sitemaps: [] };
+    }
+}
+
+/**
+ * Parse robots.txt into user-agent groups and sitemap references
+ */
+export function parseRobotsTxt(text: string, origin?: string): Pick<RobotsTxt, 'groups' | 'sitemaps'> {
+    const groups: RobotsGroup[] = [];
+    const sitemaps: string[] = [];
+    let current: RobotsGroup | null = null;
+    let lastWasUserAgent = false;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.replace(/#.*$/, '').trim();
+        const separator = line.indexOf(':');
+        if (separator === -1) continue;
+
+        const field = line.slice(0, separator).trim().toLowerCase();
+        const value = line.slice(separator + 1).trim();
+
+        if (field === 'sitemap') {
+            if (value) {
+                try {
+                    sitemaps.push(new URL(value, origin).href);
+                } catch {
+                    // Ignore malformed sitemap references
+                }
+            }
+            continue;
+        }
+
+        if (field === 'user-agent') {
+            // Consecutive user-agent lines share one group
+            if (!current || !lastWasUserAgent) {
+                current = { userAgents: [], allow: [], disallow: [] };
+                groups.push(current);
+            }
+            current.userAgents.push(value.toLowerCase());
+            lastWasUserAgent = true;
+            continue;
+        }
+
+        lastWasUserAgent = false;
+        if (!current) continue;
+
+        if (field === 'allow' && value) {
+            current.allow.push(value);
+        } else if (field === 'disallow' && value) {
+            current.disallow.push(value);
+        }
+    }
+
+    return { groups, sitemaps };
+}
+
+/**
+ * Check whether robots.txt allows crawling a URL. Uses the most specific
+ * matching user-agent group and the longest matching rule, with Allow
+ * winning ties (RFC 9309).
+ */
+export function isAllowedByRobots(robots: Pick<RobotsTxt, 'groups'>, url: string, userAgent = '*'): boolean {
+    const agent = userAgent.toLowerCase();
+    const group = robots.groups.find(g => g.userAgents.some(ua => ua !== '*' && agent.includes(ua)))
+        || robots.groups.find(g => g.userAgents.includes('*'));
+
+    if (!group) return true;
+
+    const parsed = new URL(url);
+    const path = parsed.pathname + parsed.search;
+
+    let bestLength = -1;
+    let allowed = true;
+
+    for (const rule of group.allow) {
+        if (robotsPatternMatches(path, rule) && rule.length >= bestLength) {
+            bestLength = rule.length;
+            allowed = true;
+        }
+    }
+
+    for (const rule of group.disallow) {
+        if (robotsPatternMatches(path, rule) && rule.length > bestLength) {
+            bestLength = rule.length;
+            allowed = false;
+        }
+    }
+
+    return allowed;
+}
+
+/**
+ * Parse a sitemap or sitemap index document
+ */
+export function parseSitemapXml(xml: string): { type?: 'urlset' | 'sitemapindex'; locations: string[] } {
+    const dom = new JSDOM(xml, { contentType: 'text/xml' });
+    const document = dom.window.document;
+    const rootName = document.documentElement?.localName;
+
+    const type = rootName === 'sitemapindex' ? 'sitemapindex' : rootName === 'urlset' ? 'urlset' : undefined;
+    const locations = Array.from(document.getElementsByTagNameNS('*', 'loc'))
+        .map(loc => loc.textContent?.trim() || '')
+        .filter(Boolean);
+
+    dom.window.close();
+
+    return { type, locations };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+async function fetchSitemap(
+    url: string,
+    timeoutMs: number,
+    signal?: AbortSignal
+): Promise<{ file: SitemapFile; locations: string[] }> {
+    const file: SitemapFile = { url, statusCode: 0, urlCount: 0, gzipped: false };
+
+    try {
+        const response = await fetch(url, {
+            headers: { 'User-Agent': USER_AGENT },
+            signal: requestSignal(timeoutMs, signal)
+        });
+        file.statusCode = response.status;
+
+        if (!response.ok) {
+            file.error = `HTTP ${response.status}`;
+            return { file, locations: [] };
+        }
+
+        let body: Buffer = Buffer.from(await response.arrayBuffer());
+
+        // fetch transparently handles Content-Encoding: gzip, but .xml.gz files
+        // are served as application/x-gzip and arrive still compressed
+        if (body[0] === 0x1f && body[1] === 0x8b) {
+            body = gunzipSync(body);
+            file.gzipped = true;
+        }
+
+        const { type, locations } = parseSitemapXml(body.toString('utf-8'));
+
+        if (!type) {
+            file.error = 'Not a valid sitemap document';
+            return { file, locations: [] };
+        }
+
+        file.type = type;
+        file.urlCount = locations.length;
+        return { file, locations };
+    } catch (error) {
+        signal?.throwIfAborted();
+        console.warn(`[Sitemap] Unable to read ${url}:`, error);
+        file.error = error instanceof Error ? error.message : 'Unable to read sitemap';
+        return { file, locations: [] };
+    }
+}
+
+function robotsPatternMatches(path: string, rule: string): boolean {
+    const anchored = rule.endsWith('$');
+    const source = (anchored ? rule.slice(0, -1) : rule)
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+
+    return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+}
@@ -0,0 +1,152 @@
+import { afterEach, describe, it, expect } from '@jest/globals';
+import { validateContrast } from '@/app/actions/validate/contrast';
+import { analyzeContrast } from '../contrast';
+import { CSS_NAMED_COLORS, colorToHex, compositeColors, parseCssColor } from '../css-colors';
+
+function page(head: string, body: string): string {
+    return `<!DOCTYPE html><html><head>${head}</head><body>${body}</body></html>`;
+}
+
+describe('Contrast Validator', () => {
+    describe('parseCssColor', () => {
+        it('should parse legacy and modern rgb() and hsl()', () => {
+            expect(parseCssColor('rgba(255, 0, 0, 0.5)')).toEqual({ r: 255, g: 0, b: 0, a: 0.5 });
+            expect(parseCssColor('rgb(255 0 0 / 50%)')).toEqual({ r: 255, g: 0, b: 0, a: 0.5 });
+            expect(parseCssColor('rgb(100% 0% 0%)')).toEqual({ r: 255, g: 0, b: 0, a: 1 });
+            expect(colorToHex(parseCssColor('hsl(120, 100%, 25%)')!)).toBe('#008000');
+            expect(colorToHex(parseCssColor('hsl(0.5turn 100% 50% / .5)')!)).toBe('#00ffff');
+        });
+
+        it('should parse short and alpha hex and every named color', () => {
+            expect(parseCssColor('#f008')).toMatchObject({ r: 255, g: 0, b: 0 });
+            expect(parseCssColor('#0000ff80')!.a).toBeCloseTo(0.5);
+            expect(Object.keys(CSS_NAMED_COLORS)).toHaveLength(148);
+            expect(colorToHex(parseCssColor('RebeccaPurple')!)).toBe('#663399');
+        });
+
+        it('should reject colors it cannot evaluate', () => {
+            expect(parseCssColor('color-mix(in srgb, red, blue)')).toBeNull();
+            expect(parseCssColor('rgb(255 0)')).toBeNull();
+            expect(parseCssColor('currentcolor')).toBeNull();
+        });
+
+        it('should composite semi-transparent colors', () => {
+            const gray = compositeColors({ r: 0, g: 0, b: 0, a: 0.5 }, { r: 255, g: 255, b: 255, a: 1 });
+            expect(colorToHex(gray)).toBe('#808080');
+        });
+    });
+
+    describe('analyzeContrast', () => {
+        const realFetch = globalThis.fetch;
+
+        afterEach(() => {
+            globalThis.fetch = realFetch;
+        });
+
+        it('should use the nearest painted ancestor for transparent backgrounds', async () => {
+            const issues = await analyzeContrast(page('', '<div style="background: #000"><section><p style="color: #333">Dark on dark</p></section></div>'));
+
+            expect(issues).toHaveLength(1);
+            expect(issues[0]).toMatchObject({ type: 'error', foreground: '#333333', background: '#000000' });
+        });
+
+        it('should composite semi-transparent backgrounds and text', async () => {
+            const issues = await analyzeContrast(page('', `
+                <div style="background: rgb(0 0 0 / 50%)"><p style="color: white">Overlay caption</p></div>
+                <p style="color: hsl(0 0% 0% / 0.3)">Faded text</p>
+            `));
+
+            expect(issues.map(issue => [issue.foreground, issue.background])).toEqual([
+                ['#ffffff', '#808080'],
+                ['#b3b3b3', '#ffffff']
+            ]);
+        });
+
+        it('should resolve the cascade, inheritance and custom properties', async () => {
+            const issues = await analyzeContrast(page(`
+                <style>
+                    :root { --muted: hsl(0 0% 60%); --ink: var(--missing, #111) }
+                    body { color: var(--muted) }
+                    #main p { color: lightgray }
+                    p.lead { color: var(--ink) }
+                    .forced { color: var(--ink) !important }
+                    @media print { .print { color: #eee } }
+                </style>
+            `, `
+                <p>Inherited muted text</p>
+                <div id="main"><p class="lead">Id selector wins</p></div>
+                <p class="lead">Class selector wins</p>
+                <p class="forced print" style="color: #ccc">Important wins</p>
+            `));
+
+            expect(issues.map(issue => issue.foreground)).toEqual(['#999999', '#d3d3d3']);
+        });
+
+        it('should load linked and imported stylesheets', async () => {
+            const requested: string[] = [];
+            globalThis.fetch = (async (input: string | URL | Request) => {
+                const url = String(input);
+                requested.push(url);
+                if (url.endsWith('/css/site.css')) return new Response('@import "theme.css"; .card { background: var(--surface) }');
+                if (url.endsWith('/css/theme.css')) return new Response(':root { --surface: #666 }');
+                return new Response('', { status: 404 });
+            }) as typeof fetch;
+
+            const issues = await analyzeContrast(
+                page('<link rel="stylesheet" href="/css/site.css"><link rel="stylesheet" href="missing.css">', '<div class="card">Text on gray card</div>'),
+                'https://example.com/docs/'
+            );
+
+            expect(requested).toContain('https://example.com/css/theme.css');
+            expect(issues[0]).toMatchObject({ type: 'warning', foreground: '#000000', background: '#666666' });
+            expect(issues[1]).toMatchObject({ type: 'info' });
+            expect(issues[1].message).toContain('https://example.com/docs/missing.css: HTTP 404');
+        });
+
+        it('should apply the large text threshold and skip hidden text', async () => {
+            const issues = await analyzeContrast(page('<style>.subtle { color: #888 } .gone { display: none }</style>', `
+                <h1 class="subtle">Large heading</h1>
+                <p class="subtle" style="font: bold 1.25rem/1.4 sans-serif">Large bold text</p>
+                <p class="subtle">Body text</p>
+                <div class="gone"><p class="subtle">Hidden text</p></div>
+                <p class="subtle" hidden>Hidden text</p>
+            `));
+
+            expect(issues).toHaveLength(1);
+            expect(issues[0].message).toBe('P text has contrast ratio 3.5:1, below AA standard (4.5:1)');
+        });
+
+        it('should not guess at text over background images', async () => {
+            const issues = await analyzeContrast(page('', '<header style="background: #fff url(hero.jpg) center/cover"><h2 style="color: #ddd">Hero title</h2></header>'));
+
+            expect(issues).toEqual([{
+                type: 'info',
+                message: '1 text element over background images or gradients not checked - review manually'
+            }]);
+        });
+    });
+
+    describe('validateContrast', () => {
+        const realFetch = globalThis.fetch;
+        const env = { ...process.env };
+
+        afterEach(() => {
+            globalThis.fetch = realFetch;
+            process.env = { ...env };
+        });
+
+        it('should report contrast from linked stylesheets and custom properties without Chromium', async () => {
+            delete process.env.CHROMIUM_PATH;
+            globalThis.fetch = (async () => new Response('h1 { color: #eee }')) as typeof fetch;
+
+            const result = await validateContrast('https://example.com/', page(
+                '<link rel="stylesheet" href="/site.css"><style>:root { --faint: #ddd } p { color: var(--faint) }</style>',
+                '<h1>Welcome</h1><p>Body copy</p>'
+            ));
+
+            expect(result).toMatchObject({ status: 'error', dataSource: 'Local Analysis' });
+            expect(result.score).toBeLessThan(100);
+            expect(result.details?.map(detail => detail.element)).toEqual(['<h1>', '<p>']);
+        });
+    });
+});
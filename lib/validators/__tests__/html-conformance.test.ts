@@ -0,0 +1,108 @@
+import { describe, it, expect } from '@jest/globals';
+import { validateHTMLOffline } from '../html-conformance';
+
+function page(body: string, head = '<title>Test</title>'): string {
+    return `<!DOCTYPE html>\n<html lang="en">\n<head>${head}</head>\n<body class="home">\n${body}\n</body>\n</html>`;
+}
+
+function messages(html: string): string[] {
+    return validateHTMLOffline(html).map(error => error.message);
+}
+
+describe('Offline HTML Validator', () => {
+    it('should accept a conforming page with attributes on body and head', () => {
+        expect(validateHTMLOffline(page('<main><p>Hello<br>world</p><img src="a.png" alt=""></main>', '<meta charset="utf-8"><title>Test</title>'))).toEqual([]);
+    });
+
+    it('should report parse errors with positions and extracts', () => {
+        const [error] = validateHTMLOffline('<html lang="en"><head><title>t</title></head><body></body></html>');
+
+        expect(error).toMatchObject({ type: 'error', line: 1, column: 1 });
+        expect(error.message).toContain('DOCTYPE');
+    });
+
+    it('should report nested links and forms the parser repairs', () => {
+        const found = messages(page('<form><form></form></form>\n<a href="/a">one <a href="/b">two</a></a>'));
+
+        expect(found.filter(message => message.includes('Nested forms'))).toHaveLength(1);
+        expect(found.filter(message => message.includes('links must not be nested'))).toHaveLength(1);
+        expect(found).toContain('Stray end tag “form”.');
+        expect(found).toContain('Stray end tag “a”.');
+    });
+
+    it('should report misnested and unclosed elements', () => {
+        const errors = validateHTMLOffline(page('<b><i>text</b></i>\n<div>open'));
+
+        expect(errors.map(error => error.message)).toEqual([
+            'Unclosed element “i”.',
+            'End tag “b” seen, but there were open elements.',
+            'Stray end tag “i”.',
+            'Unclosed element “div”.',
+            'End tag “body” seen, but there were open elements.'
+        ]);
+        expect(errors[0]).toMatchObject({ line: 5, column: 4, endColumn: 6 });
+        expect(errors[0].extract!.substr(errors[0].highlightStart!, errors[0].highlightLength!)).toBe('<i>');
+    });
+
+    it('should not report optional end tags, void elements or markup inside scripts', () => {
+        const html = page('<ul><li>one<li>two</ul>\n<table><tr><td>cell</table>\n<p>para\n<script>if (a < b) document.write("<div>");</script>');
+
+        expect(validateHTMLOffline(html)).toEqual([]);
+    });
+
+    it('should report a p end tag after a block closed the paragraph', () => {
+        expect(messages(page('<p>text <div>block</div></p>'))).toEqual(['No “p” element in scope but a “p” end tag seen.']);
+    });
+
+    it('should report block content inside phrasing content', () => {
+        expect(messages(page('<span><a href="/"><div>x</div></a></span>'))).toEqual([
+            'Element “div” not allowed as child of element “span” in this context.'
+        ]);
+        expect(messages(page('<a href="/"><button>Go</button></a>'))).toEqual([
+            'The element “button” must not appear as a descendant of the “a” element.'
+        ]);
+    });
+
+    it('should report duplicate ids at the repeated attribute', () => {
+        const [error] = validateHTMLOffline(page('<div id="main"></div>\n<section id="main"></section>'));
+
+        expect(error).toMatchObject({ message: 'Duplicate ID “main”; first used on line 5.', line: 6, column: 10 });
+    });
+
+    it('should report obsolete elements and attributes', () => {
+        expect(messages(page('<center>Title</center>\n<table cellpadding="2"><tr><td>x</td></tr></table>'))).toEqual([
+            'The “center” element is obsolete. Use CSS instead.',
+            'The “cellpadding” attribute on the “table” element is obsolete. Use CSS instead.'
+        ]);
+    });
+
+    it('should report missing required attributes', () => {
+        const found = messages(page('<img src="a.png">\n<img alt="">\n<optgroup></optgroup>', '<title>t</title><link href="a.css">'));
+
+        expect(found).toEqual([
+            'A “link” element must have a “rel” or “itemprop” attribute.',
+            'An “img” element must have an “alt” attribute, except under certain conditions. For details, consult guidance on providing text alternatives for images.',
+            'Element “img” is missing required attribute “src”.',
+            'Element “optgroup” is missing required attribute “label”.'
+        ]);
+    });
+
+    it('should report invalid attribute values', () => {
+        const found = messages(page('<input type="txt">\n<img src="a.png" alt="" width="100%">\n<a href="/" target="_new" tabindex="first">x</a>'));
+
+        expect(found).toHaveLength(4);
+        expect(found[0]).toContain('Bad value “txt” for attribute “type” on element “input”');
+        expect(found[1]).toContain('Bad value “100%” for attribute “width” on element “img”');
+        expect(found.some(message => message.includes('“_new”'))).toBe(true);
+        expect(found.some(message => message.includes('“first” for attribute “tabindex”'))).toBe(true);
+    });
+
+    it('should report a missing title and lang', () => {
+        const errors = validateHTMLOffline('<!DOCTYPE html><html><head></head><body></body></html>');
+
+        expect(errors.map(error => [error.type, error.message])).toEqual([
+            ['warning', 'Consider adding a “lang” attribute to the “html” start tag to declare the language of this document.'],
+            ['error', 'Element “head” is missing a required instance of child element “title”.']
+        ]);
+    });
+});
@@ -0,0 +1,180 @@
+import { afterEach, describe, it, expect } from '@jest/globals';
+import {
+    calculateMarkupScore,
+    getMarkupValidatorConfig,
+    getRetryDelay,
+    getValidatorName,
+    isRetryableStatus,
+    parseW3CResponse,
+    validateMarkup
+} from '../markup';
+
+// Trimmed from https://validator.w3.org/nu/?out=json
+const NU_RESPONSE = JSON.stringify({
+    url: 'https://example.com/',
+    messages: [
+        {
+            type: 'error',
+            lastLine: 12,
+            lastColumn: 35,
+            firstColumn: 5,
+            message: 'An “img” element must have an “alt” attribute, except under certain conditions.',
+            extract: '>\n    <img src="hero.png" width="20">\n  </',
+            hiliteStart: 6,
+            hiliteLength: 31
+        },
+        {
+            type: 'info',
+            subType: 'warning',
+            firstLine: 3,
+            lastLine: 4,
+            firstColumn: 1,
+            lastColumn: 14,
+            message: 'Consider adding a “lang” attribute to the “html” start tag.',
+            extract: '>\n<html\n  class="no-js">\n<hea',
+            hiliteStart: 2,
+            hiliteLength: 22
+        },
+        {
+            type: 'info',
+            lastLine: 8,
+            lastColumn: 22,
+            firstColumn: 1,
+            message: 'Trailing slash on void elements has no effect.',
+            extract: '<br />'
+        },
+        {
+            type: 'error',
+            subType: 'fatal',
+            lastLine: 40,
+            lastColumn: 7,
+            firstColumn: 1,
+            message: 'Cannot recover after last error. Any further errors will be ignored.'
+        }
+    ]
+});
+
+describe('Markup Validator', () => {
+    describe('parseW3CResponse', () => {
+        it('should keep positions, subtypes and source extracts', () => {
+            const [error, warning, info, fatal] = parseW3CResponse(NU_RESPONSE)!;
+
+            expect(error).toEqual({
+                type: 'error',
+                message: 'An “img” element must have an “alt” attribute, except under certain conditions.',
+                line: 12,
+                column: 5,
+                endLine: 12,
+                endColumn: 35,
+                extract: '>\n    <img src="hero.png" width="20">\n  </',
+                highlightStart: 6,
+                highlightLength: 31
+            });
+            expect(error.extract!.substr(error.highlightStart!, error.highlightLength!)).toBe('<img src="hero.png" width="20">');
+            expect(warning).toMatchObject({ type: 'warning', subType: 'warning', line: 3, column: 1, endLine: 4, endColumn: 14 });
+            expect(info).toMatchObject({ type: 'info', line: 8, extract: '<br />' });
+            expect(info.highlightStart).toBeUndefined();
+            expect(fatal).toMatchObject({ type: 'error', subType: 'fatal', line: 40 });
+        });
+
+        it('should place single-point messages at their last line and column', () => {
+            const response = JSON.stringify({
+                messages: [{
+                    type: 'error',
+                    lastLine: 5,
+                    lastColumn: 9,
+                    message: 'Bad character “ ” after “<”. Probably cause: Unescaped “<”. Try escaping it as “&lt;”.',
+                    extract: '<p>1 < 2</p>',
+                    hiliteStart: 5,
+                    hiliteLength: 1
+                }]
+            });
+
+            expect(parseW3CResponse(response)![0]).toMatchObject({ line: 5, column: 9, endLine: 5, endColumn: 9 });
+        });
+
+        it('should treat an empty messages array as valid markup', () => {
+            expect(parseW3CResponse('{"url":"https://example.com/","messages":[]}')).toEqual([]);
+        });
+
+        it('should reject output that is not Nu JSON', () => {
+            expect(parseW3CResponse('<!DOCTYPE html><p>Error: something</p>')).toBeNull();
+            expect(parseW3CResponse('{"url":"https://example.com/"}')).toBeNull();
+        });
+
+        it('should reject results when the validator could not check the document', () => {
+            const response = JSON.stringify({
+                messages: [{ type: 'non-document-error', subType: 'io', message: 'HTTP resource not retrievable.' }]
+            });
+
+            expect(parseW3CResponse(response)).toBeNull();
+        });
+    });
+
+    describe('calculateMarkupScore', () => {
+        it('should not penalize info messages', () => {
+            expect(calculateMarkupScore(parseW3CResponse(NU_RESPONSE)!)).toBe(100 - 2 * 8 - 3);
+        });
+    });
+
+    describe('getMarkupValidatorConfig', () => {
+        const env = { ...process.env };
+
+        afterEach(() => {
+            process.env = { ...env };
+        });
+
+        it('should default to the public W3C validator', () => {
+            delete process.env.MARKUP_VALIDATOR_URL;
+            delete process.env.MARKUP_VALIDATOR_RETRIES;
+
+            expect(getMarkupValidatorConfig()).toEqual({ url: 'https://validator.w3.org/nu/', retries: 2, timeoutMs: 30000 });
+        });
+
+        it('should use a self-hosted validator', () => {
+            process.env.MARKUP_VALIDATOR_URL = ' http://vnu:8888 ';
+            process.env.MARKUP_VALIDATOR_RETRIES = '0';
+
+            expect(getMarkupValidatorConfig()).toMatchObject({ url: 'http://vnu:8888/', retries: 0 });
+            expect(getValidatorName('http://vnu:8888/')).toBe('Nu Validator (vnu:8888)');
+            expect(getValidatorName('https://validator.w3.org/nu/')).toBe('W3C Nu Validator');
+        });
+
+        it('should never fall back to the public validator for an invalid URL', () => {
+            process.env.MARKUP_VALIDATOR_URL = 'vnu:8888';
+            expect(getMarkupValidatorConfig().url).toBeNull();
+
+            process.env.MARKUP_VALIDATOR_URL = 'not a url';
+            expect(getMarkupValidatorConfig().url).toBeNull();
+        });
+
+        it('should run the offline validator only when turned off', async () => {
+            process.env.MARKUP_VALIDATOR_URL = 'off';
+
+            const result = await validateMarkup('<html><head></head><body></body></html>');
+
+            expect(result.dataSource).toBe('Local Analysis');
+            expect(result.fallbackReason).toBeUndefined();
+            expect(result.errors.some(error => error.message.startsWith('Missing DOCTYPE declaration'))).toBe(true);
+        });
+    });
+
+    describe('retry policy', () => {
+        it('should back off exponentially up to a cap', () => {
+            expect([0, 1, 2, 3, 4, 5].map(attempt => getRetryDelay(attempt))).toEqual([500, 1000, 2000, 4000, 8000, 8000]);
+        });
+
+        it('should honor Retry-After seconds', () => {
+            expect(getRetryDelay(0, '3')).toBe(3000);
+            expect(getRetryDelay(0, '120')).toBe(8000);
+            expect(getRetryDelay(1, 'Wed, 21 Oct 2015 07:28:00 GMT')).toBe(1000);
+        });
+
+        it('should retry rate limiting and server errors only', () => {
+            expect(isRetryableStatus(429)).toBe(true);
+            expect(isRetryableStatus(503)).toBe(true);
+            expect(isRetryableStatus(400)).toBe(false);
+            expect(isRetryableStatus(404)).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,215 @@
+import { afterEach, describe, it, expect } from '@jest/globals';
+import {
+    analyzeRedirects,
+    calculateRedirectScore,
+    generateRedirectRecommendations,
+    traceRedirects,
+    type RedirectIssue
+} from '../redirects';
+
+type Route = { status: number; location?: string };
+
+/**
+ * Answer requests from a fixed set of routes; any other URL is unreachable
+ * so the HTTP and www variant probes find nothing
+ */
+function stubFetch(routes: Record<string, Route>): string[] {
+    const requested: string[] = [];
+    globalThis.fetch = (async (input: string | URL | Request) => {
+        const url = String(input);
+        requested.push(url);
+        const route = routes[url];
+        if (!route) throw new TypeError('fetch failed');
+        return new Response(null, {
+            status: route.status,
+            headers: route.location ? { location: route.location } : {}
+        });
+    }) as typeof fetch;
+    return requested;
+}
+
+describe('Redirect Validator', () => {
+    const realFetch = globalThis.fetch;
+
+    afterEach(() => {
+        globalThis.fetch = realFetch;
+    });
+
+    describe('traceRedirects', () => {
+        it('should record each hop and resolve relative locations', async () => {
+            stubFetch({
+                'https://example.com/old': { status: 301, location: '/new' },
+                'https://example.com/new': { status: 200 }
+            });
+
+            const trace = await traceRedirects('https://example.com/old');
+
+            expect(trace.hops.map(hop => [hop.url, hop.statusCode, hop.location])).toEqual([
+                ['https://example.com/old', 301, '/new'],
+                ['https://example.com/new', 200, undefined]
+            ]);
+            expect(trace).toMatchObject({ finalUrl: 'https://example.com/new', finalStatus: 200, loop: false });
+        });
+
+        it('should stop at a URL it has already visited', async () => {
+            const requested = stubFetch({
+                'https://example.com/a': { status: 302, location: 'https://example.com/b' },
+                'https://example.com/b': { status: 302, location: 'https://example.com/a' }
+            });
+
+            const trace = await traceRedirects('https://example.com/a');
+
+            expect(trace).toMatchObject({ finalUrl: 'https://example.com/a', loop: true });
+            expect(requested).toEqual(['https://example.com/a', 'https://example.com/b']);
+        });
+    });
+
+    describe('analyzeRedirects', () => {
+        it('should report redirect loops', async () => {
+            stubFetch({
+                'https://example.com/a': { status: 301, location: '/b' },
+                'https://example.com/b': { status: 301, location: '/a' }
+            });
+
+            const { issues } = await analyzeRedirects('https://example.com/a');
+
+            expect(issues).toEqual([expect.objectContaining({ category: 'loop', severity: 'high' })]);
+        });
+
+        it('should flag chains longer than 2 hops', async () => {
+            stubFetch({
+                'https://example.com/1': { status: 301, location: '/2' },
+                'https://example.com/2': { status: 301, location: '/3' },
+                'https://example.com/3': { status: 301, location: '/4' },
+                'https://example.com/4': { status: 200 }
+            });
+
+            expect((await analyzeRedirects('https://example.com/1')).issues).toEqual([{
+                type: 'warning',
+                message: 'Redirect chain has 3 hops - more than 2 slows down users and crawlers',
+                severity: 'medium',
+                category: 'chain'
+            }]);
+            expect((await analyzeRedirects('https://example.com/2')).issues).toEqual([]);
+        });
+
+        it('should treat a 302 on a canonical URL as a misused permanent redirect', async () => {
+            stubFetch({
+                'https://example.com/docs': { status: 302, location: '/docs/' },
+                'https://example.com/docs/': { status: 200 },
+                'https://example.com/sale': { status: 302, location: '/summer-sale' },
+                'https://example.com/summer-sale': { status: 200 }
+            });
+
+            expect((await analyzeRedirects('https://example.com/docs')).issues).toEqual([{
+                type: 'warning',
+                message: '302 used for a permanent canonical redirect (https://example.com/docs → https://example.com/docs/) - should be 301',
+                severity: 'medium',
+                category: 'status'
+            }]);
+            expect((await analyzeRedirects('https://example.com/sale')).issues).toEqual([
+                expect.objectContaining({ severity: 'low', category: 'status' })
+            ]);
+        });
+
+        it('should report redirects from HTTPS to HTTP', async () => {
+            stubFetch({
+                'https://example.com/': { status: 301, location: 'http://example.com/landing' },
+                'http://example.com/landing': { status: 200 }
+            });
+
+            const { issues } = await analyzeRedirects('https://example.com/');
+
+            expect(issues.map(issue => issue.message)).toEqual([
+                'Redirect downgrades HTTPS to HTTP (https://example.com/ → http://example.com/landing)',
+                'Page is served over plain HTTP (http://example.com/landing) and never reaches HTTPS'
+            ]);
+        });
+
+        it('should report an HTTP variant that stays on HTTP', async () => {
+            stubFetch({
+                'https://example.com/': { status: 200 },
+                'http://example.com/': { status: 200 }
+            });
+
+            expect((await analyzeRedirects('https://example.com/')).issues).toEqual([
+                expect.objectContaining({ message: 'HTTP version http://example.com/ does not redirect to HTTPS', category: 'https' })
+            ]);
+        });
+
+        it('should not require HTTPS for local and intranet hosts', async () => {
+            const urls = ['http://localhost:3000/', 'http://127.0.0.1:8080/', 'http://[::1]:8080/', 'http://staging/'];
+            const requested = stubFetch(Object.fromEntries(urls.map(url => [url, { status: 200 }])));
+
+            for (const url of urls) {
+                expect((await analyzeRedirects(url)).issues).toEqual([]);
+            }
+            expect(requested).toEqual(urls);
+        });
+
+        it('should require www and non-www to end on one host', async () => {
+            stubFetch({
+                'https://example.com/': { status: 200 },
+                'https://www.example.com/': { status: 200 }
+            });
+
+            expect((await analyzeRedirects('https://example.com/')).issues).toEqual([{
+                type: 'warning',
+                message: 'example.com and www.example.com both serve content without redirecting to one canonical host',
+                severity: 'medium',
+                category: 'host'
+            }]);
+
+            stubFetch({
+                'https://example.com/': { status: 200 },
+                'https://www.example.com/': { status: 301, location: 'https://example.com/' }
+            });
+
+            expect((await analyzeRedirects('https://example.com/')).issues).toEqual([]);
+        });
+    });
+
+    describe('calculateRedirectScore', () => {
+        it('should return 100 for no issues', () => {
+            expect(calculateRedirectScore([])).toBe(100);
+        });
+
+        it('should weight issues by severity', () => {
+            const issues: RedirectIssue[] = [
+                { type: 'error', message: 'Test', severity: 'high' },
+                { type: 'warning', message: 'Test', severity: 'medium' },
+                { type: 'warning', message: 'Test', severity: 'low' }
+            ];
+            expect(calculateRedirectScore(issues)).toBe(60); // 100 - 25 - 10 - 5
+        });
+
+        it('should not go below 0', () => {
+            const issues: RedirectIssue[] = Array(10).fill({ type: 'error', message: 'Test', severity: 'high' });
+            expect(calculateRedirectScore(issues)).toBe(0);
+        });
+    });
+
+    describe('generateRedirectRecommendations', () => {
+        it('should recommend 301s for temporary redirects', () => {
+            const issues: RedirectIssue[] = [
+                { type: 'warning', message: '302 temporary redirect from http://a', severity: 'low', category: 'status' }
+            ];
+            expect(generateRedirectRecommendations(issues)).toContainEqual(
+                expect.stringContaining('301/308')
+            );
+        });
+
+        it('should recommend a canonical host for www inconsistencies', () => {
+            const issues: RedirectIssue[] = [
+                { type: 'warning', message: 'Both hosts serve content', severity: 'medium', category: 'host' }
+            ];
+            expect(generateRedirectRecommendations(issues)).toContainEqual(
+                expect.stringContaining('canonical host')
+            );
+        });
+
+        it('should return empty array for no issues', () => {
+            expect(generateRedirectRecommendations([])).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,88 @@
+import { afterEach, describe, it, expect } from '@jest/globals';
+import { evaluateRenderedText, getRenderingConfig, type RenderedText } from '../rendered-contrast';
+
+function text(overrides: Partial<RenderedText>): RenderedText {
+    return {
+        selector: 'main > p:nth-of-type(2)',
+        tagName: 'p',
+        color: 'rgb(119, 119, 119)',
+        opacity: 1,
+        fontSize: 16,
+        fontWeight: 400,
+        boundingBox: { x: 24, y: 310, width: 640, height: 24 },
+        backgroundSamples: Array(20).fill(0xffffff),
+        ...overrides
+    };
+}
+
+describe('Rendered Contrast', () => {
+    describe('evaluateRenderedText', () => {
+        it('should report the selector and where the text is drawn', () => {
+            const issues = evaluateRenderedText([text({ color: 'rgb(153, 153, 153)' })]);
+
+            expect(issues).toEqual([{
+                type: 'error',
+                message: 'P text has contrast ratio 2.8:1, below AA standard (4.5:1)',
+                element: '<p>',
+                contrast: issues[0].contrast,
+                foreground: '#999999',
+                background: '#ffffff',
+                selector: 'main > p:nth-of-type(2)',
+                boundingBox: { x: 24, y: 310, width: 640, height: 24 }
+            }]);
+        });
+
+        it('should judge text over images by the darker part of its background', () => {
+            // White text, mostly over a dark photo with a light patch
+            const backgroundSamples = [...Array(16).fill(0x202020), ...Array(4).fill(0xe0e0e0)];
+            const [issue] = evaluateRenderedText([text({ color: 'rgb(255, 255, 255)', backgroundSamples })]);
+
+            expect(issue).toMatchObject({ type: 'error', background: '#e0e0e0' });
+
+            // A few stray light pixels don't decide
+            const mostlyDark = [...Array(19).fill(0x202020), 0xe0e0e0];
+            expect(evaluateRenderedText([text({ color: 'rgb(255, 255, 255)', backgroundSamples: mostlyDark })])).toEqual([]);
+        });
+
+        it('should blend translucent text and faded elements with the background', () => {
+            const [issue] = evaluateRenderedText([text({ color: 'rgba(0, 0, 0, 0.7)', opacity: 0.5 })]);
+
+            expect(issue).toMatchObject({ foreground: '#a6a6a6', background: '#ffffff' });
+        });
+
+        it('should apply the large text threshold', () => {
+            const heading = text({ tagName: 'h2', color: 'rgb(136, 136, 136)', fontSize: 19, fontWeight: 700 });
+
+            expect(evaluateRenderedText([heading])).toEqual([]);
+            expect(evaluateRenderedText([{ ...heading, fontWeight: 400 }])).toHaveLength(1);
+        });
+
+        it('should skip text it cannot measure', () => {
+            expect(evaluateRenderedText([
+                text({ color: 'rgba(0, 0, 0, 0)' }),
+                text({ color: 'oklch(0.7 0.1 200)' }),
+                text({ backgroundSamples: [] })
+            ])).toEqual([]);
+        });
+    });
+
+    describe('getRenderingConfig', () => {
+        const env = { ...process.env };
+
+        afterEach(() => {
+            process.env = { ...env };
+        });
+
+        it('should be off unless a Chromium executable is configured', () => {
+            delete process.env.CHROMIUM_PATH;
+            expect(getRenderingConfig().executablePath).toBeNull();
+
+            process.env.CHROMIUM_PATH = ' /usr/bin/chromium ';
+            process.env.CHROMIUM_ARGS = '--no-sandbox  --disable-dev-shm-usage';
+            expect(getRenderingConfig()).toEqual({
+                executablePath: '/usr/bin/chromium',
+                args: ['--no-sandbox', '--disable-dev-shm-usage']
+            });
+        });
+    });
+});
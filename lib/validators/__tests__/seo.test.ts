@@ -0,0 +1,60 @@
+import { afterEach, describe, it, expect } from '@jest/globals';
+import { analyzeSiteFiles } from '../seo';
+
+/** Serve a fixed set of files; anything else is a 404 */
+function stubFetch(files: Record<string, string>): void {
+    globalThis.fetch = (async (input: string | URL | Request) => {
+        const body = files[String(input)];
+        return body === undefined ? new Response('', { status: 404 }) : new Response(body);
+    }) as typeof fetch;
+}
+
+const URLSET = `<urlset>
+    <url><loc>https://example.com/</loc></url>
+</urlset>`;
+
+describe('SEO Validator', () => {
+    describe('analyzeSiteFiles', () => {
+        const realFetch = globalThis.fetch;
+
+        afterEach(() => {
+            globalThis.fetch = realFetch;
+        });
+
+        it('should report a missing default sitemap once', async () => {
+            stubFetch({ 'https://example.com/robots.txt': 'User-agent: *\nDisallow: /admin' });
+
+            expect(await analyzeSiteFiles('https://example.com/')).toEqual([{
+                type: 'error',
+                message: 'No sitemap.xml found and none referenced in robots.txt',
+                element: 'sitemap.xml',
+                priority: 'medium',
+                category: 'indexing'
+            }]);
+        });
+
+        it('should name each unreadable sitemap that robots.txt references', async () => {
+            stubFetch({
+                'https://example.com/robots.txt': 'User-agent: *\nSitemap: https://example.com/pages.xml\nSitemap: https://example.com/news.xml',
+                'https://example.com/pages.xml': URLSET,
+                'https://example.com/': '<html></html>'
+            });
+
+            expect((await analyzeSiteFiles('https://example.com/')).map(issue => issue.message)).toEqual([
+                'Sitemap https://example.com/news.xml could not be read (HTTP 404)'
+            ]);
+        });
+
+        it('should suggest referencing a working default sitemap in robots.txt', async () => {
+            stubFetch({
+                'https://example.com/robots.txt': 'User-agent: *\nDisallow:',
+                'https://example.com/sitemap.xml': URLSET,
+                'https://example.com/': '<html></html>'
+            });
+
+            expect(await analyzeSiteFiles('https://example.com/')).toEqual([
+                expect.objectContaining({ type: 'info', element: 'robots.txt' })
+            ]);
+        });
+    });
+});
@@ -1,4 +1,12 @@
-import { JSDOM } from 'jsdom';
+import { rethrowIfAborted } from '@/lib/check-jobs';
+import type { BoundingBox } from '@/types/crawl';
+import { colorToHex, compositeColors, WHITE, type RGBA } from './css-colors';
+import {
+    createStyledDocument,
+    createStyleResolver,
+    loadStylesheets,
+    type ResolvedStyle
+} from './css-cascade';
 
 export interface ContrastIssue {
     type: string;
@@ -7,58 +15,83 @@ export interface ContrastIssue {
     contrast?: number;
     foreground?: string;
     background?: string;
+    /** CSS selector of the element, when analyzed in a rendered page */
+    selector?: string;
+    /** Where the text is drawn, when analyzed in a rendered page */
+    boundingBox?: BoundingBox;
 }
 
+/** Text shorter than this is skipped (icons, separators) */
+export const MIN_TEXT_LENGTH = 3;
+
+/** Elements whose text isn't drawn with the CSS color property */
+const SKIPPED_ELEMENTS = new Set(['svg', 'math', 'canvas', 'iframe', 'object', 'video', 'audio']);
+
 /**
- * Analyze color contrast in HTML
+ * Analyze color contrast in HTML. Linked stylesheets are loaded relative
+ * to `url`; the colors of each text element are resolved through the
+ * cascade and composited over the backgrounds painted behind it.
+ *
+ * @param url - Page URL, used to resolve stylesheet links
+ * @param signal - Aborts the stylesheet requests
  */
-export async function analyzeContrast(html: string): Promise<ContrastIssue[]> {
+export async function analyzeContrast(html: string, url?: string, signal?: AbortSignal): Promise<ContrastIssue[]> {
     const issues: ContrastIssue[] = [];
 
     try {
-        const dom = new JSDOM(html);
+        const dom = createStyledDocument(html, url);
         const document = dom.window.document;
 
-        const textElements = document.querySelectorAll('p, h1, h2, h3, h4, h5, h6, a, button, span, div, li, td, th, label');
-
-        for (const element of textElements) {
-            const computedStyle = dom.window.getComputedStyle(element);
-            const textContent = element.textContent?.trim();
-
-            if (!textContent || textContent.length < 3) continue;
+        const stylesheets = await loadStylesheets(document, signal);
+        const getStyle = createStyleResolver(document);
+        let overImages = 0;
 
-            const color = computedStyle.color || '#000000';
-            const backgroundColor = computedStyle.backgroundColor || '#ffffff';
+        const elements = document.body ? [document.body, ...Array.from(document.body.querySelectorAll('*'))] : [];
 
-            const foregroundHex = parseColor(color);
-            const backgroundHex = parseColor(backgroundColor);
+        for (const element of elements) {
+            if (SKIPPED_ELEMENTS.has(element.localName) || element.closest('svg, math')) continue;
 
-            if (foregroundHex && backgroundHex) {
-                const contrast = calculateContrastRatio(foregroundHex, backgroundHex);
-                const tagName = element.tagName.toLowerCase();
+            const textContent = getOwnText(element);
+            if (textContent.length < MIN_TEXT_LENGTH || isHidden(element, getStyle)) continue;
 
-                const isLargeText = isElementLargeText(element, computedStyle);
-                const requiredRatio = isLargeText ? 3.0 : 4.5;
-
-                if (contrast < requiredRatio) {
-                    const severity = contrast < (requiredRatio * 0.7) ? 'error' : 'warning';
-                    issues.push({
-                        type: severity,
-                        message: `${tagName.toUpperCase()} text has contrast ratio ${contrast.toFixed(1)}:1, below ${isLargeText ? 'AA large text' : 'AA'} standard (${requiredRatio}:1)`,
-                        element: `<${tagName}>`,
-                        contrast,
-                        foreground: foregroundHex,
-                        background: backgroundHex
-                    });
-                }
+            const style = getStyle(element);
+            const background = getEffectiveBackground(element, getStyle);
+            if (background === 'image') {
+                overImages++;
+                continue;
             }
+            if (!style.color || !background) continue;
+
+            // Semi-transparent text blends with what's behind it
+            const foregroundHex = colorToHex(compositeColors(style.color, background));
+            const backgroundHex = colorToHex(background);
+
+            const issue = createContrastIssue(
+                element.tagName.toLowerCase(),
+                foregroundHex,
+                backgroundHex,
+                isLargeText(style.fontSize, style.fontWeight)
+            );
+            if (issue) issues.push(issue);
+        }
+
+        if (overImages > 0) {
+            issues.push({
+                type: 'info',
+                message: `${overImages} text element${overImages === 1 ? '' : 's'} over background images or gradients not checked - review manually`
+            });
         }
 
-        if (issues.length === 0) {
-            checkCommonContrastIssues(html, issues);
+        if (stylesheets.failed.length > 0) {
+            const total = stylesheets.failed.length + stylesheets.loaded.length;
+            issues.push({
+                type: 'info',
+                message: `${stylesheets.failed.length} of ${total} stylesheets could not be loaded (${stylesheets.failed.map(sheet => `${sheet.url}: ${sheet.reason}`).join(', ')}); ratios use the remaining styles`
+            });
         }
 
     } catch (error) {
+        rethrowIfAborted(signal);
         console.error('Error analyzing contrast:', error);
         issues.push({
             type: 'warning',
@@ -101,33 +134,33 @@ export function generateContrastRecommendations(issues: ContrastIssue[]): string
 }
 
 // Helper functions
-function parseColor(color: string): string | null {
-    const rgbMatch = color.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)/);
-    if (rgbMatch) {
-        const r = parseInt(rgbMatch[1]);
-        const g = parseInt(rgbMatch[2]);
-        const b = parseInt(rgbMatch[3]);
-        return rgbToHex(r, g, b);
-    }
-
-    const hexMatch = color.match(/^#[0-9A-Fa-f]{6}$/);
-    if (hexMatch) return color;
-
-    const namedColors: { [key: string]: string } = {
-        'black': '#000000', 'white': '#ffffff', 'red': '#ff0000',
-        'green': '#008000', 'blue': '#0000ff', 'yellow': '#ffff00',
-        'cyan': '#00ffff', 'magenta': '#ff00ff', 'silver': '#c0c0c0',
-        'gray': '#808080', 'grey': '#808080'
+/**
+ * Issue for text below the WCAG AA ratio for its size, or null when it passes
+ *
+ * @param foreground - Opaque text color as hex
+ * @param background - Opaque background color as hex
+ */
+export function createContrastIssue(
+    tagName: string,
+    foreground: string,
+    background: string,
+    largeText: boolean
+): ContrastIssue | null {
+    const contrast = calculateContrastRatio(foreground, background);
+    const requiredRatio = largeText ? 3.0 : 4.5;
+    if (contrast >= requiredRatio) return null;
+
+    return {
+        type: contrast < (requiredRatio * 0.7) ? 'error' : 'warning',
+        message: `${tagName.toUpperCase()} text has contrast ratio ${contrast.toFixed(1)}:1, below ${largeText ? 'AA large text' : 'AA'} standard (${requiredRatio}:1)`,
+        element: `<${tagName}>`,
+        contrast,
+        foreground,
+        background
     };
-
-    return namedColors[color.toLowerCase()] || null;
-}
-
-function rgbToHex(r: number, g: number, b: number): string {
-    return "#" + ((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1);
 }
 
-function calculateContrastRatio(color1: string, color2: string): number {
+export function calculateContrastRatio(color1: string, color2: string): number {
     const lum1 = getLuminance(color1);
     const lum2 = getLuminance(color2);
     const brightest = Math.max(lum1, lum2);
@@ -159,23 +192,55 @@ function hexToRgb(hex: string): { r: number; g: number; b: number } | null {
     } : null;
 }
 
-function isElementLargeText(element: Element, computedStyle: CSSStyleDeclaration): boolean {
-    const fontSize = parseFloat(computedStyle.fontSize || '16');
-    const fontWeight = computedStyle.fontWeight || 'normal';
-    const isBold = fontWeight === 'bold' || fontWeight === '700' || parseInt(fontWeight) >= 700;
-    return fontSize >= 24 || (fontSize >= 18.66 && isBold);
+/**
+ * WCAG large text: at least 18pt, or 14pt bold
+ *
+ * @param fontSize - Pixels
+ */
+export function isLargeText(fontSize: number, fontWeight: number): boolean {
+    return fontSize >= 24 || (fontSize >= 18.66 && fontWeight >= 700);
 }
 
-function checkCommonContrastIssues(html: string, issues: ContrastIssue[]): void {
-    const lowContrastPatterns = [
-        { pattern: /color:\s*#[89abcdef]{6}/gi, message: 'Light gray text may have poor contrast' },
-        { pattern: /color:\s*gray/gi, message: 'Gray text may not meet contrast requirements' },
-        { pattern: /color:\s*#666/gi, message: 'Color #666 often fails contrast requirements on white backgrounds' },
-    ];
+/**
+ * Text of the element's own text nodes; descendants are checked separately
+ */
+function getOwnText(element: Element): string {
+    return Array.from(element.childNodes)
+        .filter(node => node.nodeType === node.TEXT_NODE)
+        .map(node => node.textContent)
+        .join('')
+        .trim();
+}
 
-    for (const { pattern, message } of lowContrastPatterns) {
-        if (pattern.test(html)) {
-            issues.push({ type: 'warning', message });
-        }
+function isHidden(element: Element, getStyle: (element: Element) => ResolvedStyle): boolean {
+    if (getStyle(element).visibility !== 'visible') return true;
+
+    for (let node: Element | null = element; node; node = node.parentElement) {
+        if (getStyle(node).display === 'none') return true;
     }
+    return false;
+}
+
+/**
+ * Opaque color behind an element's text: its own background composited
+ * over each ancestor's until one is opaque, then over the white canvas.
+ * 'image' when an image or gradient is painted in between; null when a
+ * background color can't be evaluated.
+ */
+function getEffectiveBackground(
+    element: Element,
+    getStyle: (element: Element) => ResolvedStyle
+): RGBA | 'image' | null {
+    const layers: RGBA[] = [];
+
+    for (let node: Element | null = element; node; node = node.parentElement) {
+        const style = getStyle(node);
+        if (style.hasBackgroundImage) return 'image';
+        if (!style.backgroundColor) return null;
+
+        if (style.backgroundColor.a > 0) layers.push(style.backgroundColor);
+        if (style.backgroundColor.a >= 1) break;
+    }
+
+    return layers.reduceRight((below, layer) => compositeColors(layer, below), WHITE);
 }
@@ -0,0 +1,1023 @@
+/**
+ * Author-level CSS cascade for the contrast analyzer. JSDOM parses
+ * stylesheets but its getComputedStyle ignores most of the cascade, so
+ * this resolves the few properties contrast depends on itself: matching
+ * rules by specificity and order, !important, inline styles, media
+ * queries for a desktop viewport, inheritance and custom properties.
+ */
+
+import { JSDOM, VirtualConsole } from 'jsdom';
+import { requestSignal, rethrowIfAborted } from '@/lib/check-jobs';
+import { parseCssColor, TRANSPARENT, type RGBA } from './css-colors';
+
+export interface ResolvedStyle {
+    /** Null when the value can't be evaluated (color-mix(), lab() and the like) */
+    color: RGBA | null;
+    backgroundColor: RGBA | null;
+    /** A url(), gradient or other image is painted over the background color */
+    hasBackgroundImage: boolean;
+    /** Pixels */
+    fontSize: number;
+    fontWeight: number;
+    display: string;
+    visibility: string;
+    /** Custom properties with var() references already substituted */
+    customProperties: Map<string, string>;
+}
+
+export interface StylesheetLoadResult {
+    /** URLs of the linked and imported stylesheets that were loaded */
+    loaded: string[];
+    failed: Array<{ url: string; reason: string }>;
+}
+
+const STYLESHEET_TIMEOUT_MS = 10000;
+
+/** Linked and imported stylesheets fetched per page */
+const MAX_STYLESHEETS = 30;
+
+const MAX_IMPORT_DEPTH = 4;
+
+const MAX_STYLESHEET_LENGTH = 2_000_000;
+
+/** Nested var() references followed before a value is treated as invalid */
+const MAX_VAR_DEPTH = 16;
+
+/** Media queries are evaluated for a desktop browser in light mode */
+const VIEWPORT = { width: 1280, height: 800 };
+
+const BASE_FONT_SIZE = 16;
+
+/** The defaults browsers apply that change what text looks like */
+const USER_AGENT_STYLESHEET = `
+head, script, style, template, noscript, title, meta, link, base, datalist, [hidden] { display: none }
+h1 { font-size: 2em; font-weight: bold }
+h2 { font-size: 1.5em; font-weight: bold }
+h3 { font-size: 1.17em; font-weight: bold }
+h4 { font-weight: bold }
+h5 { font-size: 0.83em; font-weight: bold }
+h6 { font-size: 0.67em; font-weight: bold }
+b, strong { font-weight: bolder }
+th { font-weight: bold }
+small { font-size: smaller }
+big { font-size: larger }
+a[href] { color: LinkText }
+mark { background-color: Mark; color: MarkText }
+button, select { background-color: ButtonFace; color: ButtonText }
+input, textarea { background-color: Field; color: FieldText }
+`;
+
+/** Properties the resolver computes; everything else is dropped while collecting rules */
+const TRACKED_PROPERTIES = new Set([
+    'color', 'background-color', 'background-image', 'font-size', 'font-weight', 'display', 'visibility'
+]);
+
+const INHERITED_PROPERTIES = new Set(['color', 'font-size', 'font-weight', 'visibility']);
+
+const SHORTHANDS: Record<string, string[]> = {
+    background: ['background-color', 'background-image'],
+    font: ['font-size', 'font-weight']
+};
+
+const FONT_SIZE_KEYWORDS: Record<string, number> = {
+    'xx-small': 9, 'x-small': 10, small: 13, medium: 16,
+    large: 18, 'x-large': 24, 'xx-large': 32, 'xxx-large': 48
+};
+
+/** Global keywords that take the parent's value for inherited properties and the initial value otherwise */
+const DEFAULTING_KEYWORDS = new Set(['unset', 'revert', 'revert-layer']);
+
+const INITIAL_STYLE: ResolvedStyle = {
+    color: { r: 0, g: 0, b: 0, a: 1 },
+    backgroundColor: TRANSPARENT,
+    hasBackgroundImage: false,
+    fontSize: BASE_FONT_SIZE,
+    fontWeight: 400,
+    display: 'inline',
+    visibility: 'visible',
+    customProperties: new Map()
+};
+
+type Origin = 'user-agent' | 'author' | 'inline';
+
+/** [ids, classes/attributes/pseudo-classes, types/pseudo-elements] */
+type Specificity = [number, number, number];
+
+interface RuleDeclaration {
+    /** Longhand or custom property name */
+    property: string;
+    value: string;
+    /** Shorthand the value was written as; the longhand is picked out after var() substitution */
+    shorthand?: string;
+    important: boolean;
+    /** Position in the cascade; later declarations win ties */
+    order: number;
+}
+
+/** One complex selector of a style rule */
+interface RuleEntry {
+    selector: string;
+    specificity: Specificity;
+    origin: Origin;
+    declarations: RuleDeclaration[];
+}
+
+interface RuleIndex {
+    ids: Map<string, RuleEntry[]>;
+    classes: Map<string, RuleEntry[]>;
+    tags: Map<string, RuleEntry[]>;
+    universal: RuleEntry[];
+}
+
+interface CascadedDeclaration {
+    declaration: RuleDeclaration;
+    /** Origin and importance, ranked */
+    precedence: number;
+    specificity: Specificity;
+}
+
+// [normal, !important] per origin
+const PRECEDENCE: Record<Origin, [number, number]> = {
+    'user-agent': [0, 5],
+    author: [1, 3],
+    inline: [2, 4]
+};
+
+/**
+ * Parse a page for style resolution. Scripts don't run and resources
+ * aren't loaded; `url` lets relative stylesheet links resolve.
+ */
+export function createStyledDocument(html: string, url?: string): JSDOM {
+    return new JSDOM(html, {
+        url: isHttpUrl(url) ? url : undefined,
+        // CSS the parser can't handle is skipped, not worth logging
+        virtualConsole: new VirtualConsole()
+    });
+}
+
+/**
+ * Replace each linked stylesheet with a style element holding its CSS and
+ * inline @import rules, in place so document order is kept.
+ *
+ * @param signal - Aborts the requests
+ */
+export async function loadStylesheets(document: Document, signal?: AbortSignal): Promise<StylesheetLoadResult> {
+    const result: StylesheetLoadResult = { loaded: [], failed: [] };
+    const budget = { remaining: MAX_STYLESHEETS };
+
+    const inlineStyles = Array.from(document.querySelectorAll('style'));
+    const links = Array.from(document.querySelectorAll<HTMLLinkElement>('link[href]')).filter(link =>
+        link.relList.contains('stylesheet')
+        && !link.relList.contains('alternate')
+        && !link.hasAttribute('disabled')
+    );
+
+    await Promise.all([
+        ...links.map(async link => {
+            const url = link.href;
+            const css = await fetchStylesheet(url, budget, result, signal);
+            const style = document.createElement('style');
+            const media = link.getAttribute('media');
+            if (media) style.setAttribute('media', media);
+
+            link.replaceWith(style);
+            style.textContent = css === null ? '' : await inlineImports(css, url, 1, budget, result, signal);
+        }),
+        ...inlineStyles.map(async style => {
+            const css = style.textContent ?? '';
+            if (/@import/i.test(css)) style.textContent = await inlineImports(css, document.baseURI, 1, budget, result, signal);
+        })
+    ]);
+
+    return result;
+}
+
+async function fetchStylesheet(
+    url: string,
+    budget: { remaining: number },
+    result: StylesheetLoadResult,
+    signal?: AbortSignal
+): Promise<string | null> {
+    if (!isHttpUrl(url)) {
+        result.failed.push({ url, reason: 'not an http(s) URL' });
+        return null;
+    }
+    if (budget.remaining <= 0) {
+        result.failed.push({ url, reason: `more than ${MAX_STYLESHEETS} stylesheets` });
+        return null;
+    }
+    budget.remaining--;
+
+    try {
+        const response = await fetch(url, {
+            headers: { Accept: 'text/css,*/*;q=0.1' },
+            signal: requestSignal(STYLESHEET_TIMEOUT_MS, signal)
+        });
+
+        if (!response.ok) {
+            result.failed.push({ url, reason: `HTTP ${response.status}` });
+            return null;
+        }
+
+        const css = await response.text();
+        if (css.length > MAX_STYLESHEET_LENGTH) {
+            result.failed.push({ url, reason: 'too large' });
+            return null;
+        }
+
+        result.loaded.push(url);
+        return css;
+    } catch (error) {
+        rethrowIfAborted(signal);
+        const reason = error instanceof Error ? error.message : 'request failed';
+        console.warn(`[Contrast Validator] Could not load stylesheet ${url}: ${reason}`);
+        result.failed.push({ url, reason });
+        return null;
+    }
+}
+
+/**
+ * Replace @import rules with the imported CSS, wrapped in @media when the
+ * import has a media query
+ */
+async function inlineImports(
+    css: string,
+    baseUrl: string,
+    depth: number,
+    budget: { remaining: number },
+    result: StylesheetLoadResult,
+    signal?: AbortSignal
+): Promise<string> {
+    const pattern = /@import\s+(?:url\(\s*(['"]?)([^'")]+)\1\s*\)|(['"])([^'"]+)\3)([^;]*);/gi;
+    const imports = Array.from(css.matchAll(pattern));
+    if (imports.length === 0) return css;
+
+    const replacements = await Promise.all(imports.map(async match => {
+        if (depth > MAX_IMPORT_DEPTH) return '';
+
+        let url: string;
+        try {
+            url = new URL(match[2] ?? match[4], baseUrl).href;
+        } catch {
+            result.failed.push({ url: match[2] ?? match[4], reason: 'invalid URL' });
+            return '';
+        }
+
+        const imported = await fetchStylesheet(url, budget, result, signal);
+        if (imported === null) return '';
+
+        const inlined = await inlineImports(imported, url, depth + 1, budget, result, signal);
+        const media = match[5].replace(/\b(?:layer|supports)\([^)]*\)|\blayer\b/gi, '').trim();
+        return media ? `@media ${media} {\n${inlined}\n}` : inlined;
+    }));
+
+    let index = 0;
+    return css.replace(pattern, () => replacements[index++]);
+}
+
+/**
+ * Resolver for the computed style of any element in the document. Styles
+ * are cached, so resolving every element costs one cascade per element.
+ */
+export function createStyleResolver(document: Document): (element: Element) => ResolvedStyle {
+    const index = buildRuleIndex([
+        ...collectRules(getUserAgentRules(), 'user-agent', document),
+        ...collectDocumentRules(document)
+    ]);
+    const cache = new WeakMap<Element, ResolvedStyle>();
+
+    const getStyle = (element: Element): ResolvedStyle => {
+        const cached = cache.get(element);
+        if (cached) return cached;
+
+        const parent = element.parentElement ? getStyle(element.parentElement) : INITIAL_STYLE;
+        const root = document.documentElement;
+        const rootFontSize = element === root || !root ? BASE_FONT_SIZE : getStyle(root).fontSize;
+        const style = computeStyle(element, parent, rootFontSize, index);
+
+        cache.set(element, style);
+        return style;
+    };
+
+    return getStyle;
+}
+
+let userAgentRules: CSSRuleList | null = null;
+
+function getUserAgentRules(): CSSRuleList {
+    if (!userAgentRules) {
+        const { document } = new JSDOM(`<style>${USER_AGENT_STYLESHEET}</style>`).window;
+        userAgentRules = document.querySelector('style')!.sheet!.cssRules;
+    }
+    return userAgentRules;
+}
+
+let declarationOrder = 0;
+
+function collectDocumentRules(document: Document): RuleEntry[] {
+    const entries: RuleEntry[] = [];
+
+    for (const style of Array.from(document.querySelectorAll('style'))) {
+        const media = style.getAttribute('media');
+        if (!style.sheet || (media && !matchesMedia(media))) continue;
+        entries.push(...collectRules(style.sheet.cssRules, 'author', document));
+    }
+
+    return entries;
+}
+
+function collectRules(rules: CSSRuleList, origin: Origin, document: Document): RuleEntry[] {
+    const entries: RuleEntry[] = [];
+
+    for (const rule of Array.from(rules)) {
+        if ('selectorText' in rule && 'style' in rule) {
+            const styleRule = rule as CSSStyleRule;
+            const declarations: RuleDeclaration[] = [];
+            for (let i = 0; i < styleRule.style.length; i++) {
+                const property = styleRule.style[i];
+                addDeclaration(
+                    declarations,
+                    property,
+                    styleRule.style.getPropertyValue(property),
+                    styleRule.style.getPropertyPriority(property) === 'important'
+                );
+            }
+            if (declarations.length === 0) continue;
+
+            for (const selector of splitTopLevel(styleRule.selectorText, char => char === ',')) {
+                if (!isSupportedSelector(selector, document)) continue;
+                entries.push({ selector, specificity: getSpecificity(selector), origin, declarations });
+            }
+        } else if ('cssRules' in rule) {
+            // @media, @supports and @layer blocks; keyframes hold no style rules
+            if ('media' in rule && !matchesMedia((rule as CSSMediaRule).media.mediaText)) continue;
+            entries.push(...collectRules((rule as CSSGroupingRule).cssRules, origin, document));
+        }
+    }
+
+    return entries;
+}
+
+function addDeclaration(declarations: RuleDeclaration[], property: string, value: string, important: boolean): void {
+    const name = property.startsWith('--') ? property : property.toLowerCase();
+    const order = declarationOrder++;
+
+    if (name.startsWith('--') || TRACKED_PROPERTIES.has(name)) {
+        declarations.push({ property: name, value, important, order });
+    } else if (SHORTHANDS[name]) {
+        for (const longhand of SHORTHANDS[name]) {
+            declarations.push({ property: longhand, value, shorthand: name, important, order });
+        }
+    }
+}
+
+/**
+ * Parse a style attribute into declarations
+ */
+function parseDeclarationBlock(text: string): RuleDeclaration[] {
+    const declarations: RuleDeclaration[] = [];
+
+    for (const part of splitTopLevel(text, char => char === ';')) {
+        const colon = part.indexOf(':');
+        if (colon <= 0) continue;
+
+        const property = part.slice(0, colon).trim();
+        const raw = part.slice(colon + 1);
+        const important = /!\s*important\s*$/i.test(raw);
+        const value = raw.replace(/!\s*important\s*$/i, '').trim();
+        if (value) addDeclaration(declarations, property, value, important);
+    }
+
+    return declarations;
+}
+
+/**
+ * Drop selectors that can never match the element's own text (pseudo-elements)
+ * or that the selector engine can't parse
+ */
+function isSupportedSelector(selector: string, document: Document): boolean {
+    const compound = removeEscapes(stripGroups(getRightmostCompound(selector)));
+    if (/::|:(?:before|after|first-line|first-letter)\b/i.test(compound)) return false;
+
+    try {
+        document.createDocumentFragment().querySelector(selector);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function buildRuleIndex(entries: RuleEntry[]): RuleIndex {
+    const index: RuleIndex = { ids: new Map(), classes: new Map(), tags: new Map(), universal: [] };
+    const add = (map: Map<string, RuleEntry[]>, key: string, entry: RuleEntry) => {
+        const bucket = map.get(key);
+        if (bucket) bucket.push(entry);
+        else map.set(key, [entry]);
+    };
+
+    // Bucket by the rightmost compound so each element only tests rules that could match it
+    for (const entry of entries) {
+        const compound = stripGroups(getRightmostCompound(entry.selector));
+        const id = /#((?:\\.|[\w-]|[^\x00-\x7f])+)/.exec(compound);
+        const className = /\.((?:\\.|[\w-]|[^\x00-\x7f])+)/.exec(compound);
+        const tag = /^([a-z][\w-]*)/i.exec(compound);
+
+        if (id) add(index.ids, unescapeIdentifier(id[1]), entry);
+        else if (className) add(index.classes, unescapeIdentifier(className[1]), entry);
+        else if (tag) add(index.tags, tag[1].toLowerCase(), entry);
+        else index.universal.push(entry);
+    }
+
+    return index;
+}
+
+function getCandidateRules(element: Element, index: RuleIndex): RuleEntry[] {
+    const candidates = [...index.universal, ...(index.tags.get(element.localName) ?? [])];
+    if (element.id) candidates.push(...(index.ids.get(element.id) ?? []));
+    for (const className of Array.from(element.classList)) {
+        candidates.push(...(index.classes.get(className) ?? []));
+    }
+    return candidates;
+}
+
+/**
+ * Winning declaration per property for an element
+ */
+function cascade(element: Element, index: RuleIndex): Map<string, CascadedDeclaration> {
+    const winners = new Map<string, CascadedDeclaration>();
+
+    const consider = (declaration: RuleDeclaration, origin: Origin, specificity: Specificity) => {
+        const candidate: CascadedDeclaration = {
+            declaration,
+            precedence: PRECEDENCE[origin][declaration.important ? 1 : 0],
+            specificity
+        };
+        const current = winners.get(declaration.property);
+        if (!current || compareCascaded(candidate, current) > 0) winners.set(declaration.property, candidate);
+    };
+
+    for (const entry of getCandidateRules(element, index)) {
+        if (!element.matches(entry.selector)) continue;
+        for (const declaration of entry.declarations) consider(declaration, entry.origin, entry.specificity);
+    }
+
+    const inline = element.getAttribute('style');
+    if (inline) {
+        for (const declaration of parseDeclarationBlock(inline)) consider(declaration, 'inline', [0, 0, 0]);
+    }
+
+    return winners;
+}
+
+function compareCascaded(a: CascadedDeclaration, b: CascadedDeclaration): number {
+    if (a.precedence !== b.precedence) return a.precedence - b.precedence;
+    for (let i = 0; i < 3; i++) {
+        if (a.specificity[i] !== b.specificity[i]) return a.specificity[i] - b.specificity[i];
+    }
+    return a.declaration.order - b.declaration.order;
+}
+
+function computeStyle(element: Element, parent: ResolvedStyle, rootFontSize: number, index: RuleIndex): ResolvedStyle {
+    const winners = cascade(element, index);
+    const customProperties = resolveCustomProperties(winners, parent.customProperties);
+    const lookup = (name: string) => customProperties.get(name);
+
+    // Specified value with var() substituted; 'inherit' or 'initial' when the property defaults
+    const specified = (property: string): string => {
+        const inherited = INHERITED_PROPERTIES.has(property);
+        const winner = winners.get(property)?.declaration;
+        if (!winner) return inherited ? 'inherit' : 'initial';
+
+        const substituted = substituteVars(winner.value, lookup);
+        const value = substituted === null
+            ? null
+            : winner.shorthand ? expandShorthand(winner.shorthand, property, substituted) : substituted.trim();
+        const keyword = value?.toLowerCase();
+
+        if (value === null || keyword === undefined || DEFAULTING_KEYWORDS.has(keyword)) return inherited ? 'inherit' : 'initial';
+        return keyword === 'inherit' || keyword === 'initial' ? keyword : value;
+    };
+
+    const colorValue = specified('color');
+    const color = colorValue === 'inherit' ? parent.color
+        : colorValue === 'initial' ? INITIAL_STYLE.color
+            : parseCssColor(colorValue, parent.color ?? undefined);
+
+    const backgroundValue = specified('background-color');
+    const backgroundColor = backgroundValue === 'inherit' ? parent.backgroundColor
+        : backgroundValue === 'initial' ? TRANSPARENT
+            : parseCssColor(backgroundValue, color ?? undefined);
+
+    const imageValue = specified('background-image');
+    const hasBackgroundImage = imageValue === 'inherit' ? parent.hasBackgroundImage
+        : imageValue !== 'initial' && imageValue.toLowerCase() !== 'none';
+
+    const sizeValue = specified('font-size');
+    const fontSize = sizeValue === 'inherit' ? parent.fontSize
+        : sizeValue === 'initial' ? BASE_FONT_SIZE
+            : parseFontSize(sizeValue, parent.fontSize, rootFontSize) ?? parent.fontSize;
+
+    const weightValue = specified('font-weight');
+    const fontWeight = weightValue === 'inherit' ? parent.fontWeight
+        : weightValue === 'initial' ? 400
+            : parseFontWeight(weightValue, parent.fontWeight) ?? parent.fontWeight;
+
+    const displayValue = specified('display');
+    const visibilityValue = specified('visibility');
+
+    return {
+        color,
+        backgroundColor,
+        hasBackgroundImage,
+        fontSize,
+        fontWeight,
+        display: displayValue === 'inherit' ? parent.display : displayValue === 'initial' ? 'inline' : displayValue.toLowerCase(),
+        visibility: visibilityValue === 'inherit' ? parent.visibility : visibilityValue === 'initial' ? 'visible' : visibilityValue.toLowerCase(),
+        customProperties
+    };
+}
+
+/**
+ * Inherited custom properties overlaid with the element's own, each with
+ * var() references substituted. Cycles and missing references make a
+ * property invalid, which removes it.
+ */
+function resolveCustomProperties(
+    winners: Map<string, CascadedDeclaration>,
+    inherited: Map<string, string>
+): Map<string, string> {
+    const own = new Map<string, string>();
+    for (const [property, { declaration }] of winners) {
+        if (property.startsWith('--')) own.set(property, declaration.value.trim());
+    }
+    if (own.size === 0) return inherited;
+
+    const resolved = new Map<string, string | undefined>();
+    const resolving = new Set<string>();
+
+    const resolve = (name: string): string | undefined => {
+        if (!own.has(name)) return inherited.get(name);
+        if (resolved.has(name)) return resolved.get(name);
+        if (resolving.has(name)) return undefined;
+
+        resolving.add(name);
+        const value = own.get(name)!;
+        const keyword = value.toLowerCase();
+        const result = keyword === 'initial' ? undefined
+            : keyword === 'inherit' || DEFAULTING_KEYWORDS.has(keyword) ? inherited.get(name)
+                : substituteVars(value, resolve) ?? undefined;
+        resolving.delete(name);
+        resolved.set(name, result);
+        return result;
+    };
+
+    const customProperties = new Map(inherited);
+    for (const name of own.keys()) {
+        const value = resolve(name);
+        if (value === undefined) customProperties.delete(name);
+        else customProperties.set(name, value);
+    }
+
+    return customProperties;
+}
+
+/**
+ * Replace var() references, using the fallback when a property isn't
+ * set. Null when a reference can't be resolved.
+ */
+export function substituteVars(
+    value: string,
+    lookup: (name: string) => string | undefined,
+    depth = 0
+): string | null {
+    if (depth > MAX_VAR_DEPTH) return null;
+
+    const pattern = /\bvar\(/gi;
+    let result = '';
+    let position = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(value))) {
+        const end = findClosingParen(value, match.index + match[0].length - 1);
+        if (end === -1) return null;
+
+        const [name, ...fallback] = splitTopLevel(value.slice(match.index + match[0].length, end), char => char === ',', false);
+        let replacement = lookup(name.trim());
+        if (replacement === undefined) {
+            if (fallback.length === 0) return null;
+            const substituted = substituteVars(fallback.join(',').trim(), lookup, depth + 1);
+            if (substituted === null) return null;
+            replacement = substituted;
+        }
+
+        result += value.slice(position, match.index) + replacement;
+        position = end + 1;
+        pattern.lastIndex = position;
+    }
+
+    return result + value.slice(position);
+}
+
+/**
+ * Pick a longhand out of a background or font shorthand
+ */
+function expandShorthand(shorthand: string, longhand: string, value: string): string | null {
+    const keyword = value.trim().toLowerCase();
+    if (keyword === 'inherit' || keyword === 'initial' || DEFAULTING_KEYWORDS.has(keyword)) return keyword;
+
+    if (shorthand === 'background') {
+        const layers = splitTopLevel(value, char => char === ',');
+        if (longhand === 'background-image') {
+            return layers.some(layer => /(?:url|gradient|image-set|image|cross-fade|element)\(/i.test(layer)) ? 'image' : 'none';
+        }
+        // Only the final layer may set a color
+        const tokens = splitTopLevel(layers[layers.length - 1] ?? '', char => /\s/.test(char));
+        return tokens.find(token => parseCssColor(token, TRANSPARENT) !== null) ?? 'transparent';
+    }
+
+    // font: [style] [variant] [weight] [stretch] size[/line-height] family
+    const tokens = splitTopLevel(value, char => /\s/.test(char));
+    const sizeIndex = tokens.findIndex(token => isFontSizeToken(splitTopLevel(token, char => char === '/')[0] ?? ''));
+    if (sizeIndex === -1) return null;
+
+    if (longhand === 'font-size') return splitTopLevel(tokens[sizeIndex], char => char === '/')[0];
+    return tokens.slice(0, sizeIndex).find(token => /^(?:bold|bolder|lighter|\d+)$/i.test(token)) ?? 'normal';
+}
+
+function isFontSizeToken(token: string): boolean {
+    const keyword = token.toLowerCase();
+    return keyword in FONT_SIZE_KEYWORDS
+        || keyword === 'smaller'
+        || keyword === 'larger'
+        || /^(?:[+-]?(?:\d+\.?\d*|\.\d+)(?:[a-z]+|%)|0|(?:calc|min|max|clamp)\(.*\))$/i.test(token);
+}
+
+function parseFontSize(value: string, parentSize: number, rootSize: number): number | null {
+    const keyword = value.trim().toLowerCase();
+    if (keyword in FONT_SIZE_KEYWORDS) return FONT_SIZE_KEYWORDS[keyword];
+    if (keyword === 'smaller') return parentSize / 1.2;
+    if (keyword === 'larger') return parentSize * 1.2;
+
+    const size = evaluateLength(keyword, parentSize, rootSize);
+    return size === null || size < 0 ? null : size;
+}
+
+function parseFontWeight(value: string, parentWeight: number): number | null {
+    const keyword = value.trim().toLowerCase();
+    if (keyword === 'normal') return 400;
+    if (keyword === 'bold') return 700;
+
+    // https://www.w3.org/TR/css-fonts-4/#relative-weights
+    if (keyword === 'bolder') return parentWeight < 350 ? 400 : parentWeight < 550 ? 700 : Math.max(900, parentWeight);
+    if (keyword === 'lighter') return parentWeight < 100 ? parentWeight : parentWeight < 550 ? 100 : parentWeight < 750 ? 400 : 700;
+
+    const weight = Number(keyword);
+    return Number.isFinite(weight) && weight >= 1 && weight <= 1000 ? weight : null;
+}
+
+/**
+ * Evaluate a length, including calc(), min(), max() and clamp(), in pixels
+ *
+ * @param em - Pixels per em; also the base for percentages
+ * @param rem - Pixels per rem
+ */
+function evaluateLength(expression: string, em: number, rem: number): number | null {
+    const tokens = expression.match(/[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?(?:[a-z]+|%)?|[a-z-]+\(|[()+\-*/,]/gi);
+    if (!tokens || tokens.join('') !== expression.replace(/\s+/g, '')) return null;
+
+    const units: Record<string, number> = {
+        px: 1, pt: 4 / 3, pc: 16, in: 96, cm: 96 / 2.54, mm: 96 / 25.4, q: 96 / 101.6,
+        em, rem, ex: em / 2, ch: em / 2, '%': em / 100,
+        vw: VIEWPORT.width / 100, vh: VIEWPORT.height / 100,
+        vmin: Math.min(VIEWPORT.width, VIEWPORT.height) / 100, vmax: Math.max(VIEWPORT.width, VIEWPORT.height) / 100
+    };
+    let position = 0;
+
+    const factor = (): number | null => {
+        const token = tokens[position++];
+        if (token === undefined) return null;
+
+        if (token === '(' || /^(?:calc|min|max|clamp)\($/i.test(token)) {
+            const args: number[] = [];
+            for (;;) {
+                const value = sum();
+                if (value === null) return null;
+                args.push(value);
+                if (tokens[position] !== ',') break;
+                position++;
+            }
+            if (tokens[position++] !== ')') return null;
+
+            const name = token.slice(0, -1).toLowerCase();
+            if (name === 'min') return Math.min(...args);
+            if (name === 'max') return Math.max(...args);
+            if (name === 'clamp') return args.length === 3 ? Math.max(args[0], Math.min(args[1], args[2])) : null;
+            return args.length === 1 ? args[0] : null;
+        }
+
+        const number = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)([a-z]+|%)?$/i.exec(token);
+        if (!number) return null;
+        if (!number[2]) return parseFloat(number[1]);
+
+        const unit = units[number[2].toLowerCase()];
+        return unit === undefined ? null : parseFloat(number[1]) * unit;
+    };
+
+    const product = (): number | null => {
+        let value = factor();
+        while (value !== null && (tokens[position] === '*' || tokens[position] === '/')) {
+            const operator = tokens[position++];
+            const operand = factor();
+            if (operand === null) return null;
+            value = operator === '*' ? value * operand : value / operand;
+        }
+        return value;
+    };
+
+    const sum = (): number | null => {
+        let value = product();
+        while (value !== null && (tokens[position] === '+' || tokens[position] === '-')) {
+            const operator = tokens[position++];
+            const operand = product();
+            if (operand === null) return null;
+            value = operator === '+' ? value + operand : value - operand;
+        }
+        return value;
+    };
+
+    const result = sum();
+    if (result === null || position !== tokens.length || !Number.isFinite(result)) return null;
+    // A bare number is only a length when it's zero
+    return /^[+-]?[\d.]+$/.test(expression.trim()) && result !== 0 ? null : result;
+}
+
+/**
+ * Evaluate a media query list for the assumed desktop viewport. Unknown
+ * features don't match, so rules for print, dark mode and high-density
+ * screens are left out.
+ */
+function matchesMedia(mediaText: string): boolean {
+    const queries = splitTopLevel(mediaText.toLowerCase(), char => char === ',');
+    if (queries.length === 0) return true;
+
+    return queries.some(query => {
+        const negated = /^not\s+/.test(query);
+        const conditions = query.replace(/^(?:not|only)\s+/, '').split(/\s+and\s+/);
+        const matches = conditions.every(condition => matchesMediaCondition(condition.trim()));
+        return negated ? !matches : matches;
+    });
+}
+
+function matchesMediaCondition(condition: string): boolean {
+    if (condition === 'all' || condition === 'screen') return true;
+
+    const feature = /^\((.*)\)$/.exec(condition)?.[1].trim();
+    if (feature === undefined) return false;
+
+    const toPixels = (value: string) => evaluateLength(value.trim(), BASE_FONT_SIZE, BASE_FONT_SIZE);
+    const compare = (actual: number, operator: string, value: string) => {
+        const pixels = toPixels(value);
+        if (pixels === null) return false;
+        return operator === '>=' ? actual >= pixels
+            : operator === '>' ? actual > pixels
+                : operator === '<=' ? actual <= pixels
+                    : operator === '<' ? actual < pixels
+                        : actual === pixels;
+    };
+    const flip: Record<string, string> = { '<': '>', '<=': '>=', '>': '<', '>=': '<=', '=': '=' };
+
+    // Range syntax: (width >= 600px), (600px <= width), (400px < width < 900px)
+    const range = /^(?:(.+?)\s*(<=|>=|<|>|=)\s*)?(width|height)\s*(<=|>=|<|>|=)\s*(.+)$/.exec(feature);
+    const reversed = /^(.+?)\s*(<=|>=|<|>|=)\s*(width|height)$/.exec(feature);
+    if (range) {
+        const actual = VIEWPORT[range[3] as 'width' | 'height'];
+        return (!range[1] || compare(actual, flip[range[2]], range[1])) && compare(actual, range[4], range[5]);
+    }
+    if (reversed) {
+        return compare(VIEWPORT[reversed[3] as 'width' | 'height'], flip[reversed[2]], reversed[1]);
+    }
+
+    const [name, value = ''] = feature.split(':').map(part => part.trim());
+    const dimension = /^(min|max)-(width|height)$/.exec(name);
+    if (dimension) {
+        return compare(VIEWPORT[dimension[2] as 'width' | 'height'], dimension[1] === 'min' ? '>=' : '<=', value);
+    }
+
+    const features: Record<string, string[]> = {
+        'prefers-color-scheme': ['light'],
+        orientation: ['landscape'],
+        hover: ['hover'],
+        'any-hover': ['hover'],
+        pointer: ['fine'],
+        'any-pointer': ['fine'],
+        'prefers-reduced-motion': ['no-preference'],
+        'prefers-contrast': ['no-preference'],
+        'forced-colors': ['none'],
+        color: ['']
+    };
+    return features[name]?.includes(value) ?? false;
+}
+
+/**
+ * Specificity of a single complex selector, following :is(), :not(),
+ * :has() and :where()
+ */
+function getSpecificity(selector: string): Specificity {
+    const specificity: Specificity = [0, 0, 0];
+    let i = 0;
+
+    const skipIdentifier = () => {
+        while (i < selector.length && /[\w\-\\\u0080-\uffff]/.test(selector[i])) {
+            i += selector[i] === '\\' ? 2 : 1;
+        }
+    };
+    const maxOf = (list: string): Specificity => splitTopLevel(list, char => char === ',')
+        .map(getSpecificity)
+        .reduce<Specificity>((max, next) => compareSpecificity(next, max) > 0 ? next : max, [0, 0, 0]);
+    const add = (other: Specificity) => other.forEach((value, index) => { specificity[index] += value; });
+
+    while (i < selector.length) {
+        const char = selector[i];
+
+        if (char === '\\') {
+            i += 2;
+        } else if (char === '#') {
+            i++;
+            skipIdentifier();
+            specificity[0]++;
+        } else if (char === '.') {
+            i++;
+            skipIdentifier();
+            specificity[1]++;
+        } else if (char === '[') {
+            const end = findClosing(selector, i, '[', ']');
+            i = end === -1 ? selector.length : end + 1;
+            specificity[1]++;
+        } else if (char === ':') {
+            const isElement = selector[i + 1] === ':';
+            i += isElement ? 2 : 1;
+            const nameStart = i;
+            skipIdentifier();
+            const name = selector.slice(nameStart, i).toLowerCase();
+
+            let args: string | null = null;
+            if (selector[i] === '(') {
+                const end = findClosingParen(selector, i);
+                args = selector.slice(i + 1, end === -1 ? selector.length : end);
+                i = end === -1 ? selector.length : end + 1;
+            }
+
+            if (isElement || ['before', 'after', 'first-line', 'first-letter'].includes(name)) {
+                specificity[2]++;
+            } else if (name === 'where') {
+                // Zero specificity by definition
+            } else if (args !== null && ['is', 'not', 'has', 'matches', '-webkit-any'].includes(name)) {
+                add(maxOf(args));
+            } else if (args !== null && /^nth-(?:last-)?child$/.test(name) && /\sof\s/i.test(args)) {
+                specificity[1]++;
+                add(maxOf(args.slice(args.search(/\sof\s/i) + 4)));
+            } else {
+                specificity[1]++;
+            }
+        } else if (/[a-z_\u0080-\uffff-]/i.test(char)) {
+            skipIdentifier();
+            specificity[2]++;
+        } else {
+            i++;
+        }
+    }
+
+    return specificity;
+}
+
+function compareSpecificity(a: Specificity, b: Specificity): number {
+    return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+/**
+ * The compound selector after the last combinator, e.g. "a.nav:hover" in "nav > ul a.nav:hover"
+ */
+function getRightmostCompound(selector: string): string {
+    const trimmed = selector.trim();
+    let depth = 0;
+    let start = 0;
+
+    for (let i = 0; i < trimmed.length; i++) {
+        const char = trimmed[i];
+        if (char === '\\') i++;
+        else if (char === '(' || char === '[') depth++;
+        else if (char === ')' || char === ']') depth--;
+        else if (depth === 0 && /[\s>+~]/.test(char)) start = i + 1;
+    }
+
+    return trimmed.slice(start);
+}
+
+/** Remove bracketed and parenthesized parts, keeping escapes intact */
+function stripGroups(text: string): string {
+    let depth = 0;
+    let result = '';
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === '\\') {
+            if (depth === 0) result += text.slice(i, i + 2);
+            i++;
+        } else if (char === '(' || char === '[') {
+            depth++;
+        } else if (char === ')' || char === ']') {
+            depth = Math.max(0, depth - 1);
+        } else if (depth === 0) {
+            result += char;
+        }
+    }
+
+    return result;
+}
+
+function removeEscapes(text: string): string {
+    return text.replace(/\\./g, '');
+}
+
+function unescapeIdentifier(identifier: string): string {
+    return identifier
+        .replace(/\\([0-9a-f]{1,6})\s?/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/\\(.)/g, '$1');
+}
+
+/**
+ * Split on separator characters outside parentheses, brackets and quotes
+ *
+ * @param dropEmpty - Leave out empty parts
+ */
+function splitTopLevel(text: string, isSeparator: (char: string) => boolean, dropEmpty = true): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let current = '';
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (char === '\\') {
+            current += text.slice(i, i + 2);
+            i++;
+            continue;
+        }
+
+        if (quote) {
+            if (char === quote) quote = null;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === '(' || char === '[') {
+            depth++;
+        } else if (char === ')' || char === ']') {
+            depth--;
+        } else if (depth === 0 && isSeparator(char)) {
+            parts.push(current.trim());
+            current = '';
+            continue;
+        }
+
+        current += char;
+    }
+    parts.push(current.trim());
+
+    return dropEmpty ? parts.filter(Boolean) : parts;
+}
+
+/** Index of the parenthesis closing the one at `open`, or -1 */
+function findClosingParen(text: string, open: number): number {
+    return findClosing(text, open, '(', ')');
+}
+
+function findClosing(text: string, open: number, opener: string, closer: string): number {
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (let i = open; i < text.length; i++) {
+        const char = text[i];
+        if (char === '\\') {
+            i++;
+        } else if (quote) {
+            if (char === quote) quote = null;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === opener) {
+            depth++;
+        } else if (char === closer && --depth === 0) {
+            return i;
+        }
+    }
+
+    return -1;
+}
+
+function isHttpUrl(url: string | undefined): url is string {
+    if (!url) return false;
+    try {
+        return ['http:', 'https:'].includes(new URL(url).protocol);
+    } catch {
+        return false;
+    }
+}
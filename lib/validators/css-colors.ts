@@ -0,0 +1,226 @@
+/**
+ * CSS color parsing and compositing for the contrast analyzer
+ */
+
+export interface RGBA {
+    /** 0-255, may be fractional after compositing */
+    r: number;
+    g: number;
+    b: number;
+    /** 0-1 */
+    a: number;
+}
+
+export const WHITE: RGBA = { r: 255, g: 255, b: 255, a: 1 };
+export const TRANSPARENT: RGBA = { r: 0, g: 0, b: 0, a: 0 };
+
+/**
+ * Every named color in CSS Color Module Level 4
+ */
+export const CSS_NAMED_COLORS: Record<string, string> = {
+    aliceblue: '#f0f8ff', antiquewhite: '#faebd7', aqua: '#00ffff', aquamarine: '#7fffd4',
+    azure: '#f0ffff', beige: '#f5f5dc', bisque: '#ffe4c4', black: '#000000',
+    blanchedalmond: '#ffebcd', blue: '#0000ff', blueviolet: '#8a2be2', brown: '#a52a2a',
+    burlywood: '#deb887', cadetblue: '#5f9ea0', chartreuse: '#7fff00', chocolate: '#d2691e',
+    coral: '#ff7f50', cornflowerblue: '#6495ed', cornsilk: '#fff8dc', crimson: '#dc143c',
+    cyan: '#00ffff', darkblue: '#00008b', darkcyan: '#008b8b', darkgoldenrod: '#b8860b',
+    darkgray: '#a9a9a9', darkgreen: '#006400', darkgrey: '#a9a9a9', darkkhaki: '#bdb76b',
+    darkmagenta: '#8b008b', darkolivegreen: '#556b2f', darkorange: '#ff8c00', darkorchid: '#9932cc',
+    darkred: '#8b0000', darksalmon: '#e9967a', darkseagreen: '#8fbc8f', darkslateblue: '#483d8b',
+    darkslategray: '#2f4f4f', darkslategrey: '#2f4f4f', darkturquoise: '#00ced1', darkviolet: '#9400d3',
+    deeppink: '#ff1493', deepskyblue: '#00bfff', dimgray: '#696969', dimgrey: '#696969',
+    dodgerblue: '#1e90ff', firebrick: '#b22222', floralwhite: '#fffaf0', forestgreen: '#228b22',
+    fuchsia: '#ff00ff', gainsboro: '#dcdcdc', ghostwhite: '#f8f8ff', gold: '#ffd700',
+    goldenrod: '#daa520', gray: '#808080', green: '#008000', greenyellow: '#adff2f',
+    grey: '#808080', honeydew: '#f0fff0', hotpink: '#ff69b4', indianred: '#cd5c5c',
+    indigo: '#4b0082', ivory: '#fffff0', khaki: '#f0e68c', lavender: '#e6e6fa',
+    lavenderblush: '#fff0f5', lawngreen: '#7cfc00', lemonchiffon: '#fffacd', lightblue: '#add8e6',
+    lightcoral: '#f08080', lightcyan: '#e0ffff', lightgoldenrodyellow: '#fafad2', lightgray: '#d3d3d3',
+    lightgreen: '#90ee90', lightgrey: '#d3d3d3', lightpink: '#ffb6c1', lightsalmon: '#ffa07a',
+    lightseagreen: '#20b2aa', lightskyblue: '#87cefa', lightslategray: '#778899', lightslategrey: '#778899',
+    lightsteelblue: '#b0c4de', lightyellow: '#ffffe0', lime: '#00ff00', limegreen: '#32cd32',
+    linen: '#faf0e6', magenta: '#ff00ff', maroon: '#800000', mediumaquamarine: '#66cdaa',
+    mediumblue: '#0000cd', mediumorchid: '#ba55d3', mediumpurple: '#9370db', mediumseagreen: '#3cb371',
+    mediumslateblue: '#7b68ee', mediumspringgreen: '#00fa9a', mediumturquoise: '#48d1cc', mediumvioletred: '#c71585',
+    midnightblue: '#191970', mintcream: '#f5fffa', mistyrose: '#ffe4e1', moccasin: '#ffe4b5',
+    navajowhite: '#ffdead', navy: '#000080', oldlace: '#fdf5e6', olive: '#808000',
+    olivedrab: '#6b8e23', orange: '#ffa500', orangered: '#ff4500', orchid: '#da70d6',
+    palegoldenrod: '#eee8aa', palegreen: '#98fb98', paleturquoise: '#afeeee', palevioletred: '#db7093',
+    papayawhip: '#ffefd5', peachpuff: '#ffdab9', peru: '#cd853f', pink: '#ffc0cb',
+    plum: '#dda0dd', powderblue: '#b0e0e6', purple: '#800080', rebeccapurple: '#663399',
+    red: '#ff0000', rosybrown: '#bc8f8f', royalblue: '#4169e1', saddlebrown: '#8b4513',
+    salmon: '#fa8072', sandybrown: '#f4a460', seagreen: '#2e8b57', seashell: '#fff5ee',
+    sienna: '#a0522d', silver: '#c0c0c0', skyblue: '#87ceeb', slateblue: '#6a5acd',
+    slategray: '#708090', slategrey: '#708090', snow: '#fffafa', springgreen: '#00ff7f',
+    steelblue: '#4682b4', tan: '#d2b48c', teal: '#008080', thistle: '#d8bfd8',
+    tomato: '#ff6347', turquoise: '#40e0d0', violet: '#ee82ee', wheat: '#f5deb3',
+    white: '#ffffff', whitesmoke: '#f5f5f5', yellow: '#ffff00', yellowgreen: '#9acd32'
+};
+
+/** System colors as a light-scheme browser paints them */
+const SYSTEM_COLORS: Record<string, string> = {
+    canvas: '#ffffff',
+    canvastext: '#000000',
+    linktext: '#0000ee',
+    visitedtext: '#551a8b',
+    activetext: '#ff0000',
+    buttonface: '#efefef',
+    buttontext: '#000000',
+    buttonborder: '#767676',
+    field: '#ffffff',
+    fieldtext: '#000000',
+    highlight: '#3390ff',
+    highlighttext: '#ffffff',
+    mark: '#ffff00',
+    marktext: '#000000',
+    graytext: '#6d6d6d'
+};
+
+/**
+ * Parse a CSS color value. Returns null for values the analyzer can't
+ * evaluate (color-mix(), lab(), unresolved var() and the like).
+ *
+ * @param currentColor - Used for the currentcolor keyword
+ */
+export function parseCssColor(value: string, currentColor?: RGBA): RGBA | null {
+    const color = value.trim().toLowerCase();
+
+    if (color === 'transparent') return { ...TRANSPARENT };
+    if (color === 'currentcolor') return currentColor ? { ...currentColor } : null;
+
+    const named = CSS_NAMED_COLORS[color] ?? SYSTEM_COLORS[color];
+    if (named) return parseHexColor(named);
+
+    if (color.startsWith('#')) return parseHexColor(color);
+
+    const fn = /^(rgba?|hsla?)\(([^()]*)\)$/.exec(color);
+    if (!fn) return null;
+
+    const args = splitColorArgs(fn[2]);
+    if (!args) return null;
+
+    return fn[1].startsWith('rgb') ? rgbFromArgs(args) : hslFromArgs(args);
+}
+
+function parseHexColor(hex: string): RGBA | null {
+    const digits = hex.slice(1);
+    if (!/^[0-9a-f]+$/.test(digits)) return null;
+
+    // #rgb and #rgba double each digit
+    const full = digits.length === 3 || digits.length === 4
+        ? digits.split('').map(digit => digit + digit).join('')
+        : digits;
+    if (full.length !== 6 && full.length !== 8) return null;
+
+    return {
+        r: parseInt(full.slice(0, 2), 16),
+        g: parseInt(full.slice(2, 4), 16),
+        b: parseInt(full.slice(4, 6), 16),
+        a: full.length === 8 ? parseInt(full.slice(6, 8), 16) / 255 : 1
+    };
+}
+
+/**
+ * Split rgb()/hsl() arguments in either the legacy comma syntax or the
+ * modern space syntax with an optional "/ alpha"
+ */
+function splitColorArgs(body: string): { channels: string[]; alpha?: string } | null {
+    const trimmed = body.trim();
+
+    if (trimmed.includes(',')) {
+        const parts = trimmed.split(',').map(part => part.trim());
+        if (parts.length < 3 || parts.length > 4 || parts.some(part => !part)) return null;
+        return { channels: parts.slice(0, 3), alpha: parts[3] };
+    }
+
+    const [channelPart, alpha, ...rest] = trimmed.split('/').map(part => part.trim());
+    if (rest.length > 0 || alpha === '') return null;
+
+    const channels = channelPart.split(/\s+/);
+    return channels.length === 3 ? { channels, alpha } : null;
+}
+
+/** Number or percentage scaled so 100% maps to `max`; "none" is zero */
+function parseChannel(value: string, max: number): number | null {
+    if (value === 'none') return 0;
+    const match = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%?)$/.exec(value);
+    if (!match) return null;
+
+    const number = parseFloat(match[1]);
+    return match[2] ? (number / 100) * max : number;
+}
+
+function parseAlpha(value: string | undefined): number | null {
+    if (value === undefined) return 1;
+    const alpha = parseChannel(value, 1);
+    return alpha === null ? null : clamp(alpha, 0, 1);
+}
+
+function parseHue(value: string): number | null {
+    if (value === 'none') return 0;
+    const match = /^([+-]?(?:\d+\.?\d*|\.\d+))(deg|rad|grad|turn)?$/.exec(value);
+    if (!match) return null;
+
+    const number = parseFloat(match[1]);
+    const degrees = match[2] === 'rad' ? number * 180 / Math.PI
+        : match[2] === 'grad' ? number * 0.9
+            : match[2] === 'turn' ? number * 360
+                : number;
+
+    return ((degrees % 360) + 360) % 360;
+}
+
+function rgbFromArgs({ channels, alpha }: { channels: string[]; alpha?: string }): RGBA | null {
+    const [r, g, b] = channels.map(channel => parseChannel(channel, 255));
+    const a = parseAlpha(alpha);
+    if (r === null || g === null || b === null || a === null) return null;
+
+    return { r: clamp(r, 0, 255), g: clamp(g, 0, 255), b: clamp(b, 0, 255), a };
+}
+
+function hslFromArgs({ channels, alpha }: { channels: string[]; alpha?: string }): RGBA | null {
+    const hue = parseHue(channels[0]);
+    // Modern syntax allows bare numbers, read as percentages
+    const saturation = parseChannel(channels[1].replace(/%$/, ''), 1);
+    const lightness = parseChannel(channels[2].replace(/%$/, ''), 1);
+    const a = parseAlpha(alpha);
+    if (hue === null || saturation === null || lightness === null || a === null) return null;
+
+    const s = clamp(saturation / 100, 0, 1);
+    const l = clamp(lightness / 100, 0, 1);
+
+    // https://www.w3.org/TR/css-color-4/#hsl-to-rgb
+    const f = (n: number) => {
+        const k = (n + hue / 30) % 12;
+        return l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    };
+
+    return { r: f(0) * 255, g: f(8) * 255, b: f(4) * 255, a };
+}
+
+/**
+ * Paint `top` over `bottom` (source-over). The result is opaque when
+ * `bottom` is.
+ */
+export function compositeColors(top: RGBA, bottom: RGBA): RGBA {
+    const a = top.a + bottom.a * (1 - top.a);
+    if (a === 0) return { ...TRANSPARENT };
+
+    const blend = (topChannel: number, bottomChannel: number) =>
+        (topChannel * top.a + bottomChannel * bottom.a * (1 - top.a)) / a;
+
+    return { r: blend(top.r, bottom.r), g: blend(top.g, bottom.g), b: blend(top.b, bottom.b), a };
+}
+
+/**
+ * Six-digit hex for an opaque color
+ */
+export function colorToHex(color: RGBA): string {
+    return '#' + [color.r, color.g, color.b]
+        .map(channel => Math.round(clamp(channel, 0, 255)).toString(16).padStart(2, '0'))
+        .join('');
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,606 @@
+/**
+ * Offline HTML conformance checker, used when the Nu validator is turned
+ * off or unavailable. parse5 parses the page the way browsers do and
+ * reports tokenizer errors; the checks below cover what the parser
+ * repairs silently (misnested, stray and unclosed tags) and the content
+ * rules the Nu validator is most often run for.
+ */
+
+import {
+    parse,
+    Tokenizer,
+    TokenizerMode,
+    type DefaultTreeAdapterTypes,
+    type ParserError,
+    type Token,
+    type TokenHandler
+} from 'parse5';
+import type { ValidationError } from './markup';
+
+type Element = DefaultTreeAdapterTypes.Element;
+type ParentNode = DefaultTreeAdapterTypes.ParentNode;
+
+const VOID_ELEMENTS = new Set([
+    'area', 'base', 'basefont', 'bgsound', 'br', 'col', 'embed', 'frame', 'hr',
+    'img', 'input', 'keygen', 'link', 'meta', 'param', 'source', 'track', 'wbr'
+]);
+
+/** Elements whose end tag may be left out; closing their parent closes them */
+const OPTIONAL_END_TAG = new Set([
+    'html', 'head', 'body', 'p', 'li', 'dt', 'dd', 'rb', 'rt', 'rtc', 'rp', 'optgroup',
+    'option', 'colgroup', 'caption', 'thead', 'tbody', 'tfoot', 'tr', 'td', 'th'
+]);
+
+/** Start tags that close an open p element */
+const CLOSES_P = new Set([
+    'address', 'article', 'aside', 'blockquote', 'details', 'dialog', 'div', 'dl', 'dd', 'dt',
+    'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+    'header', 'hgroup', 'hr', 'li', 'listing', 'main', 'menu', 'nav', 'ol', 'p', 'plaintext',
+    'pre', 'search', 'section', 'table', 'ul', 'xmp'
+]);
+
+const TEXT_MODES: Record<string, number> = {
+    script: TokenizerMode.SCRIPT_DATA,
+    style: TokenizerMode.RAWTEXT,
+    xmp: TokenizerMode.RAWTEXT,
+    iframe: TokenizerMode.RAWTEXT,
+    noembed: TokenizerMode.RAWTEXT,
+    noframes: TokenizerMode.RAWTEXT,
+    // parse5 parses with scripting enabled, like browsers
+    noscript: TokenizerMode.RAWTEXT,
+    textarea: TokenizerMode.RCDATA,
+    title: TokenizerMode.RCDATA,
+    plaintext: TokenizerMode.PLAINTEXT
+};
+
+/** Flow content that can't sit inside phrasing content */
+const BLOCK_ELEMENTS = new Set([
+    'address', 'article', 'aside', 'blockquote', 'details', 'dialog', 'div', 'dl', 'fieldset',
+    'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hgroup', 'hr',
+    'main', 'menu', 'nav', 'ol', 'p', 'pre', 'search', 'section', 'table', 'ul'
+]);
+
+/** Elements whose content model is phrasing content only */
+const PHRASING_ONLY = new Set([
+    'abbr', 'b', 'bdi', 'bdo', 'button', 'cite', 'code', 'data', 'dfn', 'em', 'h1', 'h2', 'h3',
+    'h4', 'h5', 'h6', 'i', 'kbd', 'label', 'mark', 'output', 'p', 'pre', 'q', 's', 'samp',
+    'small', 'span', 'strong', 'sub', 'sup', 'time', 'u', 'var'
+]);
+
+/** Elements that take the content model of their parent */
+const TRANSPARENT = new Set(['a', 'audio', 'canvas', 'del', 'ins', 'map', 'noscript', 'object', 'slot', 'video']);
+
+/** Interactive content that must not be nested in a or button */
+const INTERACTIVE = new Set(['a', 'button', 'details', 'embed', 'iframe', 'label', 'select', 'textarea']);
+
+const OBSOLETE_ELEMENTS: Record<string, string> = {
+    acronym: 'Use the “abbr” element instead.',
+    applet: 'Use the “object” element instead.',
+    basefont: 'Use CSS instead.',
+    bgsound: 'Use the “audio” element instead.',
+    big: 'Use CSS instead.',
+    blink: 'Use CSS instead.',
+    center: 'Use CSS instead.',
+    dir: 'Use the “ul” element instead.',
+    font: 'Use CSS instead.',
+    frame: 'Use the “iframe” element and CSS instead, or use server-side includes.',
+    frameset: 'Use the “iframe” element and CSS instead, or use server-side includes.',
+    isindex: 'Use the “form” element containing an “input” element instead.',
+    keygen: 'Use the Web Crypto API instead.',
+    listing: 'Use “pre” or “code” instead.',
+    marquee: 'Use CSS animations instead.',
+    menuitem: 'Use script to handle “contextmenu” events instead.',
+    multicol: 'Use CSS instead.',
+    nextid: 'Use GUIDs instead.',
+    nobr: 'Use CSS instead.',
+    noembed: 'Use the “object” element instead.',
+    noframes: 'Use the “iframe” element instead.',
+    plaintext: 'Use the “text/plain” MIME type instead.',
+    spacer: 'Use CSS instead.',
+    strike: 'Use “del” or “s” instead.',
+    tt: 'Use CSS instead.',
+    xmp: 'Use “pre” or “code” instead.'
+};
+
+const TABLE_CELL_ATTRIBUTES = ['align', 'axis', 'bgcolor', 'char', 'charoff', 'height', 'nowrap', 'valign', 'width'];
+const TABLE_SECTION_ATTRIBUTES = ['align', 'char', 'charoff', 'valign'];
+
+const OBSOLETE_ATTRIBUTES: Record<string, string[]> = {
+    a: ['charset', 'coords', 'rev', 'shape'],
+    area: ['nohref'],
+    body: ['alink', 'background', 'bgcolor', 'link', 'marginbottom', 'marginheight', 'marginleft', 'marginright', 'margintop', 'marginwidth', 'text', 'vlink'],
+    br: ['clear'],
+    caption: ['align'],
+    col: ['align', 'char', 'charoff', 'valign', 'width'],
+    div: ['align'],
+    dl: ['compact'],
+    form: ['accept'],
+    h1: ['align'],
+    h2: ['align'],
+    h3: ['align'],
+    h4: ['align'],
+    h5: ['align'],
+    h6: ['align'],
+    head: ['profile'],
+    hr: ['align', 'color', 'noshade', 'size', 'width'],
+    html: ['version'],
+    iframe: ['align', 'allowtransparency', 'frameborder', 'framespacing', 'hspace', 'longdesc', 'marginheight', 'marginwidth', 'scrolling', 'vspace'],
+    img: ['align', 'hspace', 'longdesc', 'lowsrc', 'vspace'],
+    input: ['align', 'hspace', 'ismap', 'usemap', 'vspace'],
+    legend: ['align'],
+    li: ['type'],
+    link: ['charset', 'rev', 'target'],
+    meta: ['scheme'],
+    object: ['align', 'archive', 'border', 'classid', 'code', 'codebase', 'codetype', 'declare', 'hspace', 'standby', 'vspace'],
+    ol: ['compact'],
+    p: ['align'],
+    pre: ['width'],
+    script: ['charset', 'event', 'for', 'language'],
+    table: ['align', 'bgcolor', 'cellpadding', 'cellspacing', 'frame', 'rules', 'summary', 'width'],
+    tbody: TABLE_SECTION_ATTRIBUTES,
+    td: [...TABLE_CELL_ATTRIBUTES, 'abbr', 'scope'],
+    tfoot: TABLE_SECTION_ATTRIBUTES,
+    th: TABLE_CELL_ATTRIBUTES,
+    thead: TABLE_SECTION_ATTRIBUTES,
+    tr: ['align', 'bgcolor', 'char', 'charoff', 'valign'],
+    ul: ['compact', 'type']
+};
+
+interface EnumeratedAttribute {
+    attribute: string;
+    /** Elements the rule applies to; all when omitted */
+    elements?: string[];
+    values: string[];
+}
+
+const REFERRER_POLICIES = [
+    '', 'no-referrer', 'no-referrer-when-downgrade', 'same-origin', 'origin', 'strict-origin',
+    'origin-when-cross-origin', 'strict-origin-when-cross-origin', 'unsafe-url'
+];
+
+const ENUMERATED_ATTRIBUTES: EnumeratedAttribute[] = [
+    {
+        attribute: 'type',
+        elements: ['input'],
+        values: [
+            'button', 'checkbox', 'color', 'date', 'datetime-local', 'email', 'file', 'hidden', 'image',
+            'month', 'number', 'password', 'radio', 'range', 'reset', 'search', 'submit', 'tel', 'text',
+            'time', 'url', 'week'
+        ]
+    },
+    { attribute: 'type', elements: ['button'], values: ['button', 'reset', 'submit'] },
+    { attribute: 'dir', values: ['auto', 'ltr', 'rtl'] },
+    { attribute: 'loading', elements: ['iframe', 'img'], values: ['eager', 'lazy'] },
+    { attribute: 'decoding', elements: ['img'], values: ['async', 'auto', 'sync'] },
+    { attribute: 'crossorigin', values: ['', 'anonymous', 'use-credentials'] },
+    { attribute: 'referrerpolicy', values: REFERRER_POLICIES },
+    { attribute: 'method', elements: ['form'], values: ['dialog', 'get', 'post'] },
+    { attribute: 'enctype', elements: ['form'], values: ['application/x-www-form-urlencoded', 'multipart/form-data', 'text/plain'] },
+    { attribute: 'scope', elements: ['th'], values: ['col', 'colgroup', 'row', 'rowgroup'] },
+    { attribute: 'draggable', values: ['false', 'true'] },
+    { attribute: 'spellcheck', values: ['', 'false', 'true'] },
+    { attribute: 'contenteditable', values: ['', 'false', 'plaintext-only', 'true'] },
+    { attribute: 'translate', values: ['', 'no', 'yes'] }
+];
+
+/** Elements whose width and height must be non-negative integers (pixels) */
+const DIMENSION_ELEMENTS = new Set(['canvas', 'embed', 'iframe', 'img', 'input', 'object', 'source', 'video']);
+
+const BROWSING_CONTEXT_KEYWORDS = ['_blank', '_parent', '_self', '_top'];
+
+/** parse5 errors the nesting pass reports with more detail */
+const NESTING_ERROR_CODES = new Set([
+    'closing-of-element-with-open-child-elements',
+    'end-tag-without-matching-open-element',
+    'open-elements-left-after-eof'
+]);
+
+const PARSE_ERROR_MESSAGES: Record<string, string> = {
+    'missing-doctype': 'Missing DOCTYPE declaration; expected “<!DOCTYPE html>”.',
+    'non-conforming-doctype': 'Obsolete or non-standard DOCTYPE; expected “<!DOCTYPE html>”.',
+    'misplaced-doctype': 'Stray DOCTYPE declaration.',
+    'duplicate-attribute': 'Duplicate attribute; browsers ignore all but the first.',
+    'non-void-html-element-start-tag-with-trailing-solidus':
+        'Self-closing syntax (“/>”) used on a non-void HTML element; the slash is ignored and the element stays open.',
+    'unexpected-null-character': 'Saw a NULL character.',
+    'eof-in-tag': 'End of file seen inside a tag.',
+    'eof-in-comment': 'End of file seen inside a comment.',
+    'abandoned-head-element-child': 'Element belongs in “head” but appears after it.',
+    'misplaced-start-tag-for-head-element': 'Start tag for “head” seen when a “head” element was already open or closed.'
+};
+
+/** Longest stretch of source highlighted in an extract */
+const MAX_HIGHLIGHT_LENGTH = 160;
+const EXTRACT_CONTEXT = 20;
+
+/**
+ * Validate a page offline. Parse errors, nesting problems and content
+ * rule violations come back sorted by position.
+ */
+export function validateHTMLOffline(html: string): ValidationError[] {
+    const parseErrors: ParserError[] = [];
+    const document = parse(html, {
+        sourceCodeLocationInfo: true,
+        onParseError: error => parseErrors.push(error)
+    });
+
+    const errors = [
+        ...parseErrors
+            .filter(error => !NESTING_ERROR_CODES.has(error.code))
+            .map(error => issue(html, 'error', describeParseError(error.code), error)),
+        ...checkNesting(html),
+        ...checkDocument(html, document)
+    ];
+
+    return errors.sort((a, b) => (a.line ?? 0) - (b.line ?? 0) || (a.column ?? 0) - (b.column ?? 0));
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+interface OpenElement {
+    name: string;
+    location: Token.Location;
+    foreign: boolean;
+}
+
+/**
+ * Replay the start and end tags against a stack of open elements to find
+ * what tree construction repairs without telling: nested anchors and
+ * forms, stray end tags, misnested and unclosed elements
+ */
+function checkNesting(html: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const stack: OpenElement[] = [];
+    const unclosed = (element: OpenElement) =>
+        issue(html, 'error', `Unclosed element “${element.name}”.`, element.location);
+    const mustBeClosed = (element: OpenElement) => !element.foreign && !OPTIONAL_END_TAG.has(element.name);
+    const lastIndexOf = (name: string) => stack.map(element => element.name).lastIndexOf(name);
+
+    const startTag = (token: Token.TagToken) => {
+        const name = token.tagName;
+        const location = token.location!;
+
+        if (stack.some(element => element.foreign)) {
+            if (!token.selfClosing) stack.push({ name, location, foreign: true });
+            return;
+        }
+
+        if (name === 'a' && lastIndexOf('a') >= 0) {
+            errors.push(issue(html, 'error', 'An “a” start tag seen but an element of the same type was already open; links must not be nested.', location));
+            stack.splice(lastIndexOf('a'), 1);
+        }
+
+        if (name === 'form' && lastIndexOf('form') >= 0 && lastIndexOf('template') < 0) {
+            errors.push(issue(html, 'error', 'Saw a “form” start tag, but there was already an active “form” element. Nested forms are not allowed; the tag is ignored.', location));
+            return;
+        }
+
+        if (CLOSES_P.has(name)) {
+            const index = lastIndexOf('p');
+            if (index >= 0) {
+                const open = stack.slice(index + 1).filter(mustBeClosed);
+                if (open.length > 0) {
+                    errors.push(issue(html, 'error', `“${name}” start tag closes the open “p” element, but there were open elements inside it.`, location));
+                    errors.push(...open.map(unclosed));
+                }
+                stack.length = index;
+            }
+        }
+
+        if (name === 'svg' || name === 'math') {
+            if (!token.selfClosing) stack.push({ name, location, foreign: true });
+            return;
+        }
+
+        if (!VOID_ELEMENTS.has(name)) {
+            stack.push({ name, location, foreign: false });
+        }
+        // The parser normally switches the tokenizer into raw text after these tags
+        if (TEXT_MODES[name] !== undefined) {
+            tokenizer.state = TEXT_MODES[name] as Tokenizer['state'];
+        }
+    };
+
+    const endTag = (token: Token.TagToken) => {
+        const name = token.tagName;
+        const location = token.location!;
+        const index = lastIndexOf(name);
+
+        if (index < 0) {
+            if (name === 'p') {
+                errors.push(issue(html, 'error', 'No “p” element in scope but a “p” end tag seen.', location));
+            } else if (!['html', 'head', 'body'].includes(name)) {
+                errors.push(issue(html, 'error', `Stray end tag “${name}”.`, location));
+            }
+            return;
+        }
+
+        const open = stack.slice(index + 1).filter(mustBeClosed);
+        if (open.length > 0) {
+            errors.push(issue(html, 'error', `End tag “${name}” seen, but there were open elements.`, location));
+            errors.push(...open.map(unclosed));
+        }
+        stack.length = index;
+    };
+
+    const noop = () => undefined;
+    const handler: TokenHandler = {
+        onComment: noop,
+        onDoctype: noop,
+        onCharacter: noop,
+        onNullCharacter: noop,
+        onWhitespaceCharacter: noop,
+        onStartTag(token) {
+            startTag(token);
+            // CDATA sections are only recognised in SVG and MathML
+            tokenizer.inForeignNode = stack.some(element => element.foreign);
+        },
+        onEndTag(token) {
+            endTag(token);
+            tokenizer.inForeignNode = stack.some(element => element.foreign);
+        },
+        onEof() {
+            errors.push(...stack.filter(mustBeClosed).map(unclosed));
+        }
+    };
+
+    const tokenizer = new Tokenizer({ sourceCodeLocationInfo: true }, handler);
+    tokenizer.write(html, true);
+
+    return errors;
+}
+
+/**
+ * Content rules checked on the parsed tree: ids, obsolete markup, required
+ * and enumerated attributes, content models and the document head
+ */
+function checkDocument(html: string, document: DefaultTreeAdapterTypes.Document): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const ids = new Map<string, number | undefined>();
+    let hasTitle = false;
+    let root: Element | undefined;
+    let head: Element | undefined;
+
+    walk(document, []);
+
+    if (root && !hasAttribute(root, 'lang')) {
+        errors.push(issue(html, 'warning', 'Consider adding a “lang” attribute to the “html” start tag to declare the language of this document.', root.sourceCodeLocation?.startTag));
+    }
+    if (!hasTitle) {
+        errors.push(issue(html, 'error', 'Element “head” is missing a required instance of child element “title”.', head?.sourceCodeLocation?.startTag));
+    }
+
+    return errors;
+
+    function walk(node: ParentNode, ancestors: Element[]): void {
+        for (const child of node.childNodes) {
+            if (!('tagName' in child)) continue;
+
+            if (child.tagName === 'html' && ancestors.length === 0) root = child;
+            if (child.tagName === 'head' && ancestors.length === 1) head = child;
+            if (child.tagName === 'title' && child.namespaceURI === 'http://www.w3.org/1999/xhtml') hasTitle = true;
+
+            // Only HTML elements follow these rules; skip into SVG and MathML subtrees
+            if (child.namespaceURI === 'http://www.w3.org/1999/xhtml') {
+                checkElement(child, ancestors);
+                walk(child.tagName === 'template' ? (child as DefaultTreeAdapterTypes.Template).content : child, [...ancestors, child]);
+            }
+        }
+    }
+
+    function checkElement(element: Element, ancestors: Element[]): void {
+        const name = element.tagName;
+        const location = element.sourceCodeLocation ?? undefined;
+        const tagLocation = location?.startTag ?? location;
+        const attributeLocation = (attribute: string) => location?.attrs?.[attribute] ?? tagLocation;
+        const report = (type: ValidationError['type'], message: string, at = tagLocation) => {
+            // Elements the parser implied (e.g. a missing body) have no source position
+            if (at || !location) errors.push(issue(html, type, message, at));
+        };
+
+        const id = getAttribute(element, 'id');
+        if (id !== undefined) {
+            if (id === '') {
+                report('error', `Bad value “” for attribute “id” on element “${name}”: An ID must not be the empty string.`, attributeLocation('id'));
+            } else if (/\s/.test(id)) {
+                report('error', `Bad value “${id}” for attribute “id” on element “${name}”: An ID must not contain whitespace.`, attributeLocation('id'));
+            } else if (ids.has(id)) {
+                const firstLine = ids.get(id);
+                report('error', `Duplicate ID “${id}”${firstLine ? `; first used on line ${firstLine}` : ''}.`, attributeLocation('id'));
+            } else {
+                ids.set(id, attributeLocation('id')?.startLine);
+            }
+        }
+
+        if (OBSOLETE_ELEMENTS[name]) {
+            report('error', `The “${name}” element is obsolete. ${OBSOLETE_ELEMENTS[name]}`);
+        }
+        for (const attribute of OBSOLETE_ATTRIBUTES[name] ?? []) {
+            if (hasAttribute(element, attribute)) {
+                report('error', `The “${attribute}” attribute on the “${name}” element is obsolete. Use CSS instead.`, attributeLocation(attribute));
+            }
+        }
+
+        for (const message of getMissingAttributes(element, ancestors)) {
+            report('error', message);
+        }
+
+        for (const { attribute, message } of getBadAttributeValues(element)) {
+            report('error', message, attributeLocation(attribute));
+        }
+
+        const parent = ancestors.filter(ancestor => !TRANSPARENT.has(ancestor.tagName)).at(-1);
+        if (BLOCK_ELEMENTS.has(name) && parent && PHRASING_ONLY.has(parent.tagName)) {
+            report('error', `Element “${name}” not allowed as child of element “${parent.tagName}” in this context.`);
+        }
+
+        const isInteractive = INTERACTIVE.has(name)
+            || (name === 'input' && getAttribute(element, 'type')?.toLowerCase() !== 'hidden')
+            || ((name === 'audio' || name === 'video') && hasAttribute(element, 'controls'))
+            || (name === 'img' && hasAttribute(element, 'usemap'));
+        const interactiveAncestor = ancestors.find(ancestor => ancestor.tagName === 'a' || ancestor.tagName === 'button');
+        if (isInteractive && interactiveAncestor) {
+            report('error', `The element “${name}” must not appear as a descendant of the “${interactiveAncestor.tagName}” element.`);
+        }
+    }
+}
+
+function getMissingAttributes(element: Element, ancestors: Element[]): string[] {
+    const name = element.tagName;
+    const missing = (attribute: string) => `Element “${name}” is missing required attribute “${attribute}”.`;
+    const messages: string[] = [];
+
+    switch (name) {
+        case 'img':
+            if (!hasAttribute(element, 'src')) messages.push(missing('src'));
+            if (!hasAttribute(element, 'alt')) {
+                messages.push('An “img” element must have an “alt” attribute, except under certain conditions. For details, consult guidance on providing text alternatives for images.');
+            }
+            break;
+        case 'area':
+            if (hasAttribute(element, 'href') && !hasAttribute(element, 'alt')) messages.push(missing('alt'));
+            break;
+        case 'input':
+            if (getAttribute(element, 'type')?.toLowerCase() === 'image' && !hasAttribute(element, 'alt')) messages.push(missing('alt'));
+            break;
+        case 'link':
+            if (!hasAttribute(element, 'href') && !hasAttribute(element, 'imagesrcset')) messages.push(missing('href'));
+            if (!hasAttribute(element, 'rel') && !hasAttribute(element, 'itemprop')) {
+                messages.push('A “link” element must have a “rel” or “itemprop” attribute.');
+            }
+            break;
+        case 'meta':
+            if ((hasAttribute(element, 'name') || hasAttribute(element, 'http-equiv')) && !hasAttribute(element, 'content')) {
+                messages.push(missing('content'));
+            }
+            break;
+        case 'source':
+            if (ancestors.at(-1)?.tagName === 'picture') {
+                if (!hasAttribute(element, 'srcset')) messages.push(missing('srcset'));
+            } else if (!hasAttribute(element, 'src') && !hasAttribute(element, 'srcset')) {
+                messages.push(missing('src'));
+            }
+            break;
+        case 'object':
+            if (!hasAttribute(element, 'data') && !hasAttribute(element, 'type')) {
+                messages.push('Element “object” is missing one or more of the following attributes: “data”, “type”.');
+            }
+            break;
+        case 'base':
+            if (!hasAttribute(element, 'href') && !hasAttribute(element, 'target')) {
+                messages.push('Element “base” is missing one or more of the following attributes: “href”, “target”.');
+            }
+            break;
+        case 'optgroup':
+            if (!hasAttribute(element, 'label')) messages.push(missing('label'));
+            break;
+        case 'track':
+            if (!hasAttribute(element, 'src')) messages.push(missing('src'));
+            break;
+        case 'map':
+            if (!hasAttribute(element, 'name')) messages.push(missing('name'));
+            break;
+        case 'bdo':
+            if (!hasAttribute(element, 'dir')) messages.push(missing('dir'));
+            break;
+    }
+
+    return messages;
+}
+
+function getBadAttributeValues(element: Element): Array<{ attribute: string; message: string }> {
+    const name = element.tagName;
+    const bad = (attribute: string, value: string, reason: string) => ({
+        attribute,
+        message: `Bad value “${value}” for attribute “${attribute}” on element “${name}”: ${reason}`
+    });
+    const problems: Array<{ attribute: string; message: string }> = [];
+
+    for (const rule of ENUMERATED_ATTRIBUTES) {
+        if (rule.elements && !rule.elements.includes(name)) continue;
+
+        const value = getAttribute(element, rule.attribute);
+        if (value !== undefined && !rule.values.includes(value.trim().toLowerCase())) {
+            const allowed = rule.values.filter(Boolean).map(option => `“${option}”`).join(', ');
+            problems.push(bad(rule.attribute, value, `Expected one of ${allowed}.`));
+        }
+    }
+
+    if (DIMENSION_ELEMENTS.has(name)) {
+        for (const attribute of ['width', 'height']) {
+            const value = getAttribute(element, attribute);
+            if (value !== undefined && !/^\d+$/.test(value.trim())) {
+                problems.push(bad(attribute, value, 'Expected a non-negative integer (CSS pixels, without units).'));
+            }
+        }
+    }
+
+    const tabindex = getAttribute(element, 'tabindex');
+    if (tabindex !== undefined && !/^-?\d+$/.test(tabindex.trim())) {
+        problems.push(bad('tabindex', tabindex, 'Expected an integer.'));
+    }
+
+    if (name === 'td' || name === 'th') {
+        for (const attribute of ['colspan', 'rowspan']) {
+            const value = getAttribute(element, attribute);
+            const min = attribute === 'colspan' ? 1 : 0;
+            if (value !== undefined && !(/^\d+$/.test(value.trim()) && Number(value) >= min)) {
+                problems.push(bad(attribute, value, `Expected an integer of at least ${min}.`));
+            }
+        }
+    }
+
+    const target = getAttribute(element, 'target');
+    if (target?.startsWith('_') && !BROWSING_CONTEXT_KEYWORDS.includes(target.toLowerCase())) {
+        problems.push(bad('target', target, `Names starting with an underscore are reserved; use one of ${BROWSING_CONTEXT_KEYWORDS.map(keyword => `“${keyword}”`).join(', ')}.`));
+    }
+
+    const charset = name === 'meta' ? getAttribute(element, 'charset') : undefined;
+    if (charset !== undefined && charset.trim().toLowerCase() !== 'utf-8') {
+        problems.push(bad('charset', charset, 'The only allowed value is “utf-8”.'));
+    }
+
+    return problems;
+}
+
+function getAttribute(element: Element, name: string): string | undefined {
+    return element.attrs.find(attribute => attribute.name === name)?.value;
+}
+
+function hasAttribute(element: Element, name: string): boolean {
+    return element.attrs.some(attribute => attribute.name === name);
+}
+
+function describeParseError(code: string): string {
+    if (PARSE_ERROR_MESSAGES[code]) return PARSE_ERROR_MESSAGES[code];
+
+    const text = code.replace(/-/g, ' ');
+    return `${text.charAt(0).toUpperCase()}${text.slice(1)}.`;
+}
+
+/**
+ * A finding at a source location, with an extract of the surrounding
+ * markup in the same shape the Nu validator returns
+ */
+function issue(html: string, type: ValidationError['type'], message: string, location?: Token.Location): ValidationError {
+    if (!location) return { type, message };
+
+    const highlightLength = Math.min(location.endOffset - location.startOffset, MAX_HIGHLIGHT_LENGTH);
+    const extractStart = Math.max(0, location.startOffset - EXTRACT_CONTEXT);
+    const extractEnd = Math.min(html.length, location.startOffset + highlightLength + EXTRACT_CONTEXT);
+
+    return {
+        type,
+        message,
+        line: location.startLine,
+        column: location.startCol,
+        endLine: location.endLine,
+        // parse5 end columns point after the last character; Nu's are inclusive
+        endColumn: Math.max(location.startCol, location.endCol - 1),
+        extract: html.slice(extractStart, extractEnd),
+        highlightStart: location.startOffset - extractStart,
+        highlightLength
+    };
+}
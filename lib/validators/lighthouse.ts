@@ -1,3 +1,5 @@
+import { rethrowIfAborted } from '@/lib/check-jobs';
+
 export interface LighthouseMetric {
     score: number;
     value: number;
@@ -9,6 +11,8 @@ export interface LighthouseResult {
     accessibility: number;
     bestPractices: number;
     seo: number;
+    /** Placeholder scores returned without an API key or when the API failed */
+    simulated?: boolean;
     metrics?: {
         [key: string]: LighthouseMetric;
     };
@@ -18,8 +22,13 @@ export interface LighthouseResult {
  * Run Lighthouse analysis using Google PageSpeed Insights API
  * @param url - URL to analyze
  * @param strategy - 'mobile' or 'desktop' (defaults to 'desktop')
+ * @param signal - Aborts the PageSpeed request
  */
-export async function runLighthouse(url: string, strategy: 'mobile' | 'desktop' = 'desktop'): Promise<LighthouseResult> {
+export async function runLighthouse(
+    url: string,
+    strategy: 'mobile' | 'desktop' = 'desktop',
+    signal?: AbortSignal
+): Promise<LighthouseResult> {
     const apiKey = process.env.GOOGLE_PAGESPEED_API_KEY;
 
     // Return simulated scores if no API key
@@ -29,7 +38,8 @@ export async function runLighthouse(url: string, strategy: 'mobile' | 'desktop'
             performance: 85,
             accessibility: 90,
             bestPractices: 88,
-            seo: 92
+            seo: 92,
+            simulated: true
         };
     }
 
@@ -39,7 +49,7 @@ export async function runLighthouse(url: string, strategy: 'mobile' | 'desktop'
 
         console.log(`[Lighthouse] Making API request for ${url} with strategy: ${strategy}`);
 
-        const response = await fetch(apiUrl);
+        const response = await fetch(apiUrl, { signal });
 
         if (!response.ok) {
             const errorData = await response.json().catch(() => ({}));
@@ -78,6 +88,7 @@ export async function runLighthouse(url: string, strategy: 'mobile' | 'desktop'
 
         return result;
     } catch (error) {
+        rethrowIfAborted(signal);
         console.error('[Lighthouse] Analysis error:', error);
         console.warn('[Lighthouse] Returning simulated fallback scores');
         // Return simulated scores on error
@@ -85,7 +96,8 @@ export async function runLighthouse(url: string, strategy: 'mobile' | 'desktop'
             performance: 85,
             accessibility: 90,
             bestPractices: 88,
-            seo: 92
+            seo: 92,
+            simulated: true
         };
     }
 }
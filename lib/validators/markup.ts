@@ -1,38 +1,235 @@
+import { CheckAbortedError, requestSignal, rethrowIfAborted } from '@/lib/check-jobs';
+import { validateHTMLOffline } from './html-conformance';
+
+export const DEFAULT_MARKUP_VALIDATOR_URL = 'https://validator.w3.org/nu/';
+const DEFAULT_RETRIES = 2;
+const DEFAULT_TIMEOUT_MS = 30000;
+const RETRY_BASE_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 8000;
+/** How long a failed validator is skipped before it is probed again */
+const PROBE_INTERVAL_MS = 60000;
+const PROBE_DOCUMENT = '<!DOCTYPE html><html lang="en"><head><title>Health probe</title></head><body></body></html>';
+const USER_AGENT = 'Mozilla/5.0 (compatible; HealthChecker/1.0)';
+
 export interface ValidationError {
     type: string;
     message: string;
+    /** Nu validator subtype, e.g. "fatal" for errors or "warning" for info messages */
+    subType?: string;
+    /** Where the problem starts */
     line?: number;
     column?: number;
+    /** Where the problem ends */
+    endLine?: number;
+    endColumn?: number;
+    /** Source excerpt around the problem */
+    extract?: string;
+    /** Offset and length of the offending markup within extract */
+    highlightStart?: number;
+    highlightLength?: number;
+}
+
+/**
+ * One entry of the Nu validator's `messages` array
+ * (https://github.com/validator/validator/wiki/Output-»-JSON)
+ */
+interface NuMessage {
+    type: 'error' | 'info' | 'non-document-error';
+    subType?: string;
+    message?: string;
+    extract?: string;
+    firstLine?: number;
+    lastLine?: number;
+    firstColumn?: number;
+    lastColumn?: number;
+    hiliteStart?: number;
+    hiliteLength?: number;
+}
+
+export interface MarkupValidatorConfig {
+    /** Nu validator endpoint, or null when remote validation is turned off */
+    url: string | null;
+    /** Extra attempts after a network error, 429 or 5xx */
+    retries: number;
+    /** Timeout of each request */
+    timeoutMs: number;
+}
+
+export interface MarkupValidatorHealth {
+    url: string;
+    healthy: boolean;
+    checkedAt: number;
+    latencyMs?: number;
+    error?: string;
+}
+
+export interface MarkupValidationResult {
+    errors: ValidationError[];
+    /** The validator that produced the errors, or the offline fallback */
+    dataSource: string;
+    /** Why the offline validator ran instead of the Nu validator */
+    fallbackReason?: string;
+}
+
+class ValidatorRequestError extends Error {
+    constructor(message: string, readonly retryable: boolean, readonly retryAfter?: string | null) {
+        super(message);
+        this.name = 'ValidatorRequestError';
+    }
+}
+
+// Kept on globalThis so validator health survives module reloads in development
+const globalForMarkup = globalThis as unknown as { markupValidatorHealth?: Map<string, MarkupValidatorHealth> };
+
+function getHealthCache(): Map<string, MarkupValidatorHealth> {
+    return globalForMarkup.markupValidatorHealth ?? (globalForMarkup.markupValidatorHealth = new Map());
 }
 
 /**
- * Validate HTML markup using W3C Validator API
+ * Validator settings from the environment.
+ *
+ * `MARKUP_VALIDATOR_URL` points at a self-hosted vnu instance (e.g.
+ * `http://vnu:8888/`) so page HTML never leaves the network; `off` skips
+ * remote validation. An invalid URL also turns it off rather than sending
+ * the HTML to the public W3C service. `MARKUP_VALIDATOR_RETRIES` (default 2)
+ * and `MARKUP_VALIDATOR_TIMEOUT_MS` (default 30000) tune each request.
  */
-export async function validateMarkup(html: string): Promise<ValidationError[]> {
+export function getMarkupValidatorConfig(): MarkupValidatorConfig {
+    const retries = Number(process.env.MARKUP_VALIDATOR_RETRIES);
+    const timeoutMs = Number(process.env.MARKUP_VALIDATOR_TIMEOUT_MS);
+    const config: MarkupValidatorConfig = {
+        url: DEFAULT_MARKUP_VALIDATOR_URL,
+        retries: process.env.MARKUP_VALIDATOR_RETRIES && Number.isInteger(retries) && retries >= 0 ? retries : DEFAULT_RETRIES,
+        timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : DEFAULT_TIMEOUT_MS
+    };
+
+    const configured = process.env.MARKUP_VALIDATOR_URL?.trim();
+    if (!configured) return config;
+
+    if (configured.toLowerCase() === 'off') {
+        return { ...config, url: null };
+    }
+
     try {
-        const validatorResponse = await fetch('https://validator.w3.org/nu/?out=json', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'text/html; charset=utf-8',
-                'User-Agent': 'Mozilla/5.0 (compatible; HealthChecker/1.0)'
-            },
-            body: html,
-        });
+        const url = new URL(configured);
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+            throw new Error(`unsupported protocol ${url.protocol}`);
+        }
+        return { ...config, url: url.toString() };
+    } catch (error) {
+        console.warn(`[Markup] Ignoring MARKUP_VALIDATOR_URL "${configured}" and using offline validation only:`, error);
+        return { ...config, url: null };
+    }
+}
 
-        if (validatorResponse.ok) {
-            const validatorText = await validatorResponse.text();
-            const w3cResults = parseW3CResponse(validatorText);
+/**
+ * Name of a validator endpoint for the dataSource field
+ */
+export function getValidatorName(url: string): string {
+    const host = new URL(url).host;
+    return host === new URL(DEFAULT_MARKUP_VALIDATOR_URL).host ? 'W3C Nu Validator' : `Nu Validator (${host})`;
+}
+
+/**
+ * Validate HTML markup with the configured Nu validator, retrying
+ * transient failures with exponential backoff. Falls back to the offline
+ * validator when the Nu validator is turned off or unavailable; one that
+ * failed is skipped until a probe finds it healthy again.
+ */
+export async function validateMarkup(html: string, signal?: AbortSignal): Promise<MarkupValidationResult> {
+    const config = getMarkupValidatorConfig();
 
-            if (w3cResults.length > 0) {
-                return w3cResults;
+    if (!config.url) {
+        return { errors: validateHTMLOffline(html), dataSource: 'Local Analysis' };
+    }
+
+    const validatorName = getValidatorName(config.url);
+    const fallback = (reason: string): MarkupValidationResult => {
+        console.warn(`[Markup] ${validatorName} unavailable (${reason}), using offline validation`);
+        return {
+            errors: validateHTMLOffline(html),
+            dataSource: 'Local Analysis (Validator Fallback)',
+            fallbackReason: `${validatorName} unavailable: ${reason}`
+        };
+    };
+
+    const health = getHealthCache().get(config.url);
+    if (health && !health.healthy && Date.now() - health.checkedAt < PROBE_INTERVAL_MS) {
+        return fallback(health.error ?? 'failed recently');
+    }
+    if (health && !health.healthy) {
+        const probe = await probeMarkupValidator(config.url, signal);
+        if (!probe?.healthy) {
+            return fallback(probe?.error ?? 'health probe failed');
+        }
+    }
+
+    for (let attempt = 0; ; attempt++) {
+        const startedAt = Date.now();
+        try {
+            const errors = await postToValidator(config.url, html, config.timeoutMs, signal);
+            getHealthCache().set(config.url, { url: config.url, healthy: true, checkedAt: Date.now(), latencyMs: Date.now() - startedAt });
+            return { errors, dataSource: validatorName };
+        } catch (error) {
+            rethrowIfAborted(signal);
+
+            const message = error instanceof Error ? error.message : String(error);
+            const retryable = !(error instanceof ValidatorRequestError) || error.retryable;
+
+            if (!retryable || attempt >= config.retries) {
+                getHealthCache().set(config.url, { url: config.url, healthy: false, checkedAt: Date.now(), error: message });
+                return fallback(message);
             }
+
+            const delayMs = getRetryDelay(attempt, error instanceof ValidatorRequestError ? error.retryAfter : undefined);
+            console.warn(`[Markup] ${validatorName} attempt ${attempt + 1} failed (${message}), retrying in ${delayMs}ms`);
+            await wait(delayMs, signal);
         }
+    }
+}
+
+/**
+ * Check that a validator answers with Nu JSON by validating a tiny
+ * document. The result decides whether validations skip the validator.
+ */
+export async function probeMarkupValidator(
+    url = getMarkupValidatorConfig().url,
+    signal?: AbortSignal
+): Promise<MarkupValidatorHealth | null> {
+    if (!url) return null;
+
+    const startedAt = Date.now();
+    let health: MarkupValidatorHealth;
+    try {
+        await postToValidator(url, PROBE_DOCUMENT, getMarkupValidatorConfig().timeoutMs, signal);
+        health = { url, healthy: true, checkedAt: Date.now(), latencyMs: Date.now() - startedAt };
     } catch (error) {
-        console.warn('W3C validator unavailable, using basic validation:', error);
+        rethrowIfAborted(signal);
+        health = { url, healthy: false, checkedAt: Date.now(), error: error instanceof Error ? error.message : String(error) };
     }
 
-    // Fallback to basic HTML validation
-    return validateHTMLBasic(html);
+    getHealthCache().set(url, health);
+    return health;
+}
+
+/**
+ * Backoff before retry `attempt` (0-based): the server's Retry-After
+ * seconds if given, else 500ms doubling per attempt, capped at 8s
+ */
+export function getRetryDelay(attempt: number, retryAfter?: string | null): number {
+    const seconds = retryAfter ? Number(retryAfter) : NaN;
+    const delayMs = Number.isFinite(seconds) && seconds >= 0
+        ? seconds * 1000
+        : RETRY_BASE_DELAY_MS * 2 ** attempt;
+
+    return Math.min(delayMs, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Rate limiting and server errors are worth retrying; other client errors aren't
+ */
+export function isRetryableStatus(status: number): boolean {
+    return status === 429 || status >= 500;
 }
 
 /**
@@ -79,98 +276,100 @@ export function generateMarkupRecommendations(details: ValidationError[]): strin
 // Helper Functions
 // ============================================================================
 
-/**
- * Parse W3C validator response
- */
-function parseW3CResponse(validatorText: string): ValidationError[] {
-    const details: ValidationError[] = [];
-    const lines = validatorText.split('\n');
-
-    for (const line of lines) {
-        if (line.includes('Error:') || line.includes('error:')) {
-            const match = line.match(/line (\d+)/i);
-            details.push({
-                type: 'error',
-                message: line.replace(/^.*?Error:\s*/i, '').trim(),
-                line: match ? parseInt(match[1]) : undefined
-            });
-        } else if (line.includes('Warning:') || line.includes('warning:')) {
-            const match = line.match(/line (\d+)/i);
-            details.push({
-                type: 'warning',
-                message: line.replace(/^.*?Warning:\s*/i, '').trim(),
-                line: match ? parseInt(match[1]) : undefined
-            });
-        }
-    }
+async function postToValidator(url: string, html: string, timeoutMs: number, signal?: AbortSignal): Promise<ValidationError[]> {
+    const endpoint = new URL(url);
+    endpoint.searchParams.set('out', 'json');
 
-    return details;
-}
+    const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'text/html; charset=utf-8',
+            'User-Agent': USER_AGENT
+        },
+        body: html,
+        signal: requestSignal(timeoutMs, signal)
+    });
 
-/**
- * Basic HTML validation (fallback when W3C validator is unavailable)
- */
-function validateHTMLBasic(html: string): ValidationError[] {
-    const details: ValidationError[] = [];
-
-    // Check for basic HTML structure
-    if (!html.includes('<!DOCTYPE') && !html.includes('<!doctype')) {
-        details.push({
-            type: 'error',
-            message: 'Missing DOCTYPE declaration'
-        });
+    if (!response.ok) {
+        throw new ValidatorRequestError(
+            `HTTP ${response.status}`,
+            isRetryableStatus(response.status),
+            response.headers.get('Retry-After')
+        );
     }
 
-    if (!html.includes('<html')) {
-        details.push({
-            type: 'error',
-            message: 'Missing html element'
-        });
+    const errors = parseW3CResponse(await response.text());
+    if (!errors) {
+        throw new ValidatorRequestError('no usable Nu JSON in the response', false);
     }
 
-    if (!html.includes('<head>')) {
-        details.push({
-            type: 'error',
-            message: 'Missing head element'
-        });
-    }
+    return errors;
+}
 
-    if (!html.includes('<body>')) {
-        details.push({
-            type: 'error',
-            message: 'Missing body element'
-        });
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason instanceof Error ? signal.reason : new CheckAbortedError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Parse the Nu validator's JSON output. Errors and warnings (info messages
+ * with a "warning" subtype) keep their position and source extract.
+ * Returns null when the body isn't Nu JSON or the validator reports a
+ * non-document error (it couldn't fetch, parse or check the input); an
+ * empty array means the markup is valid.
+ */
+export function parseW3CResponse(validatorText: string): ValidationError[] | null {
+    let messages: unknown;
+    try {
+        messages = (JSON.parse(validatorText) as { messages?: unknown }).messages;
+    } catch {
+        return null;
     }
 
-    // Check for unclosed tags (basic check)
-    const openTags = html.match(/<[^\/][^>]*>/g) || [];
-    const closeTags = html.match(/<\/[^>]*>/g) || [];
+    if (!Array.isArray(messages)) return null;
 
-    if (openTags.length - closeTags.length > 5) {
-        details.push({
-            type: 'warning',
-            message: 'Potentially unclosed HTML elements detected'
-        });
+    const nuMessages = messages as NuMessage[];
+    const failure = nuMessages.find(message => message.type === 'non-document-error');
+    if (failure) {
+        console.warn(`[Markup] W3C validator ${failure.subType ?? 'internal'} error: ${failure.message ?? 'unknown'}`);
+        return null;
     }
 
-    // Check for images without alt attributes
-    const imgMatches = html.match(/<img[^>]*>/gi) || [];
-    for (const img of imgMatches) {
-        if (!img.includes('alt=')) {
-            details.push({
-                type: 'error',
-                message: 'Image element missing alt attribute for accessibility'
-            });
-        }
-    }
+    return nuMessages
+        .filter(message => message.message)
+        .map(message => {
+            const error: ValidationError = {
+                type: message.type === 'error' ? 'error' : message.subType === 'warning' ? 'warning' : 'info',
+                message: message.message!.trim()
+            };
 
-    // Check for missing title
-    if (!html.includes('<title>')) {
-        details.push({
-            type: 'error',
-            message: 'Missing title element'
-        });
-    }
+            if (message.subType) error.subType = message.subType;
+            // Nu omits firstLine and firstColumn when they equal lastLine and lastColumn
+            if (message.lastLine) {
+                error.line = message.firstLine ?? message.lastLine;
+                error.endLine = message.lastLine;
+            }
+            if (message.lastColumn) {
+                error.column = message.firstColumn ?? message.lastColumn;
+                error.endColumn = message.lastColumn;
+            }
+            if (message.extract) {
+                error.extract = message.extract;
+                if (message.hiliteStart !== undefined && message.hiliteLength !== undefined) {
+                    error.highlightStart = message.hiliteStart;
+                    error.highlightLength = message.hiliteLength;
+                }
+            }
 
-    return details;
+            return error;
+        });
 }
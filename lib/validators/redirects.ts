@@ -0,0 +1,345 @@
+import { requestSignal } from '@/lib/check-jobs';
+
+export interface RedirectHop {
+    url: string;
+    statusCode: number;
+    location?: string;
+    timeMs: number;
+}
+
+export interface RedirectIssue {
+    type: string;
+    message: string;
+    severity?: 'high' | 'medium' | 'low';
+    category?: 'loop' | 'chain' | 'https' | 'host' | 'status';
+}
+
+export interface RedirectTrace {
+    hops: RedirectHop[];
+    finalUrl: string;
+    finalStatus: number;
+    loop: boolean;
+    error?: string;
+}
+
+export interface RedirectAnalysis extends RedirectTrace {
+    issues: RedirectIssue[];
+}
+
+const MAX_HOPS = 10;
+const MAX_CHAIN_LENGTH = 2;
+const REQUEST_TIMEOUT_MS = 15000;
+
+/**
+ * Follow a URL hop by hop and analyze its redirect chain and final status
+ * @param url - The URL to trace
+ * @param signal - Aborts the requests
+ * @returns The recorded hops, final status and issues found
+ */
+export async function analyzeRedirects(url: string, signal?: AbortSignal): Promise<RedirectAnalysis> {
+    const issues: RedirectIssue[] = [];
+    const trace = await traceRedirects(url, MAX_HOPS, signal);
+
+    if (trace.error) {
+        issues.push({
+            type: 'error',
+            message: `Unable to fetch ${trace.finalUrl}: ${trace.error}`,
+            severity: 'high',
+            category: 'status'
+        });
+        return { ...trace, issues };
+    }
+
+    checkLoop(trace, issues);
+    checkChainLength(trace, issues);
+    checkTemporaryRedirects(trace, issues);
+    checkHttpsDowngrade(trace, issues);
+    checkFinalStatus(trace, issues);
+
+    await checkHttpsRedirect(url, trace, issues, signal);
+    await checkHostConsistency(url, trace, issues, signal);
+
+    return { ...trace, issues };
+}
+
+/**
+ * Request a URL without following redirects and record every hop
+ */
+export async function traceRedirects(url: string, maxHops = MAX_HOPS, signal?: AbortSignal): Promise<RedirectTrace> {
+    const hops: RedirectHop[] = [];
+    const seen = new Set<string>();
+    let current = url;
+
+    while (hops.length < maxHops) {
+        if (seen.has(current)) {
+            return { hops, finalUrl: current, finalStatus: hops[hops.length - 1]?.statusCode ?? 0, loop: true };
+        }
+        seen.add(current);
+
+        const startTime = Date.now();
+        let response: Response;
+
+        try {
+            response = await fetch(current, {
+                method: 'GET',
+                redirect: 'manual',
+                headers: { 'User-Agent': 'Mozilla/5.0 (compatible; HealthChecker/1.0)' },
+                signal: requestSignal(REQUEST_TIMEOUT_MS, signal)
+            });
+            // Only the status line and headers are needed
+            await response.body?.cancel();
+        } catch (error) {
+            signal?.throwIfAborted();
+            return {
+                hops,
+                finalUrl: current,
+                finalStatus: 0,
+                loop: false,
+                error: error instanceof Error ? error.message : 'Request failed'
+            };
+        }
+
+        const location = response.headers.get('location') || undefined;
+        hops.push({
+            url: current,
+            statusCode: response.status,
+            location,
+            timeMs: Date.now() - startTime
+        });
+
+        if (!isRedirectStatus(response.status) || !location) {
+            return { hops, finalUrl: current, finalStatus: response.status, loop: false };
+        }
+
+        current = new URL(location, current).href;
+    }
+
+    return {
+        hops,
+        finalUrl: current,
+        finalStatus: hops[hops.length - 1]?.statusCode ?? 0,
+        loop: false,
+        error: `Stopped after ${maxHops} redirects`
+    };
+}
+
+export function calculateRedirectScore(issues: RedirectIssue[]): number {
+    const highCount = issues.filter(i => i.severity === 'high').length;
+    const mediumCount = issues.filter(i => i.severity === 'medium').length;
+    const lowCount = issues.filter(i => i.severity === 'low').length;
+
+    return Math.max(0, Math.min(100, 100 - (highCount * 25) - (mediumCount * 10) - (lowCount * 5)));
+}
+
+export function generateRedirectRecommendations(issues: RedirectIssue[]): string[] {
+    const recommendations: string[] = [];
+
+    if (issues.some(i => i.category === 'loop')) {
+        recommendations.push('Break the redirect loop so the URL resolves to a final page');
+    }
+
+    if (issues.some(i => i.category === 'chain')) {
+        recommendations.push('Point redirects straight at the final URL instead of chaining them');
+    }
+
+    if (issues.some(i => i.category === 'https')) {
+        recommendations.push('Redirect every HTTP URL to HTTPS with a single 301');
+    }
+
+    if (issues.some(i => i.category === 'host')) {
+        recommendations.push('Pick one canonical host (www or non-www) and 301 the other to it');
+    }
+
+    if (issues.some(i => i.message.includes('302') || i.message.includes('307'))) {
+        recommendations.push('Use 301/308 for permanent moves so search engines transfer ranking signals');
+    }
+
+    if (issues.some(i => i.category === 'status' && i.severity === 'high')) {
+        recommendations.push('Make sure the final URL responds with a 200 status');
+    }
+
+    return recommendations;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function isRedirectStatus(status: number): boolean {
+    return status === 301 || status === 302 || status === 303 || status === 307 || status === 308;
+}
+
+function redirectCount(trace: RedirectTrace): number {
+    return trace.hops.filter(hop => isRedirectStatus(hop.statusCode)).length;
+}
+
+function checkLoop(trace: RedirectTrace, issues: RedirectIssue[]): void {
+    if (trace.loop) {
+        issues.push({
+            type: 'error',
+            message: `Redirect loop detected: ${trace.finalUrl} redirects back to itself`,
+            severity: 'high',
+            category: 'loop'
+        });
+    }
+}
+
+function checkChainLength(trace: RedirectTrace, issues: RedirectIssue[]): void {
+    const count = redirectCount(trace);
+
+    if (count > MAX_CHAIN_LENGTH) {
+        issues.push({
+            type: 'warning',
+            message: `Redirect chain has ${count} hops - more than ${MAX_CHAIN_LENGTH} slows down users and crawlers`,
+            severity: 'medium',
+            category: 'chain'
+        });
+    }
+}
+
+function checkTemporaryRedirects(trace: RedirectTrace, issues: RedirectIssue[]): void {
+    for (const hop of trace.hops) {
+        if (hop.statusCode !== 302 && hop.statusCode !== 307) continue;
+
+        const target = hop.location ? new URL(hop.location, hop.url) : null;
+        const source = new URL(hop.url);
+        const isCanonicalization = target !== null && (
+            target.protocol !== source.protocol ||
+            stripWww(target.hostname) === stripWww(source.hostname) && target.hostname !== source.hostname ||
+            target.pathname.replace(/\/$/, '') === source.pathname.replace(/\/$/, '')
+        );
+
+        issues.push({
+            type: 'warning',
+            message: isCanonicalization
+                ? `${hop.statusCode} used for a permanent canonical redirect (${hop.url} → ${target!.href}) - should be 301`
+                : `${hop.statusCode} temporary redirect from ${hop.url} - use 301 if the move is permanent`,
+            severity: isCanonicalization ? 'medium' : 'low',
+            category: 'status'
+        });
+    }
+}
+
+function checkHttpsDowngrade(trace: RedirectTrace, issues: RedirectIssue[]): void {
+    for (const hop of trace.hops) {
+        if (!hop.location) continue;
+        const target = new URL(hop.location, hop.url);
+
+        if (hop.url.startsWith('https:') && target.protocol === 'http:') {
+            issues.push({
+                type: 'error',
+                message: `Redirect downgrades HTTPS to HTTP (${hop.url} → ${target.href})`,
+                severity: 'high',
+                category: 'https'
+            });
+        }
+    }
+}
+
+function checkFinalStatus(trace: RedirectTrace, issues: RedirectIssue[]): void {
+    if (trace.loop) return;
+
+    if (trace.finalStatus >= 400) {
+        issues.push({
+            type: 'error',
+            message: `Final URL ${trace.finalUrl} returned HTTP ${trace.finalStatus}`,
+            severity: 'high',
+            category: 'status'
+        });
+    } else if (trace.finalStatus >= 300) {
+        issues.push({
+            type: 'warning',
+            message: `Final URL ${trace.finalUrl} returned HTTP ${trace.finalStatus} without a Location header`,
+            severity: 'medium',
+            category: 'status'
+        });
+    }
+}
+
+/**
+ * Make sure the plain-HTTP variant of the URL ends up on HTTPS
+ */
+async function checkHttpsRedirect(
+    url: string,
+    trace: RedirectTrace,
+    issues: RedirectIssue[],
+    signal?: AbortSignal
+): Promise<void> {
+    const final = new URL(trace.finalUrl);
+
+    // Local dev servers and intranet hosts often have no certificate at all
+    if (!isPublicHostname(final.hostname)) return;
+
+    if (final.protocol === 'http:') {
+        issues.push({
+            type: 'error',
+            message: `Page is served over plain HTTP (${trace.finalUrl}) and never reaches HTTPS`,
+            severity: 'high',
+            category: 'https'
+        });
+        return;
+    }
+
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'https:') return;
+
+    parsed.protocol = 'http:';
+    const httpTrace = await traceRedirects(parsed.href, MAX_HOPS, signal);
+
+    // An unreachable port 80 is fine; a reachable page that stays on HTTP is not
+    if (httpTrace.error || httpTrace.loop) return;
+
+    if (new URL(httpTrace.finalUrl).protocol === 'http:') {
+        issues.push({
+            type: 'error',
+            message: `HTTP version ${parsed.href} does not redirect to HTTPS`,
+            severity: 'high',
+            category: 'https'
+        });
+    }
+}
+
+/**
+ * Make sure www and non-www variants resolve to the same host
+ */
+async function checkHostConsistency(
+    url: string,
+    trace: RedirectTrace,
+    issues: RedirectIssue[],
+    signal?: AbortSignal
+): Promise<void> {
+    const parsed = new URL(url);
+
+    if (!isPublicHostname(parsed.hostname)) return;
+
+    const alternate = new URL(url);
+    alternate.hostname = parsed.hostname.startsWith('www.')
+        ? parsed.hostname.slice(4)
+        : `www.${parsed.hostname}`;
+
+    const alternateTrace = await traceRedirects(alternate.href, MAX_HOPS, signal);
+    if (alternateTrace.error || alternateTrace.loop || alternateTrace.finalStatus >= 400) return;
+
+    const finalHost = new URL(trace.finalUrl).hostname;
+    const alternateFinalHost = new URL(alternateTrace.finalUrl).hostname;
+
+    if (finalHost !== alternateFinalHost) {
+        issues.push({
+            type: 'warning',
+            message: `${parsed.hostname} and ${alternate.hostname} both serve content without redirecting to one canonical host`,
+            severity: 'medium',
+            category: 'host'
+        });
+    }
+}
+
+/**
+ * Registrable domains only: not localhost, single-label intranet names or IP addresses
+ */
+function isPublicHostname(hostname: string): boolean {
+    return hostname.includes('.') && !/^[\d.]+$/.test(hostname) && !hostname.startsWith('[');
+}
+
+function stripWww(hostname: string): string {
+    return hostname.replace(/^www\./, '');
+}
@@ -0,0 +1,356 @@
+/**
+ * Contrast measured on the rendered page. A locally installed headless
+ * Chromium loads the page with its scripts, images and fonts, the page is
+ * captured with all text made transparent, and each text element's color
+ * is compared with the pixels actually painted behind it. Catches what the
+ * cascade can't: text over images and gradients, and content rendered by
+ * JavaScript.
+ */
+
+import puppeteer from 'puppeteer-core';
+import { rethrowIfAborted } from '@/lib/check-jobs';
+import type { BoundingBox } from '@/types/crawl';
+import {
+    calculateContrastRatio,
+    createContrastIssue,
+    isLargeText,
+    MIN_TEXT_LENGTH,
+    type ContrastIssue
+} from './contrast';
+import { colorToHex, compositeColors, parseCssColor, type RGBA } from './css-colors';
+
+export interface RenderingConfig {
+    /** Chromium or Chrome executable; rendered analysis is off when null */
+    executablePath: string | null;
+    /** Extra command-line flags, e.g. --no-sandbox in containers */
+    args: string[];
+}
+
+/** A text element as measured in the page */
+interface CollectedText {
+    selector: string;
+    tagName: string;
+    /** Painted text color as computed by the browser */
+    color: string;
+    /** Product of the element's and its ancestors' opacity */
+    opacity: number;
+    /** Pixels */
+    fontSize: number;
+    fontWeight: number;
+    /** One box per line of text, in document coordinates */
+    boxes: BoundingBox[];
+}
+
+export interface RenderedText extends Omit<CollectedText, 'boxes'> {
+    boundingBox: BoundingBox;
+    /** Pixels behind the text as 0xRRGGBB, captured with all text hidden */
+    backgroundSamples: number[];
+}
+
+interface SampleGrid {
+    /** Lines of text sampled per element */
+    maxBoxes: number;
+    /** Most samples across and down one line box */
+    columns: number;
+    rows: number;
+    /** Pixels between samples on small boxes */
+    spacing: number;
+}
+
+const VIEWPORT = { width: 1280, height: 800 };
+
+const LAUNCH_TIMEOUT_MS = 30000;
+
+const NAVIGATION_TIMEOUT_MS = 45000;
+
+/** How long to wait for late requests (fonts, lazy content) after load */
+const SETTLE_TIMEOUT_MS = 5000;
+
+const MAX_TEXT_ELEMENTS = 500;
+
+/** Text below this is not sampled; keeps the capture of very long pages small */
+const MAX_CAPTURE_HEIGHT = 10000;
+
+const SAMPLE_GRID: SampleGrid = { maxBoxes: 8, columns: 8, rows: 3, spacing: 6 };
+
+/**
+ * Text is judged by the ratio it reaches over 90% of its sampled
+ * background, so a few stray pixels (borders, image edges) don't decide
+ */
+const BACKGROUND_PERCENTILE = 0.1;
+
+/** Hides all text without changing layout, leaving only what's painted behind it */
+const HIDE_TEXT_CSS = `
+*, *::before, *::after, *::placeholder, *::marker {
+    color: transparent !important;
+    -webkit-text-fill-color: transparent !important;
+    text-shadow: none !important;
+    text-decoration-color: transparent !important;
+    caret-color: transparent !important;
+    transition: none !important;
+}
+`;
+
+/**
+ * Rendering settings from the environment.
+ *
+ * `CHROMIUM_PATH` points at a locally installed Chromium or Chrome and
+ * turns rendered analysis on. `CHROMIUM_ARGS` adds launch flags, separated
+ * by spaces (e.g. `--no-sandbox` when running as root in a container).
+ */
+export function getRenderingConfig(): RenderingConfig {
+    const executablePath = process.env.CHROMIUM_PATH?.trim() || null;
+    const args = process.env.CHROMIUM_ARGS?.trim().split(/\s+/).filter(Boolean) ?? [];
+
+    return { executablePath, args };
+}
+
+export function isRenderingAvailable(): boolean {
+    return getRenderingConfig().executablePath !== null;
+}
+
+/**
+ * Load a page in headless Chromium and check the contrast of every
+ * visible text element against the pixels behind it
+ *
+ * @param signal - Aborts the analysis and closes the browser
+ */
+export async function analyzeRenderedContrast(url: string, signal?: AbortSignal): Promise<ContrastIssue[]> {
+    const { executablePath, args } = getRenderingConfig();
+    if (!executablePath) {
+        throw new Error('CHROMIUM_PATH is not set');
+    }
+    rethrowIfAborted(signal);
+
+    const browser = await puppeteer.launch({ executablePath, args, headless: true, timeout: LAUNCH_TIMEOUT_MS });
+    const onAbort = () => {
+        void browser.close();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+        const page = await browser.newPage();
+        // The text-hiding stylesheet must apply on pages with a strict CSP
+        await page.setBypassCSP(true);
+        await page.setViewport({ ...VIEWPORT, deviceScaleFactor: 1 });
+        await page.goto(url, { waitUntil: 'load', timeout: NAVIGATION_TIMEOUT_MS });
+        await page.waitForNetworkIdle({ idleTime: 500, timeout: SETTLE_TIMEOUT_MS }).catch(() => undefined);
+
+        const collected = await page.evaluate(collectTextElements, MAX_TEXT_ELEMENTS + 1, MIN_TEXT_LENGTH);
+        const texts = collected.slice(0, MAX_TEXT_ELEMENTS);
+
+        const pageSize = await page.evaluate(() => ({
+            width: document.documentElement.scrollWidth,
+            height: document.documentElement.scrollHeight
+        }));
+        await page.addStyleTag({ content: HIDE_TEXT_CSS });
+        const screenshot = await page.screenshot({
+            type: 'png',
+            encoding: 'base64',
+            captureBeyondViewport: true,
+            clip: {
+                x: 0,
+                y: 0,
+                width: Math.min(pageSize.width, VIEWPORT.width),
+                height: Math.min(pageSize.height, MAX_CAPTURE_HEIGHT)
+            }
+        });
+
+        // Decode the capture in a blank page, out of reach of the site's CSP
+        const sampler = await browser.newPage();
+        const samples = await sampler.evaluate(
+            sampleBackgrounds,
+            `data:image/png;base64,${screenshot}`,
+            texts.map(text => text.boxes),
+            SAMPLE_GRID
+        );
+
+        const issues = evaluateRenderedText(texts.map(({ boxes, ...text }, index) => ({
+            ...text,
+            boundingBox: unionBoxes(boxes),
+            backgroundSamples: samples[index]
+        })));
+
+        const notCaptured = samples.filter(textSamples => textSamples.length === 0).length;
+        if (notCaptured > 0) {
+            issues.push({
+                type: 'info',
+                message: `${notCaptured} text element${notCaptured === 1 ? '' : 's'} below the first ${MAX_CAPTURE_HEIGHT}px of the page not checked`
+            });
+        }
+        if (collected.length > MAX_TEXT_ELEMENTS) {
+            issues.push({
+                type: 'info',
+                message: `Only the first ${MAX_TEXT_ELEMENTS} text elements were checked`
+            });
+        }
+
+        return issues;
+    } catch (error) {
+        rethrowIfAborted(signal);
+        throw error;
+    } finally {
+        signal?.removeEventListener('abort', onAbort);
+        await browser.close().catch(() => undefined);
+    }
+}
+
+/**
+ * Contrast issues for text measured on a rendered page. Each sampled
+ * background pixel is paired with the text color composited over it.
+ */
+export function evaluateRenderedText(texts: RenderedText[]): ContrastIssue[] {
+    const issues: ContrastIssue[] = [];
+
+    for (const text of texts) {
+        const color = parseCssColor(text.color);
+        if (!color || text.backgroundSamples.length === 0) continue;
+
+        // Gradient and image text (transparent fill) can't be told apart from its background
+        const foreground: RGBA = { ...color, a: color.a * text.opacity };
+        if (foreground.a === 0) continue;
+
+        const pairs = text.backgroundSamples
+            .map(sample => {
+                const background: RGBA = { r: (sample >> 16) & 255, g: (sample >> 8) & 255, b: sample & 255, a: 1 };
+                const foregroundHex = colorToHex(compositeColors(foreground, background));
+                const backgroundHex = colorToHex(background);
+                return { foregroundHex, backgroundHex, contrast: calculateContrastRatio(foregroundHex, backgroundHex) };
+            })
+            .sort((a, b) => a.contrast - b.contrast);
+        const pair = pairs[Math.floor(pairs.length * BACKGROUND_PERCENTILE)];
+
+        const issue = createContrastIssue(
+            text.tagName,
+            pair.foregroundHex,
+            pair.backgroundHex,
+            isLargeText(text.fontSize, text.fontWeight)
+        );
+        if (issue) {
+            issues.push({ ...issue, selector: text.selector, boundingBox: text.boundingBox });
+        }
+    }
+
+    return issues;
+}
+
+function unionBoxes(boxes: BoundingBox[]): BoundingBox {
+    const left = Math.min(...boxes.map(box => box.x));
+    const top = Math.min(...boxes.map(box => box.y));
+    const right = Math.max(...boxes.map(box => box.x + box.width));
+    const bottom = Math.max(...boxes.map(box => box.y + box.height));
+
+    return {
+        x: Math.round(left),
+        y: Math.round(top),
+        width: Math.round(right - left),
+        height: Math.round(bottom - top)
+    };
+}
+
+/**
+ * Visible elements with their own text. Runs in the page, so it must not
+ * reference anything outside its own body.
+ *
+ * @param limit - Stop after this many elements
+ */
+function collectTextElements(limit: number, minLength: number): CollectedText[] {
+    const texts: CollectedText[] = [];
+    const elements = document.body ? [document.body, ...Array.from(document.body.querySelectorAll('*'))] : [];
+
+    for (const element of elements) {
+        if (texts.length >= limit) break;
+        if (element.namespaceURI !== 'http://www.w3.org/1999/xhtml') continue;
+
+        const textNodes = Array.from(element.childNodes)
+            .filter(node => node.nodeType === Node.TEXT_NODE && node.textContent?.trim());
+        if (textNodes.map(node => node.textContent).join('').trim().length < minLength) continue;
+        if (!element.checkVisibility({ opacityProperty: true, visibilityProperty: true })) continue;
+
+        const boxes: BoundingBox[] = [];
+        for (const node of textNodes) {
+            const range = document.createRange();
+            range.selectNodeContents(node);
+            for (const rect of Array.from(range.getClientRects())) {
+                // Visually hidden text is clipped to a pixel
+                if (rect.width < 2 || rect.height < 2) continue;
+                boxes.push({ x: rect.left + window.scrollX, y: rect.top + window.scrollY, width: rect.width, height: rect.height });
+            }
+        }
+        if (boxes.length === 0) continue;
+
+        let opacity = 1;
+        for (let node: Element | null = element; node; node = node.parentElement) {
+            opacity *= Number(getComputedStyle(node).opacity);
+        }
+
+        // Path up to the nearest unique id, with :nth-of-type where siblings share a tag
+        const path: string[] = [];
+        for (let node: Element | null = element; node && node !== document.documentElement; node = node.parentElement) {
+            const current = node;
+            if (current.id && document.querySelectorAll(`#${CSS.escape(current.id)}`).length === 1) {
+                path.unshift(`#${CSS.escape(current.id)}`);
+                break;
+            }
+            const sameTag = current.parentElement
+                ? Array.from(current.parentElement.children).filter(sibling => sibling.localName === current.localName)
+                : [];
+            path.unshift(sameTag.length > 1 ? `${current.localName}:nth-of-type(${sameTag.indexOf(current) + 1})` : current.localName);
+        }
+
+        const style = getComputedStyle(element);
+        texts.push({
+            selector: path.join(' > '),
+            tagName: element.localName,
+            color: style.webkitTextFillColor || style.color,
+            opacity,
+            fontSize: parseFloat(style.fontSize),
+            fontWeight: Number(style.fontWeight) || 400,
+            boxes
+        });
+    }
+
+    return texts;
+}
+
+/**
+ * Read the pixels under each text element's line boxes from the capture.
+ * Runs in a blank page, so it must not reference anything outside its
+ * own body.
+ */
+async function sampleBackgrounds(dataUrl: string, boxesPerText: BoundingBox[][], grid: SampleGrid): Promise<number[][]> {
+    const image = new Image();
+    image.src = dataUrl;
+    await image.decode();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) return boxesPerText.map(() => []);
+
+    context.drawImage(image, 0, 0);
+    const { data, width, height } = context.getImageData(0, 0, canvas.width, canvas.height);
+
+    return boxesPerText.map(boxes => {
+        const samples: number[] = [];
+
+        for (const box of boxes.slice(0, grid.maxBoxes)) {
+            const columns = Math.max(1, Math.min(grid.columns, Math.floor(box.width / grid.spacing)));
+            const rows = Math.max(1, Math.min(grid.rows, Math.floor(box.height / grid.spacing)));
+
+            for (let row = 0; row < rows; row++) {
+                for (let column = 0; column < columns; column++) {
+                    const x = Math.floor(box.x + (column + 0.5) * box.width / columns);
+                    const y = Math.floor(box.y + (row + 0.5) * box.height / rows);
+                    if (x < 0 || y < 0 || x >= width || y >= height) continue;
+
+                    const offset = (y * width + x) * 4;
+                    samples.push((data[offset] << 16) | (data[offset + 1] << 8) | data[offset + 2]);
+                }
+            }
+        }
+
+        return samples;
+    });
+}
@@ -1,18 +1,22 @@
+import { rethrowIfAborted } from '@/lib/check-jobs';
+
 export interface SecurityIssue {
     type: string;
     message: string;
     severity?: 'high' | 'medium' | 'low';
     category?: string;
+    /** Header the issue is about, for header checks */
+    header?: string;
 }
 
 /**
  * Analyze security headers and basic security practices
  */
-export async function analyzeSecurity(url: string): Promise<SecurityIssue[]> {
+export async function analyzeSecurity(url: string, signal?: AbortSignal): Promise<SecurityIssue[]> {
     const issues: SecurityIssue[] = [];
 
     try {
-        const response = await fetch(url, { method: 'HEAD' });
+        const response = await fetch(url, { method: 'HEAD', signal });
         const headers = response.headers;
 
         // Check security headers
@@ -21,7 +25,8 @@ export async function analyzeSecurity(url: string): Promise<SecurityIssue[]> {
                 type: 'warning',
                 message: 'Missing Strict-Transport-Security header - HTTPS connections not enforced',
                 severity: 'high',
-                category: 'headers'
+                category: 'headers',
+                header: 'Strict-Transport-Security'
             });
         }
 
@@ -30,7 +35,8 @@ export async function analyzeSecurity(url: string): Promise<SecurityIssue[]> {
                 type: 'warning',
                 message: 'Missing X-Content-Type-Options header - vulnerable to MIME sniffing attacks',
                 severity: 'medium',
-                category: 'headers'
+                category: 'headers',
+                header: 'X-Content-Type-Options'
             });
         }
 
@@ -39,7 +45,8 @@ export async function analyzeSecurity(url: string): Promise<SecurityIssue[]> {
                 type: 'warning',
                 message: 'Missing X-Frame-Options or CSP frame-ancestors - vulnerable to clickjacking',
                 severity: 'high',
-                category: 'headers'
+                category: 'headers',
+                header: 'X-Frame-Options'
             });
         }
 
@@ -48,7 +55,8 @@ export async function analyzeSecurity(url: string): Promise<SecurityIssue[]> {
                 type: 'warning',
                 message: 'Missing Content-Security-Policy header - no XSS protection',
                 severity: 'high',
-                category: 'headers'
+                category: 'headers',
+                header: 'Content-Security-Policy'
             });
         }
 
@@ -57,7 +65,8 @@ export async function analyzeSecurity(url: string): Promise<SecurityIssue[]> {
                 type: 'warning',
                 message: 'Missing Referrer-Policy header - may leak sensitive information',
                 severity: 'low',
-                category: 'headers'
+                category: 'headers',
+                header: 'Referrer-Policy'
             });
         }
 
@@ -66,11 +75,13 @@ export async function analyzeSecurity(url: string): Promise<SecurityIssue[]> {
                 type: 'info',
                 message: 'Missing Permissions-Policy header - consider restricting browser features',
                 severity: 'low',
-                category: 'headers'
+                category: 'headers',
+                header: 'Permissions-Policy'
             });
         }
 
     } catch (error) {
+        rethrowIfAborted(signal);
         console.error('Error analyzing security:', error);
         issues.push({
             type: 'error',
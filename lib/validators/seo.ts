@@ -1,13 +1,18 @@
 import { JSDOM } from 'jsdom';
+import { discoverFromSitemaps, isAllowedByRobots } from '@/lib/sitemap';
+import { requestSignal, rethrowIfAborted } from '@/lib/check-jobs';
 
 export interface SEOIssue {
     type: string;
     message: string;
     element?: string;
     priority?: 'high' | 'medium' | 'low';
-    category?: 'meta' | 'content' | 'structure' | 'performance' | 'mobile';
+    category?: 'meta' | 'content' | 'structure' | 'performance' | 'mobile' | 'indexing';
 }
 
+/** Number of sitemap URLs whose status is verified per analysis */
+const SITEMAP_URL_SAMPLE_SIZE = 25;
+
 /**
  * Analyzes HTML content for SEO issues
  * @param html - The HTML content to analyze
@@ -46,6 +51,115 @@ export async function analyzeSEO(html: string): Promise<SEOIssue[]> {
     return issues;
 }
 
+/**
+ * Analyzes a site's robots.txt and sitemap.xml files for SEO issues.
+ * Covers what a single HTML document cannot tell: missing or broken
+ * sitemaps, sitemap URLs that do not return 200, and URLs listed in the
+ * sitemap that robots.txt blocks.
+ * @param url - The checked page URL; the site's origin is analyzed
+ * @param signal - Aborts the robots.txt, sitemap and status requests
+ * @returns Array of SEO issues found
+ */
+export async function analyzeSiteFiles(url: string, signal?: AbortSignal): Promise<SEOIssue[]> {
+    const issues: SEOIssue[] = [];
+
+    try {
+        const { robots, sitemaps, urls } = await discoverFromSitemaps(url, { signal });
+
+        if (!robots.found) {
+            issues.push({
+                type: 'warning',
+                message: robots.statusCode
+                    ? `robots.txt not found (HTTP ${robots.statusCode}) - crawlers cannot discover your sitemap from it`
+                    : 'robots.txt could not be fetched',
+                element: 'robots.txt',
+                priority: 'low',
+                category: 'indexing'
+            });
+        } else if (!isAllowedByRobots(robots, url)) {
+            issues.push({
+                type: 'error',
+                message: 'This page is blocked by robots.txt - search engines will not crawl it',
+                element: 'robots.txt',
+                priority: 'high',
+                category: 'indexing'
+            });
+        }
+
+        const readableSitemaps = sitemaps.filter(sitemap => sitemap.type);
+
+        if (readableSitemaps.length === 0) {
+            issues.push({
+                type: 'error',
+                message: robots.sitemaps.length > 0
+                    ? 'Sitemap referenced in robots.txt could not be read'
+                    : 'No sitemap.xml found and none referenced in robots.txt',
+                element: 'sitemap.xml',
+                priority: 'medium',
+                category: 'indexing'
+            });
+        }
+
+        // Without a Sitemap: line only /sitemap.xml is tried, and the finding above already covers it
+        const fallbackSitemap = robots.sitemaps.length === 0 ? sitemaps[0]?.url : undefined;
+
+        for (const sitemap of sitemaps.filter(s => s.error && s.url !== fallbackSitemap)) {
+            issues.push({
+                type: 'error',
+                message: `Sitemap ${sitemap.url} could not be read (${sitemap.error})`,
+                element: 'sitemap.xml',
+                priority: sitemap.statusCode === 200 ? 'medium' : 'high',
+                category: 'indexing'
+            });
+        }
+
+        if (robots.found && robots.sitemaps.length === 0 && readableSitemaps.length > 0) {
+            issues.push({
+                type: 'info',
+                message: 'Sitemap is not referenced in robots.txt - add a Sitemap: line to help discovery',
+                element: 'robots.txt',
+                priority: 'low',
+                category: 'indexing'
+            });
+        }
+
+        const blocked = urls.filter(sitemapUrl => !isAllowedByRobots(robots, sitemapUrl));
+        if (blocked.length > 0) {
+            issues.push({
+                type: 'warning',
+                message: `${blocked.length} URLs listed in the sitemap are blocked by robots.txt (e.g. ${blocked[0]})`,
+                element: 'sitemap.xml',
+                priority: 'medium',
+                category: 'indexing'
+            });
+        }
+
+        const broken = await findNonOkUrls(urls.slice(0, SITEMAP_URL_SAMPLE_SIZE), signal);
+        if (broken.length > 0) {
+            const sampled = Math.min(urls.length, SITEMAP_URL_SAMPLE_SIZE);
+            issues.push({
+                type: 'error',
+                message: `${broken.length} of ${sampled} sampled sitemap URLs do not return 200 (e.g. ${broken[0].url} → ${broken[0].status || 'unreachable'})`,
+                element: 'sitemap.xml',
+                priority: 'high',
+                category: 'indexing'
+            });
+        }
+
+    } catch (error) {
+        rethrowIfAborted(signal);
+        console.error('Error analyzing robots.txt and sitemap:', error);
+        issues.push({
+            type: 'warning',
+            message: 'Unable to analyze robots.txt and sitemap.xml',
+            priority: 'low',
+            category: 'indexing'
+        });
+    }
+
+    return issues;
+}
+
 /**
  * Calculate SEO score based on issues
  */
@@ -100,6 +214,10 @@ export function generateSEORecommendations(issues: SEOIssue[]): string[] {
         recommendations.push('Optimize page speed and Core Web Vitals for better rankings');
     }
 
+    if (issues.some(issue => issue.category === 'indexing')) {
+        recommendations.push('Keep robots.txt and sitemap.xml consistent and list only indexable, 200-status URLs');
+    }
+
     if (issues.some(issue => issue.category === 'content')) {
         recommendations.push('Create high-quality, valuable content with good keyword targeting');
     }
@@ -112,6 +230,29 @@ export function generateSEORecommendations(issues: SEOIssue[]): string[] {
     return recommendations;
 }
 
+/**
+ * Check sitemap URLs with HEAD requests and return those not answering 200.
+ * Redirects are not followed so moved pages are reported as well.
+ */
+async function findNonOkUrls(urls: string[], signal?: AbortSignal): Promise<Array<{ url: string; status: number }>> {
+    const results = await Promise.all(urls.map(async url => {
+        try {
+            const response = await fetch(url, {
+                method: 'HEAD',
+                redirect: 'manual',
+                signal: requestSignal(10000, signal)
+            });
+            return { url, status: response.status };
+        } catch {
+            return { url, status: 0 };
+        }
+    }));
+
+    signal?.throwIfAborted();
+
+    return results.filter(result => result.status !== 200);
+}
+
 // Check functions (extracted from route.ts)
 function checkTitle(document: Document, issues: SEOIssue[]): void {
     const title = document.querySelector('title');
@@ -1,6 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // pdfkit reads its font metrics from files next to its own sources
+  serverExternalPackages: ["pdfkit"],
   eslint: {
     // Temporarily ignore ESLint errors during  eslint: {
     ignoreDuringBuilds: false,
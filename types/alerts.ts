@@ -0,0 +1,61 @@
+import type { CheckDetail, HealthCheckResult } from "./crawl";
+
+export type IssueSeverity = NonNullable<CheckDetail["severity"]>;
+
+/**
+ * What a stored result has to look like for a rule to fire
+ */
+export type AlertCondition =
+  /** The check's score is below `threshold` */
+  | { type: "score-below"; checkId: string; threshold: number }
+  /** The score fell by more than `points` since the previous result for the URL */
+  | { type: "score-drop"; checkId: string; points: number }
+  /** Issues not present in the previous result, optionally only at or above a severity */
+  | { type: "new-issues"; checkId: string; minSeverity?: IssueSeverity };
+
+export type AlertChannel =
+  /** POST the full alert as JSON */
+  | { type: "webhook"; url: string }
+  /** POST a Slack-compatible incoming webhook message */
+  | { type: "slack"; url: string }
+  /** Send through the SMTP server configured with SMTP_* variables */
+  | { type: "email"; to: string[] };
+
+export interface AlertRuleInput {
+  name: string;
+  /** Only results for this URL (compared after normalization); all URLs when omitted */
+  url?: string;
+  condition: AlertCondition;
+  channel: AlertChannel;
+}
+
+export interface AlertRule extends AlertRuleInput {
+  id: string;
+  enabled: boolean;
+  createdAt: number;
+  lastTriggeredAt?: number;
+}
+
+/**
+ * A rule that matched a stored result
+ */
+export interface Alert {
+  rule: Pick<AlertRule, "id" | "name" | "condition">;
+  /** One-line description of why the rule fired */
+  summary: string;
+  url: string;
+  /** Link to the report page of the result */
+  reportUrl: string;
+  result: HealthCheckResult;
+  previous?: { reportId: string; score?: number; timestamp: number };
+  /** Issues that triggered a "new-issues" rule */
+  newIssues?: CheckDetail[];
+  triggeredAt: number;
+}
+
+export interface AlertRuleStore {
+  save(rule: AlertRule): Promise<void>;
+  get(ruleId: string): Promise<AlertRule | null>;
+  list(): Promise<AlertRule[]>;
+  delete(ruleId: string): Promise<void>;
+}
@@ -0,0 +1,61 @@
+import type { HealthCheckInput } from "./checks";
+import type { HealthCheckResult } from "./crawl";
+
+/**
+ * Check as listed by `GET /api/v1/checks`
+ */
+export interface ApiCheck {
+  id: string;
+  label: string;
+  description: string;
+  input: HealthCheckInput;
+}
+
+/**
+ * Body of `POST /api/v1/runs`
+ */
+export interface ApiRunRequest {
+  url: string;
+  /** Check ids to run; all enabled checks when omitted */
+  checks?: string[];
+}
+
+/**
+ * Response of `POST /api/v1/runs`
+ */
+export interface ApiRunCreated {
+  runId: string;
+  url: string;
+  status: "running";
+  reports: Array<{ checkId: string; reportId: string }>;
+  /** Path of the run status endpoint */
+  statusUrl: string;
+}
+
+/**
+ * Response of `GET /api/v1/runs/{runId}`
+ */
+export interface ApiRunStatus {
+  runId: string;
+  url: string;
+  status: "running" | "completed";
+  startedAt: number;
+  completedAt?: number;
+  /** One result per check; checks still running have status "running" */
+  results: HealthCheckResult[];
+}
+
+/**
+ * Response of `GET /api/v1/validators/markup`
+ */
+export interface ApiValidatorHealth {
+  /** False when MARKUP_VALIDATOR_URL is "off" or invalid */
+  enabled: boolean;
+  /** What markup results will name as their data source */
+  dataSource: string;
+  url?: string;
+  healthy?: boolean;
+  checkedAt?: number;
+  latencyMs?: number;
+  error?: string;
+}
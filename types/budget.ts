@@ -0,0 +1,47 @@
+import type { CheckDetail } from "./crawl";
+
+/**
+ * Limit on the number of issues matching all given filters
+ */
+export interface BudgetRuleLimit {
+  /** Matches `CheckDetail.ruleId` exactly, e.g. an axe rule id */
+  ruleId?: string;
+  /** Matches the graded impact, e.g. "critical" axe violations */
+  severity?: NonNullable<CheckDetail["severity"]>;
+  type?: CheckDetail["type"];
+  /** Case-insensitive substring of the issue message */
+  message?: string;
+  /** Most matching issues allowed (default 0) */
+  max?: number;
+  /** Shown in reports; derived from the filters when omitted */
+  name?: string;
+}
+
+export interface CheckBudget {
+  /** Overrides the budget-wide minimum score */
+  minScore?: number;
+  rules?: BudgetRuleLimit[];
+}
+
+/**
+ * Score budget file, usually checked into the repository being tested
+ */
+export interface HealthBudget {
+  /** Minimum score for every check that has no minimum of its own */
+  minScore?: number;
+  /** Per-check budgets by check id; these checks run when none are given */
+  checks: Record<string, CheckBudget>;
+}
+
+/**
+ * One pass/fail assertion of a gated run, reported as a JUnit test case
+ */
+export interface BudgetAssertion {
+  checkId: string;
+  checkLabel: string;
+  /** Short name, e.g. "score >= 80" */
+  name: string;
+  passed: boolean;
+  /** The measured value, or why the assertion failed */
+  message: string;
+}
@@ -0,0 +1,75 @@
+import type { LucideIcon } from "lucide-react";
+import type { CheckDetail, CheckProgressStep, HealthCheckResult } from "./crawl";
+
+/**
+ * What a check needs to run: just the URL, or the crawled HTML as well
+ */
+export type HealthCheckInput = "url" | "html";
+
+/**
+ * Serializable options passed from the client to a check's server action
+ */
+export interface CheckRunOptions {
+  /** Id used to cancel the check's server work */
+  jobId?: string;
+  /** Abort the check after this many milliseconds */
+  timeoutMs?: number;
+  /** Report id to use for the result (generated when omitted) */
+  reportId?: string;
+  /**
+   * Skip findings about the whole site (robots.txt, sitemaps). Set for every
+   * page of a site crawl but the first, so they are reported once per run.
+   */
+  pageOnly?: boolean;
+}
+
+/**
+ * Progress event streamed to the client while a check job runs
+ */
+export type CheckProgressEvent =
+  | { type: "step"; step: CheckProgressStep }
+  | { type: "details"; details: CheckDetail[] }
+  | { type: "done" };
+
+export interface ExternalReportLink {
+  label: string;
+  getUrl: (url: string) => string;
+}
+
+export interface HealthCheckDefinition {
+  id: string;
+  label: string;
+  description: string;
+  icon: LucideIcon;
+  input: HealthCheckInput;
+  /** Relative weight of this check in the overall site score */
+  defaultWeight: number;
+  /** Overrides the default per-check timeout from config/health-checks.json */
+  timeoutMs?: number;
+  /** Server action that runs the check */
+  action: (url: string, html?: string, options?: CheckRunOptions) => Promise<HealthCheckResult>;
+  /** Optional third-party tool for a second opinion */
+  externalReport?: ExternalReportLink;
+}
+
+export interface CheckExecutionConfig {
+  /** Maximum number of checks running at the same time */
+  concurrency: number;
+  /** Default per-check timeout in milliseconds */
+  timeoutMs: number;
+}
+
+export interface HealthCheckConfigEntry {
+  id: string;
+  enabled: boolean;
+  /** Overrides the check's defaultWeight in the overall site score */
+  weight?: number;
+}
+
+/**
+ * Serializable id and label of a check, for pickers in client components
+ */
+export interface CheckOption {
+  id: string;
+  label: string;
+}
@@ -10,6 +10,7 @@ export interface CrawlData {
   markdown: string;
   statusCode: number;
   responseTime: number;
+  headers?: Record<string, string>;
   screenshot: string | null;
   links: Array<{
     text: string;
@@ -25,18 +26,92 @@ export interface CrawlResponse {
   details?: string;
 }
 
+export interface SourceContext {
+  extract: string;
+  highlightStart?: number;
+  highlightLength?: number;
+}
+
+/**
+ * Rectangle on a rendered page, in CSS pixels from the top left of the document
+ */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CheckDetail {
+  type: "error" | "warning" | "info";
+  message: string;
+  /** Rule or category that produced the finding, e.g. an axe rule id */
+  ruleId?: string;
+  /** Snippet or selector of the offending element */
+  element?: string;
+  line?: number;
+  column?: number;
+  /** End of a finding that spans a range of the source */
+  endLine?: number;
+  endColumn?: number;
+  /** Source excerpt around the finding, with the offending part highlighted */
+  sourceContext?: SourceContext;
+  /** CSS selector of the offending element in the rendered page */
+  selector?: string;
+  /** Where the offending element is drawn in the rendered page */
+  boundingBox?: BoundingBox;
+  /** Impact level, for checks that grade their findings (e.g. axe) */
+  severity?: "critical" | "serious" | "moderate" | "minor";
+  /** Ranking, for checks that rank findings high to low (security, SEO, redirects) */
+  priority?: "high" | "medium" | "low";
+  /** WCAG success criteria or tags the finding fails */
+  wcagGuideline?: string;
+  /** HTTP response header the finding is about */
+  header?: string;
+}
+
+/**
+ * A live sub-step reported while a check is running
+ */
+export interface CheckProgressStep {
+  /** Steps with the same id replace each other (e.g. "axe rules 10/90" → "20/90") */
+  id: string;
+  message: string;
+  current?: number;
+  total?: number;
+  timestamp: number;
+}
+
 export interface HealthCheckResult {
   id: string;
   label: string;
   status: "pending" | "running" | "success" | "warning" | "error";
   score?: number;
   message: string;
-  details?: Array<{
-    type: "error" | "warning" | "info";
-    message: string;
-  }>;
+  details?: CheckDetail[];
   timestamp: number;
   reportId?: string;
   dataSource?: string;
   url?: string;
-}
\ No newline at end of file
+  recommendations?: string[];
+  /** Sub-steps streamed while the check is running */
+  steps?: CheckProgressStep[];
+}
+
+export type SiteDiscoverySource = "links" | "sitemap" | "both";
+
+export interface SiteCrawlOptions {
+  discovery: SiteDiscoverySource;
+  maxDepth: number;
+  maxPages: number;
+  include: string[];
+  exclude: string[];
+}
+
+export interface SitePageResult {
+  url: string;
+  depth: number;
+  title: string;
+  statusCode: number;
+  results: HealthCheckResult[];
+}
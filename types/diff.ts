@@ -0,0 +1,29 @@
+import type { CheckDetail } from "./crawl";
+
+export type IssueChange = "new" | "resolved" | "persisting";
+
+export interface IssueDiffEntry {
+  fingerprint: string;
+  change: IssueChange;
+  /** The issue as reported in the target run (the base run for resolved issues) */
+  detail: CheckDetail;
+}
+
+export interface CheckDiff {
+  checkId: string;
+  label: string;
+  baseScore?: number;
+  targetScore?: number;
+  scoreDelta?: number;
+  baseReportId?: string;
+  targetReportId?: string;
+  issues: IssueDiffEntry[];
+  counts: Record<IssueChange, number>;
+}
+
+export interface RunDiff {
+  url: string;
+  base: { runId: string; timestamp: number };
+  target: { runId: string; timestamp: number };
+  checks: CheckDiff[];
+}
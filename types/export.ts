@@ -0,0 +1,99 @@
+import type { CheckDetail, HealthCheckResult } from "./crawl";
+
+export type ReportExportFormat = "pdf" | "html";
+
+export type IssueExportFormat = "csv" | "json";
+
+export interface ReportExportOptions {
+  format: ReportExportFormat;
+  /** Defaults to "Website Health Report" */
+  title?: string;
+  /** Client named on the cover page */
+  preparedFor?: string;
+  /** Replaces the generated executive summary; blank lines separate paragraphs */
+  executiveSummary?: string;
+  coverPage: boolean;
+}
+
+/**
+ * An export ready to download; server actions can't return binary data
+ */
+export interface ReportExportFile {
+  filename: string;
+  contentType: string;
+  /** File content, base64-encoded */
+  data: string;
+}
+
+/**
+ * One issue in the flat issue export
+ */
+export interface IssueExportRow {
+  url: string;
+  checkId: string;
+  check: string;
+  type: CheckDetail["type"];
+  /** Impact (axe) or priority (security, SEO, redirects) when the check grades issues */
+  severity: string;
+  message: string;
+  element: string;
+  ruleId: string;
+  wcagGuideline: string;
+  line: number | null;
+  column: number | null;
+  dataSource: string;
+  /** ISO 8601 time the check ran */
+  timestamp: string;
+  reportId: string;
+}
+
+/**
+ * Agency branding from the REPORT_* environment variables
+ */
+export interface ReportBranding {
+  /** Shown on the cover and in footers */
+  name: string;
+  /** Accent color as #rrggbb */
+  color: string;
+  logo?: { mimeType: "image/png" | "image/jpeg"; data: string };
+}
+
+export interface ExportCheck {
+  checkId: string;
+  label: string;
+  status: HealthCheckResult["status"];
+  score?: number;
+  message: string;
+  dataSource?: string;
+  timestamp: number;
+  details: CheckDetail[];
+  recommendations: string[];
+  /** The findings were removed after the retention period */
+  expired: boolean;
+}
+
+/**
+ * Everything a renderer needs; PDF and HTML render the same document
+ */
+export interface ReportExportDocument {
+  title: string;
+  preparedFor?: string;
+  url: string;
+  runId: string;
+  /** When the run started */
+  runAt: number;
+  generatedAt: number;
+  branding: ReportBranding;
+  coverPage: boolean;
+  /** Paragraphs */
+  executiveSummary: string[];
+  summary: {
+    averageScore?: number;
+    passed: number;
+    warnings: number;
+    failed: number;
+    errorCount: number;
+    warningCount: number;
+  };
+  checks: ExportCheck[];
+}
@@ -0,0 +1,33 @@
+export type HealthGrade = "A" | "B" | "C" | "D" | "F";
+
+/**
+ * A check that counts towards the overall score
+ */
+export interface ScoredCheck {
+  id: string;
+  label: string;
+  score: number;
+  weight: number;
+  /** Points of the overall score lost to this check's shortfall from 100 */
+  pointsLost: number;
+}
+
+/**
+ * A finished check left out of the overall score
+ */
+export interface ExcludedCheck {
+  id: string;
+  label: string;
+  /** "failed": the check didn't produce a score; "simulated": placeholder data */
+  reason: "failed" | "simulated";
+  score?: number;
+}
+
+export interface OverallHealthScore {
+  /** Weighted average of the scored checks; undefined when none count */
+  score?: number;
+  grade?: HealthGrade;
+  /** Biggest drag on the score first */
+  checks: ScoredCheck[];
+  excluded: ExcludedCheck[];
+}
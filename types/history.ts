@@ -0,0 +1,37 @@
+import type { HealthCheckResult } from "./crawl";
+
+export interface ScanRunCheck {
+  checkId: string;
+  label: string;
+  status: HealthCheckResult["status"];
+  score?: number;
+  reportId: string;
+  /** Score change since the previous run that included this check */
+  delta?: number;
+  /** Score dropped by at least the regression threshold, or the status got worse */
+  regressed: boolean;
+}
+
+/**
+ * Checks that were run together for one URL
+ */
+export interface ScanRun {
+  runId: string;
+  url: string;
+  timestamp: number;
+  checks: ScanRunCheck[];
+}
+
+export interface ScoreSeries {
+  checkId: string;
+  label: string;
+  points: Array<{ runId: string; timestamp: number; score: number }>;
+}
+
+export interface ScanHistory {
+  url: string;
+  /** Newest first */
+  runs: ScanRun[];
+  /** One line per check, oldest point first */
+  series: ScoreSeries[];
+}
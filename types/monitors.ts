@@ -0,0 +1,33 @@
+import type { HealthCheckResult } from "./crawl";
+
+export type MonitorSchedule = "hourly" | "daily" | "weekly";
+
+export interface MonitorInput {
+  url: string;
+  schedule: MonitorSchedule;
+  /** Ids of the checks to run on every scheduled run */
+  checks: string[];
+}
+
+/**
+ * A URL registered for unattended, scheduled checks
+ */
+export interface Monitor extends MonitorInput {
+  id: string;
+  /** Paused monitors keep their settings but are skipped by the scheduler */
+  enabled: boolean;
+  createdAt: number;
+  nextRunAt: number;
+  lastRunAt?: number;
+  /** Run id of the latest run; its reports show in the URL's history */
+  lastRunId?: string;
+  /** Worst status among the latest run's checks */
+  lastStatus?: HealthCheckResult["status"];
+}
+
+export interface MonitorStore {
+  save(monitor: Monitor): Promise<void>;
+  get(monitorId: string): Promise<Monitor | null>;
+  list(): Promise<Monitor[]>;
+  delete(monitorId: string): Promise<void>;
+}
@@ -0,0 +1,46 @@
+import type { CrawlData, HealthCheckResult } from "./crawl";
+
+/**
+ * Page metadata from the crawl a report was produced from
+ * (the HTML, markdown and screenshot are not kept)
+ */
+export type ReportCrawlMetadata = Pick<
+  CrawlData,
+  "url" | "title" | "description" | "statusCode" | "responseTime"
+>;
+
+export interface StoredReport extends HealthCheckResult {
+  reportId: string;
+  url: string;
+  /** Groups the reports of checks that were run together */
+  runId?: string;
+  crawl?: ReportCrawlMetadata;
+  /** When the report was written to the store */
+  savedAt: number;
+  /** Set once the retention period has passed and the findings were dropped */
+  expiredAt?: number;
+}
+
+/**
+ * What the report page can show for a report id
+ */
+export type ReportLookup =
+  | { state: "found"; report: StoredReport }
+  | { state: "running"; report: StoredReport }
+  | { state: "expired"; report: StoredReport }
+  /** `report` is set when a run was started but never finished */
+  | { state: "not-found"; report?: StoredReport };
+
+export interface ReportListFilter {
+  /** Only reports for this URL (compared after normalization) */
+  url?: string;
+  /** Only reports of this run (reports without a run id are their own run) */
+  runId?: string;
+}
+
+export interface ReportStore {
+  save(report: StoredReport): Promise<void>;
+  get(reportId: string): Promise<StoredReport | null>;
+  list(filter?: ReportListFilter): Promise<StoredReport[]>;
+  delete(reportId: string): Promise<void>;
+}
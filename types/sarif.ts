@@ -0,0 +1,72 @@
+/**
+ * The subset of SARIF 2.1.0 written by the SARIF export
+ * (https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html)
+ */
+
+export type SarifLevel = "error" | "warning" | "note";
+
+export interface SarifLog {
+  $schema: string;
+  version: "2.1.0";
+  runs: SarifRun[];
+}
+
+export interface SarifRun {
+  tool: { driver: SarifDriver };
+  invocations: SarifInvocation[];
+  results: SarifResult[];
+  properties: { url: string };
+}
+
+export interface SarifDriver {
+  name: string;
+  informationUri?: string;
+  rules: SarifRule[];
+}
+
+export interface SarifRule {
+  /** `<check id>/<rule>`, e.g. "accessibility/image-alt" */
+  id: string;
+  shortDescription: { text: string };
+  helpUri?: string;
+  defaultConfiguration: { level: SarifLevel };
+  properties: {
+    tags: string[];
+    /** 0.0–10.0; code scanning ranks security rules by it */
+    "security-severity"?: string;
+  };
+}
+
+export interface SarifInvocation {
+  executionSuccessful: boolean;
+  startTimeUtc: string;
+  /** Checks that failed to run */
+  toolExecutionNotifications: Array<{ level: SarifLevel; message: { text: string } }>;
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: SarifLocation[];
+  /** Same fingerprint as run comparison, so dashboards track issues across runs */
+  partialFingerprints: { "issueFingerprint/v1": string };
+}
+
+export interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string };
+    region?: {
+      startLine: number;
+      startColumn?: number;
+      endLine?: number;
+      endColumn?: number;
+      snippet?: { text: string };
+    };
+    /** Surrounding source shown around the region */
+    contextRegion?: { startLine: number; snippet: { text: string } };
+  };
+  /** The offending element when there is no line to point at */
+  logicalLocations?: Array<{ fullyQualifiedName: string; kind: "element" }>;
+}